@@ -1,9 +1,10 @@
-import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 
 // Layout
 import { Layout } from './components/Layout';
+import { BranchProvider } from './components/BranchProvider';
+import { RequirePermission } from './components/RequirePermission';
 
 // Public Pages
 import { HomePage } from './pages/HomePage';
@@ -11,42 +12,80 @@ import { BookingPage } from './pages/BookingPage';
 import { ConfirmationPage } from './pages/ConfirmationPage';
 import { TrackPage } from './pages/TrackPage';
 import { VisitPage } from './pages/VisitPage';
+import { DisplayPage } from './pages/DisplayPage';
+import { KioskPage } from './pages/KioskPage';
 
 // Admin Pages
 import { AdminLoginPage } from './pages/admin/LoginPage';
+import { AdminResetPasswordPage } from './pages/admin/ResetPasswordPage';
 import { AdminDashboardPage } from './pages/admin/DashboardPage';
 import { AdminQueuePage } from './pages/admin/QueuePage';
 import { PatientProfilePage } from './pages/admin/PatientProfilePage';
 import { AdminPaymentsPage } from './pages/admin/PaymentsPage';
 import { AdminSearchPage } from './pages/admin/SearchPage';
 import { AdminSettingsPage } from './pages/admin/SettingsPage';
+import { AdminDoctorsPage } from './pages/admin/DoctorsPage';
+import { AdminStaffPage } from './pages/admin/StaffPage';
+import { AdminAuditLogPage } from './pages/admin/AuditLogPage';
 
 function App() {
   return (
     <Router>
       <div className="App">
-        <Layout>
-          <Routes>
-            {/* Public Routes */}
-            <Route path="/" element={<HomePage />} />
-            <Route path="/book" element={<BookingPage />} />
-            <Route path="/confirmation/:uid" element={<ConfirmationPage />} />
-            <Route path="/track" element={<TrackPage />} />
-            <Route path="/visit" element={<VisitPage />} />
+        <BranchProvider>
+          <Layout>
+            <Routes>
+              {/* Public Routes */}
+              <Route path="/" element={<HomePage />} />
+              <Route path="/book" element={<BookingPage />} />
+              <Route path="/confirmation/:uid" element={<ConfirmationPage />} />
+              <Route path="/track" element={<TrackPage />} />
+              <Route path="/visit" element={<VisitPage />} />
+              <Route path="/display" element={<DisplayPage />} />
+              <Route path="/kiosk" element={<KioskPage />} />
 
-            {/* Admin Routes */}
-            <Route path="/admin/login" element={<AdminLoginPage />} />
-            <Route path="/admin" element={<AdminDashboardPage />} />
-            <Route path="/admin/queue" element={<AdminQueuePage />} />
-            <Route path="/admin/patient/:uid" element={<PatientProfilePage />} />
-            <Route path="/admin/payments" element={<AdminPaymentsPage />} />
-            <Route path="/admin/search" element={<AdminSearchPage />} />
-            <Route path="/admin/settings" element={<AdminSettingsPage />} />
+              {/* Admin Routes; the admin layout signs staff in, each page then checks their role */}
+              <Route path="/admin/login" element={<AdminLoginPage />} />
+              <Route path="/admin/reset-password" element={<AdminResetPasswordPage />} />
+              <Route path="/admin" element={<AdminDashboardPage />} />
+              <Route
+                path="/admin/queue"
+                element={<RequirePermission permission="manage_queue"><AdminQueuePage /></RequirePermission>}
+              />
+              <Route
+                path="/admin/patient/:uid"
+                element={<RequirePermission permission="view_patients"><PatientProfilePage /></RequirePermission>}
+              />
+              <Route
+                path="/admin/payments"
+                element={<RequirePermission permission="manage_payments"><AdminPaymentsPage /></RequirePermission>}
+              />
+              <Route
+                path="/admin/search"
+                element={<RequirePermission permission="view_patients"><AdminSearchPage /></RequirePermission>}
+              />
+              <Route
+                path="/admin/doctors"
+                element={<RequirePermission permission="manage_clinic"><AdminDoctorsPage /></RequirePermission>}
+              />
+              <Route
+                path="/admin/staff"
+                element={<RequirePermission permission="manage_staff"><AdminStaffPage /></RequirePermission>}
+              />
+              <Route
+                path="/admin/audit"
+                element={<RequirePermission permission="view_audit_log"><AdminAuditLogPage /></RequirePermission>}
+              />
+              <Route
+                path="/admin/settings"
+                element={<RequirePermission permission="manage_clinic"><AdminSettingsPage /></RequirePermission>}
+              />
 
-            {/* Redirect unknown routes */}
-            <Route path="*" element={<Navigate to="/" replace />} />
-          </Routes>
-        </Layout>
+              {/* Redirect unknown routes */}
+              <Route path="*" element={<Navigate to="/" replace />} />
+            </Routes>
+          </Layout>
+        </BranchProvider>
 
         <Toaster
           position="top-right"
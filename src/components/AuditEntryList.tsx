@@ -0,0 +1,69 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { describeAuditAction, describeAuditSource, formatAuditField, formatAuditValue } from '../lib/audit';
+import { AuditEntry } from '../types';
+import { FileText, Pencil, PlusCircle, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface AuditEntryListProps {
+  entries: AuditEntry[];
+  // Links each entry to its visit, for lists spanning many visits
+  showVisit?: boolean;
+}
+
+const ACTION_ICONS = {
+  insert: { icon: PlusCircle, color: 'text-green-600 bg-green-100' },
+  update: { icon: Pencil, color: 'text-blue-600 bg-blue-100' },
+  delete: { icon: Trash2, color: 'text-red-600 bg-red-100' },
+};
+
+// Audit entries as a timeline, newest first, with each changed field's old and new value
+export const AuditEntryList: React.FC<AuditEntryListProps> = ({ entries, showVisit = false }) => (
+  <ol className="space-y-4">
+    {entries.map((entry) => {
+      const { icon: Icon, color } =
+        entry.table_name === 'prescriptions' && entry.action === 'insert'
+          ? { icon: FileText, color: 'text-purple-600 bg-purple-100' }
+          : ACTION_ICONS[entry.action];
+
+      return (
+        <li key={entry.id} className="flex space-x-4">
+          <div className={`w-9 h-9 rounded-full flex items-center justify-center flex-shrink-0 ${color}`}>
+            <Icon className="w-4 h-4" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+              <span className="font-semibold text-gray-900">{describeAuditAction(entry)}</span>
+              {showVisit && entry.visit_uid && (
+                <Link to={`/admin/patient/${entry.visit_uid}`} className="font-mono text-blue-600 hover:underline">
+                  {entry.visit_uid}
+                </Link>
+              )}
+              <span className="text-gray-600">by {entry.actor_name}</span>
+              <span className="text-gray-400">·</span>
+              <span className="text-gray-500">{describeAuditSource(entry.source)}</span>
+              <span className="text-gray-400">·</span>
+              <span className="text-gray-500">{format(new Date(entry.created_at), 'PP p')}</span>
+            </div>
+            <dl className="mt-2 space-y-1 text-sm">
+              {Object.entries(entry.changes).map(([field, change]) => (
+                <div key={field} className="flex flex-wrap gap-x-2">
+                  <dt className="text-gray-600">{formatAuditField(field)}:</dt>
+                  <dd className="text-gray-900 break-all">
+                    {entry.action !== 'insert' && (
+                      <>
+                        <span className="line-through text-gray-400">{formatAuditValue(change.old)}</span>
+                        <span className="mx-1 text-gray-400">→</span>
+                      </>
+                    )}
+                    {formatAuditValue(change.new)}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        </li>
+      );
+    })}
+  </ol>
+);
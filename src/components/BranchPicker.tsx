@@ -0,0 +1,29 @@
+import React from 'react';
+import { getActiveBranches, useBranch } from '../lib/branches';
+import { MapPin } from 'lucide-react';
+
+// Lets patients switch between the group's locations; hidden while there is only one
+export const BranchPicker: React.FC = () => {
+  const { branches, branch, selectBranch } = useBranch();
+  const activeBranches = getActiveBranches(branches);
+
+  if (activeBranches.length <= 1) return null;
+
+  return (
+    <label className="inline-flex items-center space-x-2 bg-white border border-gray-300 rounded-lg px-3 py-2 shadow-sm">
+      <MapPin className="w-4 h-4 text-blue-600" />
+      <span className="text-sm text-gray-600">Branch</span>
+      <select
+        value={branch?.id || ''}
+        onChange={(e) => selectBranch(e.target.value)}
+        className="text-sm font-medium text-gray-900 bg-transparent focus:outline-none"
+      >
+        {activeBranches.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
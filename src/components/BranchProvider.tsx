@@ -0,0 +1,48 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { db } from '../lib/data';
+import { BranchContext, pickInitialBranch, SELECTED_BRANCH_KEY } from '../lib/branches';
+import { Branch } from '../types';
+import toast from 'react-hot-toast';
+
+interface BranchProviderProps {
+  children: React.ReactNode;
+}
+
+// Loads the clinic's branches once and holds the one being viewed. Pages render only after this,
+// so they can read the branch straight away.
+export const BranchProvider: React.FC<BranchProviderProps> = ({ children }) => {
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [branchId, setBranchId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    db.branches
+      .list()
+      .then((list) => {
+        setBranches(list);
+        setBranchId(pickInitialBranch(list, window.location.search, localStorage.getItem(SELECTED_BRANCH_KEY))?.id ?? null);
+      })
+      .catch((error) => {
+        console.error('Error fetching branches:', error);
+        toast.error('Failed to load clinic branches');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const selectBranch = useCallback((id: string) => {
+    setBranchId(id);
+    localStorage.setItem(SELECTED_BRANCH_KEY, id);
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const branch = branches.find((candidate) => candidate.id === branchId) || null;
+
+  return <BranchContext.Provider value={{ branches, branch, selectBranch }}>{children}</BranchContext.Provider>;
+};
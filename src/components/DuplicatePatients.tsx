@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { db } from '../lib/data';
+import { findDuplicatePatients } from '../lib/patients';
+import { Patient, PatientMerge } from '../types';
+import { GitMerge, Phone, Undo2, Users } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+
+interface DuplicatePatientsProps {
+  branchId: string | null;
+}
+
+const describePatient = (patient: Patient) => `${patient.code} (${patient.name})`;
+
+// Records that look like the same person, with a merge into whichever should be kept, and recent merges to undo
+export const DuplicatePatients: React.FC<DuplicatePatientsProps> = ({ branchId }) => {
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [merges, setMerges] = useState<PatientMerge[]>([]);
+  const [loading, setLoading] = useState(true);
+  // The merge or undo in progress, so its buttons can't be pressed twice
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchData = async () => {
+    try {
+      const [patientList, mergeList] = await Promise.all([db.patients.list(branchId), db.patients.listMerges()]);
+      setPatients(patientList);
+      setMerges(mergeList);
+    } catch (error) {
+      console.error('Error fetching patient records:', error);
+      toast.error('Failed to check for duplicate patients');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [branchId]);
+
+  const duplicates = useMemo(() => findDuplicatePatients(patients), [patients]);
+
+  const handleMerge = async (survivor: Patient, merged: Patient) => {
+    if (
+      !window.confirm(
+        `Merge ${describePatient(merged)} into ${describePatient(survivor)}? Their visits and prescriptions will ` +
+          `move to ${survivor.code}. You can undo this afterwards.`
+      )
+    ) {
+      return;
+    }
+
+    setBusyId(merged.id);
+    try {
+      await db.patients.merge(survivor.id, merged.id);
+      toast.success(`${merged.code} merged into ${survivor.code}`);
+      await fetchData();
+    } catch (error) {
+      console.error('Error merging patients:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to merge patients');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleUndo = async (merge: PatientMerge) => {
+    if (!window.confirm(`Undo the merge of ${merge.merged_code} into ${merge.survivor_code}?`)) return;
+
+    setBusyId(merge.id);
+    try {
+      await db.patients.undoMerge(merge.id);
+      toast.success(`${merge.merged_code} restored`);
+      await fetchData();
+    } catch (error) {
+      console.error('Error undoing merge:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to undo merge');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) return null;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center space-x-2">
+            <Users className="w-5 h-5 text-orange-600" />
+            <span>Possible Duplicates</span>
+            {duplicates.length > 0 && (
+              <span className="text-base font-normal text-gray-600">({duplicates.length})</span>
+            )}
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Records with similar names, phone numbers, ages and genders. Choose the record to keep; the other's visits
+            and prescriptions move to it.
+          </p>
+        </div>
+
+        {duplicates.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No likely duplicates among {patients.length} patients</div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {duplicates.map(({ patients: pair, score, reasons }) => (
+              <li key={pair.map((patient) => patient.id).join(':')} className="p-6">
+                <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+                  <span className="px-2 py-0.5 rounded-full bg-orange-100 text-orange-800 font-medium">
+                    {Math.round(score * 100)}% match
+                  </span>
+                  <span className="text-gray-600">{reasons.join(' · ')}</span>
+                </div>
+                <div className="grid md:grid-cols-2 gap-4">
+                  {pair.map((patient, index) => {
+                    const other = pair[1 - index];
+                    return (
+                      <div key={patient.id} className="border border-gray-200 rounded-lg p-4 flex items-start justify-between">
+                        <div className="text-sm space-y-1">
+                          <div>
+                            <span className="font-mono text-blue-600 mr-2">{patient.code}</span>
+                            <span className="font-medium text-gray-900">{patient.name}</span>
+                          </div>
+                          <div className="text-gray-600 flex flex-wrap items-center gap-x-2">
+                            {patient.phone && (
+                              <span className="flex items-center">
+                                <Phone className="w-3 h-3 mr-1" />
+                                {patient.phone}
+                              </span>
+                            )}
+                            {patient.age && <span>{patient.age} years</span>}
+                            {patient.gender && <span className="capitalize">{patient.gender}</span>}
+                          </div>
+                          <div className="text-gray-500">Since {format(new Date(patient.created_at), 'PP')}</div>
+                        </div>
+                        <button
+                          onClick={() => handleMerge(patient, other)}
+                          disabled={busyId !== null}
+                          className="flex items-center space-x-1 text-sm bg-blue-600 text-white px-3 py-1.5 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          <GitMerge className="w-4 h-4" />
+                          <span>Keep this</span>
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {merges.length > 0 && (
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200">
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-xl font-semibold text-gray-900">Merge History</h2>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {merges.map((merge) => (
+              <li key={merge.id} className="p-4 flex flex-wrap items-center justify-between gap-2 text-sm">
+                <div className={merge.undone_at ? 'text-gray-400' : 'text-gray-900'}>
+                  <span className="font-mono">{merge.merged_code}</span> ({merge.merged_name}) into{' '}
+                  <span className="font-mono">{merge.survivor_code}</span>
+                  <span className="text-gray-500">
+                    {' '}
+                    · {merge.visit_ids.length} {merge.visit_ids.length === 1 ? 'visit' : 'visits'},{' '}
+                    {merge.prescription_ids.length}{' '}
+                    {merge.prescription_ids.length === 1 ? 'prescription' : 'prescriptions'} moved by {merge.merged_by} on{' '}
+                    {format(new Date(merge.created_at), 'PP p')}
+                  </span>
+                  {merge.undone_at && (
+                    <span className="text-gray-500">
+                      {' '}
+                      · undone by {merge.undone_by} on {format(new Date(merge.undone_at), 'PP p')}
+                    </span>
+                  )}
+                </div>
+                {!merge.undone_at && (
+                  <button
+                    onClick={() => handleUndo(merge)}
+                    disabled={busyId !== null}
+                    className="flex items-center space-x-1 text-blue-600 hover:text-blue-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Undo2 className="w-4 h-4" />
+                    <span>Undo</span>
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,16 +1,65 @@
-import React from 'react';
-import { useLocation, Link } from 'react-router-dom';
-import { Stethoscope, Home, Calendar, Search, Settings, Users, CreditCard } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { useLocation, useNavigate, Link, Navigate } from 'react-router-dom';
+import { db, StaffUser } from '../lib/data';
+import { useBranch } from '../lib/branches';
+import { hasPermission, Permission, STAFF_ROLE_LABELS, StaffContext } from '../lib/staff';
+import { Branch } from '../types';
+import {
+  Stethoscope,
+  Home,
+  Search,
+  Settings,
+  Users,
+  UserCog,
+  CreditCard,
+  MapPin,
+  LogOut,
+  KeyRound,
+  History,
+  ShieldOff,
+  LucideIcon,
+} from 'lucide-react';
+import toast from 'react-hot-toast';
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
+interface NavItem {
+  path: string;
+  icon: LucideIcon;
+  label: string;
+  exact?: boolean;
+  // Hidden from roles without it; unset items are shown to all staff
+  permission?: Permission;
+}
+
+const ADMIN_NAV_ITEMS: NavItem[] = [
+  { path: '/admin', icon: Home, label: 'Dashboard', exact: true },
+  { path: '/admin/queue', icon: Users, label: 'Live Queue', permission: 'manage_queue' },
+  { path: '/admin/payments', icon: CreditCard, label: 'Payments', permission: 'manage_payments' },
+  { path: '/admin/search', icon: Search, label: 'Search', permission: 'view_patients' },
+  { path: '/admin/doctors', icon: Stethoscope, label: 'Doctors', permission: 'manage_clinic' },
+  { path: '/admin/staff', icon: UserCog, label: 'Staff', permission: 'manage_staff' },
+  { path: '/admin/audit', icon: History, label: 'Audit Log', permission: 'view_audit_log' },
+  { path: '/admin/settings', icon: Settings, label: 'Settings', permission: 'manage_clinic' },
+];
+
+const FULL_SCREEN_PATHS = ['/display', '/kiosk'];
+
+// Admin pages used before signing in
+const SIGNED_OUT_ADMIN_PATHS = ['/admin/login', '/admin/reset-password'];
+
 export const Layout: React.FC<LayoutProps> = ({ children }) => {
   const location = useLocation();
   const isAdminPath = location.pathname.startsWith('/admin');
 
-  if (isAdminPath && location.pathname !== '/admin/login') {
+  // The waiting-room display and the check-in kiosk fill the whole screen, with no links away
+  if (FULL_SCREEN_PATHS.includes(location.pathname)) {
+    return <>{children}</>;
+  }
+
+  if (isAdminPath && !SIGNED_OUT_ADMIN_PATHS.includes(location.pathname)) {
     return <AdminLayout>{children}</AdminLayout>;
   }
 
@@ -18,6 +67,8 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
 };
 
 const PublicLayout: React.FC<LayoutProps> = ({ children }) => {
+  const { branch } = useBranch();
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-green-50 px-4 sm:px-6 lg:px-8">
       <header className="bg-white shadow-sm border-b border-blue-100">
@@ -28,12 +79,13 @@ const PublicLayout: React.FC<LayoutProps> = ({ children }) => {
             </div>
             <div>
               <h1 className="text-xl font-bold text-gray-900">X Clinic</h1>
-              <p className="text-sm text-gray-600">Smart Healthcare Solutions</p>
+              <p className="text-sm text-gray-600">{branch?.name || 'Smart Healthcare Solutions'}</p>
             </div>
           </Link>
         </div>
       </header>
-      <main className="max-w-6xl mx-auto py-8">
+      {/* Pages load everything for the branch when they mount, so switching branch remounts them */}
+      <main key={branch?.id} className="max-w-6xl mx-auto py-8">
         {children}
       </main>
     </div>
@@ -42,14 +94,46 @@ const PublicLayout: React.FC<LayoutProps> = ({ children }) => {
 
 const AdminLayout: React.FC<LayoutProps> = ({ children }) => {
   const location = useLocation();
+  const navigate = useNavigate();
+  const { branch, selectBranch } = useBranch();
+  // The signed-in staff member and the branches they are assigned to; null while loading
+  const [session, setSession] = useState<{ staff: StaffUser | null; branches: Branch[] } | null>(null);
+  const staff = session?.staff ?? null;
+  const managedBranches = session ? session.branches : null;
+
+  useEffect(() => {
+    Promise.all([db.auth.getCurrentUser(), db.branches.listManaged()])
+      .then(([currentStaff, branches]) => setSession({ staff: currentStaff, branches }))
+      .catch((error) => {
+        console.error('Error fetching staff access:', error);
+        setSession({ staff: null, branches: [] });
+      });
+  }, []);
+
+  // Staff only ever see a branch they are assigned to
+  const canManageBranch = Boolean(branch && managedBranches?.some((managed) => managed.id === branch.id));
+  useEffect(() => {
+    if (managedBranches?.length && !canManageBranch) {
+      selectBranch(managedBranches[0].id);
+    }
+  }, [managedBranches, canManageBranch, selectBranch]);
+
+  const handleSignOut = async () => {
+    try {
+      await db.auth.signOut();
+      navigate('/admin/login');
+    } catch (error) {
+      console.error('Sign out error:', error);
+      toast.error('Failed to sign out');
+    }
+  };
 
-  const navItems = [
-    { path: '/admin', icon: Home, label: 'Dashboard', exact: true },
-    { path: '/admin/queue', icon: Users, label: 'Live Queue' },
-    { path: '/admin/payments', icon: CreditCard, label: 'Payments' },
-    { path: '/admin/search', icon: Search, label: 'Search' },
-    { path: '/admin/settings', icon: Settings, label: 'Settings' },
-  ];
+  // Admin pages are for signed-in staff only
+  if (session && !staff) {
+    return <Navigate to="/admin/login" replace />;
+  }
+
+  const navItems = ADMIN_NAV_ITEMS.filter((item) => !item.permission || hasPermission(staff?.role, item.permission));
 
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col lg:flex-row">
@@ -79,6 +163,26 @@ const AdminLayout: React.FC<LayoutProps> = ({ children }) => {
           </div>
         </div>
         
+        {managedBranches && managedBranches.length > 1 && (
+          <div className="px-4 pt-4 lg:px-6 lg:pt-6">
+            <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">
+              <MapPin className="w-3 h-3 inline mr-1" />
+              Branch
+            </label>
+            <select
+              value={branch?.id || ''}
+              onChange={(e) => selectBranch(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {managedBranches.map((managed) => (
+                <option key={managed.id} value={managed.id}>
+                  {managed.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         <nav className="p-4 lg:p-6">
           <ul className="grid grid-cols-2 lg:grid-cols-1 gap-2 lg:space-y-2">
             {navItems.map((item) => {
@@ -104,11 +208,61 @@ const AdminLayout: React.FC<LayoutProps> = ({ children }) => {
             })}
           </ul>
         </nav>
+
+        {staff && (
+          <div className="px-4 pb-4 lg:px-6 lg:pb-6 flex items-center justify-between">
+            <div className="min-w-0">
+              <div className="text-sm font-medium text-gray-900 truncate">{staff.email}</div>
+              <div className="text-xs text-gray-500">{staff.role ? STAFF_ROLE_LABELS[staff.role] : 'No role'}</div>
+            </div>
+            <div className="flex items-center">
+              <Link
+                to="/admin/reset-password"
+                className="p-2 text-gray-500 hover:text-gray-900 hover:bg-gray-50 rounded-lg transition-colors"
+                title="Change password"
+              >
+                <KeyRound className="w-5 h-5" />
+              </Link>
+              <button
+                onClick={handleSignOut}
+                className="p-2 text-gray-500 hover:text-gray-900 hover:bg-gray-50 rounded-lg transition-colors"
+                title="Sign out"
+              >
+                <LogOut className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+        )}
       </aside>
       
       <main className="flex-1 overflow-auto">
-        <div className="p-4 lg:p-8">
-          {children}
+        <div key={branch?.id} className="p-4 lg:p-8">
+          {managedBranches === null || (managedBranches.length > 0 && !canManageBranch) ? (
+            <div className="flex items-center justify-center min-h-[60vh]">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : managedBranches.length === 0 ? (
+            <div className="bg-white rounded-xl shadow-lg p-8 text-center max-w-lg mx-auto mt-12">
+              <MapPin className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">No branch assigned</h2>
+              <p className="text-gray-600 mb-6">
+                Your account is not assigned to any branch yet. Ask an administrator to add you, or sign in with a different account.
+              </p>
+              <Link to="/admin/login" className="text-blue-600 hover:text-blue-700 font-medium">
+                Go to sign in
+              </Link>
+            </div>
+          ) : !staff?.role ? (
+            <div className="bg-white rounded-xl shadow-lg p-8 text-center max-w-lg mx-auto mt-12">
+              <ShieldOff className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">No role assigned</h2>
+              <p className="text-gray-600">
+                Your account does not have a role yet. Ask the clinic owner to give you one.
+              </p>
+            </div>
+          ) : (
+            <StaffContext.Provider value={staff}>{children}</StaffContext.Provider>
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,202 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CalendarClock, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { db } from '../lib/data';
+import {
+  buildDaySchedule,
+  getBookableDates,
+  getClosedReason,
+  getSelfServiceBlocker,
+  isSlotAvailable,
+  LOOKUP_PHONE_MIN_DIGITS,
+} from '../lib/scheduling';
+import { getDoctorSettings, getVisitDoctor, getVisitDoctorId } from '../lib/doctors';
+import { ClinicSettings, Doctor, PublicVisit } from '../types';
+import { SlotPicker } from './SlotPicker';
+
+interface ManageBookingProps {
+  visit: PublicVisit;
+  onUpdated: (visit: PublicVisit) => void;
+}
+
+// Lets a patient cancel or move their own upcoming booking after confirming the phone number it was booked with
+export const ManageBooking: React.FC<ManageBookingProps> = ({ visit, onUpdated }) => {
+  const [clinicSettings, setClinicSettings] = useState<ClinicSettings | null>(null);
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [phone, setPhone] = useState('');
+  const [rescheduling, setRescheduling] = useState(false);
+  const [newDate, setNewDate] = useState('');
+  const [newSlot, setNewSlot] = useState('');
+  const [bookedSlots, setBookedSlots] = useState<string[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    Promise.all([db.settings.get(visit.branch_id ?? null), db.doctors.list(visit.branch_id ?? null)])
+      .then(([clinic, doctorList]) => {
+        setClinicSettings(clinic);
+        setDoctors(doctorList);
+      })
+      .catch((error) => console.error('Error fetching clinic settings:', error));
+  }, [visit.branch_id]);
+
+  // The booking stays with its doctor, so only their hours and free slots are offered
+  const doctorId = getVisitDoctorId(visit, doctors);
+  const settings = useMemo(
+    () => (clinicSettings ? getDoctorSettings(clinicSettings, getVisitDoctor(visit, doctors)) : null),
+    [clinicSettings, doctors, visit]
+  );
+
+  useEffect(() => {
+    if (!newDate) return;
+
+    setSlotsLoading(true);
+    db.visits
+      .listBookedSlots(newDate, doctorId)
+      .then(setBookedSlots)
+      .catch((error) => {
+        console.error('Error fetching booked slots:', error);
+        toast.error('Failed to load available time slots');
+      })
+      .finally(() => setSlotsLoading(false));
+  }, [newDate, doctorId]);
+
+  const bookableDates = useMemo(() => getBookableDates(), []);
+
+  const schedule = useMemo(
+    () => (settings && newDate ? buildDaySchedule(settings, newDate, bookedSlots) : null),
+    [settings, newDate, bookedSlots]
+  );
+
+  if (visit.visit_status !== 'upcoming') return null;
+
+  const blocker = getSelfServiceBlocker(settings, visit);
+  if (blocker) {
+    return <p className="text-sm text-gray-500 text-center">{blocker}.</p>;
+  }
+
+  const hasPhone = phone.replace(/\D/g, '').length >= LOOKUP_PHONE_MIN_DIGITS;
+
+  const startRescheduling = () => {
+    if (!settings) return;
+    setRescheduling(true);
+    setNewDate(bookableDates.find((date) => !getClosedReason(settings, date)) || bookableDates[0]);
+    setNewSlot('');
+  };
+
+  const handleCancel = async () => {
+    if (!window.confirm('Cancel this booking? Your token will be released.')) return;
+
+    setSaving(true);
+    try {
+      const updated = await db.visits.cancelByPatient(visit.uid, { phone });
+      toast.success('Your booking has been cancelled');
+      onUpdated(updated);
+    } catch (error) {
+      console.error('Error cancelling booking:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel booking');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReschedule = async () => {
+    if (!settings || !newDate || !newSlot) {
+      toast.error('Please choose a new date and time slot');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Re-check the slot in case someone else booked it while the picker was open
+      const latestBookedSlots = await db.visits.listBookedSlots(newDate, doctorId);
+      if (!isSlotAvailable(buildDaySchedule(settings, newDate, latestBookedSlots), newSlot)) {
+        setBookedSlots(latestBookedSlots);
+        setNewSlot('');
+        toast.error('That slot was just taken. Please choose another time.');
+        return;
+      }
+
+      const updated = await db.visits.rescheduleByPatient(visit.uid, { phone }, newDate, newSlot);
+
+      toast.success('Your booking has been moved');
+      setRescheduling(false);
+      onUpdated(updated);
+    } catch (error) {
+      console.error('Error rescheduling booking:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to reschedule booking');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg space-y-4">
+      <h4 className="font-semibold text-gray-900">Manage Booking</h4>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Phone number you booked with</label>
+        <input
+          type="tel"
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+          placeholder="e.g., +91 98765 43210"
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+        />
+      </div>
+
+      {rescheduling ? (
+        <div className="space-y-4">
+          <SlotPicker
+            settings={settings}
+            dates={bookableDates}
+            schedule={schedule}
+            loading={slotsLoading}
+            selectedDate={newDate}
+            selectedSlot={newSlot}
+            onDateChange={(dateKey) => {
+              setNewDate(dateKey);
+              setNewSlot('');
+            }}
+            onSlotChange={setNewSlot}
+          />
+          <div className="flex space-x-3">
+            <button
+              onClick={handleReschedule}
+              disabled={saving || !hasPhone || !newSlot}
+              className="flex-1 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Confirm New Time'}
+            </button>
+            <button
+              onClick={() => setRescheduling(false)}
+              disabled={saving}
+              className="flex-1 border border-gray-300 text-gray-700 py-2 rounded-lg hover:bg-gray-50"
+            >
+              Back
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex space-x-3">
+          <button
+            onClick={startRescheduling}
+            disabled={saving || !hasPhone}
+            className="flex-1 flex items-center justify-center space-x-2 border border-blue-300 text-blue-700 py-2 rounded-lg hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <CalendarClock className="w-4 h-4" />
+            <span>Reschedule</span>
+          </button>
+          <button
+            onClick={handleCancel}
+            disabled={saving || !hasPhone}
+            className="flex-1 flex items-center justify-center space-x-2 border border-red-300 text-red-700 py-2 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <XCircle className="w-4 h-4" />
+            <span>Cancel Booking</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { ALLERGY_SEVERITY_LABELS, describeAllergy, describeMedication } from '../lib/medicalAlerts';
+import { AllergySeverity, PatientDetails } from '../types';
+import { AlertTriangle, Pill } from 'lucide-react';
+
+interface MedicalAlertChipsProps {
+  details: PatientDetails;
+  // Queue rows show allergies in full but only a count of medications
+  compact?: boolean;
+}
+
+const SEVERITY_STYLES: Record<AllergySeverity, string> = {
+  severe: 'bg-red-600 text-white',
+  moderate: 'bg-red-100 text-red-800',
+  mild: 'bg-yellow-100 text-yellow-800',
+};
+
+const chipClassName = 'flex items-center px-2 py-0.5 rounded-full text-xs font-medium';
+
+// Allergies and current medications as alert chips, including anything noted as free text before the lists existed
+export const MedicalAlertChips: React.FC<MedicalAlertChipsProps> = ({ details, compact = false }) => {
+  const allergies = details.allergy_list || [];
+  const medications = details.medication_list || [];
+  const hasMedicationNotes = !compact && Boolean(details.current_medications);
+  if (allergies.length === 0 && medications.length === 0 && !details.allergies && !hasMedicationNotes) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {allergies.map((allergy) => (
+        <span
+          key={allergy.substance}
+          className={`${chipClassName} ${SEVERITY_STYLES[allergy.severity]}`}
+          title={`${ALLERGY_SEVERITY_LABELS[allergy.severity]} allergy: ${describeAllergy(allergy)}`}
+        >
+          <AlertTriangle className="w-3 h-3 mr-1" />
+          {compact ? allergy.substance : describeAllergy(allergy)}
+        </span>
+      ))}
+      {details.allergies && (
+        <span
+          className={`${chipClassName} bg-orange-100 text-orange-800 ${compact ? 'max-w-[12rem] truncate' : ''}`}
+          title={`Allergy notes: ${details.allergies}`}
+        >
+          <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+          {details.allergies}
+        </span>
+      )}
+      {compact
+        ? medications.length > 0 && (
+            <span
+              className={`${chipClassName} bg-blue-100 text-blue-800`}
+              title={medications.map(describeMedication).join('\n')}
+            >
+              <Pill className="w-3 h-3 mr-1" />
+              {medications.length} {medications.length === 1 ? 'medication' : 'medications'}
+            </span>
+          )
+        : medications.map((medication) => (
+            <span key={medication.drug} className={`${chipClassName} bg-blue-100 text-blue-800`}>
+              <Pill className="w-3 h-3 mr-1" />
+              {describeMedication(medication)}
+            </span>
+          ))}
+      {hasMedicationNotes && (
+        <span className={`${chipClassName} bg-blue-50 text-blue-800`} title="Medication notes">
+          <Pill className="w-3 h-3 mr-1" />
+          {details.current_medications}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import {
+  ALLERGENS,
+  ALLERGY_SEVERITY_LABELS,
+  MEDICATION_FREQUENCY_LABELS,
+  describeAllergy,
+  describeMedication,
+  findAllergen,
+} from '../lib/medicalAlerts';
+import { normalizePatientName } from '../lib/patients';
+import { AllergyEntry, AllergySeverity, MedicationEntry, MedicationFrequency } from '../types';
+import { Plus, X } from 'lucide-react';
+
+const OTHER_ALLERGEN = 'other';
+
+const inputClassName =
+  'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+// These sit inside forms, so Enter adds the entry instead of submitting
+const handleEnter = (e: React.KeyboardEvent, action: () => void) => {
+  if (e.key !== 'Enter') return;
+  e.preventDefault();
+  action();
+};
+
+const EntryList: React.FC<{ entries: string[]; onRemove: (index: number) => void }> = ({ entries, onRemove }) =>
+  entries.length === 0 ? null : (
+    <ul className="flex flex-wrap gap-2">
+      {entries.map((entry, index) => (
+        <li
+          key={`${entry}-${index}`}
+          className="flex items-center space-x-1 bg-gray-100 text-gray-800 text-sm rounded-full pl-3 pr-1 py-1"
+        >
+          <span>{entry}</span>
+          <button
+            type="button"
+            onClick={() => onRemove(index)}
+            className="p-0.5 rounded-full text-gray-500 hover:text-gray-700 hover:bg-gray-200"
+            aria-label={`Remove ${entry}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+
+interface AllergyListEditorProps {
+  value: AllergyEntry[];
+  onChange: (value: AllergyEntry[]) => void;
+}
+
+// Coded allergies: pick a common allergen or type one in, with the reaction and how bad it is
+export const AllergyListEditor: React.FC<AllergyListEditorProps> = ({ value, onChange }) => {
+  const [code, setCode] = useState('');
+  const [substance, setSubstance] = useState('');
+  const [reaction, setReaction] = useState('');
+  const [severity, setSeverity] = useState<AllergySeverity>('moderate');
+
+  const name = code === OTHER_ALLERGEN ? substance.trim() : findAllergen(code)?.label ?? '';
+
+  const addAllergy = () => {
+    if (!name) return;
+    const entry: AllergyEntry = {
+      code: code === OTHER_ALLERGEN ? null : code,
+      substance: name,
+      reaction: reaction.trim() || null,
+      severity,
+    };
+    onChange([
+      ...value.filter((allergy) => normalizePatientName(allergy.substance) !== normalizePatientName(name)),
+      entry,
+    ]);
+    setCode('');
+    setSubstance('');
+    setReaction('');
+    setSeverity('moderate');
+  };
+
+  return (
+    <div className="space-y-2">
+      <EntryList
+        entries={value.map((allergy) => `${describeAllergy(allergy)} · ${ALLERGY_SEVERITY_LABELS[allergy.severity]}`)}
+        onRemove={(index) => onChange(value.filter((_, other) => other !== index))}
+      />
+      <div className="flex flex-wrap gap-2">
+        <select value={code} onChange={(e) => setCode(e.target.value)} className={inputClassName}>
+          <option value="">Add an allergy...</option>
+          {ALLERGENS.map((allergen) => (
+            <option key={allergen.code} value={allergen.code}>
+              {allergen.label}
+            </option>
+          ))}
+          <option value={OTHER_ALLERGEN}>Something else</option>
+        </select>
+        {code === OTHER_ALLERGEN && (
+          <input
+            type="text"
+            value={substance}
+            onChange={(e) => setSubstance(e.target.value)}
+            onKeyDown={(e) => handleEnter(e, addAllergy)}
+            className={inputClassName}
+            placeholder="Substance"
+          />
+        )}
+        {code && (
+          <>
+            <input
+              type="text"
+              value={reaction}
+              onChange={(e) => setReaction(e.target.value)}
+              onKeyDown={(e) => handleEnter(e, addAllergy)}
+              className={inputClassName}
+              placeholder="Reaction, e.g. rash"
+            />
+            <select
+              value={severity}
+              onChange={(e) => setSeverity(e.target.value as AllergySeverity)}
+              className={inputClassName}
+            >
+              {Object.entries(ALLERGY_SEVERITY_LABELS).map(([level, label]) => (
+                <option key={level} value={level}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={addAllergy}
+              disabled={!name}
+              className="flex items-center space-x-1 bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add</span>
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface MedicationListEditorProps {
+  value: MedicationEntry[];
+  onChange: (value: MedicationEntry[]) => void;
+}
+
+// Current medications with their dose and how often they are taken
+export const MedicationListEditor: React.FC<MedicationListEditorProps> = ({ value, onChange }) => {
+  const [drug, setDrug] = useState('');
+  const [dose, setDose] = useState('');
+  const [frequency, setFrequency] = useState<MedicationFrequency | ''>('');
+
+  const addMedication = () => {
+    const name = drug.trim();
+    if (!name) return;
+    const entry: MedicationEntry = { drug: name, dose: dose.trim() || null, frequency: frequency || null };
+    onChange([
+      ...value.filter((medication) => normalizePatientName(medication.drug) !== normalizePatientName(name)),
+      entry,
+    ]);
+    setDrug('');
+    setDose('');
+    setFrequency('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <EntryList
+        entries={value.map(describeMedication)}
+        onRemove={(index) => onChange(value.filter((_, other) => other !== index))}
+      />
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={drug}
+          onChange={(e) => setDrug(e.target.value)}
+          onKeyDown={(e) => handleEnter(e, addMedication)}
+          className={inputClassName}
+          placeholder="Medicine, e.g. Metformin"
+        />
+        <input
+          type="text"
+          value={dose}
+          onChange={(e) => setDose(e.target.value)}
+          onKeyDown={(e) => handleEnter(e, addMedication)}
+          className={`${inputClassName} w-28`}
+          placeholder="Dose, e.g. 500 mg"
+        />
+        <select
+          value={frequency}
+          onChange={(e) => setFrequency(e.target.value as MedicationFrequency | '')}
+          className={inputClassName}
+        >
+          <option value="">How often?</option>
+          {Object.entries(MEDICATION_FREQUENCY_LABELS).map(([key, label]) => (
+            <option key={key} value={key}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={addMedication}
+          disabled={!drug.trim()}
+          className="flex items-center space-x-1 bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add</span>
+        </button>
+      </div>
+    </div>
+  );
+};
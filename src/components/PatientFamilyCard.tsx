@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { db } from '../lib/data';
+import { GUARDIAN_RELATIONSHIP_LABELS } from '../lib/patients';
+import { Patient, PatientFamily } from '../types';
+import { Users } from 'lucide-react';
+
+interface PatientFamilyCardProps {
+  patient: Patient;
+}
+
+const FamilyMember: React.FC<{ member: Patient; role: string }> = ({ member, role }) => (
+  <li className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+    <div>
+      <span className="font-mono text-blue-600 mr-2">{member.code}</span>
+      <span className="font-medium text-gray-900">{member.name}</span>
+      {member.age && <span className="text-gray-600"> · {member.age} years</span>}
+    </div>
+    <span className="text-gray-600">{role}</span>
+  </li>
+);
+
+// Who books for the patient under their phone number, and who the patient books for
+export const PatientFamilyCard: React.FC<PatientFamilyCardProps> = ({ patient }) => {
+  const [family, setFamily] = useState<PatientFamily | null>(null);
+
+  useEffect(() => {
+    const fetchFamily = async () => {
+      try {
+        setFamily(await db.patients.getFamily(patient.id));
+      } catch (error) {
+        console.error('Error fetching family:', error);
+      }
+    };
+
+    fetchFamily();
+  }, [patient.id]);
+
+  if (!family || (!family.guardian && family.dependents.length === 0)) return null;
+
+  const relationship = patient.guardian_relationship && GUARDIAN_RELATIONSHIP_LABELS[patient.guardian_relationship];
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 space-y-4">
+      <h2 className="text-xl font-semibold text-gray-900 flex items-center space-x-2">
+        <Users className="w-5 h-5 text-blue-600" />
+        <span>Family</span>
+      </h2>
+      <ul className="space-y-2">
+        {family.guardian && (
+          <FamilyMember
+            member={family.guardian}
+            role={relationship ? `Guardian (patient is their ${relationship.toLowerCase()})` : 'Guardian'}
+          />
+        )}
+        {family.dependents.map((dependent) => (
+          <FamilyMember
+            key={dependent.id}
+            member={dependent}
+            role={
+              dependent.guardian_relationship
+                ? `Dependent (${GUARDIAN_RELATIONSHIP_LABELS[dependent.guardian_relationship].toLowerCase()})`
+                : 'Dependent'
+            }
+          />
+        ))}
+      </ul>
+    </div>
+  );
+};
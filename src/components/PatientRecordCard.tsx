@@ -0,0 +1,327 @@
+import React, { useEffect, useState } from 'react';
+import { db } from '../lib/data';
+import { diffAuditFields, formatAuditField, formatAuditValue } from '../lib/audit';
+import { describeAllergy, describeMedication } from '../lib/medicalAlerts';
+import { getPatientDetails, mergePatientDetails } from '../lib/patients';
+import { AllergyListEditor, MedicationListEditor } from './MedicalListEditor';
+import { MedicalAlertChips } from './MedicalAlertChips';
+import { AllergyEntry, MedicationEntry, Patient, PatientDetails, PatientVersion, Visit } from '../types';
+import { ClipboardCheck, History, Pencil, Save, UserCircle, X } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+
+interface PatientRecordCardProps {
+  patient: Patient;
+  // Receptionists and doctors keep the record up to date; everyone else only reads it
+  canEdit: boolean;
+  // Allergies, medications and medical history are hidden from staff who can't see clinical notes
+  showMedical: boolean;
+  // The booking on screen; details a patient entered when booking are only copied to the record once staff confirm
+  visit?: Visit | null;
+  onSaved: () => void;
+}
+
+type ListField = 'allergy_list' | 'medication_list';
+type TextField = Exclude<keyof PatientDetails, ListField>;
+type RecordForm = Record<TextField, string>;
+
+const DEMOGRAPHIC_FIELDS: TextField[] = [
+  'name',
+  'age',
+  'gender',
+  'phone',
+  'email',
+  'address',
+  'emergency_contact_name',
+  'emergency_contact_phone',
+];
+const MEDICAL_FIELDS: TextField[] = ['allergies', 'current_medications', 'medical_history'];
+const LIST_FIELDS: ListField[] = ['allergy_list', 'medication_list'];
+
+// The free-text fields hold notes alongside the coded lists
+const FIELD_LABELS: Partial<Record<keyof PatientDetails, string>> = {
+  allergies: 'Allergy notes',
+  current_medications: 'Medication notes',
+  allergy_list: 'Allergies',
+  medication_list: 'Current medications',
+};
+
+const getFieldLabel = (field: string) => FIELD_LABELS[field as keyof PatientDetails] || formatAuditField(field);
+
+const toForm = (patient: Patient): RecordForm =>
+  Object.fromEntries(
+    [...DEMOGRAPHIC_FIELDS, ...MEDICAL_FIELDS].map((field) => [field, patient[field] == null ? '' : String(patient[field])])
+  ) as RecordForm;
+
+// Record history shows list entries as they read on the chips rather than as raw data
+const formatVersionValue = (field: string, value: unknown): string => {
+  if (field === 'allergy_list' && Array.isArray(value)) return (value as AllergyEntry[]).map(describeAllergy).join('; ');
+  if (field === 'medication_list' && Array.isArray(value)) {
+    return (value as MedicationEntry[]).map(describeMedication).join('; ');
+  }
+  return formatAuditValue(value);
+};
+
+// The patient's details as kept across visits, with every earlier version and who changed it
+export const PatientRecordCard: React.FC<PatientRecordCardProps> = ({ patient, canEdit, showMedical, visit, onSaved }) => {
+  const [versions, setVersions] = useState<PatientVersion[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [form, setForm] = useState<RecordForm>(() => toForm(patient));
+  const [allergyList, setAllergyList] = useState<AllergyEntry[]>(patient.allergy_list || []);
+  const [medicationList, setMedicationList] = useState<MedicationEntry[]>(patient.medication_list || []);
+  const [saving, setSaving] = useState(false);
+
+  // Start each edit from the record as saved
+  useEffect(() => {
+    if (editing) return;
+    setForm(toForm(patient));
+    setAllergyList(patient.allergy_list || []);
+    setMedicationList(patient.medication_list || []);
+  }, [patient, editing]);
+
+  useEffect(() => {
+    db.patients
+      .listVersions(patient.id)
+      .then(setVersions)
+      .catch((error) => console.error('Error fetching patient versions:', error));
+  }, [patient.id, patient.version]);
+
+  const fields = showMedical ? [...DEMOGRAPHIC_FIELDS, ...MEDICAL_FIELDS] : DEMOGRAPHIC_FIELDS;
+  const visibleFields: (keyof PatientDetails)[] = showMedical ? [...fields, ...LIST_FIELDS] : fields;
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const details = getPatientDetails({
+        ...form,
+        name: form.name.trim(),
+        age: form.age ? parseInt(form.age) : null,
+        gender: (form.gender || null) as PatientDetails['gender'],
+        allergy_list: allergyList,
+        medication_list: medicationList,
+      });
+      // Only send what this member of staff could see, so hidden fields are never overwritten
+      await db.patients.update(
+        patient.id,
+        Object.fromEntries(visibleFields.map((field) => [field, details[field]]))
+      );
+      toast.success('Patient record updated');
+      setEditing(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error updating patient record:', error);
+      toast.error('Failed to update patient record');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // What copying the booking's details over would change, leaving out fields this member of staff can't see
+  const bookingChanges =
+    canEdit && visit?.patient_id === patient.id
+      ? Object.entries(diffAuditFields(getPatientDetails(patient), mergePatientDetails(patient, visit))).filter(
+          ([field]) => visibleFields.includes(field as keyof PatientDetails)
+        )
+      : [];
+
+  const handleApplyBooking = async () => {
+    setSaving(true);
+    try {
+      await db.patients.update(
+        patient.id,
+        Object.fromEntries(bookingChanges.map(([field, change]) => [field, change.new]))
+      );
+      toast.success('Patient record updated from this booking');
+      onSaved();
+    } catch (error) {
+      console.error('Error updating patient record:', error);
+      toast.error('Failed to update patient record');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Each version compared with the one before it, leaving out fields this member of staff can't see
+  const versionChanges = versions.map((version, index) => {
+    const previous = versions[index + 1];
+    const changes = diffAuditFields(previous ? previous.details : null, version.details);
+    return {
+      version,
+      changes: Object.entries(changes).filter(([field]) => visibleFields.includes(field as keyof PatientDetails)),
+    };
+  });
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-200">
+      <div className="flex items-center justify-between p-6 border-b border-gray-200">
+        <div className="flex items-center space-x-2">
+          <UserCircle className="w-5 h-5 text-gray-600" />
+          <h2 className="text-xl font-semibold text-gray-900">Patient Record</h2>
+          <span className="font-mono text-sm text-blue-600">{patient.code}</span>
+        </div>
+        {canEdit && !editing && (
+          <button
+            onClick={() => setEditing(true)}
+            className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+          >
+            <Pencil className="w-4 h-4" />
+            <span>Edit</span>
+          </button>
+        )}
+      </div>
+
+      <div className="p-6 space-y-6">
+        {editing ? (
+          <div className="space-y-4">
+            {showMedical && (
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Allergies</label>
+                  <AllergyListEditor value={allergyList} onChange={setAllergyList} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Current medications</label>
+                  <MedicationListEditor value={medicationList} onChange={setMedicationList} />
+                </div>
+              </div>
+            )}
+            <div className="grid md:grid-cols-2 gap-4">
+              {fields.map((field) => (
+                <div key={field} className={MEDICAL_FIELDS.includes(field) ? 'md:col-span-2' : ''}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{getFieldLabel(field)}</label>
+                  {field === 'gender' ? (
+                    <select
+                      value={form.gender}
+                      onChange={(e) => setForm({ ...form, gender: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">Not specified</option>
+                      <option value="male">Male</option>
+                      <option value="female">Female</option>
+                      <option value="other">Other</option>
+                    </select>
+                  ) : MEDICAL_FIELDS.includes(field) ? (
+                    <textarea
+                      value={form[field]}
+                      onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                      rows={2}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                    />
+                  ) : (
+                    <input
+                      type={field === 'age' ? 'number' : 'text'}
+                      value={form[field]}
+                      onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2 text-sm"
+              >
+                <Save className="w-4 h-4" />
+                <span>{saving ? 'Saving...' : 'Save Record'}</span>
+              </button>
+              <button
+                onClick={() => setEditing(false)}
+                disabled={saving}
+                className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2 text-sm"
+              >
+                <X className="w-4 h-4" />
+                <span>Cancel</span>
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {bookingChanges.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm">
+                <div className="font-medium text-amber-900 mb-2">This booking's details differ from the record</div>
+                <dl className="space-y-1 mb-3">
+                  {bookingChanges.map(([field, change]) => (
+                    <div key={field} className="flex flex-wrap gap-x-2">
+                      <dt className="text-gray-600">{getFieldLabel(field)}:</dt>
+                      <dd className="text-gray-900 break-all">
+                        <span className="line-through text-gray-400">{formatVersionValue(field, change.old)}</span>
+                        <span className="mx-1 text-gray-400">→</span>
+                        {formatVersionValue(field, change.new)}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+                <button
+                  onClick={handleApplyBooking}
+                  disabled={saving}
+                  className="bg-amber-600 text-white px-4 py-2 rounded-lg hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                >
+                  <ClipboardCheck className="w-4 h-4" />
+                  <span>{saving ? 'Saving...' : 'Update Record'}</span>
+                </button>
+              </div>
+            )}
+            {showMedical && <MedicalAlertChips details={patient} />}
+            <dl className="grid md:grid-cols-2 gap-x-6 gap-y-3 text-sm">
+              {fields.map((field) => (
+                <div key={field} className={MEDICAL_FIELDS.includes(field) ? 'md:col-span-2' : ''}>
+                  <dt className="text-gray-600">{getFieldLabel(field)}</dt>
+                  <dd className="text-gray-900 whitespace-pre-wrap">{form[field] || '—'}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+
+        {versionChanges.length > 0 && (
+          <div className="pt-4 border-t border-gray-200">
+            <h3 className="flex items-center space-x-2 text-sm font-semibold text-gray-900 mb-3">
+              <History className="w-4 h-4" />
+              <span>Record History</span>
+            </h3>
+            <ol className="space-y-3 text-sm">
+              {versionChanges.map(({ version, changes }) => (
+                <li key={version.id}>
+                  <div className="flex flex-wrap items-baseline gap-x-2">
+                    <span className="font-semibold text-gray-900">
+                      {version.version === 1 ? 'Record created' : `Version ${version.version}`}
+                    </span>
+                    <span className="text-gray-600">by {version.changed_by}</span>
+                    <span className="text-gray-400">·</span>
+                    <span className="text-gray-500">{format(new Date(version.created_at), 'PP p')}</span>
+                  </div>
+                  {version.version > 1 && (
+                    <dl className="mt-1 space-y-1">
+                      {changes.length === 0 ? (
+                        <div className="text-gray-500">No changes you can view</div>
+                      ) : (
+                        changes.map(([field, change]) => (
+                          <div key={field} className="flex flex-wrap gap-x-2">
+                            <dt className="text-gray-600">{getFieldLabel(field)}:</dt>
+                            <dd className="text-gray-900 break-all">
+                              <span className="line-through text-gray-400">{formatVersionValue(field, change.old)}</span>
+                              <span className="mx-1 text-gray-400">→</span>
+                              {formatVersionValue(field, change.new)}
+                            </dd>
+                          </div>
+                        ))
+                      )}
+                    </dl>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
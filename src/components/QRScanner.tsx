@@ -1,7 +1,10 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Html5QrcodeScanner, Html5QrcodeScannerConfig } from 'html5-qrcode';
+import { Html5QrcodeScanner } from 'html5-qrcode';
 import { Camera, X } from 'lucide-react';
 
+// The package index doesn't export the scanner's config type
+type Html5QrcodeScannerConfig = ConstructorParameters<typeof Html5QrcodeScanner>[1];
+
 interface QRScannerProps {
   onScan: (data: string) => void;
   onClose: () => void;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Permission, STAFF_ROLE_LABELS, useCan, useStaff } from '../lib/staff';
+import { ShieldOff } from 'lucide-react';
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: React.ReactNode;
+}
+
+// Guards an admin route; staff whose role lacks the permission see a notice instead of the page
+export const RequirePermission: React.FC<RequirePermissionProps> = ({ permission, children }) => {
+  const staff = useStaff();
+  const allowed = useCan(permission);
+
+  if (allowed) return <>{children}</>;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 text-center max-w-lg mx-auto mt-12">
+      <ShieldOff className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">Not available for your role</h2>
+      <p className="text-gray-600 mb-6">
+        {staff.role ? `${STAFF_ROLE_LABELS[staff.role]}s` : 'Your account'} cannot open this page. Ask the clinic owner if
+        you need access.
+      </p>
+      <Link to="/admin" className="text-blue-600 hover:text-blue-700 font-medium">
+        Back to dashboard
+      </Link>
+    </div>
+  );
+};
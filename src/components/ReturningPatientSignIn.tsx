@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { db, isLocalBackend } from '../lib/data';
+import { BOOKING_CODE_LENGTH } from '../lib/bookingCodes';
+import { GUARDIAN_RELATIONSHIP_LABELS } from '../lib/patients';
+import { BookingProfile } from '../types';
+import { KeyRound, Phone, User, UserPlus, X } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+
+interface ReturningPatientSignInProps {
+  onSelect: (profile: BookingProfile) => void;
+  // Booking for a child or someone else not yet on file, under the given guardian
+  onAddDependent: (guardian: BookingProfile) => void;
+  onCancel: () => void;
+}
+
+type Step = 'phone' | 'code' | 'profiles';
+
+// "I've visited before": the patient proves they own their phone number with a texted code, then picks who the
+// booking is for from everyone who has booked with that number
+export const ReturningPatientSignIn: React.FC<ReturningPatientSignInProps> = ({ onSelect, onAddDependent, onCancel }) => {
+  const [step, setStep] = useState<Step>('phone');
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
+  const [profiles, setProfiles] = useState<BookingProfile[]>([]);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  // Whoever books for themselves with this phone number, who new dependents are booked under
+  const guardian = profiles.find((profile) => !profile.guardian_id);
+
+  const sendCode = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      await db.patients.sendBookingCode(phone);
+      setCode('');
+      setStep('code');
+      toast.success('If you have booked with this number before, we have texted you a code');
+    } catch (sendError) {
+      console.error('Error sending booking code:', sendError);
+      setError(sendError instanceof Error ? sendError.message : 'The code could not be sent. Please try again');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const verifyCode = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const found = await db.patients.verifyBookingCode(phone, code);
+      if (found.length === 0) {
+        setError("We couldn't find any bookings with this number. Please fill in the form below");
+        return;
+      }
+      setProfiles(found);
+      setStep('profiles');
+    } catch (verifyError) {
+      console.error('Error verifying booking code:', verifyError);
+      setError(verifyError instanceof Error ? verifyError.message : 'The code could not be checked. Please try again');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // This sits inside the booking form, so Enter must not submit the booking
+  const handleEnter = (e: React.KeyboardEvent, action: () => void) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    action();
+  };
+
+  return (
+    <div className="border border-blue-200 bg-blue-50 rounded-lg p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">Welcome back</h3>
+        <button type="button" onClick={onCancel} className="text-gray-500 hover:text-gray-700" aria-label="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {step === 'phone' && (
+        <div className="space-y-3">
+          <label className="block text-sm font-medium text-gray-700">
+            <Phone className="w-4 h-4 inline mr-1" />
+            The phone number you booked with
+          </label>
+          <div className="flex space-x-2">
+            <input
+              type="tel"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              onKeyDown={(e) => handleEnter(e, sendCode)}
+              className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="10-digit mobile number"
+              autoFocus
+            />
+            <button
+              type="button"
+              onClick={sendCode}
+              disabled={loading || !phone.trim()}
+              className="bg-blue-600 text-white px-5 py-3 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {loading ? 'Sending...' : 'Send Code'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'code' && (
+        <div className="space-y-3">
+          <label className="block text-sm font-medium text-gray-700">
+            <KeyRound className="w-4 h-4 inline mr-1" />
+            Enter the {BOOKING_CODE_LENGTH}-digit code sent to {phone}
+          </label>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={BOOKING_CODE_LENGTH}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              onKeyDown={(e) => handleEnter(e, verifyCode)}
+              className="flex-1 px-4 py-3 border border-gray-300 rounded-lg font-mono tracking-widest focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              autoFocus
+            />
+            <button
+              type="button"
+              onClick={verifyCode}
+              disabled={loading || code.length !== BOOKING_CODE_LENGTH}
+              className="bg-blue-600 text-white px-5 py-3 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {loading ? 'Checking...' : 'Verify'}
+            </button>
+          </div>
+          <div className="flex space-x-4 text-sm">
+            <button type="button" onClick={sendCode} disabled={loading} className="text-blue-600 hover:underline">
+              Send a new code
+            </button>
+            <button type="button" onClick={() => setStep('phone')} className="text-gray-600 hover:underline">
+              Change number
+            </button>
+          </div>
+          {isLocalBackend && (
+            <p className="text-xs text-gray-500">Demo mode: the code is printed in the browser console.</p>
+          )}
+        </div>
+      )}
+
+      {step === 'profiles' && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-700">Who is this booking for?</p>
+          <div className="grid md:grid-cols-2 gap-3">
+            {profiles.map((profile) => (
+              <button
+                key={profile.id}
+                type="button"
+                onClick={() => onSelect(profile)}
+                className="flex items-center space-x-3 text-left bg-white border border-gray-300 rounded-lg p-4 hover:border-blue-500 transition-colors"
+              >
+                <div className="w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center flex-shrink-0">
+                  <User className="w-5 h-5 text-blue-600" />
+                </div>
+                <div>
+                  <div className="font-medium text-gray-900">{profile.name}</div>
+                  <div className="text-sm text-gray-600">
+                    {[
+                      profile.guardian_relationship && GUARDIAN_RELATIONSHIP_LABELS[profile.guardian_relationship],
+                      profile.age && `${profile.age} years`,
+                      profile.gender,
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </div>
+                  {profile.last_visit_at && (
+                    <div className="text-xs text-gray-500">
+                      Last visit {format(new Date(profile.last_visit_at), 'PP')}
+                    </div>
+                  )}
+                </div>
+              </button>
+            ))}
+            {guardian && (
+              <button
+                type="button"
+                onClick={() => onAddDependent(guardian)}
+                className="flex items-center space-x-3 text-left bg-white border border-dashed border-gray-300 rounded-lg p-4 hover:border-blue-500 transition-colors"
+              >
+                <div className="w-10 h-10 rounded-full bg-gray-100 flex items-center justify-center flex-shrink-0">
+                  <UserPlus className="w-5 h-5 text-gray-600" />
+                </div>
+                <div>
+                  <div className="font-medium text-gray-900">Someone else</div>
+                  <div className="text-sm text-gray-600">A child or someone {guardian.name} looks after</div>
+                </div>
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
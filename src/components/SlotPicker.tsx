@@ -0,0 +1,123 @@
+import React from 'react';
+import { Calendar, Clock } from 'lucide-react';
+import { format } from 'date-fns';
+import { formatTimeKey, fromDateKey } from '../lib/dates';
+import { DaySchedule, getClosedReason } from '../lib/scheduling';
+import { ClinicSettings } from '../types';
+
+interface SlotPickerProps {
+  settings: ClinicSettings | null;
+  dates: string[];
+  schedule: DaySchedule | null;
+  loading: boolean;
+  selectedDate: string;
+  selectedSlot: string;
+  onDateChange: (dateKey: string) => void;
+  onSlotChange: (time: string) => void;
+}
+
+// Date strip and slot grid shared by booking and rescheduling
+export const SlotPicker: React.FC<SlotPickerProps> = ({
+  settings,
+  dates,
+  schedule,
+  loading,
+  selectedDate,
+  selectedSlot,
+  onDateChange,
+  onSlotChange,
+}) => {
+  return (
+    <>
+      {/* Appointment Date */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">
+          <Calendar className="w-4 h-4 inline mr-1" />
+          Appointment Date *
+        </label>
+        <div className="flex space-x-2 overflow-x-auto pb-2">
+          {dates.map((dateKey) => {
+            const date = fromDateKey(dateKey);
+            const closed = settings ? Boolean(getClosedReason(settings, dateKey)) : true;
+            const selected = dateKey === selectedDate;
+
+            return (
+              <button
+                key={dateKey}
+                type="button"
+                onClick={() => onDateChange(dateKey)}
+                disabled={closed}
+                className={`flex-shrink-0 w-16 py-3 rounded-lg border text-center transition-all ${
+                  selected
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-gray-300 hover:border-gray-400 text-gray-700'
+                } disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:border-gray-300`}
+              >
+                <div className="text-xs uppercase">{format(date, 'EEE')}</div>
+                <div className="text-lg font-semibold">{format(date, 'd')}</div>
+                <div className="text-xs">{format(date, 'MMM')}</div>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Time Slot */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">
+          <Clock className="w-4 h-4 inline mr-1" />
+          Time Slot *
+        </label>
+
+        {loading || !schedule ? (
+          <div className="flex items-center justify-center py-6">
+            <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : !schedule.isOpen ? (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            {schedule.closedReason}. Please pick another date.
+          </div>
+        ) : schedule.remaining === 0 ? (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            All slots on {format(fromDateKey(schedule.dateKey), 'EEEE, MMMM d')} are booked. Please pick another date.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {[...new Set(schedule.slots.map((slot) => slot.session))].map((session) => {
+              const sessionSlots = schedule.slots.filter((slot) => slot.session === session);
+
+              return (
+                <div key={session}>
+                  <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">
+                    {session}
+                  </div>
+                  <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-2">
+                    {sessionSlots.map((slot) => (
+                      <button
+                        key={slot.time}
+                        type="button"
+                        onClick={() => onSlotChange(slot.time)}
+                        disabled={!slot.available}
+                        title={slot.booked >= slot.capacity ? 'Fully booked' : undefined}
+                        className={`py-2 rounded-lg border text-sm font-medium transition-all ${
+                          selectedSlot === slot.time
+                            ? 'border-blue-500 bg-blue-600 text-white'
+                            : 'border-gray-300 text-gray-700 hover:border-blue-400'
+                        } disabled:bg-gray-100 disabled:text-gray-400 disabled:border-gray-200 disabled:line-through disabled:cursor-not-allowed`}
+                      >
+                        {formatTimeKey(slot.time)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+            <p className="text-xs text-gray-500">
+              {schedule.remaining} {schedule.remaining === 1 ? 'slot' : 'slots'} left on this day
+            </p>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
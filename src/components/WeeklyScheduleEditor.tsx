@@ -0,0 +1,117 @@
+import React from 'react';
+import { Copy, Plus, Trash2 } from 'lucide-react';
+import { mapWeekdays, WEEKDAYS } from '../lib/scheduling';
+import { ScheduleSession, Weekday, WeeklySchedule } from '../types';
+
+interface WeeklyScheduleEditorProps {
+  schedule: WeeklySchedule;
+  onChange: (schedule: WeeklySchedule) => void;
+}
+
+// Sessions for each day of the week, shared by the clinic's hours and each doctor's own hours
+export const WeeklyScheduleEditor: React.FC<WeeklyScheduleEditorProps> = ({ schedule, onChange }) => {
+  const updateSession = (day: Weekday, index: number, changes: Partial<ScheduleSession>) => {
+    onChange({
+      ...schedule,
+      [day]: schedule[day].map((session, i) => (i === index ? { ...session, ...changes } : session)),
+    });
+  };
+
+  const addSession = (day: Weekday) => {
+    const last = schedule[day][schedule[day].length - 1];
+    const session: ScheduleSession = last
+      ? { label: 'Evening', start: '17:00', end: '21:00' }
+      : { label: 'Morning', start: '09:00', end: '13:00' };
+    onChange({ ...schedule, [day]: [...schedule[day], session] });
+  };
+
+  const removeSession = (day: Weekday, index: number) => {
+    onChange({ ...schedule, [day]: schedule[day].filter((_, i) => i !== index) });
+  };
+
+  const copyToAllDays = (source: Weekday) => {
+    onChange(mapWeekdays(() => schedule[source].map((session) => ({ ...session }))));
+  };
+
+  return (
+    <div className="space-y-4">
+      {WEEKDAYS.map((day) => (
+        <div key={day} className="flex flex-col md:flex-row md:items-start gap-3 pb-4 border-b border-gray-100 last:border-0">
+          <div className="md:w-32 pt-2">
+            <div className="font-medium text-gray-900">{day}</div>
+            {schedule[day].length === 0 && <div className="text-xs text-gray-500">Closed</div>}
+          </div>
+
+          <div className="flex-1 space-y-2">
+            {schedule[day].map((session, index) => (
+              <div key={index} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-center">
+                <input
+                  type="text"
+                  value={session.label}
+                  onChange={(e) => updateSession(day, index, { label: e.target.value })}
+                  aria-label={`${day} session name`}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Morning"
+                />
+                <input
+                  type="time"
+                  value={session.start}
+                  onChange={(e) => updateSession(day, index, { start: e.target.value })}
+                  aria-label={`${day} ${session.label} start`}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input
+                  type="time"
+                  value={session.end}
+                  onChange={(e) => updateSession(day, index, { end: e.target.value })}
+                  aria-label={`${day} ${session.label} end`}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input
+                  type="number"
+                  min="1"
+                  value={session.capacity ?? ''}
+                  onChange={(e) =>
+                    updateSession(day, index, { capacity: e.target.value ? parseInt(e.target.value) : undefined })
+                  }
+                  aria-label={`${day} ${session.label} capacity`}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Capacity"
+                />
+                <button
+                  type="button"
+                  onClick={() => removeSession(day, index)}
+                  className="justify-self-start p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                  title="Remove session"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+
+            <div className="flex items-center space-x-4 text-sm">
+              <button
+                type="button"
+                onClick={() => addSession(day)}
+                className="flex items-center space-x-1 text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add session</span>
+              </button>
+              {schedule[day].length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => copyToAllDays(day)}
+                  className="flex items-center space-x-1 text-gray-600 hover:text-gray-800"
+                >
+                  <Copy className="w-4 h-4" />
+                  <span>Copy to all days</span>
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
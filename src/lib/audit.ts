@@ -0,0 +1,115 @@
+import { AuditEntry, AuditFieldChange } from '../types';
+
+// Bookkeeping fields left out of the audit log. Queue positions change whenever the queue is renumbered and
+// manual moves are kept in queue_moves. Keep in sync with record_audit_entry() in the Supabase migrations.
+const IGNORED_FIELDS = ['updated_at', 'queue_position', 'access_key'];
+
+const isEmpty = (value: unknown) => value === null || value === undefined;
+
+// The fields that differ between two versions of a row; `before` is null for new rows and `after` for deleted ones
+export const diffAuditFields = (before: object | null, after: object | null): Record<string, AuditFieldChange> => {
+  const oldRow = (before || {}) as Record<string, unknown>;
+  const newRow = (after || {}) as Record<string, unknown>;
+  const changes: Record<string, AuditFieldChange> = {};
+
+  new Set([...Object.keys(oldRow), ...Object.keys(newRow)]).forEach((field) => {
+    if (IGNORED_FIELDS.includes(field)) return;
+
+    const oldValue = isEmpty(oldRow[field]) ? null : oldRow[field];
+    const newValue = isEmpty(newRow[field]) ? null : newRow[field];
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[field] = { old: oldValue, new: newValue };
+    }
+  });
+
+  return changes;
+};
+
+export type AuditCategory = 'status' | 'payment' | 'clinical' | 'prescription' | 'booking';
+
+export const AUDIT_CATEGORY_LABELS: Record<AuditCategory, string> = {
+  status: 'Visit status',
+  payment: 'Payment',
+  clinical: 'Clinical notes',
+  prescription: 'Prescriptions',
+  booking: 'Booking details',
+};
+
+const FIELD_CATEGORIES: Record<string, AuditCategory> = {
+  visit_status: 'status',
+  arrived_at: 'status',
+  called_at: 'status',
+  call_count: 'status',
+  consultation_start_time: 'status',
+  consultation_end_time: 'status',
+  completed_at: 'status',
+  cancelled_at: 'status',
+  cancellation_reason: 'status',
+  no_show_at: 'status',
+  requeued_at: 'status',
+  payment_method: 'payment',
+  payment_status: 'payment',
+  payment_id: 'payment',
+  payment_amount: 'payment',
+  symptoms: 'clinical',
+  medical_history: 'clinical',
+  allergies: 'clinical',
+  current_medications: 'clinical',
+  allergy_list: 'clinical',
+  medication_list: 'clinical',
+  notes: 'clinical',
+  diagnosis: 'clinical',
+  treatment_plan: 'clinical',
+  follow_up_date: 'clinical',
+  follow_up_instructions: 'clinical',
+  prescription_id: 'prescription',
+  prescription_url: 'prescription',
+  prescription_notes: 'prescription',
+};
+
+// What an entry touched, for filtering; prescription rows count as prescriptions whatever their fields
+export const getAuditCategories = (entry: AuditEntry): AuditCategory[] => {
+  if (entry.table_name === 'prescriptions') return ['prescription'];
+  return [...new Set(Object.keys(entry.changes).map((field) => FIELD_CATEGORIES[field] || 'booking'))];
+};
+
+export const describeAuditAction = (entry: AuditEntry): string => {
+  const subject = entry.table_name === 'prescriptions' ? 'Prescription' : 'Visit';
+  if (entry.action === 'insert') return entry.table_name === 'prescriptions' ? 'Prescription issued' : 'Visit booked';
+  if (entry.action === 'delete') return `${subject} deleted`;
+  return `${subject} updated`;
+};
+
+export const formatAuditField = (field: string): string =>
+  field.replace(/_/g, ' ').replace(/^\w/, (letter) => letter.toUpperCase());
+
+// Long values such as prescription files are cut short; the full value stays in the log
+const MAX_VALUE_LENGTH = 80;
+
+export const formatAuditValue = (value: unknown): string => {
+  if (isEmpty(value) || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+// Pages changes are made from, by their first path segment (first two under /admin)
+const SOURCE_LABELS: Record<string, string> = {
+  '/admin': 'Dashboard',
+  '/admin/patient': 'Patient profile',
+  '/admin/queue': 'Live queue',
+  '/admin/payments': 'Payments',
+  '/admin/search': 'Search',
+  '/admin/settings': 'Settings',
+  '/book': 'Online booking',
+  '/confirmation': 'Booking confirmation',
+  '/track': 'Track page',
+  '/visit': 'Visit page',
+  '/kiosk': 'Check-in kiosk',
+};
+
+export const describeAuditSource = (source: string | null): string => {
+  if (!source) return 'Unknown page';
+  const segments = source.split('/');
+  const section = segments.slice(0, segments[1] === 'admin' ? 3 : 2).join('/');
+  return SOURCE_LABELS[section] || source;
+};
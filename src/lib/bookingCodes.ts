@@ -0,0 +1,21 @@
+// One-time codes that let a returning patient book with the details on file. Keep in sync with
+// create_booking_code() and verify_booking_code() in the Supabase migrations.
+export const BOOKING_CODE_LENGTH = 6;
+export const BOOKING_CODE_TTL_MINUTES = 10;
+// Wrong guesses allowed per code before a new one must be requested
+export const BOOKING_CODE_MAX_ATTEMPTS = 5;
+// Codes a phone number can be sent in one TTL window, so the form can't be used to flood someone with texts
+export const BOOKING_CODE_MAX_SENDS = 3;
+
+export type BookingCodeStatus = 'verified' | 'incorrect' | 'expired' | 'locked';
+
+export const BOOKING_CODE_ERRORS: Record<Exclude<BookingCodeStatus, 'verified'>, string> = {
+  incorrect: "That code isn't right. Please check the text message and try again",
+  expired: 'This code has expired. Please ask for a new one',
+  locked: 'Too many wrong codes. Please ask for a new one',
+};
+
+export const TOO_MANY_CODES_ERROR = 'Too many codes requested. Please wait a few minutes and try again';
+
+export const buildBookingCodeMessage = (code: string): string =>
+  `${code} is your booking code. It expires in ${BOOKING_CODE_TTL_MINUTES} minutes. Don't share it with anyone.`;
@@ -0,0 +1,38 @@
+import { createContext, useContext } from 'react';
+import { Branch } from '../types';
+
+// Branch codes start every UID booked there, so they are kept short and distinct from doctor codes
+export const BRANCH_CODE_PATTERN = /^[A-Z]{2,4}$/;
+
+// The branch last picked on this device, so returning patients land on it
+export const SELECTED_BRANCH_KEY = 'xclinic_branch';
+
+export interface BranchState {
+  // Every branch, including inactive ones, in display order
+  branches: Branch[];
+  // The branch the current page works with; null only when the group has no branches yet
+  branch: Branch | null;
+  selectBranch: (branchId: string) => void;
+}
+
+export const BranchContext = createContext<BranchState | null>(null);
+
+export const useBranch = (): BranchState => {
+  const state = useContext(BranchContext);
+  if (!state) throw new Error('useBranch must be used inside BranchProvider');
+  return state;
+};
+
+export const getActiveBranches = (branches: Branch[]): Branch[] => branches.filter((branch) => branch.is_active);
+
+// A `?branch=CODE` link wins, then the branch last picked on this device, then the first active branch
+export const pickInitialBranch = (branches: Branch[], search: string, storedId: string | null): Branch | null => {
+  const code = new URLSearchParams(search).get('branch')?.toUpperCase();
+  return (
+    (code && branches.find((branch) => branch.code === code)) ||
+    branches.find((branch) => branch.id === storedId) ||
+    getActiveBranches(branches)[0] ||
+    branches[0] ||
+    null
+  );
+};
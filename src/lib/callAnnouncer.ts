@@ -0,0 +1,101 @@
+import { ClinicSettings } from '../types';
+
+export const DEFAULT_CALL_TEMPLATE = 'Token {token}, please proceed to {room}';
+export const DEFAULT_CALL_LANGUAGE = 'en-IN';
+export const DEFAULT_CONSULTATION_ROOM = 'Room 1';
+
+export const CALL_LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en-IN', label: 'English (India)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'hi-IN', label: 'Hindi' },
+  { code: 'bn-IN', label: 'Bengali' },
+  { code: 'mr-IN', label: 'Marathi' },
+  { code: 'ta-IN', label: 'Tamil' },
+  { code: 'te-IN', label: 'Telugu' },
+  { code: 'kn-IN', label: 'Kannada' },
+  { code: 'ml-IN', label: 'Malayalam' },
+  { code: 'gu-IN', label: 'Gujarati' },
+];
+
+export interface CallDetails {
+  token: number;
+  uid: string;
+  // The treating doctor's room; defaults to the clinic's consultation room
+  room?: string;
+}
+
+// Fills {token}, {uid} and {room} in the clinic's template. Names are never announced.
+export const formatCallAnnouncement = (settings: ClinicSettings | null, call: CallDetails): string =>
+  (settings?.call_announcement_template || DEFAULT_CALL_TEMPLATE)
+    .replace(/\{token\}/g, String(call.token))
+    .replace(/\{uid\}/g, call.uid.split('').join(' '))
+    .replace(/\{room\}/g, call.room || settings?.consultation_room || DEFAULT_CONSULTATION_ROOM);
+
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = (): AudioContext | null => {
+  if (!audioContext && typeof window !== 'undefined' && 'AudioContext' in window) {
+    audioContext = new AudioContext();
+  }
+  return audioContext;
+};
+
+// Browsers keep audio muted until someone interacts with the page, unless the TV browser allows autoplay
+export const isAudioBlocked = (): boolean => getAudioContext()?.state === 'suspended';
+
+export const unlockAudio = async () => {
+  await getAudioContext()?.resume();
+};
+
+// Two-tone "ding-dong", synthesised so the display needs no audio files
+export const playChime = (): Promise<void> => {
+  const context = getAudioContext();
+  if (!context || context.state !== 'running') return Promise.resolve();
+
+  [880, 660].forEach((frequency, index) => {
+    const startsAt = context.currentTime + index * 0.45;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.001, startsAt);
+    gain.gain.exponentialRampToValueAtTime(0.4, startsAt + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.001, startsAt + 0.8);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(startsAt);
+    oscillator.stop(startsAt + 0.8);
+  });
+
+  return new Promise((resolve) => setTimeout(resolve, 1300));
+};
+
+export const speak = (text: string, language: string): Promise<void> =>
+  new Promise((resolve) => {
+    if (typeof window === 'undefined' || !('speechSynthesis' in window)) {
+      resolve();
+      return;
+    }
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    const voices = window.speechSynthesis.getVoices();
+    utterance.lang = language;
+    utterance.voice =
+      voices.find((voice) => voice.lang === language) ||
+      voices.find((voice) => voice.lang.startsWith(language.split('-')[0])) ||
+      null;
+    utterance.rate = 0.9;
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    window.speechSynthesis.speak(utterance);
+  });
+
+// Chime, then the announcement read out twice
+export const announceCall = async (settings: ClinicSettings | null, call: CallDetails) => {
+  const text = formatCallAnnouncement(settings, call);
+  const language = settings?.call_announcement_language || DEFAULT_CALL_LANGUAGE;
+
+  await playChime();
+  await speak(text, language);
+  await speak(text, language);
+};
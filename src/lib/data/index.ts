@@ -0,0 +1,65 @@
+import { getSupabase, isSupabaseConfigured } from '../supabase';
+import { subDays } from 'date-fns';
+import { fromDateKey, getTodayKey, toDateKey } from '../dates';
+import { buildWaitModel } from '../waitEstimator';
+import { createLocalBackend } from './localBackend';
+import { createSupabaseBackend } from './supabaseBackend';
+import { buildQueueSummary, DEFAULT_CONSULTATION_MINUTES } from './queueSummary';
+import { Visit } from '../../types';
+import { BackendKind, DataBackend } from './types';
+
+export * from './types';
+export { createEmptyQueueSummary } from './queueSummary';
+export { LOCAL_DEMO_ACCOUNTS, LOCAL_INVITE_PASSWORD } from './localBackend';
+
+// VITE_DATA_BACKEND forces a backend; otherwise Supabase is used whenever it is configured
+const resolveBackendKind = (): BackendKind => {
+  const requested = import.meta.env.VITE_DATA_BACKEND;
+  if (requested === 'local' || requested === 'supabase') {
+    return requested;
+  }
+  return isSupabaseConfigured ? 'supabase' : 'local';
+};
+
+// The backend is chosen once at startup; every page goes through `db`
+export const db: DataBackend =
+  resolveBackendKind() === 'local' ? createLocalBackend() : createSupabaseBackend(getSupabase());
+
+export const isLocalBackend = db.kind === 'local';
+
+// Consultation history the wait estimator learns from; four weeks covers each weekday a few times
+const WAIT_HISTORY_DAYS = 28;
+
+// Earlier days' visits don't change during the day, so each tab loads them once per branch and day
+const waitHistory = new Map<string, Promise<Visit[]>>();
+
+const getWaitHistory = (branchId: string | null, dateKey: string): Promise<Visit[]> => {
+  const key = `${branchId}:${dateKey}`;
+  let history = waitHistory.get(key);
+  if (!history) {
+    const day = fromDateKey(dateKey);
+    history = db.visits.listBetween(toDateKey(subDays(day, WAIT_HISTORY_DAYS)), toDateKey(subDays(day, 1)), branchId);
+    history.catch(() => waitHistory.delete(key));
+    waitHistory.set(key, history);
+  }
+  return history;
+};
+
+// Recompute a branch's queue statistics for the day from its visits. For staff, who are the only ones who can
+// write the summary.
+export const updateQueueSummary = async (branchId: string | null, dateKey: string = getTodayKey()) => {
+  try {
+    const [visits, history, settings] = await Promise.all([
+      db.visits.listForDate(dateKey, branchId),
+      getWaitHistory(branchId, dateKey),
+      db.settings.get(branchId),
+    ]);
+    const model = buildWaitModel(
+      [...history, ...visits],
+      settings?.average_consultation_time || DEFAULT_CONSULTATION_MINUTES
+    );
+    await db.queueSummary.upsert(buildQueueSummary(dateKey, branchId, visits, model));
+  } catch (error) {
+    console.error('Error updating queue summary:', error);
+  }
+};
@@ -0,0 +1,1457 @@
+import {
+  AuditEntry,
+  AuditTable,
+  BookingProfile,
+  Branch,
+  ClinicSettings,
+  Doctor,
+  Patient,
+  PatientDetails,
+  PatientMerge,
+  PatientVersion,
+  Prescription,
+  PublicVisit,
+  QueueMove,
+  QueueSummary,
+  StaffProfile,
+  StaffRole,
+  Visit,
+} from '../../types';
+import { addDays, addMinutes } from 'date-fns';
+import { DEFAULT_CLINIC_TIMEZONE, formatTimeKey, fromDateKey, getTodayKey } from '../dates';
+import { DEFAULT_UID_PREFIX, generateAccessKey, generateUID, parseCheckInCode } from '../supabase';
+import {
+  getClosure,
+  getKioskCheckInBlocker,
+  getSlotProblem,
+  getSelfServiceBlocker,
+  getVisitDateKey,
+  isActiveBooking,
+  isVisitAffectedByClosure,
+  isWaiting,
+  LOOKUP_PHONE_MIN_DIGITS,
+  mapWeekdays,
+  phoneMatchesNumber,
+  SELF_SERVICE_LOCKED_ERROR,
+  SELF_SERVICE_LOCKOUT_MINUTES,
+  SELF_SERVICE_MAX_ATTEMPTS,
+  SELF_SERVICE_OWNERSHIP_ERROR,
+  SLOT_TAKEN_ERROR,
+} from '../scheduling';
+import {
+  getPositionChanges,
+  getPriorityRules,
+  getWaitingOrder,
+  isNoShowDue,
+  maskPatientName,
+  maskPhoneNumber,
+  placeByPriority,
+  PRIORITY_LABELS,
+} from '../queue';
+import { diffAuditFields } from '../audit';
+import { getPatientDetails, getPhoneKey, isSamePatient, mergePatientDetails } from '../patients';
+import {
+  BOOKING_CODE_ERRORS,
+  BOOKING_CODE_LENGTH,
+  BOOKING_CODE_MAX_ATTEMPTS,
+  BOOKING_CODE_MAX_SENDS,
+  BOOKING_CODE_TTL_MINUTES,
+  buildBookingCodeMessage,
+  TOO_MANY_CODES_ERROR,
+} from '../bookingCodes';
+import { consoleSmsProvider } from '../sms';
+import { getDoctorSettings } from '../doctors';
+import { CheckInCodeStatus, DataBackend, DataTable, NewQueueMove, VisitChanges, VisitCredentials } from './types';
+
+// Every table is stored as a JSON array under its own localStorage key
+const STORAGE_KEYS: Record<DataTable, string> = {
+  branches: 'demo_branches',
+  visits: 'demo_visits',
+  clinic_settings: 'demo_clinic_settings',
+  doctors: 'demo_doctors',
+  queue_summary: 'demo_queue_summary',
+  prescriptions: 'demo_prescriptions',
+  queue_moves: 'demo_queue_moves',
+  staff_profiles: 'demo_staff_profiles',
+  audit_log: 'demo_audit_log',
+  patients: 'demo_patients',
+  patient_versions: 'demo_patient_versions',
+  patient_merges: 'demo_patient_merges',
+  booking_codes: 'demo_booking_codes',
+};
+
+const SESSION_KEY = 'demo_session';
+// Passwords of the demo staff accounts by email
+const PASSWORDS_KEY = 'demo_passwords';
+const TOKEN_COUNTERS_KEY = 'demo_token_counters';
+// Failed self-service attempts by UID
+const SELF_SERVICE_ATTEMPTS_KEY = 'demo_self_service_attempts';
+// Signs check-in codes in this browser, standing in for the key kept in the database
+const CHECK_IN_SIGNING_KEY = 'demo_check_in_signing_key';
+
+// One sign-in per role so each permission set can be tried without Supabase
+export const LOCAL_DEMO_ACCOUNTS: { email: string; password: string; role: StaffRole }[] = [
+  { email: 'admin@xclinic.com', password: 'admin123', role: 'owner' },
+  { email: 'doctor@xclinic.com', password: 'doctor123', role: 'doctor' },
+  { email: 'reception@xclinic.com', password: 'reception123', role: 'receptionist' },
+  { email: 'accounts@xclinic.com', password: 'accounts123', role: 'accountant' },
+];
+
+// There is no email locally, so invited staff and password resets use this password
+export const LOCAL_INVITE_PASSWORD = 'welcome123';
+
+// Mirrors the branch the Supabase migration creates for existing data
+const createDefaultBranch = (): Branch => {
+  const now = new Date().toISOString();
+  return {
+    id: 'local-branch-main',
+    code: DEFAULT_UID_PREFIX,
+    name: 'Main Branch',
+    is_active: true,
+    sort_order: 1,
+    created_at: now,
+    updated_at: now,
+  };
+};
+
+// Mirrors the defaults seeded by the Supabase migrations
+const createDefaultSettings = (branchId: string | null): ClinicSettings => {
+  const now = new Date().toISOString();
+  return {
+    id: 'local-clinic-settings',
+    branch_id: branchId,
+    clinic_name: 'X Clinic',
+    clinic_address: '123 Healthcare Street, Medical District, City - 123456',
+    clinic_phone: '+91 98765 43210',
+    clinic_email: 'info@xclinic.com',
+    doctor_name: 'Dr. Sarah Johnson',
+    doctor_qualifications: 'MBBS, MD (Internal Medicine)',
+    doctor_specialization: 'General Medicine',
+    morning_shift: '9:00 AM - 1:00 PM',
+    evening_shift: '5:00 PM - 9:00 PM',
+    weekly_schedule: mapWeekdays((day) =>
+      day === 'Sunday'
+        ? []
+        : [
+            { label: 'Morning', start: '09:00', end: '13:00' },
+            { label: 'Evening', start: '17:00', end: '21:00' },
+          ]
+    ),
+    consultation_fee: 500,
+    online_payment_enabled: true,
+    clinic_payment_enabled: true,
+    average_consultation_time: 15,
+    max_daily_appointments: 50,
+    self_service_cutoff_hours: 2,
+    timezone: DEFAULT_CLINIC_TIMEZONE,
+    no_show_grace_minutes: 15,
+    no_show_requeue_enabled: true,
+    no_show_flag_threshold: 2,
+    emergency_contact: '+91 98765 43210',
+    operating_days: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+    holiday_dates: [],
+    closures: [],
+    display_announcements: [],
+    consultation_room: 'Room 1',
+    call_announcement_template: 'Token {token}, please proceed to {room}',
+    call_announcement_language: 'en-IN',
+    created_at: now,
+    updated_at: now,
+  };
+};
+
+// Mirrors the doctor the Supabase migration creates from the clinic's original doctor fields
+const createDefaultDoctor = (settings: ClinicSettings): Doctor => {
+  const now = new Date().toISOString();
+  return {
+    id: 'local-doctor-a',
+    branch_id: settings.branch_id,
+    code: 'A',
+    name: settings.doctor_name,
+    qualifications: settings.doctor_qualifications,
+    specialization: settings.doctor_specialization,
+    photo_url: settings.doctor_photo_url,
+    consultation_fee: settings.consultation_fee,
+    weekly_schedule: null,
+    room: settings.consultation_room,
+    is_active: true,
+    sort_order: 1,
+    created_at: now,
+    updated_at: now,
+  };
+};
+
+const generateId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 11)}`;
+};
+
+// Serialises token allocation across tabs where the Web Locks API is available;
+// within a single tab the synchronous read-modify-write is already atomic
+const withTokenLock = async <T>(allocate: () => T): Promise<T> => {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request('xclinic-token-allocation', allocate);
+  }
+  return allocate();
+};
+
+const readTable = <T>(table: DataTable): T[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEYS[table]) || '[]');
+    // Older demo builds stored the queue summary as a single object
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    return [];
+  }
+};
+
+// Mirrors `to_public_visit` in SQL
+const toPublicVisit = (visit: Visit): PublicVisit => ({
+  id: visit.id,
+  uid: visit.uid,
+  access_key: visit.access_key,
+  token_number: visit.token_number,
+  name: visit.name,
+  age: visit.age,
+  phone: maskPhoneNumber(visit.phone),
+  reason: visit.reason,
+  payment_status: visit.payment_status,
+  visit_status: visit.visit_status,
+  queue_position: visit.queue_position,
+  doctor_id: visit.doctor_id,
+  branch_id: visit.branch_id,
+  position_change_reason: visit.position_change_reason,
+  position_changed_at: visit.position_changed_at,
+  appointment_date: visit.appointment_date,
+  appointment_slot: visit.appointment_slot,
+  estimated_time: visit.estimated_time,
+  created_at: visit.created_at,
+  arrived_at: visit.arrived_at,
+  completed_at: visit.completed_at,
+  cancellation_reason: visit.cancellation_reason,
+  notes: visit.notes,
+  prescription_url: visit.prescription_url,
+});
+
+// Mirrors the booking_codes table; codes are kept in plain text here since the demo has no server
+interface BookingCodeRow {
+  id: string;
+  phone_key: string;
+  code: string;
+  expires_at: string;
+  attempts: number;
+  verified_at: string | null;
+  created_at: string;
+}
+
+const generateBookingCode = (): string => {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return String(value % 10 ** BOOKING_CODE_LENGTH).padStart(BOOKING_CODE_LENGTH, '0');
+};
+
+// Who the first version of patients created from existing visits is put down to
+const IMPORTED_PATIENT_ACTOR = 'Imported from earlier visits';
+
+// Mirrors sign_check_in_code() in SQL: `UID.YYMMDD.` followed by 16 bytes of HMAC-SHA256, base64url encoded
+const signCheckInCode = async (uid: string, dateKey: string): Promise<string> => {
+  let secret = localStorage.getItem(CHECK_IN_SIGNING_KEY);
+  if (!secret) {
+    secret = generateAccessKey();
+    localStorage.setItem(CHECK_IN_SIGNING_KEY, secret);
+  }
+
+  const encoder = new TextEncoder();
+  const payload = `${uid}.${dateKey.replace(/-/g, '').slice(2)}`;
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(payload))).slice(0, 16);
+  const encoded = btoa(String.fromCharCode(...signature)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `${payload}.${encoded}`;
+};
+
+// Mirrors check_in_code_status() in SQL
+const getCheckInCodeStatus = async (code: string): Promise<CheckInCodeStatus> => {
+  const parsed = parseCheckInCode(code);
+  if (!parsed?.validOn || (await signCheckInCode(parsed.uid, parsed.validOn)) !== code) return 'invalid';
+  return parsed.validOn < getTodayKey() ? 'expired' : 'valid';
+};
+
+// Mirrors the credential checks in get_public_visit()
+const ownsVisit = async (visit: Visit, { accessKey, checkInCode, phone }: VisitCredentials): Promise<boolean> =>
+  Boolean(
+    (accessKey && visit.access_key === accessKey) ||
+      (phone && phoneMatchesNumber(visit.phone, phone)) ||
+      (checkInCode &&
+        parseCheckInCode(checkInCode)?.uid === visit.uid &&
+        (await getCheckInCodeStatus(checkInCode)) === 'valid')
+  );
+
+const byNewest = (a: { created_at: string }, b: { created_at: string }) =>
+  b.created_at.localeCompare(a.created_at);
+
+export const createLocalBackend = (): DataBackend => {
+  const listeners = new Set<{ tables: DataTable[]; onChange: (table: DataTable) => void }>();
+
+  const notify = (table: DataTable) => {
+    listeners.forEach((listener) => {
+      if (listener.tables.includes(table)) {
+        listener.onChange(table);
+      }
+    });
+  };
+
+  const writeTable = <T>(table: DataTable, rows: T[]) => {
+    localStorage.setItem(STORAGE_KEYS[table], JSON.stringify(rows));
+    notify(table);
+  };
+
+  // Changes written by other tabs (e.g. the admin panel) arrive as storage events
+  if (typeof window !== 'undefined') {
+    window.addEventListener('storage', (event) => {
+      const table = (Object.keys(STORAGE_KEYS) as DataTable[]).find(
+        (key) => STORAGE_KEYS[key] === event.key
+      );
+      if (table) notify(table);
+    });
+  }
+
+  const getBranchRows = (): Branch[] => {
+    const rows = readTable<Branch>('branches');
+    if (rows.length > 0) return rows;
+
+    const defaults = [createDefaultBranch()];
+    localStorage.setItem(STORAGE_KEYS.branches, JSON.stringify(defaults));
+    return defaults;
+  };
+
+  // Rows stored before branches existed belong to the first branch, as the migration backfills
+  const getBranchId = (row: { branch_id?: string | null }): string | null =>
+    row.branch_id ?? getBranchRows()[0]?.id ?? null;
+
+  const getSettingsRow = (branchId: string | null): ClinicSettings | null => {
+    const rows = readTable<ClinicSettings>('clinic_settings');
+    if (rows.length > 0) return rows.find((row) => getBranchId(row) === branchId) || null;
+
+    const defaults = createDefaultSettings(getBranchRows()[0].id);
+    localStorage.setItem(STORAGE_KEYS.clinic_settings, JSON.stringify([defaults]));
+    return getBranchId(defaults) === branchId ? defaults : null;
+  };
+
+  const getDoctorRows = (): Doctor[] => {
+    const rows = readTable<Doctor>('doctors');
+    if (rows.length > 0) return rows;
+
+    const defaultBranchId = getBranchRows()[0].id;
+    const defaults = [createDefaultDoctor(getSettingsRow(defaultBranchId) || createDefaultSettings(defaultBranchId))];
+    localStorage.setItem(STORAGE_KEYS.doctors, JSON.stringify(defaults));
+    return defaults;
+  };
+
+  // Visits stored before doctors existed belong to their branch's first doctor, as the migration backfills
+  const getDoctorId = (visit: Visit): string | null =>
+    visit.doctor_id ?? getDoctorRows().find((doctor) => getBranchId(doctor) === getBranchId(visit))?.id ?? null;
+
+  const getStaffRows = (): StaffProfile[] => {
+    const rows = readTable<StaffProfile>('staff_profiles');
+    if (rows.length > 0) return rows;
+
+    const now = new Date().toISOString();
+    const branchIds = getBranchRows().map((branch) => branch.id);
+    const defaults = LOCAL_DEMO_ACCOUNTS.map(
+      (account): StaffProfile => ({
+        id: `local-staff-${account.role}`,
+        user_id: account.email,
+        email: account.email,
+        full_name: '',
+        role: account.role,
+        is_active: true,
+        branch_ids: branchIds,
+        last_sign_in_at: null,
+        invited_at: now,
+        created_at: now,
+        updated_at: now,
+      })
+    );
+    localStorage.setItem(STORAGE_KEYS.staff_profiles, JSON.stringify(defaults));
+    return defaults;
+  };
+
+  const getPasswords = (): Record<string, string> => {
+    const defaults = Object.fromEntries(LOCAL_DEMO_ACCOUNTS.map((account) => [account.email, account.password]));
+    try {
+      return { ...defaults, ...JSON.parse(localStorage.getItem(PASSWORDS_KEY) || '{}') };
+    } catch {
+      return defaults;
+    }
+  };
+
+  const setPassword = (email: string, password: string) => {
+    localStorage.setItem(PASSWORDS_KEY, JSON.stringify({ ...getPasswords(), [email]: password }));
+  };
+
+  // The signed-in staff member's profile, or null
+  const getSessionProfile = (): StaffProfile | null => {
+    try {
+      const session = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+      return (session && getStaffRows().find((profile) => profile.email === session.email)) || null;
+    } catch {
+      return null;
+    }
+  };
+
+  // Staff and patient pages share this browser's session, so changes made outside the admin panel are put down to
+  // the patient
+  const getActor = (): StaffProfile | null =>
+    window.location.pathname.startsWith('/admin') ? getSessionProfile() : null;
+
+  const getActorName = (actor: StaffProfile | null): string => (actor ? actor.full_name || actor.email : 'Patient');
+
+  // Mirrors the record_audit_entry() trigger
+  const recordAudit = (table: AuditTable, before: Visit | Prescription | null, after: Visit | Prescription | null) => {
+    const changes = diffAuditFields(before, after);
+    if (Object.keys(changes).length === 0) return;
+
+    const row = (after || before)!;
+    const visitId = 'visit_id' in row ? row.visit_id : row.id;
+    const visit = 'visit_id' in row ? readTable<Visit>('visits').find((candidate) => candidate.id === visitId) : row;
+    const actor = getActor();
+
+    const entry: AuditEntry = {
+      id: generateId(),
+      table_name: table,
+      record_id: row.id,
+      visit_id: visitId,
+      visit_uid: visit?.uid ?? null,
+      branch_id: visit ? getBranchId(visit) : null,
+      action: !before ? 'insert' : !after ? 'delete' : 'update',
+      changes,
+      actor_id: actor?.id ?? null,
+      actor_name: getActorName(actor),
+      source: window.location.pathname,
+      created_at: new Date().toISOString(),
+    };
+    writeTable('audit_log', [...readTable<AuditEntry>('audit_log'), entry]);
+  };
+
+  // Mirrors the record_patient_version() trigger: a patient's details are saved as a new version whenever they change
+  const savePatientVersion = (patients: Patient[], index: number, details: PatientDetails, changedBy: string) => {
+    const current = patients[index];
+    if (JSON.stringify(getPatientDetails(current)) === JSON.stringify(getPatientDetails(details))) return;
+
+    patients[index] = {
+      ...current,
+      ...getPatientDetails(details),
+      version: current.version + 1,
+      updated_at: new Date().toISOString(),
+    };
+    writeTable('patients', patients);
+    recordPatientVersion(patients[index], changedBy);
+  };
+
+  const recordPatientVersion = (patient: Patient, changedBy: string) => {
+    const version: PatientVersion = {
+      id: generateId(),
+      patient_id: patient.id,
+      version: patient.version,
+      details: getPatientDetails(patient),
+      changed_by: changedBy,
+      created_at: patient.updated_at,
+    };
+    writeTable('patient_versions', [...readTable<PatientVersion>('patient_versions'), version]);
+  };
+
+  const createPatient = (patients: Patient[], details: PatientDetails, changedBy: string): Patient => {
+    const now = new Date().toISOString();
+    const lastNumber = Math.max(0, ...patients.map((patient) => parseInt(patient.code.slice(1), 10) || 0));
+    const patient: Patient = {
+      ...getPatientDetails({ ...details, name: details.name.trim() }),
+      id: generateId(),
+      code: `P${String(lastNumber + 1).padStart(6, '0')}`,
+      version: 1,
+      created_at: now,
+      updated_at: now,
+    };
+    patients.push(patient);
+    writeTable('patients', patients);
+    recordPatientVersion(patient, changedBy);
+    return patient;
+  };
+
+  // Mirrors resolve_visit_patient(): the patient with the visit's name and phone number, or a new patient. Only
+  // bookings made by the front desk or doctors update an existing patient's details; staff confirm the rest from the
+  // patient's profile. People booking for themselves and dependents booked under a guardian's phone are matched
+  // apart, so a parent and child with the same name stay two patients.
+  const resolvePatient = (
+    visit: PatientDetails & Pick<Visit, 'guardian_name' | 'guardian_relationship'>,
+    changedBy: string = getActorName(getActor()),
+    confirmed: boolean = ['owner', 'doctor', 'receptionist'].includes(getActor()?.role ?? '')
+  ): string => {
+    const patients = readTable<Patient>('patients');
+    const guardianName = visit.guardian_name?.trim();
+    // The guardian is the patient booking for themselves with the phone number, added if they have never visited
+    const guardian =
+      guardianName && getPhoneKey(visit.phone)
+        ? patients.find(
+            (patient) => !patient.merged_into && !patient.guardian_id && isSamePatient(patient, guardianName, visit.phone)
+          ) ?? createPatient(patients, { name: guardianName, phone: visit.phone }, changedBy)
+        : null;
+
+    const matches = patients.filter((patient) => !patient.merged_into && isSamePatient(patient, visit.name, visit.phone));
+    const match = guardian
+      ? // Dependents booked as themselves before guardians existed are matched too, as long as they aren't the guardian
+        matches.find((patient) => patient.guardian_id) ??
+        matches.find((patient) => !patient.guardian_id && patient !== guardian)
+      : matches.find((patient) => !patient.guardian_id);
+
+    let index = match ? patients.indexOf(match) : -1;
+    const created = index < 0;
+    if (created) {
+      createPatient(patients, visit, changedBy);
+      index = patients.length - 1;
+    } else if (confirmed) {
+      savePatientVersion(patients, index, mergePatientDetails(patients[index], visit), changedBy);
+    }
+
+    if (guardian && (created || confirmed)) {
+      patients[index] = {
+        ...patients[index],
+        guardian_id: guardian.id,
+        guardian_relationship: visit.guardian_relationship ?? patients[index].guardian_relationship ?? null,
+      };
+      writeTable('patients', patients);
+    }
+    return patients[index].id;
+  };
+
+  // Visits stored before patient records existed are linked oldest first, as the migrations backfill, and their
+  // prescriptions follow them
+  const linkUnlinkedVisits = () => {
+    const visits = readTable<Visit>('visits');
+    const unlinked = visits
+      .filter((visit) => !visit.patient_id)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    if (unlinked.length > 0) {
+      unlinked.forEach((visit) => {
+        visit.patient_id = resolvePatient(visit, IMPORTED_PATIENT_ACTOR, true);
+      });
+      writeTable('visits', visits);
+    }
+
+    const prescriptions = readTable<Prescription>('prescriptions');
+    const unlinkedPrescriptions = prescriptions.filter((prescription) => prescription.patient_id === undefined);
+    if (unlinkedPrescriptions.length > 0) {
+      unlinkedPrescriptions.forEach((prescription) => {
+        prescription.patient_id = visits.find((visit) => visit.id === prescription.visit_id)?.patient_id ?? null;
+      });
+      writeTable('prescriptions', prescriptions);
+    }
+  };
+
+  // Reassigns the given visits and prescriptions (all of them when not given) from one patient to another, as
+  // merge_patients() and undo_patient_merge() do in SQL, and returns the ids of the ones moved
+  const movePatientRecords = (fromId: string, toId: string, only?: Pick<PatientMerge, 'visit_ids' | 'prescription_ids'>) => {
+    const now = new Date().toISOString();
+    const visits = readTable<Visit>('visits');
+    const visitIds: string[] = [];
+    visits.forEach((visit, index) => {
+      if (visit.patient_id !== fromId || (only && !only.visit_ids.includes(visit.id))) return;
+      visits[index] = { ...visit, patient_id: toId, updated_at: now };
+      recordAudit('visits', visit, visits[index]);
+      visitIds.push(visit.id);
+    });
+    writeTable('visits', visits);
+
+    const prescriptions = readTable<Prescription>('prescriptions');
+    const prescriptionIds: string[] = [];
+    prescriptions.forEach((prescription, index) => {
+      if (prescription.patient_id !== fromId || (only && !only.prescription_ids.includes(prescription.id))) return;
+      prescriptions[index] = { ...prescription, patient_id: toId, updated_at: now };
+      recordAudit('prescriptions', prescription, prescriptions[index]);
+      prescriptionIds.push(prescription.id);
+    });
+    writeTable('prescriptions', prescriptions);
+
+    return { visit_ids: visitIds, prescription_ids: prescriptionIds };
+  };
+
+  // Makes `toId` the guardian of the patients `fromId` books for, or only of those in `only`; returns their ids
+  const moveDependents = (patients: Patient[], fromId: string, toId: string, only?: string[]): string[] => {
+    const now = new Date().toISOString();
+    const dependentIds: string[] = [];
+    patients.forEach((patient, index) => {
+      if (patient.guardian_id !== fromId || patient.id === toId || (only && !only.includes(patient.id))) return;
+      patients[index] = { ...patient, guardian_id: toId, updated_at: now };
+      dependentIds.push(patient.id);
+    });
+    return dependentIds;
+  };
+
+  const listBranches = (): Branch[] =>
+    [...getBranchRows()].sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name));
+
+  const listBranchVisits = (branchId: string | null): Visit[] =>
+    readTable<Visit>('visits').filter((visit) => getBranchId(visit) === branchId);
+
+  const renumber = (visits: Visit[], dateKey: string): Visit[] => {
+    const waiting = visits
+      .filter((visit) => getVisitDateKey(visit) === dateKey && isWaiting(visit))
+      .sort((a, b) => a.queue_position - b.queue_position || a.token_number - b.token_number);
+
+    // Each doctor's queue is numbered on its own
+    const nextPosition = new Map<string | null, number>();
+    waiting.forEach((visit) => {
+      const doctorId = getDoctorId(visit);
+      const position = (nextPosition.get(doctorId) ?? 0) + 1;
+      nextPosition.set(doctorId, position);
+      visit.queue_position = position;
+    });
+    return visits;
+  };
+
+  // The visits in the same doctor's queue on the same day as `visit`, including it
+  const getDoctorQueue = (visits: Visit[], visit: Visit): Visit[] =>
+    visits.filter(
+      (other) => getVisitDateKey(other) === getVisitDateKey(visit) && getDoctorId(other) === getDoctorId(visit)
+    );
+
+  const applyPositionChanges = (visits: Visit[], positionChanges: { id: string; changes: VisitChanges }[]) => {
+    const now = new Date().toISOString();
+    positionChanges.forEach(({ id, changes }) => {
+      const index = visits.findIndex((visit) => visit.id === id);
+      const before = visits[index];
+      visits[index] = { ...before, ...changes, updated_at: now };
+      recordAudit('visits', before, visits[index]);
+    });
+    return visits;
+  };
+
+  // Mirrors the set_queue_move_actor trigger
+  const createQueueMove = (move: NewQueueMove) => {
+    const actor = getActor();
+    const created: QueueMove = {
+      ...move,
+      moved_by: getActorName(actor),
+      moved_by_id: actor?.id ?? null,
+      id: generateId(),
+      created_at: new Date().toISOString(),
+    };
+    writeTable('queue_moves', [...readTable<QueueMove>('queue_moves'), created]);
+  };
+
+  const nextToken = (dateKey: string, doctorId: string | null): number => {
+    const counters = JSON.parse(localStorage.getItem(TOKEN_COUNTERS_KEY) || '{}') as Record<string, number>;
+    const counterKey = `${dateKey}:${doctorId ?? ''}`;
+    // The first allocation continues after any of the doctor's visits stored before counters existed
+    const lastToken =
+      counters[counterKey] ??
+      readTable<Visit>('visits')
+        .filter((visit) => getVisitDateKey(visit) === dateKey && getDoctorId(visit) === doctorId)
+        .reduce((max, visit) => Math.max(max, visit.token_number), 0);
+    const tokenNumber = lastToken + 1;
+
+    localStorage.setItem(TOKEN_COUNTERS_KEY, JSON.stringify({ ...counters, [counterKey]: tokenNumber }));
+    return tokenNumber;
+  };
+
+  // Mirrors the checks in the patient self-service database functions
+  const findOwnedVisit = async (visits: Visit[], uid: string, credentials: VisitCredentials): Promise<Visit> => {
+    const attempts = JSON.parse(localStorage.getItem(SELF_SERVICE_ATTEMPTS_KEY) || '{}') as Record<
+      string,
+      { failed_attempts: number; last_failed_at: string }
+    >;
+    const attempt = attempts[uid];
+    const lockoutStart = addMinutes(new Date(), -SELF_SERVICE_LOCKOUT_MINUTES).toISOString();
+    const isRecent = Boolean(attempt && attempt.last_failed_at > lockoutStart);
+    if (isRecent && attempt.failed_attempts >= SELF_SERVICE_MAX_ATTEMPTS) {
+      throw new Error(SELF_SERVICE_LOCKED_ERROR);
+    }
+
+    const visit = visits.find((candidate) => candidate.uid === uid);
+    if (!visit || !(await ownsVisit(visit, credentials))) {
+      if (visit) {
+        attempts[uid] = {
+          failed_attempts: isRecent ? attempt.failed_attempts + 1 : 1,
+          last_failed_at: new Date().toISOString(),
+        };
+        localStorage.setItem(SELF_SERVICE_ATTEMPTS_KEY, JSON.stringify(attempts));
+      }
+      throw new Error(SELF_SERVICE_OWNERSHIP_ERROR);
+    }
+    delete attempts[uid];
+    localStorage.setItem(SELF_SERVICE_ATTEMPTS_KEY, JSON.stringify(attempts));
+
+    const blocker = getSelfServiceBlocker(getSettingsRow(getBranchId(visit)), visit);
+    if (blocker) throw new Error(blocker);
+    return visit;
+  };
+
+  if (typeof window !== 'undefined') {
+    linkUnlinkedVisits();
+  }
+
+  return {
+    kind: 'local',
+
+    branches: {
+      async list() {
+        return listBranches();
+      },
+
+      async listManaged() {
+        const profile = getSessionProfile();
+        if (!profile?.is_active) return [];
+        return listBranches().filter((branch) => profile.branch_ids.includes(branch.id));
+      },
+    },
+
+    visits: {
+      async getByUid(uid) {
+        return readTable<Visit>('visits').find((visit) => visit.uid === uid) || null;
+      },
+
+      async getPublic(uid, credentials) {
+        const visit = readTable<Visit>('visits').find((candidate) => candidate.uid === uid);
+        return visit && (await ownsVisit(visit, credentials)) ? toPublicVisit(visit) : null;
+      },
+
+      async getCheckInCode(uid, accessKey) {
+        const visit = readTable<Visit>('visits').find(
+          (candidate) => candidate.uid === uid && candidate.access_key === accessKey
+        );
+        return visit ? signCheckInCode(visit.uid, getVisitDateKey(visit)) : null;
+      },
+
+      async verifyCheckInCode(code) {
+        if (!getSessionProfile()?.is_active) throw new Error('Only staff can verify check-in codes');
+        return getCheckInCodeStatus(code);
+      },
+
+      async listForDate(dateKey, branchId) {
+        return listBranchVisits(branchId)
+          .filter((visit) => getVisitDateKey(visit) === dateKey)
+          .sort((a, b) => a.token_number - b.token_number);
+      },
+
+      async listBetween(fromKey, toKey, branchId) {
+        return listBranchVisits(branchId).filter((visit) => {
+          const dateKey = getVisitDateKey(visit);
+          return dateKey >= fromKey && dateKey <= toKey;
+        });
+      },
+
+      async listQueueBoard(dateKey, branchId) {
+        const visits = listBranchVisits(branchId).filter((visit) => getVisitDateKey(visit) === dateKey);
+        return [...visits.filter((visit) => visit.visit_status === 'in_consultation'), ...getWaitingOrder(visits)]
+          .map((visit) => ({
+            token_number: visit.token_number,
+            uid: visit.uid,
+            masked_name: maskPatientName(visit.name),
+            visit_status: visit.visit_status,
+            queue_position: visit.queue_position,
+            doctor_id: getDoctorId(visit),
+            call_count: visit.call_count ?? 0,
+            called_at: visit.called_at ?? null,
+          }));
+      },
+
+      async listBookedSlots(dateKey, doctorId) {
+        return readTable<Visit>('visits')
+          .filter(
+            (visit) =>
+              getVisitDateKey(visit) === dateKey && getDoctorId(visit) === doctorId && isActiveBooking(visit)
+          )
+          .map((visit) => visit.appointment_slot)
+          .filter((slot): slot is string => Boolean(slot));
+      },
+
+      async listAll(branchId) {
+        return listBranchVisits(branchId).sort(byNewest);
+      },
+
+      async search(term, branchId) {
+        const needle = term.toLowerCase();
+        return listBranchVisits(branchId)
+          .filter(
+            (visit) =>
+              visit.name.toLowerCase().includes(needle) ||
+              visit.uid.toLowerCase().includes(needle) ||
+              (visit.phone || '').toLowerCase().includes(needle)
+          )
+          .sort(byNewest);
+      },
+
+      async listHistory(visit) {
+        if (!visit.patient_id) return [];
+        return readTable<Visit>('visits')
+          .filter((other) => other.id !== visit.id && other.patient_id === visit.patient_id)
+          .sort(byNewest);
+      },
+
+      async allocateToken(dateKey, doctorId) {
+        return withTokenLock(() => {
+          const tokenNumber = nextToken(dateKey, doctorId);
+          const doctor = getDoctorRows().find((candidate) => candidate.id === doctorId);
+          const branch = doctor && getBranchRows().find((candidate) => candidate.id === getBranchId(doctor));
+          return { tokenNumber, uid: generateUID(tokenNumber, dateKey, doctor?.code, branch?.code) };
+        });
+      },
+
+      async create(visit) {
+        const now = new Date().toISOString();
+        const visits = readTable<Visit>('visits');
+        // Mirrors idx_visits_active_slot
+        const slotTaken =
+          visit.appointment_slot &&
+          visits.some(
+            (other) =>
+              getVisitDateKey(other) === visit.appointment_date &&
+              other.appointment_slot === visit.appointment_slot &&
+              getDoctorId(other) === (visit.doctor_id ?? null) &&
+              isActiveBooking(other) &&
+              !other.requeued_at
+          );
+        if (slotTaken) throw new Error(SLOT_TAKEN_ERROR);
+
+        // Mirrors the flag_repeat_no_shows trigger
+        const priorNoShows = visit.phone
+          ? visits.filter((other) => other.phone === visit.phone && other.visit_status === 'no_show').length
+          : 0;
+        const created: Visit = {
+          ...visit,
+          patient_id: resolvePatient(visit),
+          access_key: visit.access_key || generateAccessKey(),
+          prior_no_shows: priorNoShows,
+          id: generateId(),
+          created_at: now,
+          updated_at: now,
+        };
+        // Slots the new visit in at the end of the waiting queue, as the renumber_queue_after_booking trigger does
+        writeTable('visits', renumber([...visits, created], getVisitDateKey(created)));
+        recordAudit('visits', null, created);
+        return toPublicVisit(created);
+      },
+
+      async update(id, changes) {
+        const visits = readTable<Visit>('visits');
+        const index = visits.findIndex((visit) => visit.id === id);
+        if (index < 0) throw new Error(`Visit ${id} not found`);
+
+        const before = visits[index];
+        visits[index] = { ...before, ...changes, updated_at: new Date().toISOString() };
+        writeTable('visits', visits);
+        recordAudit('visits', before, visits[index]);
+      },
+
+      async setPaymentStatus(id, status) {
+        const visits = readTable<Visit>('visits');
+        const index = visits.findIndex((visit) => visit.id === id);
+        if (index < 0) throw new Error(`Visit ${id} not found`);
+
+        const before = visits[index];
+        visits[index] = { ...before, payment_status: status, updated_at: new Date().toISOString() };
+        writeTable('visits', visits);
+        recordAudit('visits', before, visits[index]);
+      },
+
+      async renumberQueue(dateKey) {
+        writeTable('visits', renumber(readTable<Visit>('visits'), dateKey));
+      },
+
+      // Mirrors move_visit_in_queue()
+      async moveInQueue(id, toPosition, reason) {
+        const visits = readTable<Visit>('visits');
+        const visit = visits.find((candidate) => candidate.id === id);
+        if (!visit) throw new Error(`Visit ${id} not found`);
+        if (!isWaiting(visit)) throw new Error('Only patients still waiting can be moved');
+
+        const order = getWaitingOrder(getDoctorQueue(visits, visit)).filter((other) => other.id !== id);
+        const position = Math.min(Math.max(toPosition, 1), order.length + 1);
+        order.splice(position - 1, 0, visit);
+
+        const positionChanges = getPositionChanges(order, (other, from, to) => {
+          if (other.id === id) return `The front desk moved you: ${reason}`;
+          return to > from ? 'The front desk adjusted the queue' : null;
+        });
+        writeTable('visits', applyPositionChanges(visits, positionChanges));
+        createQueueMove({
+          visit_id: visit.id,
+          visit_uid: visit.uid,
+          visit_date: getVisitDateKey(visit),
+          from_position: visit.queue_position,
+          to_position: position,
+          reason,
+        });
+      },
+
+      // Mirrors set_visit_priority()
+      async setPriority(id, lane) {
+        const visits = readTable<Visit>('visits');
+        const index = visits.findIndex((visit) => visit.id === id);
+        if (index < 0) throw new Error(`Visit ${id} not found`);
+
+        const before = visits[index];
+        visits[index] = { ...before, priority: lane, updated_at: new Date().toISOString() };
+        recordAudit('visits', before, visits[index]);
+
+        // Only setting a lane moves the visit; clearing it leaves everyone where they are
+        if (!lane) {
+          writeTable('visits', visits);
+          return;
+        }
+
+        const prioritised = visits[index];
+        const rules = getPriorityRules(getSettingsRow(getBranchId(prioritised)));
+        const order = placeByPriority(getDoctorQueue(visits, prioritised), prioritised, rules);
+        const label = PRIORITY_LABELS[lane].toLowerCase();
+        const positionChanges = getPositionChanges(order, (other, from, to) => {
+          if (other.id === id) return to < from ? `Moved up for ${label} priority` : null;
+          return to > from ? 'A patient needing priority care was placed ahead of you' : null;
+        });
+        writeTable('visits', applyPositionChanges(visits, positionChanges));
+      },
+
+      // Mirrors sweep_no_shows()
+      async markNoShows(branchId) {
+        const now = new Date();
+        const settings = getSettingsRow(branchId);
+        const visits = readTable<Visit>('visits');
+        const due = visits.filter((visit) => getBranchId(visit) === branchId && isNoShowDue(visit, settings, now));
+        if (due.length === 0) return [];
+
+        const noShowAt = now.toISOString();
+        due.forEach((visit) => {
+          const before = { ...visit };
+          Object.assign(visit, { visit_status: 'no_show', no_show_at: noShowAt, updated_at: noShowAt });
+          recordAudit('visits', before, visit);
+        });
+        writeTable('visits', renumber(visits, getTodayKey()));
+        return due;
+      },
+
+      // Mirrors cancel_closure_bookings()
+      async cancelForClosure(branchId, dateKey, reason) {
+        const settings = getSettingsRow(branchId);
+        const closure = settings && getClosure(settings, dateKey);
+        if (!closure) throw new Error('Save the closure before cancelling its bookings');
+
+        const visits = readTable<Visit>('visits');
+        const affected = visits.filter(
+          (visit) => getBranchId(visit) === branchId && isVisitAffectedByClosure(closure, visit)
+        );
+        if (affected.length === 0) return [];
+
+        const now = new Date().toISOString();
+        affected.forEach((visit) => {
+          const before = { ...visit };
+          Object.assign(visit, {
+            visit_status: 'cancelled',
+            cancelled_at: now,
+            cancellation_reason: reason,
+            updated_at: now,
+          });
+          recordAudit('visits', before, visit);
+        });
+        writeTable('visits', renumber(visits, dateKey));
+        return affected;
+      },
+
+      async cancelByPatient(uid, credentials) {
+        const visits = readTable<Visit>('visits');
+        const visit = await findOwnedVisit(visits, uid, credentials);
+        const before = { ...visit };
+        const now = new Date().toISOString();
+
+        Object.assign(visit, {
+          visit_status: 'cancelled',
+          cancelled_at: now,
+          cancellation_reason: 'Cancelled by patient',
+          updated_at: now,
+        });
+        writeTable('visits', renumber(visits, getVisitDateKey(visit)));
+        recordAudit('visits', before, visit);
+        return toPublicVisit(visit);
+      },
+
+      async rescheduleByPatient(uid, credentials, dateKey, slot) {
+        return withTokenLock(async () => {
+          const visits = readTable<Visit>('visits');
+          const visit = await findOwnedVisit(visits, uid, credentials);
+          const before = { ...visit };
+
+          const doctorId = getDoctorId(visit);
+          const settings = getDoctorSettings(
+            getSettingsRow(getBranchId(visit)) || createDefaultSettings(getBranchId(visit)),
+            getDoctorRows().find((doctor) => doctor.id === doctorId) || null
+          );
+          const bookedSlots = visits
+            .filter(
+              (other) =>
+                other.id !== visit.id &&
+                getVisitDateKey(other) === dateKey &&
+                getDoctorId(other) === doctorId &&
+                isActiveBooking(other)
+            )
+            .flatMap((other) => (other.appointment_slot ? [other.appointment_slot] : []));
+          const problem = getSlotProblem(settings, dateKey, slot, bookedSlots);
+          if (problem) throw new Error(problem);
+
+          const previousDate = getVisitDateKey(visit);
+          // Moving to another day takes that day's next token; the UID stays so existing QR codes keep working
+          if (previousDate !== dateKey) {
+            const tokenNumber = nextToken(dateKey, getDoctorId(visit));
+            Object.assign(visit, { token_number: tokenNumber, queue_position: tokenNumber });
+          }
+          Object.assign(visit, {
+            appointment_date: dateKey,
+            appointment_slot: slot,
+            estimated_time: formatTimeKey(slot),
+            updated_at: new Date().toISOString(),
+          });
+
+          writeTable('visits', renumber(renumber(visits, previousDate), dateKey));
+          recordAudit('visits', before, visit);
+          return toPublicVisit(visit);
+        });
+      },
+
+      async checkInByPatient(uid, credentials, branchId) {
+        const visits = readTable<Visit>('visits');
+        const visit = visits.find((candidate) => candidate.uid === uid);
+        if (!visit || !(await ownsVisit(visit, credentials))) {
+          throw new Error('We could not find a booking with that UID');
+        }
+
+        const blocker = getKioskCheckInBlocker(visit, branchId);
+        if (blocker) throw new Error(blocker);
+
+        if (visit.visit_status === 'upcoming') {
+          const before = { ...visit };
+          const now = new Date().toISOString();
+          Object.assign(visit, { visit_status: 'arrived', arrived_at: now, updated_at: now });
+          writeTable('visits', visits);
+          recordAudit('visits', before, visit);
+        }
+        return toPublicVisit(visit);
+      },
+    },
+
+    patients: {
+      async get(id) {
+        return readTable<Patient>('patients').find((patient) => patient.id === id) || null;
+      },
+
+      async listByIds(ids) {
+        return readTable<Patient>('patients').filter((patient) => ids.includes(patient.id));
+      },
+
+      async list(branchId) {
+        const visits = readTable<Visit>('visits').filter((visit) => !branchId || visit.branch_id === branchId);
+        const patientIds = new Set(visits.map((visit) => visit.patient_id));
+        return readTable<Patient>('patients')
+          .filter((patient) => !patient.merged_into && patientIds.has(patient.id))
+          .sort((a, b) => a.code.localeCompare(b.code));
+      },
+
+      async getFamily(patientId) {
+        const patients = readTable<Patient>('patients');
+        const patient = patients.find((candidate) => candidate.id === patientId);
+        return {
+          guardian: patients.find((candidate) => candidate.id === patient?.guardian_id) || null,
+          dependents: patients.filter((candidate) => !candidate.merged_into && candidate.guardian_id === patientId),
+        };
+      },
+
+      async listVersions(patientId) {
+        return readTable<PatientVersion>('patient_versions')
+          .filter((version) => version.patient_id === patientId)
+          .sort((a, b) => b.version - a.version);
+      },
+
+      async update(id, changes) {
+        const patients = readTable<Patient>('patients');
+        const index = patients.findIndex((patient) => patient.id === id);
+        if (index < 0) throw new Error(`Patient ${id} not found`);
+
+        savePatientVersion(patients, index, { ...patients[index], ...changes }, getActorName(getActor()));
+      },
+
+      // Mirrors create_booking_code() and the send-booking-code function
+      async sendBookingCode(phone) {
+        if (phone.replace(/\D/g, '').length < LOOKUP_PHONE_MIN_DIGITS) {
+          throw new Error('Please enter your full phone number');
+        }
+
+        const phoneKey = getPhoneKey(phone);
+        const now = new Date();
+        const windowStart = addMinutes(now, -BOOKING_CODE_TTL_MINUTES).toISOString();
+        const codes = readTable<BookingCodeRow>('booking_codes');
+        const recentCodes = codes.filter((row) => row.phone_key === phoneKey && row.created_at > windowStart);
+        if (recentCodes.length >= BOOKING_CODE_MAX_SENDS) throw new Error(TOO_MANY_CODES_ERROR);
+
+        const isPatient = readTable<Patient>('patients').some(
+          (patient) => !patient.merged_into && getPhoneKey(patient.phone) === phoneKey
+        );
+        if (!isPatient) return;
+
+        const code = generateBookingCode();
+        const row: BookingCodeRow = {
+          id: generateId(),
+          phone_key: phoneKey,
+          code,
+          expires_at: addMinutes(now, BOOKING_CODE_TTL_MINUTES).toISOString(),
+          attempts: 0,
+          verified_at: null,
+          created_at: now.toISOString(),
+        };
+        writeTable('booking_codes', [...codes, row]);
+        await consoleSmsProvider.send(phone, buildBookingCodeMessage(code));
+      },
+
+      // Mirrors verify_booking_code() in SQL
+      async verifyBookingCode(phone, code) {
+        const phoneKey = getPhoneKey(phone);
+        const codes = readTable<BookingCodeRow>('booking_codes');
+        const row = codes
+          .filter((candidate) => candidate.phone_key === phoneKey && !candidate.verified_at)
+          .sort(byNewest)[0];
+
+        if (!row || row.expires_at < new Date().toISOString()) throw new Error(BOOKING_CODE_ERRORS.expired);
+        if (row.attempts >= BOOKING_CODE_MAX_ATTEMPTS) throw new Error(BOOKING_CODE_ERRORS.locked);
+        if (row.code !== code.trim()) {
+          row.attempts += 1;
+          writeTable('booking_codes', codes);
+          throw new Error(BOOKING_CODE_ERRORS.incorrect);
+        }
+
+        row.verified_at = new Date().toISOString();
+        writeTable('booking_codes', codes);
+
+        const visits = readTable<Visit>('visits');
+        const patients = readTable<Patient>('patients');
+        return patients
+          .filter((patient) => !patient.merged_into && getPhoneKey(patient.phone) === phoneKey)
+          .map((patient): BookingProfile => ({
+            id: patient.id,
+            name: patient.name,
+            age: patient.age,
+            phone: patient.phone,
+            gender: patient.gender,
+            email: patient.email,
+            address: patient.address,
+            emergency_contact_name: patient.emergency_contact_name,
+            emergency_contact_phone: patient.emergency_contact_phone,
+            allergies: patient.allergies,
+            current_medications: patient.current_medications,
+            allergy_list: patient.allergy_list,
+            medication_list: patient.medication_list,
+            guardian_id: patient.guardian_id,
+            guardian_relationship: patient.guardian_relationship,
+            guardian_name: patients.find((guardian) => guardian.id === patient.guardian_id)?.name ?? null,
+            last_visit_at:
+              visits
+                .filter((visit) => visit.patient_id === patient.id)
+                .map((visit) => visit.created_at)
+                .sort()
+                .pop() ?? null,
+          }))
+          .sort((a, b) => (b.last_visit_at || '').localeCompare(a.last_visit_at || ''));
+      },
+
+      async merge(survivorId, mergedId) {
+        if (survivorId === mergedId) throw new Error('A patient cannot be merged into themselves');
+
+        const patients = readTable<Patient>('patients');
+        const survivorIndex = patients.findIndex((patient) => patient.id === survivorId);
+        const mergedIndex = patients.findIndex((patient) => patient.id === mergedId);
+        if (survivorIndex < 0 || mergedIndex < 0) throw new Error('Patient not found');
+        const survivor = patients[survivorIndex];
+        const merged = patients[mergedIndex];
+        if (survivor.merged_into || merged.merged_into) throw new Error('One of these patients has already been merged');
+
+        const actorName = getActorName(getActor());
+        const moved = movePatientRecords(mergedId, survivorId);
+        const dependentIds = moveDependents(patients, mergedId, survivorId);
+        patients[mergedIndex] = { ...merged, merged_into: survivorId, updated_at: new Date().toISOString() };
+        savePatientVersion(patients, survivorIndex, mergePatientDetails(merged, survivor), actorName);
+        writeTable('patients', patients);
+
+        const entry: PatientMerge = {
+          id: generateId(),
+          survivor_id: survivorId,
+          merged_id: mergedId,
+          survivor_code: survivor.code,
+          merged_code: merged.code,
+          merged_name: merged.name,
+          ...moved,
+          dependent_ids: dependentIds,
+          survivor_details: getPatientDetails(survivor),
+          merged_by: actorName,
+          created_at: new Date().toISOString(),
+          undone_at: null,
+          undone_by: null,
+        };
+        writeTable('patient_merges', [...readTable<PatientMerge>('patient_merges'), entry]);
+        return entry;
+      },
+
+      async listMerges() {
+        return readTable<PatientMerge>('patient_merges').sort(byNewest);
+      },
+
+      async undoMerge(mergeId) {
+        const merges = readTable<PatientMerge>('patient_merges');
+        const merge = merges.find((candidate) => candidate.id === mergeId);
+        if (!merge) throw new Error(`Merge ${mergeId} not found`);
+        if (merge.undone_at) throw new Error('This merge has already been undone');
+
+        const patients = readTable<Patient>('patients');
+        const survivorIndex = patients.findIndex((patient) => patient.id === merge.survivor_id);
+        const mergedIndex = patients.findIndex((patient) => patient.id === merge.merged_id);
+        if (survivorIndex < 0 || mergedIndex < 0) throw new Error('Patient not found');
+        if (patients[survivorIndex].merged_into) {
+          throw new Error(`${merge.survivor_code} has since been merged into another patient; undo that merge first`);
+        }
+
+        const actorName = getActorName(getActor());
+        movePatientRecords(merge.survivor_id, merge.merged_id, merge);
+        // Merges saved before dependents were moved have none to give back
+        moveDependents(patients, merge.survivor_id, merge.merged_id, merge.dependent_ids || []);
+        patients[mergedIndex] = { ...patients[mergedIndex], merged_into: null, updated_at: new Date().toISOString() };
+        savePatientVersion(patients, survivorIndex, merge.survivor_details, actorName);
+        writeTable('patients', patients);
+
+        Object.assign(merge, { undone_at: new Date().toISOString(), undone_by: actorName });
+        writeTable('patient_merges', merges);
+      },
+    },
+
+    settings: {
+      async get(branchId) {
+        return getSettingsRow(branchId);
+      },
+
+      async save(values, id) {
+        const rows = readTable<ClinicSettings>('clinic_settings');
+        const now = new Date().toISOString();
+
+        if (id) {
+          const index = rows.findIndex((row) => row.id === id);
+          if (index < 0) throw new Error(`Clinic settings ${id} not found`);
+          rows[index] = { ...rows[index], ...values, updated_at: now };
+        } else {
+          rows.push({
+            ...createDefaultSettings(values.branch_id ?? null),
+            ...values,
+            id: generateId(),
+            created_at: now,
+            updated_at: now,
+          });
+        }
+        writeTable('clinic_settings', rows);
+      },
+    },
+
+    doctors: {
+      async list(branchId) {
+        return getDoctorRows()
+          .filter((doctor) => getBranchId(doctor) === branchId)
+          .sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name));
+      },
+
+      async save(values, id) {
+        const doctors = getDoctorRows();
+        const now = new Date().toISOString();
+
+        if (id) {
+          const index = doctors.findIndex((doctor) => doctor.id === id);
+          if (index < 0) throw new Error(`Doctor ${id} not found`);
+          doctors[index] = { ...doctors[index], ...values, updated_at: now };
+        } else {
+          doctors.push({ ...values, id: generateId(), created_at: now, updated_at: now });
+        }
+        writeTable('doctors', doctors);
+      },
+    },
+
+    queueSummary: {
+      async getForDate(dateKey, branchId) {
+        return (
+          readTable<QueueSummary>('queue_summary').find(
+            (summary) => summary.date === dateKey && getBranchId(summary) === branchId
+          ) || null
+        );
+      },
+
+      async upsert(summary) {
+        const summaries = readTable<QueueSummary>('queue_summary');
+        const index = summaries.findIndex(
+          (existing) => existing.date === summary.date && getBranchId(existing) === getBranchId(summary)
+        );
+
+        if (index >= 0) {
+          summaries[index] = { ...summaries[index], ...summary };
+        } else {
+          summaries.push({ ...summary, id: generateId() });
+        }
+        writeTable('queue_summary', summaries);
+      },
+    },
+
+    queueMoves: {
+      async listForDate(dateKey) {
+        return readTable<QueueMove>('queue_moves')
+          .filter((move) => move.visit_date === dateKey)
+          .sort(byNewest);
+      },
+
+      async create(move) {
+        createQueueMove(move);
+      },
+    },
+
+    prescriptions: {
+      async listForVisit(visitId) {
+        return readTable<Prescription>('prescriptions')
+          .filter((prescription) => prescription.visit_id === visitId)
+          .sort(byNewest);
+      },
+
+      async create(prescription) {
+        const now = new Date().toISOString();
+        const visit = readTable<Visit>('visits').find((candidate) => candidate.id === prescription.visit_id);
+        const created: Prescription = {
+          medications: [],
+          is_active: true,
+          ...prescription,
+          patient_id: visit?.patient_id ?? null,
+          id: generateId(),
+          created_at: now,
+          updated_at: now,
+        };
+        writeTable('prescriptions', [...readTable<Prescription>('prescriptions'), created]);
+        recordAudit('prescriptions', null, created);
+        return created;
+      },
+    },
+
+    auditLog: {
+      async listForVisit(visitId) {
+        return readTable<AuditEntry>('audit_log')
+          .filter((entry) => entry.visit_id === visitId)
+          .sort(byNewest);
+      },
+
+      async listBetween(fromKey, toKey, branchId) {
+        const from = fromDateKey(fromKey).toISOString();
+        const until = addDays(fromDateKey(toKey), 1).toISOString();
+        return readTable<AuditEntry>('audit_log')
+          .filter((entry) => (entry.branch_id ?? null) === branchId && entry.created_at >= from && entry.created_at < until)
+          .sort(byNewest);
+      },
+    },
+
+    staff: {
+      async list() {
+        return [...getStaffRows()].sort(
+          (a, b) => (a.full_name || a.email).localeCompare(b.full_name || b.email)
+        );
+      },
+
+      async invite(invite) {
+        const profiles = getStaffRows();
+        const email = invite.email.trim().toLowerCase();
+        // Mirrors invite_staff(): a pending invitation is updated and sent again
+        const existing = profiles.find((profile) => profile.email === email);
+        if (existing?.user_id) {
+          throw new Error('A staff member with that email already exists');
+        }
+
+        const now = new Date().toISOString();
+        if (existing) {
+          Object.assign(existing, { ...invite, email, is_active: true, invited_at: now, updated_at: now });
+        } else {
+          profiles.push({
+            ...invite,
+            id: generateId(),
+            user_id: null,
+            email,
+            is_active: true,
+            last_sign_in_at: null,
+            invited_at: now,
+            created_at: now,
+            updated_at: now,
+          });
+        }
+        setPassword(email, LOCAL_INVITE_PASSWORD);
+        writeTable('staff_profiles', profiles);
+      },
+
+      async update(id, changes) {
+        const profiles = getStaffRows();
+        const index = profiles.findIndex((profile) => profile.id === id);
+        if (index < 0) throw new Error(`Staff member ${id} not found`);
+
+        profiles[index] = { ...profiles[index], ...changes, updated_at: new Date().toISOString() };
+        writeTable('staff_profiles', profiles);
+      },
+    },
+
+    auth: {
+      async signIn(email, password) {
+        const normalizedEmail = email.trim().toLowerCase();
+        const profiles = getStaffRows();
+        const profile = profiles.find((candidate) => candidate.email === normalizedEmail);
+        if (!profile || getPasswords()[normalizedEmail] !== password) {
+          throw new Error('Invalid login credentials');
+        }
+        if (!profile.is_active) {
+          throw new Error('This account has been deactivated');
+        }
+
+        // The first sign-in accepts the invitation, as the Supabase trigger links the new account
+        const now = new Date().toISOString();
+        Object.assign(profile, { user_id: profile.user_id ?? normalizedEmail, last_sign_in_at: now });
+        writeTable('staff_profiles', profiles);
+        localStorage.setItem(SESSION_KEY, JSON.stringify({ email: normalizedEmail, signed_in_at: now }));
+      },
+
+      async signOut() {
+        localStorage.removeItem(SESSION_KEY);
+      },
+
+      async getCurrentUser() {
+        const profile = getSessionProfile();
+        if (!profile) return null;
+        return {
+          id: profile.user_id ?? profile.email,
+          email: profile.email,
+          role: profile.is_active ? profile.role : null,
+        };
+      },
+
+      async sendPasswordReset(email) {
+        setPassword(email.trim().toLowerCase(), LOCAL_INVITE_PASSWORD);
+      },
+
+      async updatePassword(password) {
+        const profile = getSessionProfile();
+        if (!profile) throw new Error('Please open the link from your email again');
+        setPassword(profile.email, password);
+      },
+    },
+
+    subscribe(_channel, tables, onChange, onConnectionChange) {
+      const listener = { tables, onChange };
+      listeners.add(listener);
+      // Local changes are delivered in-process, so the connection never drops
+      onConnectionChange?.(true);
+
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
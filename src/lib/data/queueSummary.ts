@@ -0,0 +1,79 @@
+import { DoctorQueueSummary, QueueSummary, Visit } from '../../types';
+import { toDateKey } from '../dates';
+import { buildWaitModel, estimateQueueWaits, WaitModel } from '../waitEstimator';
+import { QueueSummaryInput } from './types';
+
+export const DEFAULT_CONSULTATION_MINUTES = 15;
+const DEFAULT_FEE = 500;
+
+const isWaitingStatus = (visit: Visit) => ['upcoming', 'arrived'].includes(visit.visit_status);
+
+const buildDoctorQueue = (
+  doctorId: string | null,
+  visits: Visit[],
+  model: WaitModel,
+  now: Date,
+  estimate: boolean
+): DoctorQueueSummary => {
+  const waits = estimate ? estimateQueueWaits(model, visits, now) : null;
+  return {
+    doctor_id: doctorId,
+    current_token: visits.find(v => v.visit_status === 'in_consultation')?.token_number ?? null,
+    total_waiting: visits.filter(isWaitingStatus).length,
+    estimated_wait_time: waits?.nextJoiner.minutes ?? 0,
+    estimated_wait_low: waits?.nextJoiner.low ?? 0,
+    estimated_wait_high: waits?.nextJoiner.high ?? 0,
+    wait_estimates: waits?.byPosition ?? [],
+  };
+};
+
+// Aggregates a branch's visits for a day into the row shown on the homepage and tracking page, with one queue
+// per doctor. Waits are only estimated for today's queues; other days have no one in consultation to time from.
+export const buildQueueSummary = (
+  dateKey: string,
+  branchId: string | null,
+  visits: Visit[],
+  model: WaitModel = buildWaitModel([], DEFAULT_CONSULTATION_MINUTES),
+  now: Date = new Date()
+): QueueSummaryInput => {
+  const totalWaiting = visits.filter(isWaitingStatus).length;
+  const currentVisit = visits.find(v => v.visit_status === 'in_consultation');
+  const estimate = dateKey === toDateKey(now);
+
+  const doctorIds = [...new Set(visits.map(v => v.doctor_id ?? null))];
+  const doctorQueues = doctorIds.map(doctorId =>
+    buildDoctorQueue(doctorId, visits.filter(v => (v.doctor_id ?? null) === doctorId), model, now, estimate)
+  );
+  // Headline figures follow the shortest queue, which is what a walk-in would join
+  const shortest = doctorQueues.reduce<DoctorQueueSummary | null>(
+    (best, queue) => (!best || queue.estimated_wait_time < best.estimated_wait_time ? queue : best),
+    null
+  );
+
+  return {
+    date: dateKey,
+    branch_id: branchId,
+    total_appointments: visits.length,
+    total_waiting: totalWaiting,
+    total_completed: visits.filter(v => v.visit_status === 'completed').length,
+    total_cancelled: visits.filter(v => ['cancelled', 'no_show'].includes(v.visit_status)).length,
+    current_token: currentVisit?.token_number ?? null,
+    estimated_wait_time: shortest?.estimated_wait_time ?? 0,
+    estimated_wait_low: estimate ? shortest?.estimated_wait_low ?? 0 : null,
+    estimated_wait_high: estimate ? shortest?.estimated_wait_high ?? 0 : null,
+    // Positions are per doctor, so the clinic-wide list only applies while there is a single queue
+    wait_estimates: doctorQueues.length === 1 ? doctorQueues[0].wait_estimates : [],
+    doctor_queues: doctorQueues,
+    average_consultation_time: Math.round(model.overall.mean),
+    total_revenue: visits
+      .filter(v => v.payment_status === 'paid')
+      .reduce((sum, v) => sum + (v.payment_amount || DEFAULT_FEE), 0),
+    updated_at: now.toISOString(),
+  };
+};
+
+// Placeholder shown before any visit has been booked for the day
+export const createEmptyQueueSummary = (dateKey: string, branchId: string | null): QueueSummary => ({
+  id: '',
+  ...buildQueueSummary(dateKey, branchId, []),
+});
@@ -0,0 +1,690 @@
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { addDays } from 'date-fns';
+import { BookingProfile, PatientMerge, PublicVisit } from '../../types';
+import { BOOKING_CODE_ERRORS, BookingCodeStatus } from '../bookingCodes';
+import { fromDateKey } from '../dates';
+import { SELF_SERVICE_OWNERSHIP_ERROR, SLOT_TAKEN_ERROR } from '../scheduling';
+import { generateAccessKey } from '../supabase';
+import { DataBackend, DataTable, VisitCredentials } from './types';
+
+// Invitation and password-reset emails link here; Supabase signs the user in before the page opens
+const getPasswordPageUrl = () => `${window.location.origin}/admin/reset-password`;
+
+// Patients cannot read visits directly; the database checks the credentials and returns only the public fields
+const fetchPublicVisit = async (
+  client: SupabaseClient,
+  uid: string,
+  { accessKey, checkInCode, phone }: VisitCredentials
+): Promise<PublicVisit | null> => {
+  const { data, error } = await client
+    .rpc('get_public_visit', {
+      p_uid: uid,
+      p_access_key: accessKey || null,
+      p_phone: phone || null,
+      p_check_in_code: checkInCode || null,
+    })
+    .maybeSingle<PublicVisit>();
+
+  if (error) throw error;
+  return data;
+};
+
+// Raised when two bookings race for the same slot
+const isSlotTaken = (error: PostgrestError) =>
+  error.code === '23505' && error.message.includes('idx_visits_active_slot');
+
+export const createSupabaseBackend = (client: SupabaseClient): DataBackend => ({
+  kind: 'supabase',
+
+  branches: {
+    async list() {
+      const { data, error } = await client
+        .from('branches')
+        .select('*')
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async listManaged() {
+      const { data: auth } = await client.auth.getUser();
+      if (!auth.user) return [];
+
+      const { data: profile, error: profileError } = await client
+        .from('staff_profiles')
+        .select('id, is_active')
+        .eq('user_id', auth.user.id)
+        .maybeSingle();
+      if (profileError) throw profileError;
+      if (!profile?.is_active) return [];
+
+      const { data: assignments, error: assignmentError } = await client
+        .from('branch_staff')
+        .select('branch_id')
+        .eq('staff_id', profile.id);
+      if (assignmentError) throw assignmentError;
+
+      const { data, error } = await client
+        .from('branches')
+        .select('*')
+        .in('id', (assignments || []).map((assignment) => assignment.branch_id))
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+  },
+
+  // Staff read visits through the staff_visits view, which leaves clinical details blank for accountants
+  visits: {
+    async getByUid(uid) {
+      const { data, error } = await client
+        .from('staff_visits')
+        .select('*')
+        .eq('uid', uid)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async getPublic(uid, credentials) {
+      return fetchPublicVisit(client, uid, credentials);
+    },
+
+    // The signing key stays in the database, which signs and checks the codes
+    async getCheckInCode(uid, accessKey) {
+      const { data, error } = await client.rpc('get_check_in_code', { p_uid: uid, p_access_key: accessKey });
+
+      if (error) throw error;
+      return data;
+    },
+
+    async verifyCheckInCode(code) {
+      const { data, error } = await client.rpc('verify_check_in_code', { p_code: code });
+
+      if (error) throw error;
+      if (!data) throw new Error('Only staff can verify check-in codes');
+      return data;
+    },
+
+    async listForDate(dateKey, branchId) {
+      let query = client
+        .from('staff_visits')
+        .select('*')
+        .eq('appointment_date', dateKey);
+      query = branchId ? query.eq('branch_id', branchId) : query.is('branch_id', null);
+
+      const { data, error } = await query.order('token_number', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async listBetween(fromKey, toKey, branchId) {
+      let query = client
+        .from('staff_visits')
+        .select('*')
+        .gte('appointment_date', fromKey)
+        .lte('appointment_date', toKey);
+      query = branchId ? query.eq('branch_id', branchId) : query.is('branch_id', null);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async listQueueBoard(dateKey, branchId) {
+      const { data, error } = await client.rpc('get_queue_board', { p_day: dateKey, p_branch_id: branchId });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async listBookedSlots(dateKey, doctorId) {
+      const { data, error } = await client.rpc('get_booked_slots', { p_day: dateKey, p_doctor_id: doctorId });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async listAll(branchId) {
+      let query = client.from('staff_visits').select('*');
+      query = branchId ? query.eq('branch_id', branchId) : query.is('branch_id', null);
+
+      const { data, error } = await query.order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async search(term, branchId) {
+      let query = client
+        .from('staff_visits')
+        .select('*')
+        .or(`name.ilike.%${term}%,uid.ilike.%${term}%,phone.ilike.%${term}%`);
+      query = branchId ? query.eq('branch_id', branchId) : query.is('branch_id', null);
+
+      const { data, error } = await query.order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async listHistory(visit) {
+      if (!visit.patient_id) return [];
+
+      const { data, error } = await client
+        .from('staff_visits')
+        .select('*')
+        .eq('patient_id', visit.patient_id)
+        .neq('id', visit.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async allocateToken(dateKey, doctorId) {
+      const { data, error } = await client
+        .rpc('allocate_visit_token', { p_day: dateKey, p_doctor_id: doctorId })
+        .single<{ token_number: number; uid: string }>();
+
+      if (error) throw error;
+      return { tokenNumber: data.token_number, uid: data.uid };
+    },
+
+    async create(visit) {
+      // The patient cannot read the row back, so it is fetched again through its access key
+      const accessKey = visit.access_key || generateAccessKey();
+      const { error } = await client.from('visits').insert({ ...visit, access_key: accessKey });
+
+      if (error) throw isSlotTaken(error) ? new Error(SLOT_TAKEN_ERROR) : error;
+
+      const created = await fetchPublicVisit(client, visit.uid, { accessKey });
+      if (!created) throw new Error(`Visit ${visit.uid} not found`);
+      return created;
+    },
+
+    async update(id, changes) {
+      const { error } = await client
+        .from('visits')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+
+    async setPaymentStatus(id, status) {
+      const { error } = await client.rpc('set_visit_payment_status', { p_visit_id: id, p_payment_status: status });
+      if (error) throw error;
+    },
+
+    async renumberQueue(dateKey) {
+      const { error } = await client.rpc('renumber_queue_as_staff', { p_day: dateKey });
+      if (error) throw error;
+    },
+
+    // Reorders run in the database, which locks the doctor's queue so concurrent reorders can't interleave
+    async moveInQueue(id, toPosition, reason) {
+      const { error } = await client.rpc('move_visit_in_queue', {
+        p_visit_id: id,
+        p_to_position: toPosition,
+        p_reason: reason,
+      });
+      if (error) throw error;
+    },
+
+    async setPriority(id, lane) {
+      const { error } = await client.rpc('set_visit_priority', { p_visit_id: id, p_priority: lane });
+      if (error) throw error;
+    },
+
+    // The database also sweeps every branch each minute where pg_cron is available
+    async markNoShows(branchId) {
+      const { data, error } = await client.rpc('mark_no_shows', { p_branch_id: branchId });
+      if (error) throw error;
+      return data || [];
+    },
+
+    async cancelForClosure(branchId, dateKey, reason) {
+      const { data, error } = await client.rpc('cancel_closure_bookings', {
+        p_branch_id: branchId,
+        p_day: dateKey,
+        p_reason: reason,
+      });
+      if (error) throw error;
+      return data || [];
+    },
+
+    // Ownership and the cutoff window are checked by the database functions, which return no row for the wrong
+    // credentials so the failed attempt is still counted
+    async cancelByPatient(uid, { accessKey, checkInCode, phone }) {
+      const { data, error } = await client
+        .rpc('cancel_visit_by_patient', {
+          p_uid: uid,
+          p_access_key: accessKey || null,
+          p_phone: phone || null,
+          p_check_in_code: checkInCode || null,
+        })
+        .maybeSingle<PublicVisit>();
+
+      if (error) throw error;
+      if (!data) throw new Error(SELF_SERVICE_OWNERSHIP_ERROR);
+      return data;
+    },
+
+    async rescheduleByPatient(uid, { accessKey, checkInCode, phone }, dateKey, slot) {
+      const { data, error } = await client
+        .rpc('reschedule_visit_by_patient', {
+          p_uid: uid,
+          p_access_key: accessKey || null,
+          p_phone: phone || null,
+          p_check_in_code: checkInCode || null,
+          p_day: dateKey,
+          p_slot: slot,
+        })
+        .maybeSingle<PublicVisit>();
+
+      if (error) throw isSlotTaken(error) ? new Error(SLOT_TAKEN_ERROR) : error;
+      if (!data) throw new Error(SELF_SERVICE_OWNERSHIP_ERROR);
+      return data;
+    },
+
+    async checkInByPatient(uid, { accessKey, checkInCode, phone }, branchId) {
+      const { data, error } = await client
+        .rpc('check_in_visit_by_patient', {
+          p_uid: uid,
+          p_access_key: accessKey || null,
+          p_phone: phone || null,
+          p_check_in_code: checkInCode || null,
+          p_branch_id: branchId,
+        })
+        .single<PublicVisit>();
+
+      if (error) throw error;
+      return data;
+    },
+  },
+
+  // Visits are linked to patients, and patients versioned, by database triggers. Staff read patients through the
+  // staff_patients views, which leave clinical details blank for accountants.
+  patients: {
+    async get(id) {
+      const { data, error } = await client
+        .from('staff_patients')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async listByIds(ids) {
+      if (ids.length === 0) return [];
+
+      const { data, error } = await client.from('staff_patients').select('*').in('id', ids);
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async list(branchId) {
+      // The inner join keeps only patients with a visit at the branch
+      let query = branchId
+        ? client
+            .from('staff_patients')
+            .select('*, staff_visits!inner(branch_id)')
+            .eq('staff_visits.branch_id', branchId)
+        : client.from('staff_patients').select('*');
+      query = query.is('merged_into', null);
+
+      const { data, error } = await query.order('code', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async getFamily(patientId) {
+      const { data: patient, error } = await client
+        .from('staff_patients')
+        .select('guardian_id')
+        .eq('id', patientId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      let guardian = null;
+      if (patient?.guardian_id) {
+        const { data, error: guardianError } = await client
+          .from('staff_patients')
+          .select('*')
+          .eq('id', patient.guardian_id)
+          .maybeSingle();
+
+        if (guardianError) throw guardianError;
+        guardian = data;
+      }
+
+      const { data: dependents, error: dependentsError } = await client
+        .from('staff_patients')
+        .select('*')
+        .eq('guardian_id', patientId)
+        .is('merged_into', null)
+        .order('created_at');
+
+      if (dependentsError) throw dependentsError;
+      return { guardian, dependents: dependents || [] };
+    },
+
+    async listVersions(patientId) {
+      const { data, error } = await client
+        .from('staff_patient_versions')
+        .select('*')
+        .eq('patient_id', patientId)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async update(id, changes) {
+      const { error } = await client.from('patients').update(changes).eq('id', id);
+      if (error) throw error;
+    },
+
+    // The code is created and texted by the send-booking-code function, which holds the SMS provider's credentials
+    async sendBookingCode(phone) {
+      const { error } = await client.functions.invoke('send-booking-code', { body: { phone } });
+      if (error) {
+        // The function's own message, such as too many codes requested, is in the response body
+        const body = await error.context?.json?.().catch(() => null);
+        throw new Error(body?.error || error.message);
+      }
+    },
+
+    async verifyBookingCode(phone, code) {
+      const { data, error } = await client.rpc('verify_booking_code', { p_phone: phone, p_code: code.trim() });
+      if (error) throw error;
+
+      const { status, profiles } = data as { status: BookingCodeStatus; profiles: BookingProfile[] | null };
+      if (status !== 'verified') throw new Error(BOOKING_CODE_ERRORS[status]);
+      return profiles || [];
+    },
+
+    // Merging and undoing run in the database so everything moves together, and are logged in patient_merges
+    async merge(survivorId, mergedId) {
+      const { data, error } = await client
+        .rpc('merge_patients', { p_survivor_id: survivorId, p_merged_id: mergedId })
+        .single<PatientMerge>();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async listMerges() {
+      const { data, error } = await client
+        .from('staff_patient_merges')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async undoMerge(mergeId) {
+      const { error } = await client.rpc('undo_patient_merge', { p_merge_id: mergeId });
+      if (error) throw error;
+    },
+  },
+
+  settings: {
+    async get(branchId) {
+      let query = client.from('clinic_settings').select('*');
+      query = branchId ? query.eq('branch_id', branchId) : query.is('branch_id', null);
+
+      const { data, error } = await query.limit(1).maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async save(values, id) {
+      const { error } = id
+        ? await client
+            .from('clinic_settings')
+            .update({ ...values, updated_at: new Date().toISOString() })
+            .eq('id', id)
+        : await client.from('clinic_settings').insert(values);
+
+      if (error) throw error;
+    },
+  },
+
+  doctors: {
+    async list(branchId) {
+      let query = client.from('doctors').select('*');
+      query = branchId ? query.eq('branch_id', branchId) : query.is('branch_id', null);
+
+      const { data, error } = await query
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async save(values, id) {
+      const { error } = id
+        ? await client
+            .from('doctors')
+            .update({ ...values, updated_at: new Date().toISOString() })
+            .eq('id', id)
+        : await client.from('doctors').insert(values);
+
+      if (error) throw error;
+    },
+  },
+
+  queueSummary: {
+    async getForDate(dateKey, branchId) {
+      let query = client.from('queue_summary').select('*').eq('date', dateKey);
+      query = branchId ? query.eq('branch_id', branchId) : query.is('branch_id', null);
+
+      const { data, error } = await query.maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async upsert(summary) {
+      const { error } = await client
+        .from('queue_summary')
+        .upsert(summary, { onConflict: 'date,branch_id' });
+
+      if (error) throw error;
+    },
+  },
+
+  queueMoves: {
+    async listForDate(dateKey) {
+      const { data, error } = await client
+        .from('queue_moves')
+        .select('*')
+        .eq('visit_date', dateKey)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async create(move) {
+      const { error } = await client.from('queue_moves').insert(move);
+      if (error) throw error;
+    },
+  },
+
+  prescriptions: {
+    async listForVisit(visitId) {
+      const { data, error } = await client
+        .from('prescriptions')
+        .select('*')
+        .eq('visit_id', visitId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async create(prescription) {
+      const { data, error } = await client
+        .from('prescriptions')
+        .insert(prescription)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+  },
+
+  // Entries are written by the record_audit_entry() trigger
+  auditLog: {
+    async listForVisit(visitId) {
+      const { data, error } = await client
+        .from('audit_log')
+        .select('*')
+        .eq('visit_id', visitId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async listBetween(fromKey, toKey, branchId) {
+      let query = client
+        .from('audit_log')
+        .select('*')
+        .gte('created_at', fromDateKey(fromKey).toISOString())
+        .lt('created_at', addDays(fromDateKey(toKey), 1).toISOString());
+      query = branchId ? query.eq('branch_id', branchId) : query.is('branch_id', null);
+
+      const { data, error } = await query.order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  },
+
+  staff: {
+    async list() {
+      const { data, error } = await client.rpc('list_staff');
+      if (error) throw error;
+      return data || [];
+    },
+
+    // The profile and branches are saved together; inviting a pending email again updates it, so a failed email can
+    // be resent
+    async invite({ email, full_name, role, branch_ids }) {
+      const { error } = await client.rpc('invite_staff', {
+        p_email: email,
+        p_full_name: full_name,
+        p_role: role,
+        p_branch_ids: branch_ids,
+      });
+      if (error) throw error;
+
+      // Creates the sign-in account if needed; the invitee then chooses a password
+      const { error: emailError } = await client.auth.signInWithOtp({
+        email: email.trim(),
+        options: { shouldCreateUser: true, emailRedirectTo: getPasswordPageUrl() },
+      });
+      if (emailError) throw emailError;
+    },
+
+    async update(id, { branch_ids, ...changes }) {
+      if (Object.keys(changes).length > 0) {
+        const { error } = await client
+          .from('staff_profiles')
+          .update({ ...changes, updated_at: new Date().toISOString() })
+          .eq('id', id);
+        if (error) throw error;
+      }
+
+      // Replaced in one transaction, and only at the signed-in owner's branches
+      if (branch_ids) {
+        const { error } = await client.rpc('set_staff_branches', { p_staff_id: id, p_branch_ids: branch_ids });
+        if (error) throw error;
+      }
+    },
+  },
+
+  auth: {
+    async signIn(email, password) {
+      const { data, error } = await client.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+
+      const { data: profile } = await client
+        .from('staff_profiles')
+        .select('is_active')
+        .eq('user_id', data.user.id)
+        .maybeSingle();
+      if (profile && !profile.is_active) {
+        await client.auth.signOut();
+        throw new Error('This account has been deactivated');
+      }
+    },
+
+    async signOut() {
+      const { error } = await client.auth.signOut();
+      if (error) throw error;
+    },
+
+    async getCurrentUser() {
+      const { data, error } = await client.auth.getUser();
+      if (error || !data.user) return null;
+
+      const { data: profile, error: profileError } = await client
+        .from('staff_profiles')
+        .select('role, is_active')
+        .eq('user_id', data.user.id)
+        .maybeSingle();
+      if (profileError) throw profileError;
+
+      return { id: data.user.id, email: data.user.email || '', role: profile?.is_active ? profile.role : null };
+    },
+
+    async sendPasswordReset(email) {
+      const { error } = await client.auth.resetPasswordForEmail(email, { redirectTo: getPasswordPageUrl() });
+      if (error) throw error;
+    },
+
+    async updatePassword(password) {
+      const { error } = await client.auth.updateUser({ password });
+      if (error) throw error;
+    },
+  },
+
+  subscribe(channel, tables, onChange, onConnectionChange) {
+    let realtimeChannel = client.channel(channel);
+
+    tables.forEach((table: DataTable) => {
+      realtimeChannel = realtimeChannel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table },
+        () => onChange(table)
+      );
+    });
+
+    realtimeChannel.subscribe((status) => onConnectionChange?.(status === 'SUBSCRIBED'));
+
+    return () => {
+      realtimeChannel.unsubscribe();
+    };
+  },
+});
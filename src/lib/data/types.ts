@@ -0,0 +1,247 @@
+import {
+  AuditEntry,
+  BookingProfile,
+  Branch,
+  ClinicSettings,
+  Doctor,
+  Patient,
+  PatientDetails,
+  PatientFamily,
+  PatientMerge,
+  PatientVersion,
+  Prescription,
+  PriorityLane,
+  PublicVisit,
+  QueueBoardEntry,
+  QueueMove,
+  QueueSummary,
+  StaffProfile,
+  StaffRole,
+  Visit,
+} from '../../types';
+
+export type BackendKind = 'supabase' | 'local';
+
+export type NewVisit = Omit<Visit, 'id' | 'created_at' | 'updated_at'>;
+export type VisitChanges = Partial<Omit<Visit, 'id' | 'uid' | 'created_at'>>;
+export type PatientChanges = Partial<PatientDetails>;
+
+// How a patient proves a visit is theirs: the key from their booking link, the signed code from their QR, or the
+// phone number they booked with
+export interface VisitCredentials {
+  accessKey?: string;
+  checkInCode?: string;
+  phone?: string;
+}
+
+// What a scanned check-in code turned out to be; 'invalid' covers forged and damaged codes
+export type CheckInCodeStatus = 'valid' | 'expired' | 'invalid';
+
+export type ClinicSettingsInput = Partial<Omit<ClinicSettings, 'id' | 'created_at' | 'updated_at'>>;
+
+export interface TokenAllocation {
+  tokenNumber: number;
+  uid: string;
+}
+
+export type DoctorInput = Omit<Doctor, 'id' | 'created_at' | 'updated_at'>;
+
+export type QueueSummaryInput = Omit<QueueSummary, 'id'>;
+
+export type NewQueueMove = Omit<QueueMove, 'id' | 'created_at' | 'moved_by' | 'moved_by_id'>;
+
+export interface StaffUser {
+  id: string;
+  email: string;
+  // null until an owner gives the account a role, and once it is deactivated; such accounts cannot use the admin panel
+  role: StaffRole | null;
+}
+
+export type StaffInvite = Pick<StaffProfile, 'email' | 'full_name' | 'role' | 'branch_ids'>;
+
+export type StaffProfileChanges = Partial<Pick<StaffProfile, 'full_name' | 'role' | 'is_active' | 'branch_ids'>>;
+
+export type NewPrescription = Omit<Prescription, 'id' | 'medications' | 'is_active' | 'created_at' | 'updated_at'> &
+  Partial<Pick<Prescription, 'medications' | 'is_active'>>;
+
+// Tables a page can listen to for realtime changes
+export type DataTable =
+  | 'branches'
+  | 'visits'
+  | 'clinic_settings'
+  | 'doctors'
+  | 'queue_summary'
+  | 'prescriptions'
+  | 'queue_moves'
+  | 'staff_profiles'
+  | 'audit_log'
+  | 'patients'
+  | 'patient_versions'
+  | 'patient_merges'
+  | 'booking_codes';
+
+export interface VisitRepository {
+  // For staff; patients go through getPublic
+  getByUid(uid: string): Promise<Visit | null>;
+  // A patient's own visit, or null unless the credentials match
+  getPublic(uid: string, credentials: VisitCredentials): Promise<PublicVisit | null>;
+  // The signed code for the patient's QR, valid through the visit's day; null unless the access key matches
+  getCheckInCode(uid: string, accessKey: string): Promise<string | null>;
+  // Checks a scanned check-in code's signature and expiry
+  verifyCheckInCode(code: string): Promise<CheckInCodeStatus>;
+  // The branch's visits with an appointment on the given date, ordered by token number
+  listForDate(dateKey: string, branchId: string | null): Promise<Visit[]>;
+  // The branch's visits with an appointment between the two dates, inclusive
+  listBetween(fromKey: string, toKey: string, branchId: string | null): Promise<Visit[]>;
+  // The branch's consultation and waiting visits for the public display, in queue order with names masked
+  listQueueBoard(dateKey: string, branchId: string | null): Promise<QueueBoardEntry[]>;
+  // Slot times ("HH:mm") held by active bookings with the doctor on the given date
+  listBookedSlots(dateKey: string, doctorId: string | null): Promise<string[]>;
+  // Every visit at the branch, newest first
+  listAll(branchId: string | null): Promise<Visit[]>;
+  // Case-insensitive match on name, UID or phone among the branch's visits, newest first
+  search(term: string, branchId: string | null): Promise<Visit[]>;
+  // The patient's other visits, newest first
+  listHistory(visit: Visit): Promise<Visit[]>;
+  // Atomically reserves the doctor's next token for a day; concurrent callers never get the same one.
+  // The UID starts with the prefix of the doctor's branch.
+  allocateToken(dateKey: string, doctorId: string | null): Promise<TokenAllocation>;
+  // Returns the new visit as the patient sees it, including the access key for their links
+  create(visit: NewVisit): Promise<PublicVisit>;
+  update(id: string, changes: VisitChanges): Promise<void>;
+  // For the front desk and accounts, who may not be able to read the visit itself
+  setPaymentStatus(id: string, status: Visit['payment_status']): Promise<void>;
+  // For staff: re-sequences queue positions 1..n among visits still waiting on the given date, separately for each
+  // doctor. New bookings are slotted in when they are created.
+  renumberQueue(dateKey: string): Promise<void>;
+  // For staff: moves a waiting visit to a position in its doctor's queue and logs the move, all at once
+  moveInQueue(id: string, toPosition: number, reason: string): Promise<void>;
+  // For staff: sets or clears a visit's priority lane; setting one moves the visit up as the lane's rule allows
+  setPriority(id: string, lane: PriorityLane | null): Promise<void>;
+  // For staff: marks today's visits at the branch whose no-show grace period is over, and returns them
+  markNoShows(branchId: string | null): Promise<Visit[]>;
+  // For owners: cancels the active bookings the branch's saved closure on the day takes away, and returns them
+  cancelForClosure(branchId: string | null, dateKey: string, reason: string): Promise<Visit[]>;
+  // Patient self-service; the caller proves ownership as for getPublic, and repeated failures lock the booking
+  cancelByPatient(uid: string, credentials: VisitCredentials): Promise<PublicVisit>;
+  rescheduleByPatient(uid: string, credentials: VisitCredentials, dateKey: string, slot: string): Promise<PublicVisit>;
+  // Marks today's visit at the kiosk's branch as arrived; the patient proves ownership as for getPublic
+  checkInByPatient(uid: string, credentials: VisitCredentials, branchId: string | null): Promise<PublicVisit>;
+}
+
+export interface PatientRepository {
+  // For staff
+  get(id: string): Promise<Patient | null>;
+  // The patients with these ids, e.g. those of the visits on screen
+  listByIds(ids: string[]): Promise<Patient[]>;
+  // Patients who have visited the branch (every branch the user can see when null), leaving out merged duplicates
+  list(branchId: string | null): Promise<Patient[]>;
+  // The patient's guardian, if they are a dependent, and the dependents they book for
+  getFamily(patientId: string): Promise<PatientFamily>;
+  // Every version of the patient's details, newest first
+  listVersions(patientId: string): Promise<PatientVersion[]>;
+  // Saves the changes as the patient's next version
+  update(id: string, changes: PatientChanges): Promise<void>;
+  // Texts a one-time code to the phone number if any patient has booked with it. Resolves the same either way, so
+  // the form doesn't reveal who is a patient.
+  sendBookingCode(phone: string): Promise<void>;
+  // The patients who have booked with the phone number, most recent visit first; throws if the code is wrong
+  verifyBookingCode(phone: string, code: string): Promise<BookingProfile[]>;
+  // Moves the duplicate's visits and prescriptions to the survivor, fills the survivor's blank details from the
+  // duplicate and logs what was moved
+  merge(survivorId: string, mergedId: string): Promise<PatientMerge>;
+  // Newest first
+  listMerges(): Promise<PatientMerge[]>;
+  // Moves the visits and prescriptions back and restores the survivor's earlier details
+  undoMerge(mergeId: string): Promise<void>;
+}
+
+export interface BranchRepository {
+  // Every branch, including inactive ones, in display order
+  list(): Promise<Branch[]>;
+  // Branches the signed-in staff member is assigned to
+  listManaged(): Promise<Branch[]>;
+}
+
+export interface ClinicSettingsRepository {
+  // The branch's settings row
+  get(branchId: string | null): Promise<ClinicSettings | null>;
+  // Updates the existing settings row, or creates it when `id` is omitted
+  save(values: ClinicSettingsInput, id?: string): Promise<void>;
+}
+
+export interface DoctorRepository {
+  // Every doctor at the branch, including inactive ones, in display order
+  list(branchId: string | null): Promise<Doctor[]>;
+  // Updates the doctor with `id`, or adds a new one when it is omitted
+  save(values: DoctorInput, id?: string): Promise<void>;
+}
+
+export interface QueueSummaryRepository {
+  getForDate(dateKey: string, branchId: string | null): Promise<QueueSummary | null>;
+  upsert(summary: QueueSummaryInput): Promise<void>;
+}
+
+export interface QueueMoveRepository {
+  // Moves of visits booked for the given date, newest first
+  listForDate(dateKey: string): Promise<QueueMove[]>;
+  create(move: NewQueueMove): Promise<void>;
+}
+
+// Entries are added by the backend whenever a visit or prescription changes; there is no way to write them directly
+export interface AuditLogRepository {
+  // Changes to the visit and its prescriptions, newest first
+  listForVisit(visitId: string): Promise<AuditEntry[]>;
+  // Changes at the branch made between the two dates, inclusive, newest first
+  listBetween(fromKey: string, toKey: string, branchId: string | null): Promise<AuditEntry[]>;
+}
+
+export interface PrescriptionRepository {
+  listForVisit(visitId: string): Promise<Prescription[]>;
+  create(prescription: NewPrescription): Promise<Prescription>;
+}
+
+export interface StaffRepository {
+  // Every staff member with their branches and last sign-in; owners only
+  list(): Promise<StaffProfile[]>;
+  // Adds the staff member and emails them a sign-in link; their account is linked once they confirm their email.
+  // Inviting someone who hasn't accepted yet again updates their invitation and sends it again.
+  invite(invite: StaffInvite): Promise<void>;
+  // Owners can only assign the branches they work at themselves
+  update(id: string, changes: StaffProfileChanges): Promise<void>;
+}
+
+export interface AuthRepository {
+  // Deactivated staff are refused
+  signIn(email: string, password: string): Promise<void>;
+  signOut(): Promise<void>;
+  // The signed-in staff member, or null when nobody is signed in
+  getCurrentUser(): Promise<StaffUser | null>;
+  // Emails a link to the page where a new password is chosen
+  sendPasswordReset(email: string): Promise<void>;
+  // Sets the signed-in user's password, e.g. after following a reset or invitation link
+  updatePassword(password: string): Promise<void>;
+}
+
+export interface DataBackend {
+  kind: BackendKind;
+  branches: BranchRepository;
+  visits: VisitRepository;
+  patients: PatientRepository;
+  settings: ClinicSettingsRepository;
+  doctors: DoctorRepository;
+  queueSummary: QueueSummaryRepository;
+  queueMoves: QueueMoveRepository;
+  prescriptions: PrescriptionRepository;
+  auditLog: AuditLogRepository;
+  staff: StaffRepository;
+  auth: AuthRepository;
+  // Calls `onChange` whenever any of `tables` changes; returns an unsubscribe function.
+  // `onConnectionChange` reports when the live connection is established or lost.
+  subscribe(
+    channel: string,
+    tables: DataTable[],
+    onChange: (table: DataTable) => void,
+    onConnectionChange?: (connected: boolean) => void
+  ): () => void;
+}
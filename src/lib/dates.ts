@@ -0,0 +1,38 @@
+import { format, parseISO } from 'date-fns';
+
+// Date keys are calendar dates (YYYY-MM-DD) in the clinic's local time, matching the `date` columns in the database
+export const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+export const getTodayKey = (): string => toDateKey(new Date());
+
+// The database compares dates and slots in each branch's time zone rather than its own (UTC)
+export const DEFAULT_CLINIC_TIMEZONE = 'Asia/Kolkata';
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Local midnight of a date key
+export const fromDateKey = (dateKey: string): Date => parseISO(dateKey);
+
+// Minutes since midnight <-> "HH:mm", the format slots are stored in
+export const toTimeKey = (minutes: number): string =>
+  `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+export const fromTimeKey = (timeKey: string): number => {
+  const [hours, minutes] = timeKey.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// "14:30" -> "2:30 PM"
+export const formatTimeKey = (timeKey: string): string => {
+  const minutes = fromTimeKey(timeKey);
+  const hours = Math.floor(minutes / 60);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${(minutes % 60).toString().padStart(2, '0')} ${period}`;
+};
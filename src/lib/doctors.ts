@@ -0,0 +1,35 @@
+import { ClinicSettings, Doctor, Visit } from '../types';
+import { DEFAULT_CONSULTATION_ROOM } from './callAnnouncer';
+
+export const getActiveDoctors = (doctors: Doctor[]): Doctor[] => doctors.filter((doctor) => doctor.is_active);
+
+// Visits booked before doctors existed belong to the first doctor
+export const getVisitDoctorId = (visit: Pick<Visit, 'doctor_id'>, doctors: Doctor[]): string | null =>
+  visit.doctor_id ?? doctors[0]?.id ?? null;
+
+export const getVisitDoctor = (visit: Pick<Visit, 'doctor_id'>, doctors: Doctor[]): Doctor | null =>
+  doctors.find((doctor) => doctor.id === getVisitDoctorId(visit, doctors)) || null;
+
+export const filterVisitsForDoctor = <T extends Pick<Visit, 'doctor_id'>>(
+  visits: T[],
+  doctorId: string | null,
+  doctors: Doctor[]
+): T[] => visits.filter((visit) => getVisitDoctorId(visit, doctors) === doctorId);
+
+export const getDoctorRoom = (doctor: Doctor | null, settings: ClinicSettings | null): string =>
+  doctor?.room || settings?.consultation_room || DEFAULT_CONSULTATION_ROOM;
+
+// Clinic settings as one doctor's bookings see them: their own hours (if set), fee and room.
+// Closures stay clinic-wide.
+export const getDoctorSettings = (settings: ClinicSettings, doctor: Doctor | null): ClinicSettings =>
+  doctor
+    ? {
+        ...settings,
+        weekly_schedule: doctor.weekly_schedule || settings.weekly_schedule,
+        consultation_fee: doctor.consultation_fee,
+        consultation_room: getDoctorRoom(doctor, settings),
+      }
+    : settings;
+
+// Doctor codes are one or two capital letters so UIDs stay short and unambiguous
+export const DOCTOR_CODE_PATTERN = /^[A-Z]{1,2}$/;
@@ -0,0 +1,193 @@
+import {
+  AllergyEntry,
+  AllergySeverity,
+  MedicationEntry,
+  MedicationFrequency,
+  PatientDetails,
+} from '../types';
+
+export const ALLERGY_SEVERITY_LABELS: Record<AllergySeverity, string> = {
+  mild: 'Mild',
+  moderate: 'Moderate',
+  severe: 'Severe',
+};
+
+export const MEDICATION_FREQUENCY_LABELS: Record<MedicationFrequency, string> = {
+  once_daily: 'Once a day (OD)',
+  twice_daily: 'Twice a day (BD)',
+  three_times_daily: 'Three times a day (TDS)',
+  four_times_daily: 'Four times a day (QID)',
+  at_bedtime: 'At bedtime (HS)',
+  weekly: 'Once a week',
+  as_needed: 'When needed (SOS)',
+};
+
+export interface Allergen {
+  code: string;
+  label: string;
+  // Drugs that contain the substance or commonly cross-react with it, matched against prescriptions
+  drugs: string[];
+}
+
+const NSAIDS = [
+  'aspirin',
+  'ibuprofen',
+  'diclofenac',
+  'aceclofenac',
+  'naproxen',
+  'ketorolac',
+  'mefenamic',
+  'piroxicam',
+  'etoricoxib',
+  'indomethacin',
+];
+
+// The allergies patients pick from; anything else is typed in and matched on its own name
+export const ALLERGENS: Allergen[] = [
+  {
+    code: 'penicillin',
+    label: 'Penicillins',
+    drugs: ['penicillin', 'amoxicillin', 'ampicillin', 'cloxacillin', 'piperacillin', 'amoxyclav', 'augmentin'],
+  },
+  {
+    code: 'cephalosporin',
+    label: 'Cephalosporins',
+    drugs: ['cephalexin', 'cefadroxil', 'cefuroxime', 'cefixime', 'cefpodoxime', 'ceftriaxone', 'cefotaxime'],
+  },
+  {
+    code: 'sulfonamide',
+    label: 'Sulfa drugs',
+    drugs: ['sulfamethoxazole', 'cotrimoxazole', 'co-trimoxazole', 'septran', 'bactrim', 'sulfasalazine'],
+  },
+  { code: 'macrolide', label: 'Macrolides', drugs: ['azithromycin', 'clarithromycin', 'erythromycin'] },
+  {
+    code: 'fluoroquinolone',
+    label: 'Fluoroquinolones',
+    drugs: ['ciprofloxacin', 'levofloxacin', 'ofloxacin', 'norfloxacin', 'moxifloxacin'],
+  },
+  { code: 'tetracycline', label: 'Tetracyclines', drugs: ['tetracycline', 'doxycycline', 'minocycline'] },
+  { code: 'nsaid', label: 'NSAIDs (aspirin, ibuprofen)', drugs: NSAIDS },
+  { code: 'paracetamol', label: 'Paracetamol', drugs: ['paracetamol', 'acetaminophen', 'dolo', 'crocin', 'calpol'] },
+  {
+    code: 'opioid',
+    label: 'Opioids (codeine, morphine)',
+    drugs: ['codeine', 'morphine', 'tramadol', 'tapentadol', 'pethidine', 'fentanyl'],
+  },
+  { code: 'iodine', label: 'Iodine / contrast dye', drugs: ['iodine', 'povidone', 'iohexol', 'iopamidol'] },
+  { code: 'latex', label: 'Latex', drugs: [] },
+  { code: 'peanut', label: 'Peanuts', drugs: [] },
+  { code: 'egg', label: 'Eggs', drugs: [] },
+  { code: 'shellfish', label: 'Shellfish', drugs: [] },
+];
+
+const ANTICOAGULANTS = ['warfarin', 'acenocoumarol', 'apixaban', 'rivaroxaban', 'dabigatran'];
+const NITRATES = ['nitroglycerin', 'glyceryl trinitrate', 'isosorbide'];
+const PDE5_INHIBITORS = ['sildenafil', 'tadalafil', 'vardenafil'];
+
+// Drugs from both groups taken together need a second look
+const INTERACTIONS: { first: string[]; second: string[]; risk: string }[] = [
+  { first: ANTICOAGULANTS, second: NSAIDS, risk: 'raises the risk of bleeding' },
+  { first: PDE5_INHIBITORS, second: NITRATES, risk: 'can cause a dangerous drop in blood pressure' },
+];
+
+export const findAllergen = (code: string | null | undefined): Allergen | undefined =>
+  ALLERGENS.find((allergen) => allergen.code === code);
+
+// Whole words only, so "dolo" doesn't match "dolomite"
+const findTerm = (text: string, terms: string[]): string | undefined => {
+  const lowerText = text.toLowerCase();
+  return terms.find((term) => {
+    const escaped = term.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^a-z])${escaped}($|[^a-z])`).test(lowerText);
+  });
+};
+
+const getAllergyTerms = (allergy: AllergyEntry): string[] => [
+  allergy.substance,
+  ...(findAllergen(allergy.code)?.drugs ?? []),
+];
+
+export const describeAllergy = (allergy: AllergyEntry): string =>
+  allergy.reaction ? `${allergy.substance} (${allergy.reaction})` : allergy.substance;
+
+export const describeMedication = (medication: MedicationEntry): string =>
+  [
+    [medication.drug, medication.dose].filter(Boolean).join(' '),
+    medication.frequency && MEDICATION_FREQUENCY_LABELS[medication.frequency].toLowerCase(),
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+export interface PrescriptionAlert {
+  kind: 'allergy' | 'duplicate' | 'interaction';
+  message: string;
+  severe: boolean;
+}
+
+// What in a prescription clashes with the patient's allergies and current medications. Allergies only noted as
+// free text are checked for the allergens they name.
+export const checkPrescription = (text: string, patient: PatientDetails): PrescriptionAlert[] => {
+  if (!text.trim()) return [];
+
+  const alerts: PrescriptionAlert[] = [];
+  const allergies = patient.allergy_list || [];
+  const medications = patient.medication_list || [];
+
+  allergies.forEach((allergy) => {
+    const drug = findTerm(text, getAllergyTerms(allergy));
+    if (!drug) return;
+    alerts.push({
+      kind: 'allergy',
+      message: `${drug} prescribed, but the patient is allergic to ${describeAllergy(allergy)}`,
+      severe: allergy.severity === 'severe',
+    });
+  });
+
+  const allergyNotes = patient.allergies;
+  if (allergyNotes) {
+    ALLERGENS.filter(
+      (allergen) =>
+        !allergies.some((allergy) => allergy.code === allergen.code) &&
+        findTerm(allergyNotes, [allergen.label, allergen.code, ...allergen.drugs])
+    ).forEach((allergen) => {
+      const drug = findTerm(text, allergen.drugs);
+      if (!drug) return;
+      alerts.push({
+        kind: 'allergy',
+        message: `${drug} prescribed, but the patient's notes say "${allergyNotes}"`,
+        severe: false,
+      });
+    });
+  }
+
+  medications.forEach((medication) => {
+    if (!findTerm(text, [medication.drug])) return;
+    alerts.push({
+      kind: 'duplicate',
+      message: `The patient already takes ${describeMedication(medication)}`,
+      severe: false,
+    });
+  });
+
+  const currentMedications = [
+    ...medications.map((medication) => medication.drug),
+    patient.current_medications || '',
+  ].join('\n');
+  INTERACTIONS.forEach(({ first, second, risk }) => {
+    [
+      [first, second],
+      [second, first],
+    ].forEach(([prescribedGroup, takenGroup]) => {
+      const prescribed = findTerm(text, prescribedGroup);
+      const taken = findTerm(currentMedications, takenGroup);
+      if (!prescribed || !taken) return;
+      alerts.push({
+        kind: 'interaction',
+        message: `${prescribed} with the patient's ${taken} ${risk}`,
+        severe: true,
+      });
+    });
+  });
+
+  return alerts;
+};
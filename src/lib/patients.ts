@@ -0,0 +1,192 @@
+import { GuardianRelationship, Patient, PatientDetails } from '../types';
+
+// Fields a visit copies from (and updates on) its patient. Keep in sync with resolve_visit_patient() in the
+// Supabase migrations.
+export const PATIENT_DETAIL_FIELDS: (keyof PatientDetails)[] = [
+  'name',
+  'age',
+  'phone',
+  'email',
+  'gender',
+  'address',
+  'emergency_contact_name',
+  'emergency_contact_phone',
+  'allergies',
+  'medical_history',
+  'current_medications',
+  'allergy_list',
+  'medication_list',
+];
+
+export const GUARDIAN_RELATIONSHIP_LABELS: Record<GuardianRelationship, string> = {
+  child: 'Child',
+  spouse: 'Spouse',
+  parent: 'Parent',
+  other: 'Other',
+};
+
+// "  Ravi  KUMAR " and "ravi kumar" are the same name; mirrors normalize_patient_name() in SQL
+export const normalizePatientName = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// The last ten digits, so "+91 98765 43210" and "9876543210" match; mirrors phone_key() in SQL
+export const getPhoneKey = (phone: string | null | undefined): string => (phone || '').replace(/\D/g, '').slice(-10);
+
+// Patients are matched on the same name and phone number; without a phone number there is nothing to match on
+export const isSamePatient = (patient: PatientDetails, name: string, phone: string | null | undefined): boolean =>
+  Boolean(getPhoneKey(phone)) &&
+  getPhoneKey(patient.phone) === getPhoneKey(phone) &&
+  normalizePatientName(patient.name) === normalizePatientName(name);
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Just the patient fields of a patient or visit, with blanks as null
+export const getPatientDetails = (row: PatientDetails): PatientDetails =>
+  Object.fromEntries(
+    PATIENT_DETAIL_FIELDS.map((field) => [field, isBlank(row[field]) ? null : row[field]])
+  ) as unknown as PatientDetails;
+
+// Newer entries first, replacing older ones for the same substance or drug; mirrors merge_medical_list() in SQL
+const mergeMedicalList = <T>(current: T[] | null | undefined, next: T[] | null | undefined, getKey: (entry: T) => string) => {
+  if (!next?.length) return current?.length ? current : null;
+  const nextKeys = new Set(next.map((entry) => normalizePatientName(getKey(entry))));
+  return [...next, ...(current || []).filter((entry) => !nextKeys.has(normalizePatientName(getKey(entry))))];
+};
+
+// A new visit's details fill in and replace the patient's, but blank fields don't clear what is on file. Allergies
+// and medications are added to the patient's lists, so one left off a booking isn't lost.
+export const mergePatientDetails = (patient: PatientDetails, visit: PatientDetails): PatientDetails => {
+  const details = getPatientDetails(visit);
+  return {
+    ...(Object.fromEntries(
+      PATIENT_DETAIL_FIELDS.map((field) => [field, details[field] ?? patient[field] ?? null])
+    ) as unknown as PatientDetails),
+    allergy_list: mergeMedicalList(patient.allergy_list, details.allergy_list, (allergy) => allergy.substance),
+    medication_list: mergeMedicalList(patient.medication_list, details.medication_list, (medication) => medication.drug),
+  };
+};
+
+// What a prescription for this visit is checked against. Allergies and medications reported when booking only reach
+// the record once staff confirm them, so the visit's are added to the record's, along with both allergy notes.
+export const getPrescribingDetails = (patient: PatientDetails | null, visit: PatientDetails): PatientDetails => {
+  if (!patient) return visit;
+
+  const allergyNotes = [...new Set([patient.allergies, visit.allergies].map((notes) => notes?.trim()).filter(Boolean))];
+  return { ...mergePatientDetails(patient, visit), allergies: allergyNotes.join('; ') || null };
+};
+
+// Edit distance between two strings, for names typed slightly differently ("Ravi Kumar" and "Ravi Kumaar")
+const getEditDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for the same name, 0 for nothing in common; word order doesn't matter ("Kumar Ravi" is "Ravi Kumar")
+export const getNameSimilarity = (a: string, b: string): number => {
+  const sortWords = (name: string) => normalizePatientName(name).split(' ').sort().join(' ');
+  const first = sortWords(a);
+  const second = sortWords(b);
+  if (!first || !second) return 0;
+  return 1 - getEditDistance(first, second) / Math.max(first.length, second.length);
+};
+
+// Ages are as given at booking, so the same person's can drift by a year or two between visits
+const AGE_TOLERANCE_YEARS = 2;
+// Names less alike than this are different people, however much else matches (e.g. family sharing a phone)
+const MIN_NAME_SIMILARITY = 0.8;
+// Pairs scoring at least this are shown as possible duplicates
+export const DUPLICATE_SCORE_THRESHOLD = 0.75;
+
+export interface DuplicateCandidate {
+  patients: [Patient, Patient];
+  // 0 to 1; how alike the two records are
+  score: number;
+  reasons: string[];
+}
+
+// How alike two records are. Name counts for half, phone for 30%, age and gender for 10% each; a detail missing
+// from either record counts for half its weight.
+export const compareForDuplicate = (a: Patient, b: Patient): DuplicateCandidate | null => {
+  // A dependent shares their guardian's phone number, and often a similar name, but is someone else
+  if (a.guardian_id === b.id || b.guardian_id === a.id) return null;
+
+  const nameSimilarity = getNameSimilarity(a.name, b.name);
+  if (nameSimilarity < MIN_NAME_SIMILARITY) return null;
+
+  const reasons = [nameSimilarity === 1 ? 'Same name' : 'Similar name'];
+  let score = 0.5 * nameSimilarity;
+
+  const phoneA = getPhoneKey(a.phone);
+  const phoneB = getPhoneKey(b.phone);
+  if (phoneA && phoneB) {
+    if (phoneA === phoneB) {
+      score += 0.3;
+      reasons.push('Same phone');
+    } else {
+      reasons.push('Different phone');
+    }
+  } else {
+    score += 0.15;
+  }
+
+  if (a.age && b.age) {
+    if (Math.abs(a.age - b.age) <= AGE_TOLERANCE_YEARS) {
+      score += 0.1;
+      reasons.push(a.age === b.age ? 'Same age' : 'Similar age');
+    } else {
+      reasons.push('Different age');
+    }
+  } else {
+    score += 0.05;
+  }
+
+  if (a.gender && b.gender) {
+    if (a.gender !== b.gender) return null;
+    score += 0.1;
+    reasons.push('Same gender');
+  } else {
+    score += 0.05;
+  }
+
+  return score >= DUPLICATE_SCORE_THRESHOLD ? { patients: [a, b], score, reasons } : null;
+};
+
+// Likely duplicates among the records, most alike first. Only records sharing a phone number or the start of a
+// name word are compared, so this stays quick for large patient lists.
+export const findDuplicatePatients = (patients: Patient[]): DuplicateCandidate[] => {
+  const groups = new Map<string, Patient[]>();
+  const addToGroup = (key: string, patient: Patient) => groups.set(key, [...(groups.get(key) || []), patient]);
+
+  patients.forEach((patient) => {
+    const phoneKey = getPhoneKey(patient.phone);
+    if (phoneKey) addToGroup(`phone:${phoneKey}`, patient);
+    new Set(normalizePatientName(patient.name).split(' ').map((word) => word.slice(0, 3))).forEach((prefix) => {
+      if (prefix) addToGroup(`name:${prefix}`, patient);
+    });
+  });
+
+  const compared = new Set<string>();
+  const candidates: DuplicateCandidate[] = [];
+  groups.forEach((group) => {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const [first, second] = [group[i], group[j]].sort((a, b) => a.code.localeCompare(b.code));
+        const pairKey = `${first.id}:${second.id}`;
+        if (compared.has(pairKey)) continue;
+        compared.add(pairKey);
+
+        const candidate = compareForDuplicate(first, second);
+        if (candidate) candidates.push(candidate);
+      }
+    }
+  });
+
+  return candidates.sort((a, b) => b.score - a.score);
+};
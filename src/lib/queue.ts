@@ -0,0 +1,127 @@
+import { ClinicSettings, PriorityLane, PriorityRule, Visit } from '../types';
+import { VisitChanges } from './data/types';
+import { getAppointmentStart, getVisitDateKey, isWaiting } from './scheduling';
+import { toDateKey } from './dates';
+
+export const DEFAULT_NO_SHOW_GRACE_MINUTES = 15;
+export const DEFAULT_NO_SHOW_FLAG_THRESHOLD = 2;
+
+export const PRIORITY_LABELS: Record<PriorityLane, string> = {
+  emergency: 'Emergency',
+  senior: 'Senior citizen',
+  pregnant: 'Pregnancy',
+  follow_up: 'Follow-up only',
+};
+
+export const PRIORITY_BADGES: Record<PriorityLane, string> = {
+  emergency: 'bg-red-100 text-red-800',
+  senior: 'bg-amber-100 text-amber-800',
+  pregnant: 'bg-pink-100 text-pink-800',
+  follow_up: 'bg-teal-100 text-teal-800',
+};
+
+export const DEFAULT_PRIORITY_RULES: PriorityRule[] = [
+  { lane: 'emergency', enabled: true, rank: 1, max_skip: null },
+  { lane: 'senior', enabled: true, rank: 2, max_skip: 5 },
+  { lane: 'pregnant', enabled: true, rank: 2, max_skip: 5 },
+  { lane: 'follow_up', enabled: true, rank: 3, max_skip: 3 },
+];
+
+export const getPriorityRules = (settings: ClinicSettings | null): PriorityRule[] =>
+  DEFAULT_PRIORITY_RULES.map(
+    (fallback) => settings?.priority_rules?.find((rule) => rule.lane === fallback.lane) || fallback
+  );
+
+const getRank = (visit: Visit, rules: PriorityRule[]): number => {
+  const rule = rules.find((candidate) => candidate.lane === visit.priority);
+  return rule?.enabled ? rule.rank : Infinity;
+};
+
+// Waiting visits in the order they will be seen
+export const getWaitingOrder = (visits: Visit[]): Visit[] =>
+  visits
+    .filter(isWaiting)
+    .sort((a, b) => a.queue_position - b.queue_position || a.token_number - b.token_number);
+
+// Moves a visit up behind everyone waiting with the same or a higher priority, but no further than its rule allows.
+// Applied once when staff set the lane, so later manual moves still stick.
+export const placeByPriority = (visits: Visit[], visit: Visit, rules: PriorityRule[]): Visit[] => {
+  const order = getWaitingOrder(visits);
+  const currentIndex = order.findIndex((candidate) => candidate.id === visit.id);
+  const rule = rules.find((candidate) => candidate.lane === visit.priority);
+  if (currentIndex < 0 || !rule?.enabled) return order;
+
+  let targetIndex = 0;
+  order.slice(0, currentIndex).forEach((other, index) => {
+    if (getRank(other, rules) <= rule.rank) targetIndex = index + 1;
+  });
+  if (rule.max_skip != null) {
+    targetIndex = Math.max(targetIndex, currentIndex - rule.max_skip);
+  }
+  if (targetIndex >= currentIndex) return order;
+
+  const reordered = order.filter((candidate) => candidate.id !== visit.id);
+  reordered.splice(targetIndex, 0, { ...visit });
+  return reordered;
+};
+
+// Position updates that turn `order` into queue positions 1..n, with the reason shown to each patient who moved.
+// Patients who only moved up because a gap closed keep their previous reason.
+export const getPositionChanges = (
+  order: Visit[],
+  reasonFor: (visit: Visit, from: number, to: number) => string | null
+): { id: string; changes: VisitChanges }[] => {
+  const changedAt = new Date().toISOString();
+
+  return order.flatMap((visit, index) => {
+    const position = index + 1;
+    if (visit.queue_position === position) return [];
+
+    const reason = reasonFor(visit, visit.queue_position, position);
+    const changes: VisitChanges = reason
+      ? { queue_position: position, position_change_reason: reason, position_changed_at: changedAt }
+      : { queue_position: position };
+    return [{ id: visit.id, changes }];
+  });
+};
+
+// The first patient in line who has checked in, or whose slot has started and who hasn't been called yet
+export const getNextToCall = (visits: Visit[], now: Date = new Date()): Visit | null =>
+  getWaitingOrder(visits).find(
+    (visit) =>
+      visit.visit_status === 'arrived' ||
+      (!visit.called_at && (!visit.appointment_slot || getAppointmentStart(visit) <= now))
+  ) || null;
+
+// A booked patient who hasn't checked in this long after being called, or after their slot started, is a no-show.
+// Only today's queue is swept.
+export const isNoShowDue = (visit: Visit, settings: ClinicSettings | null, now: Date = new Date()): boolean => {
+  if (visit.visit_status !== 'upcoming' || getVisitDateKey(visit) !== toDateKey(now)) return false;
+
+  const graceMs = (settings?.no_show_grace_minutes ?? DEFAULT_NO_SHOW_GRACE_MINUTES) * 60 * 1000;
+  const startedAt = visit.called_at
+    ? new Date(visit.called_at)
+    : visit.appointment_slot
+      ? getAppointmentStart(visit)
+      : null;
+  return startedAt !== null && now.getTime() - startedAt.getTime() >= graceMs;
+};
+
+export const isRepeatNoShow = (visit: Visit, settings: ClinicSettings | null): boolean =>
+  (visit.prior_no_shows ?? 0) >= (settings?.no_show_flag_threshold ?? DEFAULT_NO_SHOW_FLAG_THRESHOLD);
+
+// "Ravi Kumar" -> "R*** K.", so a public screen can't identify who is waiting. Mirrors `mask_patient_name` in SQL.
+export const maskPatientName = (name: string): string => {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '';
+
+  const first = `${words[0][0].toUpperCase()}***`;
+  return words.length > 1 ? `${first} ${words[words.length - 1][0].toUpperCase()}.` : first;
+};
+
+// "+91 98765 43210" -> "********3210", so a patient lookup never reveals the full number. Mirrors `mask_phone` in SQL.
+export const maskPhoneNumber = (phone: string | undefined): string | undefined => {
+  const digits = (phone || '').replace(/\D/g, '');
+  if (!digits) return undefined;
+  return '*'.repeat(Math.max(digits.length - 4, 0)) + digits.slice(-4);
+};
@@ -0,0 +1,381 @@
+import { addDays, format } from 'date-fns';
+import { ClinicClosure, ClinicSettings, ScheduleSession, Visit, Weekday, WeeklySchedule } from '../types';
+import { formatTimeKey, fromDateKey, fromTimeKey, getTodayKey, toDateKey, toTimeKey } from './dates';
+
+// How far ahead patients may book
+export const BOOKING_WINDOW_DAYS = 14;
+
+// Patients may cancel or reschedule online until this many hours before their appointment
+export const DEFAULT_SELF_SERVICE_CUTOFF_HOURS = 2;
+
+// Failed attempts to change a booking online before it is locked for an hour; mirrors claim_visit_for_patient()
+export const SELF_SERVICE_MAX_ATTEMPTS = 5;
+export const SELF_SERVICE_LOCKOUT_MINUTES = 60;
+
+export const SELF_SERVICE_OWNERSHIP_ERROR = 'We could not find a booking with that UID and phone number';
+export const SELF_SERVICE_LOCKED_ERROR = 'Too many attempts. Please try again in an hour or contact the clinic';
+
+// A doctor's slot holds one active booking; mirrors idx_visits_active_slot
+export const SLOT_TAKEN_ERROR = 'That slot was just taken. Please choose another time.';
+
+// Shortest phone number accepted when a patient looks up a visit without its access key
+export const LOOKUP_PHONE_MIN_DIGITS = 7;
+
+const DEFAULT_SLOT_MINUTES = 15;
+const DEFAULT_MAX_DAILY_APPOINTMENTS = 50;
+
+export const WEEKDAYS: Weekday[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+export interface TimeSlot {
+  time: string; // "HH:mm"
+  session: string; // label of the session the slot belongs to
+  booked: number;
+  capacity: number;
+  available: boolean;
+}
+
+export interface DaySchedule {
+  dateKey: string;
+  isOpen: boolean;
+  closedReason?: string;
+  slots: TimeSlot[];
+  remaining: number;
+}
+
+// Visits booked before scheduling existed have no appointment date; they belong to the day they were created
+export const getVisitDateKey = (visit: Pick<Visit, 'appointment_date' | 'created_at'>): string =>
+  visit.appointment_date || toDateKey(new Date(visit.created_at));
+
+// Statuses that still count towards the waiting queue
+export const isWaiting = (visit: Pick<Visit, 'visit_status'>): boolean =>
+  ['upcoming', 'arrived'].includes(visit.visit_status);
+
+// Statuses that still hold on to their slot
+export const isActiveBooking = (visit: Pick<Visit, 'visit_status'>): boolean =>
+  !['cancelled', 'no_show'].includes(visit.visit_status);
+
+// Parses free-text shifts like "9:00 AM - 1:00 PM" into minutes since midnight
+export const parseShift = (shift?: string): { start: number; end: number } | null => {
+  const times = [...(shift || '').matchAll(/(\d{1,2})(?::(\d{2}))?\s*(AM|PM)?/gi)];
+  if (times.length < 2) return null;
+
+  const [start, end] = times.slice(0, 2).map((match) => {
+    let hours = parseInt(match[1]) % 12;
+    const period = match[3]?.toUpperCase();
+    if (period === 'PM' || (!period && parseInt(match[1]) === 12)) hours += 12;
+    return hours * 60 + parseInt(match[2] || '0');
+  });
+
+  return end > start ? { start, end } : null;
+};
+
+export type OpenStatus =
+  | { isOpen: true; closesAt: string } // "HH:mm"
+  | { isOpen: false; opensAt?: { dateKey: string; time: string } }; // next opening within the booking window
+
+// Builds a schedule with the sessions returned for each weekday
+export const mapWeekdays = (sessionsFor: (day: Weekday) => ScheduleSession[]): WeeklySchedule =>
+  WEEKDAYS.reduce((schedule, day) => ({ ...schedule, [day]: sessionsFor(day) }), {} as WeeklySchedule);
+
+const sortSessions = (sessions: ScheduleSession[]): ScheduleSession[] =>
+  [...sessions].sort((a, b) => a.start.localeCompare(b.start));
+
+// Settings saved before structured hours existed only have the free-text shifts and operating days
+const deriveLegacySchedule = (settings: ClinicSettings): WeeklySchedule => {
+  const sessions = [
+    { label: 'Morning', range: parseShift(settings.morning_shift) },
+    { label: 'Evening', range: parseShift(settings.evening_shift) },
+  ].flatMap(({ label, range }) =>
+    range ? [{ label, start: toTimeKey(range.start), end: toTimeKey(range.end) }] : []
+  );
+
+  return mapWeekdays((day) =>
+    !settings.operating_days || settings.operating_days.includes(day) ? sessions : []
+  );
+};
+
+export const getWeeklySchedule = (settings: ClinicSettings): WeeklySchedule => {
+  if (!settings.weekly_schedule) return deriveLegacySchedule(settings);
+
+  const { weekly_schedule } = settings;
+  return mapWeekdays((day) => sortSessions(weekly_schedule[day] || []));
+};
+
+export const getWeekday = (dateKey: string): Weekday => format(fromDateKey(dateKey), 'EEEE') as Weekday;
+
+// Sessions starting before this belong to the morning half of the day
+const MIDDAY = '12:00';
+
+// Closures saved before reasons existed are plain full-day holiday dates
+export const getClosures = (settings: ClinicSettings): ClinicClosure[] =>
+  (settings.closures ??
+    (settings.holiday_dates || []).map((date): ClinicClosure => ({ date, part: 'full', reason: 'Holiday' }))
+  ).slice().sort((a, b) => a.date.localeCompare(b.date));
+
+export const getClosure = (settings: ClinicSettings, dateKey: string): ClinicClosure | undefined =>
+  getClosures(settings).find((closure) => closure.date === dateKey);
+
+// Whether a closure covers a given "HH:mm" time on its date
+export const closureCoversTime = (closure: ClinicClosure, time: string): boolean =>
+  closure.part === 'full' || (closure.part === 'morning' ? time < MIDDAY : time >= MIDDAY);
+
+export const describeClosure = (closure: ClinicClosure): string => {
+  const when = format(fromDateKey(closure.date), 'EEEE, MMMM d');
+  if (closure.part === 'full') return `Closed on ${when} (${closure.reason})`;
+  return `Closed ${closure.part === 'morning' ? 'in the morning' : 'in the afternoon'} on ${when} (${closure.reason})`;
+};
+
+// Closures from today onwards within the booking window, for notices
+export const getUpcomingClosures = (settings: ClinicSettings, days: number = BOOKING_WINDOW_DAYS): ClinicClosure[] => {
+  const dates = getBookableDates(days);
+  return getClosures(settings).filter((closure) => dates.includes(closure.date));
+};
+
+// A day's sessions with any half-day closure taken out
+export const getSessionsForDate = (settings: ClinicSettings, dateKey: string): ScheduleSession[] => {
+  const sessions = getWeeklySchedule(settings)[getWeekday(dateKey)];
+  const closure = getClosure(settings, dateKey);
+  return closure ? sessions.filter((session) => !closureCoversTime(closure, session.start)) : sessions;
+};
+
+// Active bookings a closure takes away; walk-ins without a slot only count for full-day closures
+export const isVisitAffectedByClosure = (closure: ClinicClosure, visit: Visit): boolean =>
+  getVisitDateKey(visit) === closure.date &&
+  isWaiting(visit) &&
+  (visit.appointment_slot ? closureCoversTime(closure, visit.appointment_slot) : closure.part === 'full');
+
+// Returns a message describing the first problem with a schedule, or undefined when it is valid
+export const validateWeeklySchedule = (schedule: WeeklySchedule): string | undefined => {
+  for (const day of WEEKDAYS) {
+    const sessions = sortSessions(schedule[day] || []);
+
+    for (const [index, session] of sessions.entries()) {
+      if (!session.label.trim()) return `Every ${day} session needs a name`;
+      if (!session.start || !session.end || fromTimeKey(session.end) <= fromTimeKey(session.start)) {
+        return `${day} ${session.label} must end after it starts`;
+      }
+      if (session.capacity !== undefined && session.capacity < 1) {
+        return `${day} ${session.label} capacity must be at least 1`;
+      }
+
+      const previous = sessions[index - 1];
+      if (previous && fromTimeKey(session.start) < fromTimeKey(previous.end)) {
+        return `${day} ${previous.label} and ${session.label} overlap`;
+      }
+    }
+  }
+
+  return undefined;
+};
+
+// Text for the legacy shift columns, which are still shown wherever a one-line summary is needed
+export const summariseSession = (session?: ScheduleSession): string =>
+  session ? `${formatTimeKey(session.start)} - ${formatTimeKey(session.end)}` : 'Closed';
+
+export const getClosedReason = (settings: ClinicSettings, dateKey: string): string | undefined => {
+  if (getSessionsForDate(settings, dateKey).length === 0) {
+    const closure = getClosure(settings, dateKey);
+    return closure ? `The clinic is closed (${closure.reason})` : `The clinic is closed on ${getWeekday(dateKey)}s`;
+  }
+
+  return undefined;
+};
+
+// Whether a "HH:mm" time on a date falls inside one of that day's sessions
+export const isWithinOpeningHours = (settings: ClinicSettings, dateKey: string, time: string): boolean => {
+  if (getClosedReason(settings, dateKey)) return false;
+
+  const closure = getClosure(settings, dateKey);
+  if (closure && closureCoversTime(closure, time)) return false;
+
+  const minutes = fromTimeKey(time);
+  return getSessionsForDate(settings, dateKey).some(
+    (session) => minutes >= fromTimeKey(session.start) && minutes < fromTimeKey(session.end)
+  );
+};
+
+// Looks ahead through the booking window for the next session when the clinic is currently closed
+export const getOpenStatus = (settings: ClinicSettings, now: Date = new Date()): OpenStatus => {
+  const todayKey = toDateKey(now);
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+  const current = getClosedReason(settings, todayKey)
+    ? undefined
+    : getSessionsForDate(settings, todayKey).find(
+        (session) => nowMinutes >= fromTimeKey(session.start) && nowMinutes < fromTimeKey(session.end)
+      );
+  if (current) return { isOpen: true, closesAt: current.end };
+
+  for (let offset = 0; offset <= BOOKING_WINDOW_DAYS; offset++) {
+    const dateKey = toDateKey(addDays(fromDateKey(todayKey), offset));
+    if (getClosedReason(settings, dateKey)) continue;
+
+    const next = getSessionsForDate(settings, dateKey).find(
+      (session) => offset > 0 || fromTimeKey(session.start) > nowMinutes
+    );
+    if (next) return { isOpen: false, opensAt: { dateKey, time: next.start } };
+  }
+
+  return { isOpen: false };
+};
+
+// Upcoming dates a patient can pick, starting today
+export const getBookableDates = (days: number = BOOKING_WINDOW_DAYS): string[] => {
+  const today = fromDateKey(getTodayKey());
+  return Array.from({ length: days }, (_, offset) => toDateKey(addDays(today, offset)));
+};
+
+// Builds the slot grid for a date; `bookedSlots` holds the slot time of every active booking that day
+export const buildDaySchedule = (
+  settings: ClinicSettings,
+  dateKey: string,
+  bookedSlots: string[],
+  now: Date = new Date()
+): DaySchedule => {
+  const closedReason = getClosedReason(settings, dateKey);
+  if (closedReason) {
+    return { dateKey, isOpen: false, closedReason, slots: [], remaining: 0 };
+  }
+
+  const slotMinutes = settings.average_consultation_time || DEFAULT_SLOT_MINUTES;
+  const maxDaily = settings.max_daily_appointments || DEFAULT_MAX_DAILY_APPOINTMENTS;
+  const dayIsFull = bookedSlots.length >= maxDaily;
+  const todayKey = toDateKey(now);
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+  const closure = getClosure(settings, dateKey);
+
+  const slots = getSessionsForDate(settings, dateKey).flatMap((session) => {
+    const sessionStart = fromTimeKey(session.start);
+    const sessionEnd = fromTimeKey(session.end);
+    const sessionBooked = bookedSlots.filter((slot) => {
+      const minutes = fromTimeKey(slot);
+      return minutes >= sessionStart && minutes < sessionEnd;
+    }).length;
+    const sessionIsFull = session.capacity !== undefined && sessionBooked >= session.capacity;
+
+    const sessionSlots: TimeSlot[] = [];
+    for (let start = sessionStart; start + slotMinutes <= sessionEnd; start += slotMinutes) {
+      const time = toTimeKey(start);
+      // A half-day closure can cut through a session that spans midday
+      if (closure && closureCoversTime(closure, time)) continue;
+
+      const booked = bookedSlots.filter((slot) => slot === time).length;
+      const capacity = 1;
+      const isPast = dateKey < todayKey || (dateKey === todayKey && start <= nowMinutes);
+
+      sessionSlots.push({
+        time,
+        session: session.label,
+        booked,
+        capacity,
+        available: !dayIsFull && !sessionIsFull && !isPast && booked < capacity,
+      });
+    }
+    return sessionSlots;
+  });
+
+  if (slots.length === 0) {
+    return { dateKey, isOpen: false, closedReason: 'No consultation hours are set for this day', slots, remaining: 0 };
+  }
+
+  return {
+    dateKey,
+    isOpen: true,
+    slots,
+    remaining: dayIsFull ? 0 : slots.filter((slot) => slot.available).length,
+  };
+};
+
+export const isSlotAvailable = (schedule: DaySchedule, time: string): boolean =>
+  schedule.slots.some((slot) => slot.time === time && slot.available);
+
+// Why a slot can't be booked, or undefined when it can; `bookedSlots` leaves out the booking being moved.
+// Mirrors get_slot_problem() in SQL, which checks the same when a patient reschedules.
+export const getSlotProblem = (
+  settings: ClinicSettings,
+  dateKey: string,
+  time: string,
+  bookedSlots: string[],
+  now: Date = new Date()
+): string | undefined => {
+  if (!getBookableDates().includes(dateKey)) {
+    return `Please choose a date within the next ${BOOKING_WINDOW_DAYS} days`;
+  }
+
+  const closedReason = getClosedReason(settings, dateKey);
+  if (closedReason) return closedReason;
+
+  const slot = buildDaySchedule(settings, dateKey, bookedSlots, now).slots.find((candidate) => candidate.time === time);
+  if (!slot) return 'That time is outside clinic hours. Please choose another slot';
+  if (getAppointmentStart({ appointment_date: dateKey, appointment_slot: time, created_at: '' }) <= now) {
+    return 'Please choose a time in the future';
+  }
+  if (slot.booked >= slot.capacity) return 'That slot is no longer available';
+  if (bookedSlots.length >= (settings.max_daily_appointments || DEFAULT_MAX_DAILY_APPOINTMENTS)) {
+    return 'That day is fully booked';
+  }
+  if (!slot.available) return 'That session is fully booked';
+
+  return undefined;
+};
+
+// Start of the appointment; walk-ins without a slot count from the start of their day
+export const getAppointmentStart = (visit: Pick<Visit, 'appointment_date' | 'appointment_slot' | 'created_at'>): Date => {
+  const start = fromDateKey(getVisitDateKey(visit));
+  const minutes = visit.appointment_slot ? fromTimeKey(visit.appointment_slot) : 0;
+  start.setHours(Math.floor(minutes / 60), minutes % 60);
+  return start;
+};
+
+// Looking a visit up without its access key takes the whole phone number it was booked with; formatting and a
+// country code are ignored. Mirrors `get_public_visit` in SQL.
+export const phoneMatchesNumber = (phone: string | undefined, entered: string): boolean => {
+  const digits = entered.replace(/\D/g, '');
+  return (
+    Boolean(phone) && digits.length >= LOOKUP_PHONE_MIN_DIGITS && phone!.replace(/\D/g, '').slice(-10) === digits.slice(-10)
+  );
+};
+
+// Why a patient can't change a booking online, or undefined when they can
+export const getSelfServiceBlocker = (
+  settings: ClinicSettings | null,
+  visit: Pick<Visit, 'visit_status' | 'phone' | 'appointment_date' | 'appointment_slot' | 'created_at'>,
+  now: Date = new Date()
+): string | undefined => {
+  if (visit.visit_status !== 'upcoming') {
+    return 'Only upcoming bookings can be changed online';
+  }
+  if (!visit.phone) {
+    return 'This booking has no phone number on file. Please contact the clinic to change it';
+  }
+
+  const cutoffHours = settings?.self_service_cutoff_hours ?? DEFAULT_SELF_SERVICE_CUTOFF_HOURS;
+  if (getAppointmentStart(visit).getTime() - now.getTime() < cutoffHours * 60 * 60 * 1000) {
+    return `Bookings can only be changed online up to ${cutoffHours} hours before the appointment`;
+  }
+
+  return undefined;
+};
+
+// Why a patient can't check themselves in at a branch's kiosk, or undefined when they can. Patients who are
+// already checked in get their ticket again. Mirrors check_in_visit_by_patient() in the Supabase migrations.
+export const getKioskCheckInBlocker = (
+  visit: Pick<Visit, 'visit_status' | 'branch_id' | 'appointment_date' | 'created_at'>,
+  branchId: string | null,
+  todayKey: string = getTodayKey()
+): string | undefined => {
+  if ((visit.branch_id ?? null) !== branchId) {
+    return 'This booking is for another branch. Please see the front desk';
+  }
+  if (!isWaiting(visit)) {
+    return 'This booking can no longer be checked in here. Please see the front desk';
+  }
+
+  const dateKey = getVisitDateKey(visit);
+  if (dateKey !== todayKey) {
+    return `This booking is for ${format(fromDateKey(dateKey), 'EEEE, MMMM d')}. Please see the front desk`;
+  }
+
+  return undefined;
+};
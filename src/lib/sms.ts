@@ -0,0 +1,14 @@
+// Sends text messages to patients. Production messages go out from the send-booking-code Supabase function,
+// which picks its provider from SMS_PROVIDER; the local backend uses the console provider below.
+export interface SmsProvider {
+  name: string;
+  send(phone: string, message: string): Promise<void>;
+}
+
+// Prints messages to the browser console instead of sending them, for development without an SMS account
+export const consoleSmsProvider: SmsProvider = {
+  name: 'console',
+  async send(phone, message) {
+    console.info(`[SMS to ${phone}] ${message}`);
+  },
+};
@@ -0,0 +1,61 @@
+import { createContext, useContext } from 'react';
+import { StaffUser } from './data';
+import { StaffRole } from '../types';
+
+// What a role may do in the admin panel. The Supabase migrations enforce the same rules.
+export type Permission =
+  // The live queue: arrivals, calling, reordering and visit status
+  | 'manage_queue'
+  // Search and patient profiles
+  | 'view_patients'
+  // Merging duplicate patient records and undoing merges
+  | 'merge_patients'
+  // Consultation notes, diagnosis and prescriptions
+  | 'view_clinical'
+  | 'edit_clinical'
+  // The payments page and marking visits paid
+  | 'manage_payments'
+  // Doctors and clinic settings
+  | 'manage_clinic'
+  // Inviting staff, their roles, branches and access
+  | 'manage_staff'
+  // Every change to visits and prescriptions across the branch
+  | 'view_audit_log';
+
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  owner: [
+    'manage_queue',
+    'view_patients',
+    'merge_patients',
+    'view_clinical',
+    'edit_clinical',
+    'manage_payments',
+    'manage_clinic',
+    'manage_staff',
+    'view_audit_log',
+  ],
+  doctor: ['manage_queue', 'view_patients', 'view_clinical', 'edit_clinical'],
+  receptionist: ['manage_queue', 'view_patients', 'merge_patients', 'view_clinical', 'manage_payments'],
+  accountant: ['view_patients', 'manage_payments'],
+};
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  owner: 'Owner',
+  doctor: 'Doctor',
+  receptionist: 'Receptionist',
+  accountant: 'Accountant',
+};
+
+export const hasPermission = (role: StaffRole | null | undefined, permission: Permission): boolean =>
+  Boolean(role && ROLE_PERMISSIONS[role].includes(permission));
+
+// The signed-in staff member; provided by the admin layout once they are known to have a role
+export const StaffContext = createContext<StaffUser | null>(null);
+
+export const useStaff = (): StaffUser => {
+  const staff = useContext(StaffContext);
+  if (!staff) throw new Error('useStaff must be used inside the admin layout');
+  return staff;
+};
+
+export const useCan = (permission: Permission): boolean => hasPermission(useStaff().role, permission);
@@ -1,116 +1,96 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  console.error('Missing Supabase environment variables');
-}
+// Placeholder credentials from the demo template count as "not configured"
+export const isSupabaseConfigured =
+  Boolean(supabaseUrl && supabaseAnonKey) &&
+  supabaseUrl !== 'https://demo.supabase.co' &&
+  supabaseAnonKey !== 'demo-key';
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+let client: SupabaseClient | null = null;
 
-// Generate UID in XC-XXX format
-export const generateUID = (tokenNumber: number): string => {
-  return `XC-${tokenNumber.toString().padStart(3, '0')}`;
+// The client is created on first use so the local backend never needs Supabase credentials
+export const getSupabase = (): SupabaseClient => {
+  if (!client) {
+    if (!isSupabaseConfigured) {
+      console.error('Missing Supabase environment variables');
+    }
+    client = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        // The audit log records which page each change was made from
+        fetch: (input, init) => {
+          const headers = new Headers(init?.headers);
+          headers.set('x-client-page', window.location.pathname);
+          return fetch(input, { ...init, headers });
+        },
+      },
+    });
+  }
+  return client;
 };
 
-// Generate QR code data
-export const generateQRData = (uid: string, visitId: string): string => {
-  return JSON.stringify({ uid, visitId, clinicCode: 'XC', timestamp: Date.now() });
+// Prefix of UIDs booked before branches existed, and of the branch the migration creates for them
+export const DEFAULT_UID_PREFIX = 'XC';
+
+// Generate UID in PP-YYMMDD-DXXX format (the branch's prefix, date of the visit, the doctor's code and their token
+// for that day). Keep in sync with allocate_visit_token() in the Supabase migrations.
+export const generateUID = (
+  tokenNumber: number,
+  dateKey: string,
+  doctorCode: string = '',
+  branchCode: string = DEFAULT_UID_PREFIX
+): string => {
+  const datePart = dateKey.replace(/-/g, '').slice(2);
+  return `${branchCode}-${datePart}-${doctorCode}${tokenNumber.toString().padStart(3, '0')}`;
 };
 
+// Matches current UIDs (XC-261018-A012, BLR-261018-B004) as well as older ones (XC-261018-012, XC-012)
+export const UID_PATTERN = /[A-Z]{2,4}-(?:\d{6}-)?[A-Z]{0,2}\d{3,}/;
+
+// Secret for a visit's QR code and booking links: 128 random bits as hex, like the database default
+export const generateAccessKey = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// Check-in codes read `UID.YYMMDD.signature`: the visit, the last day the code is valid and an HMAC only the
+// backend can compute (see sign_check_in_code() in the Supabase migrations)
+const CHECK_IN_CODE_PATTERN = new RegExp(`^(${UID_PATTERN.source})\\.(\\d{6})\\.([A-Za-z0-9_-]{22})$`);
+
+export interface ParsedQRData {
+  uid: string;
+  // null for unsigned QR codes from before check-in codes were signed, and for plain-text UIDs
+  checkInCode: string | null;
+  // Last day a signed code is valid (YYYY-MM-DD)
+  validOn: string | null;
+}
+
+export const parseCheckInCode = (code: string): ParsedQRData | null => {
+  const match = code.match(CHECK_IN_CODE_PATTERN);
+  if (!match) return null;
+
+  const [, uid, datePart] = match;
+  return { uid, checkInCode: code, validOn: `20${datePart.slice(0, 2)}-${datePart.slice(2, 4)}-${datePart.slice(4)}` };
+};
+
+// QR codes hold a link to the Track page, so a phone camera opens the patient's visit directly
+export const generateQRData = (checkInCode: string): string =>
+  `${window.location.origin}/track?code=${checkInCode}`;
+
 // Parse QR code data
-export const parseQRData = (qrData: string): { uid: string; visitId: string } | null => {
+export const parseQRData = (qrData: string): ParsedQRData | null => {
+  const text = qrData.trim();
   try {
-    const parsed = JSON.parse(qrData);
-    if (parsed.uid && parsed.visitId && parsed.clinicCode === 'XC') {
-      return { uid: parsed.uid, visitId: parsed.visitId };
-    }
-    return null;
+    const code = new URL(text).searchParams.get('code');
+    if (code) return parseCheckInCode(code);
   } catch {
-    // Try to extract UID from plain text
-    const uidMatch = qrData.match(/XC-\d{3}/);
-    if (uidMatch) {
-      return { uid: uidMatch[0], visitId: '' };
-    }
-    return null;
+    // Not a link; may be a bare code or an older QR code
   }
-};
 
-// Update queue summary
-export const updateQueueSummary = async () => {
-  try {
-    const today = new Date().toISOString().split('T')[0];
-    
-    // Get today's visit counts - handle both real and mock data
-    let visits: any[] = [];
-    let visitsError = null;
-    
-    if (isDemo) {
-      const allVisits = JSON.parse(localStorage.getItem('demo_visits') || '[]');
-      visits = allVisits.filter((visit: any) => 
-        visit.created_at.split('T')[0] === today
-      );
-    } else {
-      const result = await supabase
-        .from('visits')
-        .select('visit_status, payment_status, payment_amount')
-        .gte('created_at', `${today}T00:00:00.000Z`)
-        .lt('created_at', `${today}T23:59:59.999Z`);
-      visits = result.data || [];
-      visitsError = result.error;
-    }
+  const signed = parseCheckInCode(text);
+  if (signed) return signed;
 
-    if (visitsError) throw visitsError;
-
-    const totalAppointments = visits?.length || 0;
-    const totalWaiting = visits?.filter(v => ['upcoming', 'arrived'].includes(v.visit_status)).length || 0;
-    const totalCompleted = visits?.filter(v => v.visit_status === 'completed').length || 0;
-    const totalCancelled = visits?.filter(v => ['cancelled', 'no_show'].includes(v.visit_status)).length || 0;
-    const totalRevenue = visits?.filter(v => v.payment_status === 'paid').reduce((sum, v) => sum + (v.payment_amount || 500), 0) || 0;
-    const estimatedWaitTime = totalWaiting * 15;
-
-    // Get current token
-    const currentVisit = visits?.find((v: any) => v.visit_status === 'in_consultation');
-    const currentToken = currentVisit?.token_number || null;
-
-    // Update queue summary - handle both real and mock data
-    if (isDemo) {
-      // Update mock data
-      const summaryData = {
-        date: today,
-        total_appointments: totalAppointments,
-        total_waiting: totalWaiting,
-        total_completed: totalCompleted,
-        total_cancelled: totalCancelled,
-        current_token: currentToken,
-        estimated_wait_time: estimatedWaitTime,
-        total_revenue: totalRevenue,
-        updated_at: new Date().toISOString()
-      };
-      
-      // Store in localStorage for demo
-      localStorage.setItem('demo_queue_summary', JSON.stringify(summaryData));
-    } else {
-      const { error: updateError } = await supabase
-        .from('queue_summary')
-        .upsert({
-          date: today,
-          total_appointments: totalAppointments,
-          total_waiting: totalWaiting,
-          total_completed: totalCompleted,
-          total_cancelled: totalCancelled,
-          current_token: currentToken,
-          estimated_wait_time: estimatedWaitTime,
-          total_revenue: totalRevenue,
-          updated_at: new Date().toISOString()
-        }, {
-          onConflict: 'date'
-        });
-
-      if (updateError) throw updateError;
-    }
-  } catch (error) {
-    console.error('Error updating queue summary:', error);
-  }
-};
\ No newline at end of file
+  // Older JSON codes and plain text only name the UID
+  const uidMatch = text.toUpperCase().match(UID_PATTERN);
+  return uidMatch ? { uid: uidMatch[0], checkInCode: null, validOn: null } : null;
+};
@@ -0,0 +1,194 @@
+import { QueueSummary, Visit, WaitEstimate } from '../types';
+import { getWaitingOrder } from './queue';
+import { getAppointmentStart, getVisitDateKey } from './scheduling';
+import { toDateKey } from './dates';
+
+// Groups need this many past consultations before their average is trusted over a broader one
+const MIN_SAMPLES = 5;
+// Consultations longer than this are assumed to have been left open by mistake
+const MAX_PLAUSIBLE_MINUTES = 180;
+// Someone already over their expected time is still assumed to need a couple more minutes
+const MIN_REMAINING_MINUTES = 2;
+// Half-width of an ~80% interval, in standard deviations
+const CONFIDENCE_Z = 1.28;
+const DEFAULT_SHOW_UP_RATE = 0.9;
+
+export type VisitType = 'emergency' | 'follow_up' | 'standard';
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening';
+
+interface DurationStats {
+  mean: number;
+  spread: number; // standard deviation, in minutes
+  samples: number;
+}
+
+export interface WaitModel {
+  groups: Record<string, DurationStats>;
+  overall: DurationStats;
+  // Share of booked patients who actually turn up
+  showUpRate: number;
+}
+
+export interface QueueWaits {
+  // Indexed by queue position - 1
+  byPosition: WaitEstimate[];
+  // For someone joining the end of the queue now
+  nextJoiner: WaitEstimate;
+}
+
+export const getVisitType = (visit: Pick<Visit, 'priority'>): VisitType =>
+  visit.priority === 'emergency' || visit.priority === 'follow_up' ? visit.priority : 'standard';
+
+export const getTimeOfDay = (date: Date): TimeOfDay => {
+  const hour = date.getHours();
+  if (hour < 12) return 'morning';
+  return hour < 17 ? 'afternoon' : 'evening';
+};
+
+export const getConsultationMinutes = (visit: Visit): number | null => {
+  const end = visit.consultation_end_time || visit.completed_at;
+  if (!visit.consultation_start_time || !end) return null;
+
+  const minutes = (new Date(end).getTime() - new Date(visit.consultation_start_time).getTime()) / 60000;
+  return minutes > 0 && minutes <= MAX_PLAUSIBLE_MINUTES ? minutes : null;
+};
+
+const summarise = (durations: number[]): DurationStats => {
+  const mean = durations.reduce((sum, minutes) => sum + minutes, 0) / durations.length;
+  const variance = durations.reduce((sum, minutes) => sum + (minutes - mean) ** 2, 0) / durations.length;
+  return { mean, spread: Math.sqrt(variance), samples: durations.length };
+};
+
+// From most to least specific: the doctor's own history for this kind of visit, then the whole clinic's
+const groupKeys = (doctorId: string | null, type: VisitType, timeOfDay: TimeOfDay): string[] => {
+  const clinicKeys = [`${type}:${timeOfDay}`, type];
+  return doctorId ? [...clinicKeys.map((key) => `${doctorId}|${key}`), doctorId, ...clinicKeys] : clinicKeys;
+};
+
+// Learns consultation lengths and turn-up rates from past visits; `fallbackMinutes` covers the cold start
+export const buildWaitModel = (history: Visit[], fallbackMinutes: number, now: Date = new Date()): WaitModel => {
+  const durationsByGroup: Record<string, number[]> = {};
+  const allDurations: number[] = [];
+
+  history.forEach((visit) => {
+    const minutes = getConsultationMinutes(visit);
+    if (minutes === null) return;
+
+    allDurations.push(minutes);
+    const startedAt = new Date(visit.consultation_start_time!);
+    groupKeys(visit.doctor_id ?? null, getVisitType(visit), getTimeOfDay(startedAt)).forEach((key) => {
+      (durationsByGroup[key] ||= []).push(minutes);
+    });
+  });
+
+  const groups = Object.fromEntries(
+    Object.entries(durationsByGroup).map(([key, durations]) => [key, summarise(durations)])
+  );
+
+  const todayKey = toDateKey(now);
+  const settled = history.filter(
+    (visit) => getVisitDateKey(visit) < todayKey && ['completed', 'no_show'].includes(visit.visit_status)
+  );
+  const showUpRate =
+    settled.length >= MIN_SAMPLES
+      ? settled.filter((visit) => visit.visit_status === 'completed').length / settled.length
+      : DEFAULT_SHOW_UP_RATE;
+
+  return {
+    groups,
+    overall:
+      allDurations.length >= MIN_SAMPLES
+        ? summarise(allDurations)
+        : { mean: fallbackMinutes, spread: fallbackMinutes * 0.3, samples: 0 },
+    showUpRate,
+  };
+};
+
+// Most specific group with enough history, falling back to everyone
+const lookupStats = (model: WaitModel, visit: Visit, timeOfDay: TimeOfDay): DurationStats =>
+  groupKeys(visit.doctor_id ?? null, getVisitType(visit), timeOfDay)
+    .map((key) => model.groups[key])
+    .find((stats) => stats && stats.samples >= MIN_SAMPLES) || model.overall;
+
+const toEstimate = (minutes: number, variance: number): WaitEstimate => {
+  const margin = CONFIDENCE_Z * Math.sqrt(variance);
+  return {
+    minutes: Math.round(minutes),
+    low: Math.max(0, Math.round(minutes - margin)),
+    high: Math.round(minutes + margin),
+  };
+};
+
+// Expected wait for everyone in one doctor's queue today. Patients who have arrived are certain to take their turn;
+// those still on their way only count for the share of bookings that usually turn up.
+export const estimateQueueWaits = (model: WaitModel, visits: Visit[], now: Date = new Date()): QueueWaits => {
+  let minutes = 0;
+  let variance = 0;
+
+  const current = visits.find((visit) => visit.visit_status === 'in_consultation');
+  if (current) {
+    const stats = lookupStats(model, current, getTimeOfDay(now));
+    const elapsed = current.consultation_start_time
+      ? (now.getTime() - new Date(current.consultation_start_time).getTime()) / 60000
+      : 0;
+    minutes = Math.max(stats.mean - elapsed, MIN_REMAINING_MINUTES);
+    variance = stats.spread ** 2;
+  }
+
+  const byPosition = getWaitingOrder(visits).map((visit) => {
+    // Nobody is seen before their booked slot
+    const untilSlot =
+      visit.visit_status === 'upcoming' && visit.appointment_slot
+        ? (getAppointmentStart(visit).getTime() - now.getTime()) / 60000
+        : 0;
+    const estimate = toEstimate(Math.max(minutes, untilSlot), variance);
+
+    const startsAt = new Date(now.getTime() + Math.max(minutes, untilSlot) * 60000);
+    const stats = lookupStats(model, visit, getTimeOfDay(startsAt));
+    const weight = visit.visit_status === 'arrived' ? 1 : model.showUpRate;
+    minutes = Math.max(minutes, untilSlot) + weight * stats.mean;
+    variance += weight * stats.spread ** 2 + weight * (1 - weight) * stats.mean ** 2;
+
+    return estimate;
+  });
+
+  return { byPosition, nextJoiner: toEstimate(minutes, variance) };
+};
+
+const getMinutesSince = (timestamp: string, now: Date): number =>
+  Math.max(0, Math.round((now.getTime() - new Date(timestamp).getTime()) / 60000));
+
+// Wait for a position in a doctor's queue from a summary, less the time that has passed since it was computed
+export const getPositionWait = (
+  summary: QueueSummary | null,
+  position: number,
+  doctorId: string | null,
+  now: Date = new Date()
+): WaitEstimate | null => {
+  const doctorQueue = summary?.doctor_queues?.find((queue) => queue.doctor_id === doctorId);
+  const estimate = (doctorQueue?.wait_estimates || summary?.wait_estimates)?.[position - 1];
+  if (!summary || !estimate) return null;
+
+  const elapsed = getMinutesSince(summary.updated_at, now);
+  return {
+    minutes: Math.max(0, estimate.minutes - elapsed),
+    low: Math.max(0, estimate.low - elapsed),
+    high: Math.max(0, estimate.high - elapsed),
+  };
+};
+
+// Wait for someone joining the end of a queue (the shortest one when no doctor is given),
+// as of the summary's last update
+export const getJoinerWait = (summary: QueueSummary | null, doctorId?: string | null): WaitEstimate => {
+  const source =
+    doctorId !== undefined ? summary?.doctor_queues?.find((queue) => queue.doctor_id === doctorId) || summary : summary;
+  const minutes = source?.estimated_wait_time || 0;
+  return {
+    minutes,
+    low: source?.estimated_wait_low ?? minutes,
+    high: source?.estimated_wait_high ?? minutes,
+  };
+};
+
+export const formatWaitRange = (estimate: WaitEstimate): string =>
+  estimate.low === estimate.high ? `${estimate.minutes} min` : `${estimate.low}–${estimate.high} min`;
@@ -1,14 +1,47 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { supabase, generateUID, generateQRData, updateQueueSummary } from '../lib/supabase';
-import { ClinicSettings } from '../types';
-import { User, Phone, FileText, CreditCard, Calendar } from 'lucide-react';
+import { db } from '../lib/data';
+import { formatTimeKey } from '../lib/dates';
+import {
+  buildDaySchedule,
+  getBookableDates,
+  getClosedReason,
+  isSlotAvailable,
+  isWithinOpeningHours,
+  SLOT_TAKEN_ERROR,
+} from '../lib/scheduling';
+import { getActiveDoctors, getDoctorSettings } from '../lib/doctors';
+import { useBranch } from '../lib/branches';
+import { SlotPicker } from '../components/SlotPicker';
+import { BranchPicker } from '../components/BranchPicker';
+import { ReturningPatientSignIn } from '../components/ReturningPatientSignIn';
+import { AllergyListEditor, MedicationListEditor } from '../components/MedicalListEditor';
+import { MedicalAlertChips } from '../components/MedicalAlertChips';
+import { GUARDIAN_RELATIONSHIP_LABELS } from '../lib/patients';
+import {
+  AllergyEntry,
+  BookingProfile,
+  ClinicSettings,
+  Doctor,
+  GuardianRelationship,
+  MedicationEntry,
+  Visit,
+} from '../types';
+import { User, Phone, FileText, CreditCard, Calendar, Stethoscope, UserCheck, Users } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 export const BookingPage: React.FC = () => {
   const navigate = useNavigate();
+  const { branch } = useBranch();
+  const branchId = branch?.id ?? null;
   const [clinicSettings, setClinicSettings] = useState<ClinicSettings | null>(null);
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [doctorId, setDoctorId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [appointmentDate, setAppointmentDate] = useState('');
+  const [appointmentSlot, setAppointmentSlot] = useState('');
+  const [bookedSlots, setBookedSlots] = useState<string[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
     age: '',
@@ -19,37 +52,143 @@ export const BookingPage: React.FC = () => {
     reason: '',
     symptoms: '',
     medical_history: '',
-    allergies: '',
-    current_medications: '',
     emergency_contact_name: '',
     emergency_contact_phone: '',
+    guardian_name: '',
+    guardian_relationship: '' as GuardianRelationship | '',
     payment_method: 'clinic' as 'online' | 'clinic',
   });
+  const [allergyList, setAllergyList] = useState<AllergyEntry[]>([]);
+  const [medicationList, setMedicationList] = useState<MedicationEntry[]>([]);
+  const [showSignIn, setShowSignIn] = useState(false);
+  // The verified returning patient the booking is for; their details are on file, so the form is collapsed
+  const [bookingFor, setBookingFor] = useState<BookingProfile | null>(null);
+  // Booking for a child or someone else they look after, under the booker's own name and phone number
+  const [isDependentBooking, setIsDependentBooking] = useState(false);
 
   useEffect(() => {
     fetchClinicSettings();
   }, []);
 
+  useEffect(() => {
+    if (appointmentDate && doctorId) {
+      fetchBookedSlots(appointmentDate, doctorId);
+    }
+  }, [appointmentDate, doctorId]);
+
+  const bookableDates = useMemo(() => getBookableDates(), []);
+
+  const doctor = doctors.find((candidate) => candidate.id === doctorId) || null;
+
+  // Hours, fee and room of the chosen doctor
+  const doctorSettings = useMemo(
+    () => (clinicSettings ? getDoctorSettings(clinicSettings, doctor) : null),
+    [clinicSettings, doctor]
+  );
+
+  const schedule = useMemo(
+    () => doctorSettings && appointmentDate
+      ? buildDaySchedule(doctorSettings, appointmentDate, bookedSlots)
+      : null,
+    [doctorSettings, appointmentDate, bookedSlots]
+  );
+
+  // Returning patients get the first free slot preselected, so booking is just choosing who it's for and confirming
+  useEffect(() => {
+    if (!bookingFor || appointmentSlot || !schedule?.isOpen) return;
+    const firstSlot = schedule.slots.find((slot) => slot.available);
+    if (firstSlot) setAppointmentSlot(firstSlot.time);
+  }, [bookingFor, schedule, appointmentSlot]);
+
   const fetchClinicSettings = async () => {
     try {
-      const { data, error } = await supabase
-        .from('clinic_settings')
-        .select('*')
-        .single();
-
-      if (error) throw error;
-      setClinicSettings(data);
+      const [settings, doctorList] = await Promise.all([db.settings.get(branchId), db.doctors.list(branchId)]);
+      const activeDoctors = getActiveDoctors(doctorList);
+      setClinicSettings(settings);
+      setDoctors(activeDoctors);
+      setDoctorId(activeDoctors[0]?.id || null);
+
+      // Preselect the first day the clinic is open
+      if (settings) {
+        const firstOpenDate = bookableDates.find((date) => !getClosedReason(settings, date));
+        setAppointmentDate(firstOpenDate || bookableDates[0]);
+      }
     } catch (error) {
       console.error('Error fetching clinic settings:', error);
       toast.error('Failed to load clinic information');
     }
   };
 
+  const fetchBookedSlots = async (dateKey: string, forDoctorId: string) => {
+    setSlotsLoading(true);
+    try {
+      setBookedSlots(await db.visits.listBookedSlots(dateKey, forDoctorId));
+    } catch (error) {
+      console.error('Error fetching booked slots:', error);
+      toast.error('Failed to load available time slots');
+    } finally {
+      setSlotsLoading(false);
+    }
+  };
+
+  const handleDateChange = (dateKey: string) => {
+    setAppointmentDate(dateKey);
+    setAppointmentSlot('');
+  };
+
+  const handleDoctorChange = (id: string) => {
+    setDoctorId(id);
+    setAppointmentSlot('');
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
+  const handleProfileSelect = (profile: BookingProfile) => {
+    setFormData((prev) => ({
+      ...prev,
+      name: profile.name,
+      age: profile.age ? String(profile.age) : '',
+      phone: profile.phone || '',
+      email: profile.email || '',
+      gender: profile.gender || '',
+      address: profile.address || '',
+      emergency_contact_name: profile.emergency_contact_name || '',
+      emergency_contact_phone: profile.emergency_contact_phone || '',
+      guardian_name: profile.guardian_name || '',
+      guardian_relationship: profile.guardian_relationship || '',
+    }));
+    setAllergyList(profile.allergy_list || []);
+    setMedicationList(profile.medication_list || []);
+    setIsDependentBooking(Boolean(profile.guardian_id));
+    setBookingFor(profile);
+    setShowSignIn(false);
+  };
+
+  // A new dependent of a verified returning patient: the booker's details are known, the patient's are not
+  const handleAddDependent = (guardian: BookingProfile) => {
+    setFormData((prev) => ({
+      ...prev,
+      name: '',
+      age: '',
+      phone: guardian.phone || '',
+      email: '',
+      gender: '',
+      address: guardian.address || '',
+      emergency_contact_name: guardian.name,
+      emergency_contact_phone: guardian.phone || '',
+      guardian_name: guardian.name,
+      guardian_relationship: '',
+    }));
+    setAllergyList([]);
+    setMedicationList([]);
+    setIsDependentBooking(true);
+    setBookingFor(null);
+    setShowSignIn(false);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -58,147 +197,86 @@ export const BookingPage: React.FC = () => {
       return;
     }
 
+    if (!doctorSettings || !doctorId || !appointmentDate || !appointmentSlot) {
+      toast.error('Please choose a doctor, date and time slot');
+      return;
+    }
+
+    if (!isWithinOpeningHours(doctorSettings, appointmentDate, appointmentSlot)) {
+      setAppointmentSlot('');
+      toast.error('That time is outside clinic hours. Please choose another slot.');
+      return;
+    }
+
     setLoading(true);
 
     try {
-      // Get next token number
-      const today = new Date().toISOString().split('T')[0];
-      
-      // Check if we're using demo mode
-      const isDemo = import.meta.env.VITE_SUPABASE_URL === 'https://demo.supabase.co' || 
-                     !import.meta.env.VITE_SUPABASE_URL ||
-                     import.meta.env.VITE_SUPABASE_ANON_KEY === 'demo-key';
-      
-      let existingVisits: any[] = [];
-      let countError = null;
-      
-      if (isDemo) {
-        const allVisits = JSON.parse(localStorage.getItem('demo_visits') || '[]');
-        existingVisits = allVisits
-          .filter((visit: any) => visit.created_at.split('T')[0] === today)
-          .sort((a: any, b: any) => b.token_number - a.token_number)
-          .slice(0, 1);
-      } else {
-        const result = await supabase
-          .from('visits')
-          .select('token_number')
-          .gte('created_at', `${today}T00:00:00.000Z`)
-          .lt('created_at', `${today}T23:59:59.999Z`)
-          .order('token_number', { ascending: false })
-          .limit(1);
-        existingVisits = result.data || [];
-        countError = result.error;
+      // Re-check the slot in case someone else booked it while the form was open
+      const latestBookedSlots = await db.visits.listBookedSlots(appointmentDate, doctorId);
+      if (!isSlotAvailable(buildDaySchedule(doctorSettings, appointmentDate, latestBookedSlots), appointmentSlot)) {
+        setBookedSlots(latestBookedSlots);
+        setAppointmentSlot('');
+        toast.error(SLOT_TAKEN_ERROR);
+        return;
       }
 
-      if (countError) throw countError;
-
-      const tokenNumber = existingVisits && existingVisits.length > 0 
-        ? existingVisits[0].token_number + 1 
-        : 1;
-      const uid = generateUID(tokenNumber);
-
-      // Get clinic settings for payment amount
-      let consultationFee = 500;
-      
-      if (isDemo) {
-        consultationFee = 500; // Default for demo
-      } else {
-        const { data: settings } = await supabase
-          .from('clinic_settings')
-          .select('consultation_fee')
-          .single();
-        consultationFee = settings?.consultation_fee || 500;
-      }
+      // Reserve the doctor's next token and its UID atomically
+      const { tokenNumber, uid } = await db.visits.allocateToken(appointmentDate, doctorId);
 
+      // The chosen doctor's fee
+      const consultationFee = doctorSettings.consultation_fee || 500;
 
       // Create visit record
-      const visitData = {
+      const visit = await db.visits.create({
         uid,
         token_number: tokenNumber,
+        doctor_id: doctorId,
+        branch_id: branchId,
         name: formData.name.trim(),
-        age: formData.age ? parseInt(formData.age) : null,
-        phone: formData.phone.trim() || null,
-        email: formData.email.trim() || null,
-        gender: formData.gender || null,
-        address: formData.address.trim() || null,
-        reason: formData.reason.trim() || null,
-        symptoms: formData.symptoms?.trim() || null,
-        medical_history: formData.medical_history?.trim() || null,
-        allergies: formData.allergies?.trim() || null,
-        current_medications: formData.current_medications?.trim() || null,
-        emergency_contact_name: formData.emergency_contact_name?.trim() || null,
-        emergency_contact_phone: formData.emergency_contact_phone?.trim() || null,
+        age: formData.age ? parseInt(formData.age) : undefined,
+        phone: formData.phone.trim() || undefined,
+        email: formData.email.trim() || undefined,
+        gender: (formData.gender || undefined) as Visit['gender'],
+        address: formData.address.trim() || undefined,
+        reason: formData.reason.trim() || undefined,
+        symptoms: formData.symptoms?.trim() || undefined,
+        medical_history: formData.medical_history?.trim() || undefined,
+        allergy_list: allergyList.length > 0 ? allergyList : undefined,
+        medication_list: medicationList.length > 0 ? medicationList : undefined,
+        emergency_contact_name: formData.emergency_contact_name?.trim() || undefined,
+        emergency_contact_phone: formData.emergency_contact_phone?.trim() || undefined,
+        guardian_name: isDependentBooking ? formData.guardian_name.trim() : undefined,
+        guardian_relationship: isDependentBooking ? formData.guardian_relationship || null : undefined,
         payment_method: formData.payment_method,
-        payment_status: formData.payment_method === 'online' ? 'pending' : 'pending',
+        payment_status: 'pending',
         payment_amount: consultationFee,
         visit_status: 'upcoming',
         queue_position: tokenNumber,
-        estimated_time: `${tokenNumber * 15} minutes`,
-      };
-
-      let visit: any;
-      let error = null;
-      
-      if (isDemo) {
-        visit = {
-          ...visitData,
-          id: Math.random().toString(36).substr(2, 9),
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        };
-        
-        const allVisits = JSON.parse(localStorage.getItem('demo_visits') || '[]');
-        allVisits.push(visit);
-        localStorage.setItem('demo_visits', JSON.stringify(allVisits));
-      } else {
-        const result = await supabase
-          .from('visits')
-          .insert(visitData)
-          .select()
-          .single();
-        visit = result.data;
-        error = result.error;
-      }
-
-      if (error) throw error;
-
-      // Update queue summary
-      await updateQueueSummary();
+        appointment_date: appointmentDate,
+        appointment_slot: appointmentSlot,
+        estimated_time: formatTimeKey(appointmentSlot),
+      });
 
       // If online payment, redirect to payment (simulated)
       if (formData.payment_method === 'online') {
-        // Simulate payment success for demo
-        if (isDemo) {
-          const allVisits = JSON.parse(localStorage.getItem('demo_visits') || '[]');
-          const visitIndex = allVisits.findIndex((v: any) => v.id === visit.id);
-          if (visitIndex >= 0) {
-            allVisits[visitIndex] = {
-              ...allVisits[visitIndex],
-              payment_status: 'paid',
-              payment_id: `pay_${Date.now()}`,
-              updated_at: new Date().toISOString()
-            };
-            localStorage.setItem('demo_visits', JSON.stringify(allVisits));
-          }
-        } else {
-          const { error: paymentError } = await supabase
-            .from('visits')
-            .update({ 
-              payment_status: 'paid',
-              payment_id: `pay_${Date.now()}`,
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', visit.id);
-
-          if (paymentError) throw paymentError;
-        }
+        await db.visits.update(visit.id, {
+          payment_status: 'paid',
+          payment_id: `pay_${Date.now()}`,
+        });
       }
 
       toast.success('Booking confirmed successfully!');
-      navigate(`/confirmation/${uid}`);
+      navigate(`/confirmation/${uid}?key=${visit.access_key}`);
 
     } catch (error) {
       console.error('Booking error:', error);
+      // Someone else saved the same slot between the re-check above and this booking
+      if (error instanceof Error && error.message === SLOT_TAKEN_ERROR) {
+        setBookedSlots(await db.visits.listBookedSlots(appointmentDate, doctorId).catch(() => bookedSlots));
+        setAppointmentSlot('');
+        toast.error(SLOT_TAKEN_ERROR);
+        return;
+      }
       toast.error('Failed to create booking. Please try again.');
     } finally {
       setLoading(false);
@@ -216,15 +294,181 @@ export const BookingPage: React.FC = () => {
             <p className="text-gray-600 mt-2">
               Fill in your details to secure your appointment
             </p>
+            <div className="mt-4">
+              <BranchPicker />
+            </div>
           </div>
         </div>
 
         <form onSubmit={handleSubmit} className="p-8 space-y-6">
+          {showSignIn ? (
+            <ReturningPatientSignIn
+              onSelect={handleProfileSelect}
+              onAddDependent={handleAddDependent}
+              onCancel={() => setShowSignIn(false)}
+            />
+          ) : bookingFor ? (
+            <div className="border border-green-200 bg-green-50 rounded-lg p-4 space-y-2">
+              <div className="flex items-start justify-between">
+                <div className="flex items-center space-x-3">
+                  <UserCheck className="w-5 h-5 text-green-600 flex-shrink-0" />
+                  <div>
+                    <div className="font-medium text-gray-900">Booking for {bookingFor.name}</div>
+                    <div className="text-sm text-gray-600">
+                      {[formData.age && `${formData.age} years`, formData.gender, formData.phone].filter(Boolean).join(' · ')}
+                    </div>
+                    {isDependentBooking && formData.guardian_name && (
+                      <div className="text-sm text-gray-600">
+                        Booked by {formData.guardian_name}
+                        {formData.guardian_relationship &&
+                          ` (${GUARDIAN_RELATIONSHIP_LABELS[formData.guardian_relationship].toLowerCase()})`}
+                      </div>
+                    )}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setBookingFor(null)}
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  Edit details
+                </button>
+              </div>
+              <MedicalAlertChips
+                details={{
+                  name: bookingFor.name,
+                  allergies: bookingFor.allergies,
+                  allergy_list: allergyList,
+                  medication_list: medicationList,
+                }}
+              />
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setShowSignIn(true)}
+              className="w-full flex items-center justify-center space-x-2 border border-blue-300 text-blue-700 rounded-lg py-3 hover:bg-blue-50 transition-colors"
+            >
+              <UserCheck className="w-5 h-5" />
+              <span>I've visited before, book with my phone number</span>
+            </button>
+          )}
+
+          {doctors.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-3">
+                <Stethoscope className="w-4 h-4 inline mr-1" />
+                Choose a Doctor
+              </label>
+              <div className="grid md:grid-cols-2 gap-4">
+                {doctors.map((option) => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => handleDoctorChange(option.id)}
+                    className={`flex items-center space-x-3 text-left border rounded-lg p-4 transition-all ${
+                      option.id === doctorId
+                        ? 'border-blue-500 bg-blue-50'
+                        : 'border-gray-300 hover:border-gray-400'
+                    }`}
+                  >
+                    {option.photo_url ? (
+                      <img src={option.photo_url} alt={option.name} className="w-12 h-12 rounded-full object-cover" />
+                    ) : (
+                      <div className="w-12 h-12 rounded-full bg-blue-100 flex items-center justify-center flex-shrink-0">
+                        <Stethoscope className="w-6 h-6 text-blue-600" />
+                      </div>
+                    )}
+                    <div>
+                      <div className="font-medium text-gray-900">{option.name}</div>
+                      <div className="text-sm text-gray-600">
+                        {option.specialization || option.qualifications}
+                      </div>
+                      <div className="text-sm text-green-600">₹{option.consultation_fee}</div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <SlotPicker
+            settings={doctorSettings}
+            dates={bookableDates}
+            schedule={schedule}
+            loading={slotsLoading}
+            selectedDate={appointmentDate}
+            selectedSlot={appointmentSlot}
+            onDateChange={handleDateChange}
+            onSlotChange={setAppointmentSlot}
+          />
+
+          {!bookingFor && (
+          <>
+          {/* Who the visit is for */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              <Users className="w-4 h-4 inline mr-1" />
+              Who is this visit for?
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {[false, true].map((dependent) => (
+                <button
+                  key={String(dependent)}
+                  type="button"
+                  onClick={() => setIsDependentBooking(dependent)}
+                  className={`px-4 py-3 border rounded-lg transition-colors ${
+                    isDependentBooking === dependent
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                  }`}
+                >
+                  {dependent ? 'My child or someone I look after' : 'Myself'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {isDependentBooking && (
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Your Full Name *
+                </label>
+                <input
+                  type="text"
+                  name="guardian_name"
+                  value={formData.guardian_name}
+                  onChange={handleInputChange}
+                  required
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Parent or guardian's name"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  The patient is your
+                </label>
+                <select
+                  name="guardian_relationship"
+                  value={formData.guardian_relationship}
+                  onChange={handleInputChange}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Select Relationship</option>
+                  {Object.entries(GUARDIAN_RELATIONSHIP_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
           {/* Name Field */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               <User className="w-4 h-4 inline mr-1" />
-              Full Name *
+              {isDependentBooking ? "Patient's Full Name *" : 'Full Name *'}
             </label>
             <input
               type="text"
@@ -233,7 +477,7 @@ export const BookingPage: React.FC = () => {
               onChange={handleInputChange}
               required
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="Enter your full name"
+              placeholder={isDependentBooking ? "The patient's full name" : 'Enter your full name'}
             />
           </div>
 
@@ -258,13 +502,14 @@ export const BookingPage: React.FC = () => {
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 <Phone className="w-4 h-4 inline mr-1" />
-                Phone Number
+                {isDependentBooking ? 'Your Phone Number *' : 'Phone Number'}
               </label>
               <input
                 type="tel"
                 name="phone"
                 value={formData.phone}
                 onChange={handleInputChange}
+                required={isDependentBooking}
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 placeholder="10-digit mobile number"
               />
@@ -319,6 +564,9 @@ export const BookingPage: React.FC = () => {
             </div>
           </div>
 
+          </>
+          )}
+
           {/* Reason Field */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -335,6 +583,8 @@ export const BookingPage: React.FC = () => {
             />
           </div>
 
+          {!bookingFor && (
+          <>
           {/* Medical Information */}
           <div className="space-y-4">
             <h3 className="text-lg font-semibold text-gray-900">Medical Information (Optional)</h3>
@@ -353,34 +603,18 @@ export const BookingPage: React.FC = () => {
               />
             </div>
 
-            <div className="grid md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Allergies
-                </label>
-                <input
-                  type="text"
-                  name="allergies"
-                  value={formData.allergies}
-                  onChange={handleInputChange}
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Any known allergies"
-                />
-              </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Allergies
+              </label>
+              <AllergyListEditor value={allergyList} onChange={setAllergyList} />
+            </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Current Medications
-                </label>
-                <input
-                  type="text"
-                  name="current_medications"
-                  value={formData.current_medications}
-                  onChange={handleInputChange}
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Medications you're taking"
-                />
-              </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Current Medications
+              </label>
+              <MedicationListEditor value={medicationList} onChange={setMedicationList} />
             </div>
 
             <div>
@@ -433,6 +667,9 @@ export const BookingPage: React.FC = () => {
             </div>
           </div>
 
+          </>
+          )}
+
           {/* Payment Method */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-3">
@@ -456,7 +693,7 @@ export const BookingPage: React.FC = () => {
                 />
                 <label htmlFor="online" className="cursor-pointer">
                   <div className="font-medium text-gray-900">Pay Online</div>
-                  <div className="text-sm text-gray-600">₹{clinicSettings?.consultation_fee}</div>
+                  <div className="text-sm text-gray-600">₹{doctorSettings?.consultation_fee}</div>
                   <div className="text-xs text-green-600 mt-1">Secure & Instant</div>
                 </label>
               </div>
@@ -477,7 +714,7 @@ export const BookingPage: React.FC = () => {
                 />
                 <label htmlFor="clinic" className="cursor-pointer">
                   <div className="font-medium text-gray-900">Pay at Clinic</div>
-                  <div className="text-sm text-gray-600">₹{clinicSettings?.consultation_fee}</div>
+                  <div className="text-sm text-gray-600">₹{doctorSettings?.consultation_fee}</div>
                   <div className="text-xs text-blue-600 mt-1">Cash/Card/UPI</div>
                 </label>
               </div>
@@ -486,7 +723,7 @@ export const BookingPage: React.FC = () => {
 
           <button
             type="submit"
-            disabled={loading}
+            disabled={loading || !appointmentSlot}
             className="w-full bg-gradient-to-r from-blue-600 to-green-600 text-white py-4 px-6 rounded-lg font-semibold hover:from-blue-700 hover:to-green-700 focus:ring-4 focus:ring-blue-200 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
           >
             {loading ? (
@@ -1,14 +1,20 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, Link } from 'react-router-dom';
-import { supabase, generateQRData } from '../lib/supabase';
-import { Visit } from '../types';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import { generateQRData } from '../lib/supabase';
+import { db } from '../lib/data';
+import { formatTimeKey, fromDateKey } from '../lib/dates';
+import { PublicVisit } from '../types';
 import { QRCodeGenerator } from '../components/QRCodeGenerator';
-import { CheckCircle, Calendar, Clock, CreditCard, MapPin, ArrowRight } from 'lucide-react';
+import { CheckCircle, Calendar, Clock, MapPin, ArrowRight } from 'lucide-react';
+import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 
 export const ConfirmationPage: React.FC = () => {
   const { uid } = useParams<{ uid: string }>();
-  const [visit, setVisit] = useState<Visit | null>(null);
+  const [searchParams] = useSearchParams();
+  const accessKey = searchParams.get('key') || '';
+  const [visit, setVisit] = useState<PublicVisit | null>(null);
+  const [checkInCode, setCheckInCode] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -19,32 +25,10 @@ export const ConfirmationPage: React.FC = () => {
 
   const fetchVisit = async () => {
     try {
-      // Check if we're using demo mode
-      const isDemo = import.meta.env.VITE_SUPABASE_URL === 'https://demo.supabase.co' || 
-                     !import.meta.env.VITE_SUPABASE_URL ||
-                     import.meta.env.VITE_SUPABASE_ANON_KEY === 'demo-key';
-      
-      let data = null;
-      let error = null;
-      
-      if (isDemo) {
-        const allVisits = JSON.parse(localStorage.getItem('demo_visits') || '[]');
-        data = allVisits.find((visit: any) => visit.uid === uid);
-        if (!data) {
-          error = { code: 'PGRST116' };
-        }
-      } else {
-        const result = await supabase
-          .from('visits')
-          .select('*')
-          .eq('uid', uid)
-          .single();
-        data = result.data;
-        error = result.error;
-      }
-
-      if (error) throw error;
+      const data = await db.visits.getPublic(uid!, { accessKey });
+      if (!data) throw new Error(`Visit ${uid} not found`);
       setVisit(data);
+      setCheckInCode(await db.visits.getCheckInCode(data.uid, accessKey));
     } catch (error) {
       console.error('Error fetching visit:', error);
       toast.error('Visit not found');
@@ -74,7 +58,10 @@ export const ConfirmationPage: React.FC = () => {
       <div className="text-center py-12">
         <div className="text-6xl mb-4">❌</div>
         <h1 className="text-2xl font-bold text-gray-900 mb-4">Visit Not Found</h1>
-        <p className="text-gray-600 mb-6">The visit ID you're looking for doesn't exist.</p>
+        <p className="text-gray-600 mb-6">
+          This link is incomplete or the visit doesn't exist. You can still look your visit up with its UID and phone
+          number on the Track page.
+        </p>
         <Link
           to="/"
           className="inline-flex items-center space-x-2 bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors"
@@ -86,7 +73,8 @@ export const ConfirmationPage: React.FC = () => {
     );
   }
 
-  const qrData = generateQRData(visit.uid, visit.id);
+  // Links to the patient pages carry the access key so they open without asking for the phone number
+  const visitQuery = visit.access_key ? `uid=${visit.uid}&key=${visit.access_key}` : `uid=${visit.uid}`;
 
   return (
     <div className="max-w-4xl mx-auto space-y-8">
@@ -141,9 +129,18 @@ export const ConfirmationPage: React.FC = () => {
               <span className="font-semibold">{visit.queue_position}</span>
             </div>
             
+            {visit.appointment_date && (
+              <div className="flex items-center justify-between py-3 border-b border-gray-100">
+                <span className="text-gray-600">Appointment Date</span>
+                <span className="font-semibold">{format(fromDateKey(visit.appointment_date), 'EEEE, MMMM d, yyyy')}</span>
+              </div>
+            )}
+            
             <div className="flex items-center justify-between py-3 border-b border-gray-100">
-              <span className="text-gray-600">Estimated Time</span>
-              <span className="font-semibold text-blue-600">{visit.estimated_time}</span>
+              <span className="text-gray-600">{visit.appointment_slot ? 'Time Slot' : 'Estimated Time'}</span>
+              <span className="font-semibold text-blue-600">
+                {visit.appointment_slot ? formatTimeKey(visit.appointment_slot) : visit.estimated_time}
+              </span>
             </div>
             
             <div className="flex items-center justify-between py-3">
@@ -157,14 +154,14 @@ export const ConfirmationPage: React.FC = () => {
 
         {/* QR Code */}
         <div className="space-y-6">
-          <QRCodeGenerator data={qrData} uid={visit.uid} />
+          {checkInCode && <QRCodeGenerator data={generateQRData(checkInCode)} uid={visit.uid} />}
           
           {/* Quick Actions */}
           <div className="bg-white rounded-xl shadow-lg p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h3>
             <div className="space-y-3">
               <Link
-                to={`/track?uid=${visit.uid}`}
+                to={`/track?${visitQuery}`}
                 className="flex items-center space-x-3 p-4 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors group"
               >
                 <Clock className="w-5 h-5 text-blue-600" />
@@ -176,7 +173,7 @@ export const ConfirmationPage: React.FC = () => {
               </Link>
               
               <Link
-                to={`/visit?uid=${visit.uid}`}
+                to={`/visit?${visitQuery}`}
                 className="flex items-center space-x-3 p-4 bg-green-50 rounded-lg hover:bg-green-100 transition-colors group"
               >
                 <Calendar className="w-5 h-5 text-green-600" />
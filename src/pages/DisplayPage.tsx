@@ -0,0 +1,290 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { db } from '../lib/data';
+import { announceCall, isAudioBlocked, unlockAudio } from '../lib/callAnnouncer';
+import { useBranch } from '../lib/branches';
+import { getTodayKey } from '../lib/dates';
+import { filterVisitsForDoctor, getDoctorRoom, getVisitDoctor } from '../lib/doctors';
+import { describeClosure, getUpcomingClosures } from '../lib/scheduling';
+import { formatWaitRange, getJoinerWait } from '../lib/waitEstimator';
+import { ClinicSettings, Doctor, QueueBoardEntry, QueueSummary } from '../types';
+import { Megaphone, Stethoscope, Volume2, WifiOff } from 'lucide-react';
+import { format } from 'date-fns';
+
+const UP_NEXT_COUNT = 6;
+const ANNOUNCEMENT_SECONDS = 10;
+// Polling backs up the live connection in case change events were missed while it was down
+const POLL_INTERVAL_MS = 30 * 1000;
+const RECONNECT_DELAY_MS = 5 * 1000;
+// Reload the whole page if nothing has synced for this long, which also picks up new deployments
+const STALE_RELOAD_MS = 10 * 60 * 1000;
+// Calls older than this (e.g. missed while offline) are shown but not read out
+const ANNOUNCE_WITHIN_MS = 2 * 60 * 1000;
+const CALL_BANNER_MS = 20 * 1000;
+
+interface DoctorColumnData {
+  key: string;
+  doctor: string;
+  room: string;
+  entries: QueueBoardEntry[];
+}
+
+// Full-screen board for the waiting-room TV. It runs unattended, so failures are logged rather than shown.
+// Each branch's TV opens /display?branch=CODE.
+export const DisplayPage: React.FC = () => {
+  const { branch } = useBranch();
+  const branchId = branch?.id ?? null;
+  const [board, setBoard] = useState<QueueBoardEntry[]>([]);
+  const [queueSummary, setQueueSummary] = useState<QueueSummary | null>(null);
+  const [settings, setSettings] = useState<ClinicSettings | null>(null);
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [connected, setConnected] = useState(true);
+  const [connectionAttempt, setConnectionAttempt] = useState(0);
+  const [lastSyncedAt, setLastSyncedAt] = useState(() => new Date());
+  const [now, setNow] = useState(() => new Date());
+  const [latestCall, setLatestCall] = useState<{ entry: QueueBoardEntry; at: Date } | null>(null);
+  const [audioBlocked, setAudioBlocked] = useState(false);
+  // Call count last seen for each UID; null until the first load, which is never announced
+  const seenCalls = useRef<Map<string, number> | null>(null);
+  const announcing = useRef<Promise<void>>(Promise.resolve());
+
+  const fetchBoard = useCallback(async () => {
+    const todayKey = getTodayKey();
+    try {
+      const [entries, summary, clinic, doctorList] = await Promise.all([
+        db.visits.listQueueBoard(todayKey, branchId),
+        db.queueSummary.getForDate(todayKey, branchId),
+        db.settings.get(branchId),
+        db.doctors.list(branchId),
+      ]);
+      setBoard(entries);
+      setQueueSummary(summary);
+      setSettings(clinic);
+      setDoctors(doctorList);
+      setLastSyncedAt(new Date());
+    } catch (error) {
+      console.error('Error refreshing display:', error);
+    }
+  }, [branchId]);
+
+  useEffect(() => {
+    fetchBoard();
+    const interval = setInterval(fetchBoard, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchBoard]);
+
+  // A dropped channel is replaced with a fresh one after a short delay; the board is refetched once it is back
+  useEffect(() => {
+    let active = true;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+
+    const unsubscribe = db.subscribe(
+      `display-${connectionAttempt}`,
+      ['visits', 'queue_summary', 'clinic_settings', 'doctors'],
+      () => fetchBoard(),
+      (isConnected) => {
+        if (!active) return;
+        setConnected(isConnected);
+        if (isConnected) {
+          fetchBoard();
+        } else if (!retry) {
+          retry = setTimeout(() => setConnectionAttempt((attempt) => attempt + 1), RECONNECT_DELAY_MS);
+        }
+      }
+    );
+
+    return () => {
+      active = false;
+      clearTimeout(retry);
+      unsubscribe();
+    };
+  }, [connectionAttempt, fetchBoard]);
+
+  useEffect(() => {
+    const handleOnline = () => setConnectionAttempt((attempt) => attempt + 1);
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') fetchBoard();
+    };
+
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [fetchBoard]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    setAudioBlocked(isAudioBlocked());
+  }, []);
+
+  // Announce every call made since the last update, one after another
+  useEffect(() => {
+    const previous = seenCalls.current;
+    seenCalls.current = new Map(board.map((entry) => [entry.uid, entry.call_count]));
+    if (!previous) return;
+
+    board
+      .filter((entry) => entry.call_count > (previous.get(entry.uid) ?? 0))
+      .filter((entry) => entry.called_at && Date.now() - new Date(entry.called_at).getTime() < ANNOUNCE_WITHIN_MS)
+      .forEach((entry) => {
+        setLatestCall({ entry, at: new Date() });
+        announcing.current = announcing.current
+          .then(() =>
+            announceCall(settings, {
+              token: entry.token_number,
+              uid: entry.uid,
+              room: getDoctorRoom(getVisitDoctor(entry, doctors), settings),
+            })
+          )
+          .catch((error) => console.error('Error announcing call:', error));
+      });
+  }, [board, settings, doctors]);
+
+  useEffect(() => {
+    if (navigator.onLine && now.getTime() - lastSyncedAt.getTime() > STALE_RELOAD_MS) {
+      window.location.reload();
+    }
+  }, [now, lastSyncedAt]);
+
+  const enableSound = async () => {
+    await unlockAudio();
+    setAudioBlocked(isAudioBlocked());
+  };
+
+  const callRoom = latestCall ? getDoctorRoom(getVisitDoctor(latestCall.entry, doctors), settings) : '';
+  const showCallBanner = latestCall && now.getTime() - latestCall.at.getTime() < CALL_BANNER_MS;
+
+  const announcements = [
+    ...(settings?.display_announcements || []).filter((message) => message.trim()),
+    ...(settings ? getUpcomingClosures(settings).map(describeClosure) : []),
+  ];
+  const announcement = announcements.length
+    ? announcements[Math.floor(now.getTime() / (ANNOUNCEMENT_SECONDS * 1000)) % announcements.length]
+    : null;
+
+  // One column per doctor taking patients, plus any doctor who still has someone in today's queue
+  const columns: DoctorColumnData[] = doctors
+    .filter((doctor) => doctor.is_active || filterVisitsForDoctor(board, doctor.id, doctors).length > 0)
+    .map((doctor) => ({
+      key: doctor.id,
+      doctor: doctor.name,
+      room: getDoctorRoom(doctor, settings),
+      entries: filterVisitsForDoctor(board, doctor.id, doctors),
+    }));
+  if (columns.length === 0) {
+    columns.push({ key: 'clinic', doctor: 'Doctor', room: getDoctorRoom(null, settings), entries: board });
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white flex flex-col">
+      <header className="flex items-center justify-between px-10 py-6 border-b border-slate-700">
+        <div className="flex items-center space-x-4">
+          <div className="w-14 h-14 bg-gradient-to-br from-blue-600 to-green-600 rounded-xl flex items-center justify-center">
+            <Stethoscope className="w-8 h-8 text-white" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold">{settings?.clinic_name || 'X Clinic'}</h1>
+            <p className="text-slate-400">
+              {queueSummary?.total_waiting || 0} waiting · Est. wait for new arrivals {formatWaitRange(getJoinerWait(queueSummary))}
+            </p>
+          </div>
+        </div>
+        <div className="text-right">
+          <div className="text-5xl font-bold tabular-nums">{format(now, 'h:mm')}<span className="text-2xl ml-2">{format(now, 'a')}</span></div>
+          <div className="text-slate-400">{format(now, 'EEEE, MMMM d')}</div>
+        </div>
+      </header>
+
+      {!connected && (
+        <div className="flex items-center justify-center space-x-2 bg-amber-500 text-slate-900 py-2 text-lg font-medium">
+          <WifiOff className="w-5 h-5" />
+          <span>Reconnecting… showing the queue as of {format(lastSyncedAt, 'h:mm a')}</span>
+        </div>
+      )}
+
+      {audioBlocked && (
+        <button
+          onClick={enableSound}
+          className="flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 py-3 text-lg font-medium"
+        >
+          <Volume2 className="w-5 h-5" />
+          <span>Tap to turn on call announcements</span>
+        </button>
+      )}
+
+      {showCallBanner && (
+        <div className="bg-purple-600 text-center py-6 animate-pulse">
+          <span className="text-5xl font-bold">Token #{latestCall.entry.token_number}</span>
+          <span className="text-4xl ml-6">please proceed to {callRoom}</span>
+        </div>
+      )}
+
+      <main className={`flex-1 grid gap-8 p-10 ${columns.length > 1 ? 'lg:grid-cols-2 xl:grid-cols-3' : ''}`}>
+        {columns.map((column) => (
+          <DoctorColumn key={column.key} column={column} />
+        ))}
+      </main>
+
+      {announcement && (
+        <footer className="flex items-center space-x-4 px-10 py-5 bg-blue-700 text-2xl">
+          <Megaphone className="w-8 h-8 flex-shrink-0" />
+          <span className="truncate">{announcement}</span>
+        </footer>
+      )}
+    </div>
+  );
+};
+
+const DoctorColumn: React.FC<{ column: DoctorColumnData }> = ({ column }) => {
+  const current = column.entries.find((entry) => entry.visit_status === 'in_consultation');
+  const upNext = column.entries.filter((entry) => entry.visit_status !== 'in_consultation').slice(0, UP_NEXT_COUNT);
+
+  return (
+    <section className="bg-slate-800 rounded-2xl p-8 flex flex-col">
+      <h2 className="text-2xl font-semibold text-slate-300 mb-6">
+        {column.doctor} <span className="text-slate-500">· {column.room}</span>
+      </h2>
+
+      <div className="text-center p-8 bg-green-600 rounded-2xl mb-8">
+        <div className="text-xl uppercase tracking-widest text-green-100">Now Serving</div>
+        {current ? (
+          <>
+            <div className="text-8xl font-bold my-2">#{current.token_number}</div>
+            <div className="text-2xl font-mono text-green-100">{current.uid}</div>
+          </>
+        ) : (
+          <div className="text-4xl font-semibold my-6 text-green-100">Please wait to be called</div>
+        )}
+      </div>
+
+      <div className="text-xl uppercase tracking-widest text-slate-400 mb-4">Up Next</div>
+      {upNext.length === 0 ? (
+        <p className="text-2xl text-slate-500">No one is waiting</p>
+      ) : (
+        <ol className="space-y-3">
+          {upNext.map((entry) => (
+            <li key={entry.uid} className="flex items-center justify-between bg-slate-700 rounded-xl px-6 py-4 text-2xl">
+              <div className="flex items-center space-x-6">
+                <span className="font-bold w-20">#{entry.token_number}</span>
+                <span className="font-mono text-slate-300">{entry.uid}</span>
+                <span className="text-slate-400">{entry.masked_name}</span>
+              </div>
+              {entry.called_at && entry.visit_status === 'upcoming' ? (
+                <span className="text-base text-purple-300 font-semibold">Called · go to {column.room}</span>
+              ) : (
+                <span className={`text-base ${entry.visit_status === 'arrived' ? 'text-green-400' : 'text-slate-500'}`}>
+                  {entry.visit_status === 'arrived' ? 'Checked in' : 'On the way'}
+                </span>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+};
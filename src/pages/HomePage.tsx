@@ -1,43 +1,55 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { supabase, updateQueueSummary } from '../lib/supabase';
-import { ClinicSettings, QueueSummary } from '../types';
-import { Calendar, Clock, Users, CreditCard, ArrowRight, CheckCircle } from 'lucide-react';
+import { db, createEmptyQueueSummary } from '../lib/data';
+import { formatTimeKey, fromDateKey, getTodayKey, toDateKey } from '../lib/dates';
+import { describeClosure, getOpenStatus, getSessionsForDate, getUpcomingClosures, OpenStatus } from '../lib/scheduling';
+import { formatWaitRange, getJoinerWait } from '../lib/waitEstimator';
+import { getActiveDoctors } from '../lib/doctors';
+import { useBranch } from '../lib/branches';
+import { BranchPicker } from '../components/BranchPicker';
+import { ClinicSettings, Doctor, QueueSummary } from '../types';
+import { Calendar, CalendarX, Clock, Users, CreditCard, ArrowRight, CheckCircle, Stethoscope } from 'lucide-react';
+import { addDays, format } from 'date-fns';
 import toast from 'react-hot-toast';
 
+const describeOpenStatus = (status: OpenStatus, now: Date): string => {
+  if (status.isOpen) return `Open now · until ${formatTimeKey(status.closesAt)}`;
+  if (!status.opensAt) return 'Closed';
+
+  const { dateKey, time } = status.opensAt;
+  const day =
+    dateKey === toDateKey(now)
+      ? 'today'
+      : dateKey === toDateKey(addDays(now, 1))
+        ? 'tomorrow'
+        : format(fromDateKey(dateKey), 'EEEE');
+  return `Closed · opens ${day} at ${formatTimeKey(time)}`;
+};
+
 export const HomePage: React.FC = () => {
+  const { branch } = useBranch();
+  const branchId = branch?.id ?? null;
   const [clinicSettings, setClinicSettings] = useState<ClinicSettings | null>(null);
   const [queueSummary, setQueueSummary] = useState<QueueSummary | null>(null);
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
   const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(new Date());
+
+  // Keep the open/closed badge current while the page stays open
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
 
   useEffect(() => {
     fetchData();
     
     // Subscribe to real-time queue updates
-    const queueSubscription = supabase
-      .channel('queue-updates')
-      .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'queue_summary' },
-        (payload) => {
-          console.log('Queue update:', payload);
-          setTimeout(() => {
-            updateQueueSummary();
-            fetchQueueSummary();
-          }, 1000);
-        }
-      )
-      .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'queue_summary' },
-        (payload) => {
-          console.log('Queue summary update:', payload);
-          fetchQueueSummary();
-        }
-      )
-      .subscribe();
+    const unsubscribe = db.subscribe('queue-updates', ['queue_summary'], () => {
+      fetchQueueSummary();
+    });
 
-    return () => {
-      queueSubscription.unsubscribe();
-    };
+    return unsubscribe;
   }, []);
 
   const fetchData = async () => {
@@ -52,94 +64,32 @@ export const HomePage: React.FC = () => {
   };
 
   const fetchClinicSettings = async () => {
-    const { data, error } = await supabase
-      .from('clinic_settings')
-      .select('*')
-      .single();
-
-    if (error) throw error;
-    setClinicSettings(data);
+    const [settings, doctorList] = await Promise.all([db.settings.get(branchId), db.doctors.list(branchId)]);
+    setClinicSettings(settings);
+    setDoctors(getActiveDoctors(doctorList));
   };
 
   const fetchQueueSummary = async () => {
+    const today = getTodayKey();
     try {
-      const today = new Date().toISOString().split('T')[0];
-      
-      // Check if we're using demo mode
-      const isDemo = import.meta.env.VITE_SUPABASE_URL === 'https://demo.supabase.co' || 
-                     !import.meta.env.VITE_SUPABASE_URL ||
-                     import.meta.env.VITE_SUPABASE_ANON_KEY === 'demo-key';
-      
-      let data = null;
-      let error = null;
-      
-      if (isDemo) {
-        // Get from localStorage for demo
-        const storedSummary = localStorage.getItem('demo_queue_summary');
-        if (storedSummary) {
-          data = JSON.parse(storedSummary);
-        } else {
-          // Create default summary
-          data = {
-            id: '1',
-            date: today,
-            total_appointments: 0,
-            total_waiting: 0,
-            total_completed: 0,
-            total_cancelled: 0,
-            estimated_wait_time: 0,
-            average_consultation_time: 15,
-            total_revenue: 0,
-            updated_at: new Date().toISOString()
-          };
-          localStorage.setItem('demo_queue_summary', JSON.stringify(data));
-        }
-      } else {
-        const result = await supabase
-          .from('queue_summary')
-          .select('*')
-          .eq('date', today)
-          .single();
-        data = result.data;
-        error = result.error;
-      }
-
-      if (error && !isDemo) {
-        console.log('Queue summary not found, creating default');
-        setQueueSummary({
-          id: '',
-          date: today,
-          total_appointments: 0,
-          total_waiting: 0,
-          total_completed: 0,
-          total_cancelled: 0,
-          estimated_wait_time: 0,
-          average_consultation_time: 15,
-          total_revenue: 0,
-          updated_at: new Date().toISOString()
-        });
-      } else {
-        setQueueSummary(data);
-      }
+      const data = await db.queueSummary.getForDate(today, branchId);
+      setQueueSummary(data || createEmptyQueueSummary(today, branchId));
     } catch (error) {
       console.error('Error fetching queue summary:', error);
       // Set default values on error
-      const today = new Date().toISOString().split('T')[0];
-      setQueueSummary({
-        id: '',
-        date: today,
-        total_appointments: 0,
-        total_waiting: 0,
-        total_completed: 0,
-        total_cancelled: 0,
-        estimated_wait_time: 0,
-        average_consultation_time: 15,
-        total_revenue: 0,
-        updated_at: new Date().toISOString()
-      });
+      setQueueSummary(createEmptyQueueSummary(today, branchId));
     }
   };
 
+  const openStatus = clinicSettings ? getOpenStatus(clinicSettings, now) : null;
+  const todaySessions = clinicSettings ? getSessionsForDate(clinicSettings, toDateKey(now)) : [];
+  const upcomingClosures = clinicSettings ? getUpcomingClosures(clinicSettings) : [];
+  // A single-doctor clinic introduces its doctor in the hero; larger ones list everyone below
+  const soleDoctor = doctors.length === 1 ? doctors[0] : null;
+  const lowestFee = doctors.length
+    ? Math.min(...doctors.map((doctor) => doctor.consultation_fee))
+    : clinicSettings?.consultation_fee;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
@@ -152,10 +102,10 @@ export const HomePage: React.FC = () => {
     <div className="space-y-12">
       {/* Hero Section */}
       <div className="text-center space-y-6">
-        {clinicSettings?.doctor_photo_url && (
+        {soleDoctor?.photo_url && (
           <img 
-            src={clinicSettings.doctor_photo_url} 
-            alt={clinicSettings.doctor_name}
+            src={soleDoctor.photo_url} 
+            alt={soleDoctor.name}
             className="w-32 h-32 rounded-full mx-auto object-cover border-4 border-white shadow-lg"
           />
         )}
@@ -163,15 +113,33 @@ export const HomePage: React.FC = () => {
           <h1 className="text-4xl font-bold text-gray-900 mb-2">
             Welcome to {clinicSettings?.clinic_name}
           </h1>
-          <p className="text-xl text-gray-600 mb-4">
-            {clinicSettings?.doctor_name}, {clinicSettings?.doctor_qualifications}
-          </p>
+          {soleDoctor && (
+            <p className="text-xl text-gray-600 mb-4">
+              {soleDoctor.name}, {soleDoctor.qualifications}
+            </p>
+          )}
           <p className="text-gray-600 max-w-2xl mx-auto">
             {clinicSettings?.clinic_address}
           </p>
         </div>
+        <BranchPicker />
       </div>
 
+      {/* Closure Notices */}
+      {upcomingClosures.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 flex items-start space-x-3">
+          <CalendarX className="w-6 h-6 text-amber-600 flex-shrink-0" />
+          <div className="space-y-1">
+            <h3 className="font-semibold text-amber-900">Upcoming closures</h3>
+            {upcomingClosures.map((closure) => (
+              <p key={closure.date} className="text-sm text-amber-800">
+                {describeClosure(closure)}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Quick Info Cards */}
       <div className="grid md:grid-cols-3 gap-6">
         <div className="bg-white rounded-xl shadow-lg p-6 border border-blue-100">
@@ -180,12 +148,25 @@ export const HomePage: React.FC = () => {
             <h3 className="text-lg font-semibold text-gray-900">Clinic Hours</h3>
           </div>
           <div className="space-y-2">
-            <p className="text-gray-600">
-              <span className="font-medium">Morning:</span> {clinicSettings?.morning_shift}
-            </p>
-            <p className="text-gray-600">
-              <span className="font-medium">Evening:</span> {clinicSettings?.evening_shift}
-            </p>
+            {openStatus && (
+              <span
+                className={`inline-block px-3 py-1 rounded-full text-xs font-semibold ${
+                  openStatus.isOpen ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'
+                }`}
+              >
+                {describeOpenStatus(openStatus, now)}
+              </span>
+            )}
+            {todaySessions.length > 0 ? (
+              todaySessions.map((session) => (
+                <p key={`${session.label}-${session.start}`} className="text-gray-600">
+                  <span className="font-medium">{session.label}:</span>{' '}
+                  {formatTimeKey(session.start)} - {formatTimeKey(session.end)}
+                </p>
+              ))
+            ) : (
+              <p className="text-gray-600">No consultation hours today</p>
+            )}
           </div>
         </div>
 
@@ -195,7 +176,7 @@ export const HomePage: React.FC = () => {
             <h3 className="text-lg font-semibold text-gray-900">Consultation Fee</h3>
           </div>
           <p className="text-2xl font-bold text-green-600">
-            ₹{clinicSettings?.consultation_fee}
+            {doctors.length > 1 && 'From '}₹{lowestFee}
           </p>
           <p className="text-sm text-gray-600 mt-1">Per consultation</p>
         </div>
@@ -215,12 +196,47 @@ export const HomePage: React.FC = () => {
               </p>
             )}
             <p className="text-sm text-gray-600">
-              Est. wait: {queueSummary?.estimated_wait_time || 0} min
+              Est. wait: {formatWaitRange(getJoinerWait(queueSummary))}
             </p>
           </div>
         </div>
       </div>
 
+      {/* Doctors */}
+      {doctors.length > 1 && (
+        <div className="space-y-4">
+          <h2 className="text-2xl font-bold text-gray-900">Our Doctors</h2>
+          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {doctors.map((doctor) => {
+              const queue = queueSummary?.doctor_queues?.find((candidate) => candidate.doctor_id === doctor.id);
+              return (
+                <div key={doctor.id} className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+                  <div className="flex items-center space-x-4 mb-4">
+                    {doctor.photo_url ? (
+                      <img src={doctor.photo_url} alt={doctor.name} className="w-16 h-16 rounded-full object-cover" />
+                    ) : (
+                      <div className="w-16 h-16 rounded-full bg-blue-100 flex items-center justify-center">
+                        <Stethoscope className="w-8 h-8 text-blue-600" />
+                      </div>
+                    )}
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900">{doctor.name}</h3>
+                      <p className="text-sm text-gray-600">{doctor.qualifications}</p>
+                      {doctor.specialization && <p className="text-sm text-gray-500">{doctor.specialization}</p>}
+                    </div>
+                  </div>
+                  <div className="flex justify-between text-sm text-gray-600">
+                    <span className="font-semibold text-green-600">₹{doctor.consultation_fee}</span>
+                    <span>{queue?.total_waiting || 0} waiting</span>
+                    <span>Est. wait: {formatWaitRange(getJoinerWait(queueSummary, doctor.id))}</span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Call to Action */}
       <div className="bg-gradient-to-r from-blue-600 to-green-600 rounded-2xl shadow-2xl p-8 text-white text-center">
         <h2 className="text-3xl font-bold mb-4">Book Your Visit Today</h2>
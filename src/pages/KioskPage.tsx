@@ -0,0 +1,353 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { db, VisitCredentials } from '../lib/data';
+import { useBranch } from '../lib/branches';
+import { parseQRData } from '../lib/supabase';
+import { formatTimeKey, getTodayKey } from '../lib/dates';
+import { getDoctorRoom, getVisitDoctor } from '../lib/doctors';
+import { getKioskCheckInBlocker } from '../lib/scheduling';
+import { getPositionWait } from '../lib/waitEstimator';
+import { QRScanner } from '../components/QRScanner';
+import { ClinicSettings, Doctor, PublicVisit, QueueSummary } from '../types';
+import { AlertCircle, CheckCircle, Printer, QrCode, RefreshCw, Stethoscope, UserCheck } from 'lucide-react';
+import { format } from 'date-fns';
+
+// Unattended screens go back to the start after this long without a touch or key press
+const IDLE_RESET_SECONDS = 60;
+// The ticket stays up long enough to read or print, then clears for the next patient
+const TICKET_RESET_SECONDS = 20;
+
+type KioskStep = 'start' | 'confirm' | 'checked_in';
+
+// Self check-in for a tablet at the entrance. Each branch's kiosk opens /kiosk?branch=CODE.
+// Patients prove who they are with their QR code or their UID and phone number, as on the Track page.
+export const KioskPage: React.FC = () => {
+  const { branch } = useBranch();
+  const branchId = branch?.id ?? null;
+  const [step, setStep] = useState<KioskStep>('start');
+  const [showScanner, setShowScanner] = useState(false);
+  const [uid, setUid] = useState('');
+  const [phone, setPhone] = useState('');
+  const [credentials, setCredentials] = useState<VisitCredentials>({});
+  const [visit, setVisit] = useState<PublicVisit | null>(null);
+  const [queueSummary, setQueueSummary] = useState<QueueSummary | null>(null);
+  const [settings, setSettings] = useState<ClinicSettings | null>(null);
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  // A ref rather than state, so touches don't re-render the page (and restart the camera)
+  const lastActivity = useRef(Date.now());
+
+  useEffect(() => {
+    Promise.all([db.settings.get(branchId), db.doctors.list(branchId)])
+      .then(([clinic, doctorList]) => {
+        setSettings(clinic);
+        setDoctors(doctorList);
+      })
+      .catch((error) => console.error('Error loading kiosk settings:', error));
+  }, [branchId]);
+
+  const reset = useCallback(() => {
+    setStep('start');
+    setShowScanner(false);
+    setUid('');
+    setPhone('');
+    setCredentials({});
+    setVisit(null);
+    setError('');
+    lastActivity.current = Date.now();
+  }, []);
+
+  useEffect(() => {
+    const markActive = () => {
+      lastActivity.current = Date.now();
+    };
+    window.addEventListener('pointerdown', markActive);
+    window.addEventListener('keydown', markActive);
+    return () => {
+      window.removeEventListener('pointerdown', markActive);
+      window.removeEventListener('keydown', markActive);
+    };
+  }, []);
+
+  // The start screen only needs resetting once someone has begun using it
+  const inUse = step !== 'start' || showScanner || Boolean(uid || phone || error);
+  useEffect(() => {
+    if (!inUse) return;
+
+    lastActivity.current = Date.now();
+    setNow(Date.now());
+    const limitMs = (step === 'checked_in' ? TICKET_RESET_SECONDS : IDLE_RESET_SECONDS) * 1000;
+    const interval = setInterval(() => {
+      if (Date.now() - lastActivity.current >= limitMs) {
+        reset();
+      } else if (step === 'checked_in') {
+        setNow(Date.now());
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [inUse, step, reset]);
+
+  const findVisit = useCallback(
+    async (visitUid: string, visitCredentials: VisitCredentials, notFound: string) => {
+      setLoading(true);
+      setError('');
+      try {
+        const found = await db.visits.getPublic(visitUid, visitCredentials);
+        if (!found) {
+          setError(notFound);
+          return;
+        }
+
+        const blocker = getKioskCheckInBlocker(found, branchId);
+        if (blocker) {
+          setError(blocker);
+          return;
+        }
+
+        setVisit(found);
+        setCredentials(visitCredentials);
+        setStep('confirm');
+      } catch (error) {
+        console.error('Error finding visit:', error);
+        setError('Something went wrong. Please try again or see the front desk.');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [branchId]
+  );
+
+  const handleScan = useCallback(
+    (data: string) => {
+      setShowScanner(false);
+      const parsed = parseQRData(data);
+
+      if (!parsed) {
+        setError('That is not a clinic QR code. Please type your UID and phone number instead.');
+        return;
+      }
+      if (!parsed.checkInCode) {
+        setUid(parsed.uid);
+        setError('This QR code is from an older booking. Please type your phone number to check in.');
+        return;
+      }
+
+      findVisit(
+        parsed.uid,
+        { checkInCode: parsed.checkInCode },
+        'This QR code has expired or is not valid. Please type your UID and phone number instead.'
+      );
+    },
+    [findVisit]
+  );
+
+  const handleManualLookup = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!uid.trim() || !phone.trim()) {
+      setError('Please enter your UID and the phone number you booked with.');
+      return;
+    }
+    findVisit(uid.trim(), { phone }, 'We could not find a booking with that UID and phone number.');
+  };
+
+  const confirmCheckIn = async () => {
+    if (!visit) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      const checkedIn = await db.visits.checkInByPatient(visit.uid, credentials, branchId);
+      setVisit(checkedIn);
+      setQueueSummary(await db.queueSummary.getForDate(getTodayKey(), branchId));
+      setStep('checked_in');
+    } catch (error) {
+      console.error('Error checking in:', error);
+      setError(error instanceof Error ? error.message : 'Check-in failed. Please see the front desk.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const doctor = visit ? getVisitDoctor(visit, doctors) : null;
+  const positionWait = visit ? getPositionWait(queueSummary, visit.queue_position, visit.doctor_id ?? null) : null;
+  const secondsLeft = Math.max(0, TICKET_RESET_SECONDS - Math.floor((now - lastActivity.current) / 1000));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-green-50 flex flex-col select-none print:bg-white">
+      <header className="flex items-center justify-center space-x-4 px-10 py-6 bg-white shadow-sm print:shadow-none">
+        <div className="w-14 h-14 bg-gradient-to-br from-blue-600 to-green-600 rounded-xl flex items-center justify-center print:hidden">
+          <Stethoscope className="w-8 h-8 text-white" />
+        </div>
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">{settings?.clinic_name || 'X Clinic'}</h1>
+          <p className="text-gray-600">{branch ? `${branch.name} · Self check-in` : 'Self check-in'}</p>
+        </div>
+      </header>
+
+      <main className="flex-1 flex items-center justify-center p-8">
+        <div className="w-full max-w-2xl bg-white rounded-2xl shadow-xl p-10 space-y-8 print:shadow-none print:p-0">
+          {error && (
+            <div className="flex items-start space-x-3 p-4 bg-red-50 border border-red-200 rounded-xl text-lg text-red-800 print:hidden">
+              <AlertCircle className="w-6 h-6 flex-shrink-0 mt-0.5" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {step === 'start' && (
+            <>
+              <div className="text-center">
+                <h2 className="text-4xl font-bold text-gray-900 mb-2">Welcome</h2>
+                <p className="text-xl text-gray-600">Check in for today's appointment</p>
+              </div>
+
+              <button
+                onClick={() => {
+                  setError('');
+                  setShowScanner(true);
+                }}
+                className="w-full flex items-center justify-center space-x-4 bg-blue-600 text-white text-2xl font-semibold py-8 rounded-xl hover:bg-blue-700 transition-colors"
+              >
+                <QrCode className="w-10 h-10" />
+                <span>Scan my QR code</span>
+              </button>
+
+              <div className="flex items-center space-x-4 text-gray-400">
+                <div className="flex-1 border-t border-gray-200" />
+                <span>or type your details</span>
+                <div className="flex-1 border-t border-gray-200" />
+              </div>
+
+              <form onSubmit={handleManualLookup} className="space-y-4">
+                <input
+                  type="text"
+                  value={uid}
+                  onChange={(e) => setUid(e.target.value.toUpperCase())}
+                  placeholder="Your UID, e.g. XC-261018-A001"
+                  autoComplete="off"
+                  className="w-full px-5 py-4 text-xl border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                />
+                <input
+                  type="tel"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  placeholder="Phone number you booked with"
+                  autoComplete="off"
+                  className="w-full px-5 py-4 text-xl border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full flex items-center justify-center space-x-3 bg-gray-900 text-white text-xl font-semibold py-5 rounded-xl hover:bg-gray-800 disabled:opacity-50 transition-colors"
+                >
+                  {loading && <RefreshCw className="w-6 h-6 animate-spin" />}
+                  <span>{loading ? 'Finding your booking...' : 'Find my booking'}</span>
+                </button>
+              </form>
+            </>
+          )}
+
+          {step === 'confirm' && visit && (
+            <>
+              <div className="text-center">
+                <UserCheck className="w-16 h-16 text-blue-600 mx-auto mb-4" />
+                <h2 className="text-4xl font-bold text-gray-900 mb-2">Is this you?</h2>
+              </div>
+
+              <div className="p-6 bg-gray-50 rounded-xl space-y-3 text-xl">
+                <div className="text-3xl font-semibold text-gray-900 text-center">{visit.name}</div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Token</span>
+                  <span className="font-semibold">#{visit.token_number}</span>
+                </div>
+                {visit.appointment_slot && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Appointment</span>
+                    <span className="font-semibold">{formatTimeKey(visit.appointment_slot)}</span>
+                  </div>
+                )}
+                {doctor && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Doctor</span>
+                    <span className="font-semibold">{doctor.name}</span>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <button
+                  onClick={reset}
+                  disabled={loading}
+                  className="py-5 text-xl font-semibold border-2 border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  That's not me
+                </button>
+                <button
+                  onClick={confirmCheckIn}
+                  disabled={loading}
+                  className="flex items-center justify-center space-x-3 py-5 text-xl font-semibold bg-green-600 text-white rounded-xl hover:bg-green-700 disabled:opacity-50 transition-colors"
+                >
+                  {loading && <RefreshCw className="w-6 h-6 animate-spin" />}
+                  <span>{loading ? 'Checking in...' : 'Yes, check me in'}</span>
+                </button>
+              </div>
+            </>
+          )}
+
+          {step === 'checked_in' && visit && (
+            <>
+              <div className="text-center">
+                <CheckCircle className="w-16 h-16 text-green-600 mx-auto mb-4 print:hidden" />
+                <h2 className="text-4xl font-bold text-gray-900 mb-2">You're checked in</h2>
+                <p className="text-xl text-gray-600">Please take a seat; we'll call your token number</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 text-center">
+                <div className="p-6 bg-blue-50 rounded-xl">
+                  <div className="text-5xl font-bold text-blue-600">#{visit.token_number}</div>
+                  <div className="text-gray-600 mt-1">Token Number</div>
+                </div>
+                <div className="p-6 bg-purple-50 rounded-xl">
+                  <div className="text-5xl font-bold text-purple-600">{visit.queue_position}</div>
+                  <div className="text-gray-600 mt-1">Queue Position</div>
+                </div>
+              </div>
+
+              <div className="text-center text-lg text-gray-700 space-y-1">
+                {positionWait && <p>About {positionWait.minutes} min until your turn</p>}
+                {doctor && (
+                  <p>
+                    {doctor.name} · {getDoctorRoom(doctor, settings)}
+                  </p>
+                )}
+                <p className="font-mono text-gray-500">{visit.uid}</p>
+                {visit.arrived_at && (
+                  <p className="text-sm text-gray-500">Checked in at {format(new Date(visit.arrived_at), 'h:mm a')}</p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 print:hidden">
+                <button
+                  onClick={() => window.print()}
+                  className="flex items-center justify-center space-x-3 py-5 text-xl font-semibold border-2 border-blue-600 text-blue-600 rounded-xl hover:bg-blue-50 transition-colors"
+                >
+                  <Printer className="w-6 h-6" />
+                  <span>Print ticket</span>
+                </button>
+                <button
+                  onClick={reset}
+                  className="py-5 text-xl font-semibold bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors"
+                >
+                  Done
+                </button>
+              </div>
+              <p className="text-center text-gray-500 print:hidden">This screen will reset in {secondsLeft}s</p>
+            </>
+          )}
+        </div>
+      </main>
+
+      {showScanner && <QRScanner onScan={handleScan} onClose={() => setShowScanner(false)} />}
+    </div>
+  );
+};
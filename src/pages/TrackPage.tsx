@@ -1,23 +1,50 @@
 import React, { useState, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { supabase } from '../lib/supabase';
-import { Visit, QueueSummary } from '../types';
-import { Search, Clock, Users, RefreshCw, CheckCircle } from 'lucide-react';
+import { db, createEmptyQueueSummary } from '../lib/data';
+import { parseCheckInCode } from '../lib/supabase';
+import { formatTimeKey, fromDateKey, getTodayKey } from '../lib/dates';
+import { getVisitDateKey, isWaiting } from '../lib/scheduling';
+import { formatWaitRange, getJoinerWait, getPositionWait } from '../lib/waitEstimator';
+import { getDoctorRoom, getVisitDoctor } from '../lib/doctors';
+import { ManageBooking } from '../components/ManageBooking';
+import { ClinicSettings, Doctor, PublicVisit, QueueSummary } from '../types';
+import { Search, Clock, Users, RefreshCw, CheckCircle, Calendar, Stethoscope } from 'lucide-react';
+import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 
 export const TrackPage: React.FC = () => {
   const [searchParams, setSearchParams] = useSearchParams();
-  const [uid, setUid] = useState(searchParams.get('uid') || '');
-  const [visit, setVisit] = useState<Visit | null>(null);
+  // QR codes open this page with a signed check-in code, booking links with the visit's access key; otherwise the
+  // patient gives their phone number
+  const [checkInCode, setCheckInCode] = useState(searchParams.get('code') || '');
+  const [uid, setUid] = useState(searchParams.get('uid') || parseCheckInCode(checkInCode)?.uid || '');
+  const [accessKey, setAccessKey] = useState(searchParams.get('key') || '');
+  const [phone, setPhone] = useState('');
+  const [visit, setVisit] = useState<PublicVisit | null>(null);
   const [queueSummary, setQueueSummary] = useState<QueueSummary | null>(null);
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [clinicSettings, setClinicSettings] = useState<ClinicSettings | null>(null);
   const [loading, setLoading] = useState(false);
   const [autoRefresh, setAutoRefresh] = useState(false);
 
   useEffect(() => {
-    if (uid) {
+    if (uid && (accessKey || checkInCode)) {
       handleSearch();
     }
-  }, [uid]);
+  }, []);
+
+  // Doctors and hours come from the branch the visit was booked at
+  const visitBranchId = visit ? visit.branch_id ?? null : undefined;
+  useEffect(() => {
+    if (visitBranchId === undefined) return;
+
+    Promise.all([db.doctors.list(visitBranchId), db.settings.get(visitBranchId)])
+      .then(([doctorList, settings]) => {
+        setDoctors(doctorList);
+        setClinicSettings(settings);
+      })
+      .catch((error) => console.error('Error fetching doctors:', error));
+  }, [visitBranchId]);
 
   useEffect(() => {
     let interval: NodeJS.Timeout;
@@ -25,7 +52,6 @@ export const TrackPage: React.FC = () => {
     if (autoRefresh && visit) {
       interval = setInterval(() => {
         fetchVisit(uid);
-        fetchQueueSummary();
       }, 30000); // Refresh every 30 seconds
     }
 
@@ -34,17 +60,33 @@ export const TrackPage: React.FC = () => {
     };
   }, [autoRefresh, visit, uid]);
 
+  // Queue moves by the front desk show up straight away rather than on the next poll
+  const visitId = visit?.id;
+  useEffect(() => {
+    if (!visitId) return;
+
+    return db.subscribe(`track-${visitId}`, ['visits', 'queue_summary'], () => {
+      fetchVisit(uid).catch((error) => console.error('Error refreshing visit:', error));
+    });
+  }, [visitId, uid]);
+
   const handleSearch = async () => {
     if (!uid.trim()) {
       toast.error('Please enter a valid UID');
       return;
     }
+    if (!accessKey && !checkInCode && !phone.trim()) {
+      toast.error('Please enter the phone number you booked with');
+      return;
+    }
 
     setLoading(true);
     try {
-      await Promise.all([fetchVisit(uid), fetchQueueSummary()]);
-      setSearchParams({ uid });
-      setAutoRefresh(true);
+      const found = await fetchVisit(uid);
+      if (found) {
+        setSearchParams(found.access_key ? { uid, key: found.access_key } : { uid });
+        setAutoRefresh(true);
+      }
     } catch (error) {
       console.error('Search error:', error);
     } finally {
@@ -52,83 +94,38 @@ export const TrackPage: React.FC = () => {
     }
   };
 
-  const fetchVisit = async (visitUid: string) => {
-    // Check if we're using demo mode
-    const isDemo = import.meta.env.VITE_SUPABASE_URL === 'https://demo.supabase.co' || 
-                   !import.meta.env.VITE_SUPABASE_URL ||
-                   import.meta.env.VITE_SUPABASE_ANON_KEY === 'demo-key';
-    
-    let data = null;
-    let error = null;
-    
-    if (isDemo) {
-      const allVisits = JSON.parse(localStorage.getItem('demo_visits') || '[]');
-      data = allVisits.find((visit: any) => visit.uid === visitUid);
-      if (!data) {
-        error = { code: 'PGRST116' };
-      }
-    } else {
-      const result = await supabase
-        .from('visits')
-        .select('*')
-        .eq('uid', visitUid)
-        .single();
-      data = result.data;
-      error = result.error;
-    }
+  const fetchVisit = async (visitUid: string): Promise<PublicVisit | null> => {
+    const data = await db.visits.getPublic(visitUid, { accessKey, checkInCode, phone });
 
-    if (error) {
-      if (error.code === 'PGRST116') {
-        toast.error('Visit not found. Please check your UID.');
-        setVisit(null);
-        return;
-      }
-      throw error;
+    if (!data) {
+      toast.error(
+        checkInCode
+          ? 'This QR code has expired or is not valid. Enter your UID and phone number instead.'
+          : 'We could not find a visit with that UID and phone number.'
+      );
+      setCheckInCode('');
+      setVisit(null);
+      return null;
     }
 
     setVisit(data);
+    if (data.access_key) setAccessKey(data.access_key);
+    await fetchQueueSummary(data.branch_id ?? null);
+    return data;
   };
 
-  const fetchQueueSummary = async () => {
-    // Check if we're using demo mode
-    const isDemo = import.meta.env.VITE_SUPABASE_URL === 'https://demo.supabase.co' || 
-                   !import.meta.env.VITE_SUPABASE_URL ||
-                   import.meta.env.VITE_SUPABASE_ANON_KEY === 'demo-key';
-    
-    let data = null;
-    let error = null;
-    
-    if (isDemo) {
-      const storedSummary = localStorage.getItem('demo_queue_summary');
-      if (storedSummary) {
-        data = JSON.parse(storedSummary);
-      } else {
-        data = {
-          id: '1',
-          date: new Date().toISOString().split('T')[0],
-          total_appointments: 0,
-          total_waiting: 0,
-          total_completed: 0,
-          total_cancelled: 0,
-          estimated_wait_time: 0,
-          average_consultation_time: 15,
-          total_revenue: 0,
-          updated_at: new Date().toISOString()
-        };
-      }
-    } else {
-      const result = await supabase
-        .from('queue_summary')
-        .select('*')
-        .single();
-      data = result.data;
-      error = result.error;
-    }
-
-    if (error) throw error;
-    setQueueSummary(data);
+  const fetchQueueSummary = async (branchId: string | null) => {
+    const today = getTodayKey();
+    const data = await db.queueSummary.getForDate(today, branchId);
+    setQueueSummary(data || createEmptyQueueSummary(today, branchId));
   };
 
+  // Positions, waits and the current token all refer to the visit's own doctor
+  const doctor = visit ? getVisitDoctor(visit, doctors) : null;
+  const doctorId = visit?.doctor_id ?? null;
+  const doctorQueue = queueSummary?.doctor_queues?.find((queue) => queue.doctor_id === doctorId) || queueSummary;
+  const positionWait = visit ? getPositionWait(queueSummary, visit.queue_position, doctorId) : null;
+
   const getStatusInfo = (status: string) => {
     switch (status) {
       case 'upcoming':
@@ -141,6 +138,8 @@ export const TrackPage: React.FC = () => {
         return { color: 'text-gray-600 bg-gray-100', text: 'Completed' };
       case 'cancelled':
         return { color: 'text-red-600 bg-red-100', text: 'Cancelled' };
+      case 'no_show':
+        return { color: 'text-orange-600 bg-orange-100', text: 'Missed' };
       default:
         return { color: 'text-gray-600 bg-gray-100', text: status };
     }
@@ -156,7 +155,7 @@ export const TrackPage: React.FC = () => {
 
       {/* Search Section */}
       <div className="bg-white rounded-xl shadow-lg p-6">
-        <div className="flex items-center space-x-4">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
           <div className="flex-1">
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Enter your UID to track your position
@@ -164,11 +163,29 @@ export const TrackPage: React.FC = () => {
             <input
               type="text"
               value={uid}
-              onChange={(e) => setUid(e.target.value.toUpperCase())}
-              placeholder="e.g., XC-001"
+              onChange={(e) => {
+                setUid(e.target.value.toUpperCase());
+                setAccessKey('');
+                setCheckInCode('');
+              }}
+              placeholder="e.g., XC-261018-001"
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
             />
           </div>
+          {!accessKey && !checkInCode && (
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Phone number you booked with
+              </label>
+              <input
+                type="tel"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                placeholder="e.g., 98765 43210"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          )}
           <button
             onClick={handleSearch}
             disabled={loading}
@@ -218,19 +235,53 @@ export const TrackPage: React.FC = () => {
                 </div>
               </div>
 
+              {isWaiting(visit) && getVisitDateKey(visit) === getTodayKey() && positionWait && (
+                <p className="text-center text-sm text-gray-600">
+                  About {positionWait.minutes} min until your turn
+                  {positionWait.low !== positionWait.high && ` (likely ${formatWaitRange(positionWait)})`}
+                </p>
+              )}
+
+              {isWaiting(visit) && visit.position_change_reason && (
+                <div className="p-3 bg-purple-50 border border-purple-200 rounded-lg text-sm text-purple-800">
+                  <span className="font-medium">Your position changed:</span> {visit.position_change_reason}
+                  {visit.position_changed_at && ` (${format(new Date(visit.position_changed_at), 'h:mm a')})`}
+                </div>
+              )}
+
+              {doctor && (
+                <div className="flex items-center justify-center space-x-2 text-sm text-gray-700">
+                  <Stethoscope className="w-4 h-4 text-blue-600" />
+                  <span>
+                    {doctor.name} · {getDoctorRoom(doctor, clinicSettings)}
+                  </span>
+                </div>
+              )}
+
               <div className="flex items-center justify-center">
                 <span className={`px-4 py-2 rounded-full text-sm font-medium ${getStatusInfo(visit.visit_status).color}`}>
                   {getStatusInfo(visit.visit_status).text}
                 </span>
               </div>
 
-              {visit.estimated_time && (
+              {visit.appointment_slot ? (
+                <div className="text-center p-4 bg-blue-50 rounded-lg">
+                  <Calendar className="w-6 h-6 text-blue-600 mx-auto mb-2" />
+                  <div className="font-semibold text-blue-600">Your Appointment</div>
+                  <div className="text-blue-600">
+                    {visit.appointment_date && `${format(fromDateKey(visit.appointment_date), 'EEE, MMM d')} at `}
+                    {formatTimeKey(visit.appointment_slot)}
+                  </div>
+                </div>
+              ) : visit.estimated_time && (
                 <div className="text-center p-4 bg-blue-50 rounded-lg">
                   <Clock className="w-6 h-6 text-blue-600 mx-auto mb-2" />
                   <div className="font-semibold text-blue-600">Estimated Wait</div>
                   <div className="text-blue-600">{visit.estimated_time}</div>
                 </div>
               )}
+
+              <ManageBooking visit={visit} onUpdated={setVisit} />
             </div>
           </div>
 
@@ -242,24 +293,27 @@ export const TrackPage: React.FC = () => {
               <div className="text-center p-6 bg-gradient-to-r from-purple-50 to-blue-50 rounded-lg">
                 <Users className="w-8 h-8 text-purple-600 mx-auto mb-2" />
                 <div className="text-2xl font-bold text-purple-600">
-                  {queueSummary?.total_waiting || 0}
+                  {doctorQueue?.total_waiting || 0}
                 </div>
-                <div className="text-sm text-gray-600">People Waiting</div>
+                <div className="text-sm text-gray-600">People Waiting{doctor && ` for ${doctor.name}`}</div>
               </div>
 
-              {queueSummary?.current_token && (
+              {doctorQueue?.current_token && (
                 <div className="text-center p-4 bg-green-50 rounded-lg">
                   <CheckCircle className="w-6 h-6 text-green-600 mx-auto mb-2" />
                   <div className="font-semibold text-green-600">Currently Being Seen</div>
-                  <div className="text-green-600">Token #{queueSummary.current_token}</div>
+                  <div className="text-green-600">Token #{doctorQueue.current_token}</div>
                 </div>
               )}
 
               <div className="p-4 bg-gray-50 rounded-lg">
                 <div className="text-center">
                   <Clock className="w-6 h-6 text-gray-600 mx-auto mb-2" />
-                  <div className="font-semibold text-gray-600">Average Wait</div>
-                  <div className="text-gray-600">{queueSummary?.estimated_wait_time || 0} minutes</div>
+                  <div className="font-semibold text-gray-600">Wait If You Joined Now</div>
+                  <div className="text-gray-600">{formatWaitRange(getJoinerWait(queueSummary, doctorId))}</div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Consultations are taking about {queueSummary?.average_consultation_time || 15} min each
+                  </div>
                 </div>
               </div>
             </div>
@@ -282,6 +336,16 @@ export const TrackPage: React.FC = () => {
                   Your consultation is complete. Check your visit details for prescriptions and follow-up instructions.
                 </p>
               )}
+              {visit.visit_status === 'no_show' && (
+                <p className="text-yellow-700 text-sm">
+                  You missed your turn. If you are on your way, let the front desk know when you arrive and they can add you back to the queue.
+                </p>
+              )}
+              {visit.visit_status === 'cancelled' && (
+                <p className="text-yellow-700 text-sm">
+                  This visit has been cancelled{visit.cancellation_reason ? `: ${visit.cancellation_reason}` : ''}. Please book a new appointment.
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -293,7 +357,8 @@ export const TrackPage: React.FC = () => {
           <div className="text-6xl mb-4">🔍</div>
           <h3 className="text-xl font-semibold text-gray-900 mb-4">Enter Your UID to Track</h3>
           <p className="text-gray-600 mb-6 max-w-md mx-auto">
-            Your UID was provided when you booked your visit. It looks like "XC-001" or similar.
+            Your UID was provided when you booked your visit. It looks like "XC-261018-001" or similar. Enter it with
+            the phone number you booked with, or open the link from your booking confirmation.
           </p>
           <div className="flex justify-center space-x-4 text-sm text-gray-500">
             <span>• Check your booking confirmation</span>
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { supabase } from '../lib/supabase';
-import { Visit } from '../types';
+import { db } from '../lib/data';
+import { formatTimeKey, fromDateKey } from '../lib/dates';
+import { getVisitDateKey } from '../lib/scheduling';
+import { ManageBooking } from '../components/ManageBooking';
+import { PublicVisit } from '../types';
 import { Search, Download, Calendar, User, Phone, FileText, CreditCard } from 'lucide-react';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
@@ -9,58 +12,41 @@ import toast from 'react-hot-toast';
 export const VisitPage: React.FC = () => {
   const [searchParams, setSearchParams] = useSearchParams();
   const [uid, setUid] = useState(searchParams.get('uid') || '');
-  const [visit, setVisit] = useState<Visit | null>(null);
+  // Booking links and QR codes carry the visit's access key; otherwise the patient gives their phone number
+  const [accessKey, setAccessKey] = useState(searchParams.get('key') || '');
+  const [phone, setPhone] = useState('');
+  const [visit, setVisit] = useState<PublicVisit | null>(null);
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
-    if (uid) {
+    if (uid && accessKey) {
       handleSearch();
     }
-  }, [uid]);
+  }, []);
 
   const handleSearch = async () => {
     if (!uid.trim()) {
       toast.error('Please enter a valid UID');
       return;
     }
+    if (!accessKey && !phone.trim()) {
+      toast.error('Please enter the phone number you booked with');
+      return;
+    }
 
     setLoading(true);
     try {
-      // Check if we're using demo mode
-      const isDemo = import.meta.env.VITE_SUPABASE_URL === 'https://demo.supabase.co' || 
-                     !import.meta.env.VITE_SUPABASE_URL ||
-                     import.meta.env.VITE_SUPABASE_ANON_KEY === 'demo-key';
-      
-      let data = null;
-      let error = null;
-      
-      if (isDemo) {
-        const allVisits = JSON.parse(localStorage.getItem('demo_visits') || '[]');
-        data = allVisits.find((visit: any) => visit.uid === uid);
-        if (!data) {
-          error = { code: 'PGRST116' };
-        }
-      } else {
-        const result = await supabase
-          .from('visits')
-          .select('*')
-          .eq('uid', uid)
-          .single();
-        data = result.data;
-        error = result.error;
-      }
+      const data = await db.visits.getPublic(uid, { accessKey, phone });
 
-      if (error) {
-        if (error.code === 'PGRST116') {
-          toast.error('Visit not found. Please check your UID.');
-          setVisit(null);
-          return;
-        }
-        throw error;
+      if (!data) {
+        toast.error('We could not find a visit with that UID and phone number.');
+        setVisit(null);
+        return;
       }
 
       setVisit(data);
-      setSearchParams({ uid });
+      if (data.access_key) setAccessKey(data.access_key);
+      setSearchParams(data.access_key ? { uid, key: data.access_key } : { uid });
     } catch (error) {
       console.error('Search error:', error);
       toast.error('Failed to fetch visit details');
@@ -92,6 +78,8 @@ export const VisitPage: React.FC = () => {
         return { color: 'text-gray-600 bg-gray-100', text: 'Completed' };
       case 'cancelled':
         return { color: 'text-red-600 bg-red-100', text: 'Cancelled' };
+      case 'no_show':
+        return { color: 'text-orange-600 bg-orange-100', text: 'Missed' };
       default:
         return { color: 'text-gray-600 bg-gray-100', text: status };
     }
@@ -118,7 +106,7 @@ export const VisitPage: React.FC = () => {
 
       {/* Search Section */}
       <div className="bg-white rounded-xl shadow-lg p-6">
-        <div className="flex items-center space-x-4">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
           <div className="flex-1">
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Enter your UID to view visit details
@@ -126,11 +114,28 @@ export const VisitPage: React.FC = () => {
             <input
               type="text"
               value={uid}
-              onChange={(e) => setUid(e.target.value.toUpperCase())}
-              placeholder="e.g., XC-001"
+              onChange={(e) => {
+                setUid(e.target.value.toUpperCase());
+                setAccessKey('');
+              }}
+              placeholder="e.g., XC-261018-001"
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
             />
           </div>
+          {!accessKey && (
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Phone number you booked with
+              </label>
+              <input
+                type="tel"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                placeholder="e.g., 98765 43210"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          )}
           <button
             onClick={handleSearch}
             disabled={loading}
@@ -158,6 +163,12 @@ export const VisitPage: React.FC = () => {
               </span>
             </div>
 
+            {visit.visit_status === 'cancelled' && visit.cancellation_reason && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                {visit.cancellation_reason}
+              </div>
+            )}
+
             <div className="space-y-4">
               {/* UID */}
               <div className="flex items-center justify-between py-3 border-b border-gray-100">
@@ -177,13 +188,17 @@ export const VisitPage: React.FC = () => {
                   <Calendar className="w-4 h-4 mr-1" />
                   Visit Date
                 </span>
-                <span>{format(new Date(visit.created_at), 'PPP')}</span>
+                <span>{format(fromDateKey(getVisitDateKey(visit)), 'PPP')}</span>
               </div>
 
               {/* Visit Time */}
               <div className="flex items-center justify-between py-3 border-b border-gray-100">
                 <span className="text-gray-600">Visit Time</span>
-                <span>{format(new Date(visit.created_at), 'pp')}</span>
+                <span>
+                  {visit.appointment_slot
+                    ? formatTimeKey(visit.appointment_slot)
+                    : format(new Date(visit.created_at), 'pp')}
+                </span>
               </div>
 
               {/* Patient Name */}
@@ -236,6 +251,8 @@ export const VisitPage: React.FC = () => {
                 </span>
               </div>
             </div>
+
+            <ManageBooking visit={visit} onUpdated={setVisit} />
           </div>
 
           {/* Prescription & Actions */}
@@ -336,7 +353,8 @@ export const VisitPage: React.FC = () => {
           <div className="text-6xl mb-4">📋</div>
           <h3 className="text-xl font-semibold text-gray-900 mb-4">Enter Your UID to View Visit</h3>
           <p className="text-gray-600 mb-6 max-w-md mx-auto">
-            Your UID was provided when you booked your visit. Use it to access your complete visit information and download prescriptions.
+            Your UID was provided when you booked your visit. Enter it with the phone number you booked with to access
+            your visit information and download prescriptions.
           </p>
           <div className="flex justify-center space-x-4 text-sm text-gray-500">
             <span>• View visit timeline</span>
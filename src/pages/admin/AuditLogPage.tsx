@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { db } from '../../lib/data';
+import { useBranch } from '../../lib/branches';
+import { getTodayKey, toDateKey } from '../../lib/dates';
+import { AUDIT_CATEGORY_LABELS, AuditCategory, getAuditCategories } from '../../lib/audit';
+import { AuditEntryList } from '../../components/AuditEntryList';
+import { AuditEntry } from '../../types';
+import { Filter, History } from 'lucide-react';
+import { subDays } from 'date-fns';
+import toast from 'react-hot-toast';
+
+const DEFAULT_PERIOD_DAYS = 7;
+
+// Every change to the branch's visits and prescriptions, for settling disputes about payments or notes
+export const AdminAuditLogPage: React.FC = () => {
+  const { branch } = useBranch();
+  const branchId = branch?.id ?? null;
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [fromKey, setFromKey] = useState(() => toDateKey(subDays(new Date(), DEFAULT_PERIOD_DAYS - 1)));
+  const [toKey, setToKey] = useState(getTodayKey);
+  const [categoryFilter, setCategoryFilter] = useState<AuditCategory | 'all'>('all');
+  const [actorFilter, setActorFilter] = useState('all');
+  const [uidFilter, setUidFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (fromKey > toKey) return;
+
+    setLoading(true);
+    db.auditLog
+      .listBetween(fromKey, toKey, branchId)
+      .then(setEntries)
+      .catch((error) => {
+        console.error('Error fetching audit log:', error);
+        toast.error('Failed to load the audit log');
+      })
+      .finally(() => setLoading(false));
+  }, [fromKey, toKey, branchId]);
+
+  const actors = [...new Set(entries.map((entry) => entry.actor_name))].sort();
+  const uidTerm = uidFilter.trim().toUpperCase();
+  const filteredEntries = entries.filter(
+    (entry) =>
+      (categoryFilter === 'all' || getAuditCategories(entry).includes(categoryFilter)) &&
+      (actorFilter === 'all' || entry.actor_name === actorFilter) &&
+      (!uidTerm || entry.visit_uid?.includes(uidTerm))
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+        <p className="text-gray-600 mt-1">Every change to visits, payments, notes and prescriptions</p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+        <div className="flex flex-wrap items-center gap-4">
+          <Filter className="w-5 h-5 text-gray-400" />
+
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700">From:</label>
+            <input
+              type="date"
+              value={fromKey}
+              max={toKey}
+              onChange={(e) => e.target.value && setFromKey(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700">To:</label>
+            <input
+              type="date"
+              value={toKey}
+              min={fromKey}
+              max={getTodayKey()}
+              onChange={(e) => e.target.value && setToKey(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700">Change:</label>
+            <select
+              value={categoryFilter}
+              onChange={(e) => setCategoryFilter(e.target.value as AuditCategory | 'all')}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="all">All</option>
+              {(Object.keys(AUDIT_CATEGORY_LABELS) as AuditCategory[]).map((category) => (
+                <option key={category} value={category}>
+                  {AUDIT_CATEGORY_LABELS[category]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700">By:</label>
+            <select
+              value={actorFilter}
+              onChange={(e) => setActorFilter(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="all">Anyone</option>
+              {actors.map((actor) => (
+                <option key={actor} value={actor}>
+                  {actor}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <input
+            type="text"
+            value={uidFilter}
+            onChange={(e) => setUidFilter(e.target.value)}
+            placeholder="Filter by UID"
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+
+          <div className="ml-auto text-sm text-gray-600">
+            Showing {filteredEntries.length} of {entries.length} changes
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+          </div>
+        ) : filteredEntries.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <History className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            No changes match these filters
+          </div>
+        ) : (
+          <AuditEntryList entries={filteredEntries} showVisit />
+        )}
+      </div>
+    </div>
+  );
+};
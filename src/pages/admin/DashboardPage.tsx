@@ -1,12 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { supabase } from '../../lib/supabase';
+import { db, updateQueueSummary } from '../../lib/data';
+import { useBranch } from '../../lib/branches';
+import { getTodayKey } from '../../lib/dates';
+import { useCan } from '../../lib/staff';
 import { Visit, ClinicSettings } from '../../types';
 import { Users, Clock, CreditCard, Calendar, TrendingUp, CheckCircle } from 'lucide-react';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 
 export const AdminDashboardPage: React.FC = () => {
+  const { branch } = useBranch();
+  const branchId = branch?.id ?? null;
+  const canManageQueue = useCan('manage_queue');
+  const canManagePayments = useCan('manage_payments');
+  const canManageClinic = useCan('manage_clinic');
   const [todayVisits, setTodayVisits] = useState<Visit[]>([]);
   const [clinicSettings, setClinicSettings] = useState<ClinicSettings | null>(null);
   const [stats, setStats] = useState({
@@ -21,20 +29,11 @@ export const AdminDashboardPage: React.FC = () => {
     fetchData();
     
     // Subscribe to real-time updates
-    const visitsSubscription = supabase
-      .channel('admin-visits')
-      .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'visits' },
-        (payload) => {
-          console.log('Visits update:', payload);
-          fetchTodayVisits();
-        }
-      )
-      .subscribe();
+    const unsubscribe = db.subscribe('admin-visits', ['visits'], () => {
+      fetchTodayVisits();
+    });
 
-    return () => {
-      visitsSubscription.unsubscribe();
-    };
+    return unsubscribe;
   }, []);
 
   const fetchData = async () => {
@@ -49,28 +48,15 @@ export const AdminDashboardPage: React.FC = () => {
   };
 
   const fetchTodayVisits = async () => {
-    const today = new Date().toISOString().split('T')[0];
-    const { data, error } = await supabase
-      .from('visits')
-      .select('*')
-      .gte('created_at', `${today}T00:00:00.000Z`)
-      .lt('created_at', `${today}T23:59:59.999Z`)
-      .order('created_at', { ascending: false });
-
-    if (error) throw error;
+    const data = await db.visits.listForDate(getTodayKey(), branchId);
+    const newestFirst = [...data].sort((a, b) => b.created_at.localeCompare(a.created_at));
 
-    setTodayVisits(data || []);
-    calculateStats(data || []);
+    setTodayVisits(newestFirst);
+    calculateStats(newestFirst);
   };
 
   const fetchClinicSettings = async () => {
-    const { data, error } = await supabase
-      .from('clinic_settings')
-      .select('*')
-      .single();
-
-    if (error) throw error;
-    setClinicSettings(data);
+    setClinicSettings(await db.settings.get(branchId));
   };
 
   const calculateStats = (visits: Visit[]) => {
@@ -79,20 +65,18 @@ export const AdminDashboardPage: React.FC = () => {
     const completed = visits.filter(v => v.visit_status === 'completed').length;
     const totalRevenue = visits
       .filter(v => v.payment_status === 'paid')
-      .reduce((sum, v) => sum + (clinicSettings?.consultation_fee || 500), 0);
+      .reduce((sum, v) => sum + (v.payment_amount || clinicSettings?.consultation_fee || 500), 0);
 
     setStats({ totalToday, waiting, completed, totalRevenue });
   };
 
   const quickMarkArrived = async (visitId: string) => {
     try {
-      await supabase
-        .from('visits')
-        .update({ 
-          visit_status: 'arrived', 
-          arrived_at: new Date().toISOString() 
-        })
-        .eq('id', visitId);
+      await db.visits.update(visitId, {
+        visit_status: 'arrived',
+        arrived_at: new Date().toISOString()
+      });
+      await updateQueueSummary(branchId);
       
       toast.success('Patient marked as arrived');
       fetchTodayVisits();
@@ -109,6 +93,7 @@ export const AdminDashboardPage: React.FC = () => {
       in_consultation: 'bg-purple-100 text-purple-800',
       completed: 'bg-gray-100 text-gray-800',
       cancelled: 'bg-red-100 text-red-800',
+      no_show: 'bg-orange-100 text-orange-800',
     };
     return styles[status as keyof typeof styles] || 'bg-gray-100 text-gray-800';
   };
@@ -192,50 +177,56 @@ export const AdminDashboardPage: React.FC = () => {
 
       {/* Quick Actions */}
       <div className="grid md:grid-cols-3 gap-6">
-        <Link
-          to="/admin/queue"
-          className="bg-white rounded-xl shadow-lg p-6 border border-gray-200 hover:shadow-xl transition-shadow group"
-        >
-          <div className="flex items-center space-x-4">
-            <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center group-hover:bg-blue-200 transition-colors">
-              <Users className="w-6 h-6 text-blue-600" />
-            </div>
-            <div>
-              <h3 className="text-lg font-semibold text-gray-900">Manage Queue</h3>
-              <p className="text-gray-600">View and manage live patient queue</p>
+        {canManageQueue && (
+          <Link
+            to="/admin/queue"
+            className="bg-white rounded-xl shadow-lg p-6 border border-gray-200 hover:shadow-xl transition-shadow group"
+          >
+            <div className="flex items-center space-x-4">
+              <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center group-hover:bg-blue-200 transition-colors">
+                <Users className="w-6 h-6 text-blue-600" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Manage Queue</h3>
+                <p className="text-gray-600">View and manage live patient queue</p>
+              </div>
             </div>
-          </div>
-        </Link>
+          </Link>
+        )}
 
-        <Link
-          to="/admin/payments"
-          className="bg-white rounded-xl shadow-lg p-6 border border-gray-200 hover:shadow-xl transition-shadow group"
-        >
-          <div className="flex items-center space-x-4">
-            <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center group-hover:bg-green-200 transition-colors">
-              <CreditCard className="w-6 h-6 text-green-600" />
-            </div>
-            <div>
-              <h3 className="text-lg font-semibold text-gray-900">Payment Records</h3>
-              <p className="text-gray-600">Track payments and transactions</p>
+        {canManagePayments && (
+          <Link
+            to="/admin/payments"
+            className="bg-white rounded-xl shadow-lg p-6 border border-gray-200 hover:shadow-xl transition-shadow group"
+          >
+            <div className="flex items-center space-x-4">
+              <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center group-hover:bg-green-200 transition-colors">
+                <CreditCard className="w-6 h-6 text-green-600" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Payment Records</h3>
+                <p className="text-gray-600">Track payments and transactions</p>
+              </div>
             </div>
-          </div>
-        </Link>
+          </Link>
+        )}
 
-        <Link
-          to="/admin/settings"
-          className="bg-white rounded-xl shadow-lg p-6 border border-gray-200 hover:shadow-xl transition-shadow group"
-        >
-          <div className="flex items-center space-x-4">
-            <div className="w-12 h-12 bg-purple-100 rounded-lg flex items-center justify-center group-hover:bg-purple-200 transition-colors">
-              <Calendar className="w-6 h-6 text-purple-600" />
+        {canManageClinic && (
+          <Link
+            to="/admin/settings"
+            className="bg-white rounded-xl shadow-lg p-6 border border-gray-200 hover:shadow-xl transition-shadow group"
+          >
+            <div className="flex items-center space-x-4">
+              <div className="w-12 h-12 bg-purple-100 rounded-lg flex items-center justify-center group-hover:bg-purple-200 transition-colors">
+                <Calendar className="w-6 h-6 text-purple-600" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Clinic Settings</h3>
+                <p className="text-gray-600">Update clinic information</p>
+              </div>
             </div>
-            <div>
-              <h3 className="text-lg font-semibold text-gray-900">Clinic Settings</h3>
-              <p className="text-gray-600">Update clinic information</p>
-            </div>
-          </div>
-        </Link>
+          </Link>
+        )}
       </div>
 
       {/* Recent Visits */}
@@ -243,12 +234,14 @@ export const AdminDashboardPage: React.FC = () => {
         <div className="p-6 border-b border-gray-200">
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-semibold text-gray-900">Today's Visits</h2>
-            <Link
-              to="/admin/queue"
-              className="text-blue-600 hover:text-blue-700 text-sm font-medium"
-            >
-              View All →
-            </Link>
+            {canManageQueue && (
+              <Link
+                to="/admin/queue"
+                className="text-blue-600 hover:text-blue-700 text-sm font-medium"
+              >
+                View All →
+              </Link>
+            )}
           </div>
         </div>
 
@@ -308,7 +301,7 @@ export const AdminDashboardPage: React.FC = () => {
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                    {visit.visit_status === 'upcoming' && (
+                    {canManageQueue && visit.visit_status === 'upcoming' && (
                       <button
                         onClick={() => quickMarkArrived(visit.id)}
                         className="text-green-600 hover:text-green-900 mr-3"
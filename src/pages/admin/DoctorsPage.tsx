@@ -0,0 +1,376 @@
+import React, { useState, useEffect } from 'react';
+import { db, DoctorInput } from '../../lib/data';
+import { useBranch } from '../../lib/branches';
+import { DEFAULT_CONSULTATION_ROOM } from '../../lib/callAnnouncer';
+import { DOCTOR_CODE_PATTERN, getDoctorRoom } from '../../lib/doctors';
+import { getWeeklySchedule, validateWeeklySchedule } from '../../lib/scheduling';
+import { WeeklyScheduleEditor } from '../../components/WeeklyScheduleEditor';
+import { ClinicSettings, Doctor, WeeklySchedule } from '../../types';
+import { Stethoscope, Plus, Save, Edit, X, Clock } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const EMPTY_FORM: DoctorInput = {
+  code: '',
+  name: '',
+  qualifications: '',
+  specialization: '',
+  photo_url: '',
+  consultation_fee: 0,
+  weekly_schedule: null,
+  room: '',
+  is_active: true,
+  sort_order: 1,
+};
+
+export const AdminDoctorsPage: React.FC = () => {
+  const { branch } = useBranch();
+  const branchId = branch?.id ?? null;
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [settings, setSettings] = useState<ClinicSettings | null>(null);
+  // The doctor being edited: undefined when the form is closed, null when adding a new one
+  const [editingId, setEditingId] = useState<string | null | undefined>(undefined);
+  const [formData, setFormData] = useState<DoctorInput>(EMPTY_FORM);
+  const [customSchedule, setCustomSchedule] = useState<WeeklySchedule | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchDoctors();
+  }, []);
+
+  const fetchDoctors = async () => {
+    try {
+      const [doctorList, clinic] = await Promise.all([db.doctors.list(branchId), db.settings.get(branchId)]);
+      setDoctors(doctorList);
+      setSettings(clinic);
+    } catch (error) {
+      console.error('Error fetching doctors:', error);
+      toast.error('Failed to load doctors');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openForm = (doctor?: Doctor) => {
+    if (doctor) {
+      setFormData({
+        code: doctor.code,
+        name: doctor.name,
+        qualifications: doctor.qualifications,
+        specialization: doctor.specialization || '',
+        photo_url: doctor.photo_url || '',
+        consultation_fee: doctor.consultation_fee,
+        weekly_schedule: doctor.weekly_schedule || null,
+        room: doctor.room || '',
+        is_active: doctor.is_active,
+        sort_order: doctor.sort_order,
+      });
+      setCustomSchedule(doctor.weekly_schedule || null);
+      setEditingId(doctor.id);
+    } else {
+      setFormData({
+        ...EMPTY_FORM,
+        consultation_fee: settings?.consultation_fee || 0,
+        sort_order: doctors.length + 1,
+      });
+      setCustomSchedule(null);
+      setEditingId(null);
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value, type, checked } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: type === 'checkbox' ? checked : type === 'number' ? Number(value) : value,
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const code = formData.code.trim().toUpperCase();
+    if (!DOCTOR_CODE_PATTERN.test(code)) {
+      toast.error('The code must be one or two letters, e.g. A or DR');
+      return;
+    }
+    if (doctors.some((doctor) => doctor.code === code && doctor.id !== editingId)) {
+      toast.error(`Code ${code} is already used by another doctor`);
+      return;
+    }
+    const scheduleError = customSchedule && validateWeeklySchedule(customSchedule);
+    if (scheduleError) {
+      toast.error(scheduleError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await db.doctors.save(
+        {
+          ...formData,
+          branch_id: branchId,
+          code,
+          name: formData.name.trim(),
+          specialization: formData.specialization?.trim() || null,
+          photo_url: formData.photo_url?.trim() || null,
+          room: formData.room?.trim() || null,
+          weekly_schedule: customSchedule,
+        },
+        editingId || undefined
+      );
+      toast.success(editingId ? 'Doctor updated' : 'Doctor added');
+      setEditingId(undefined);
+      fetchDoctors();
+    } catch (error) {
+      console.error('Error saving doctor:', error);
+      toast.error('Failed to save doctor');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Doctors</h1>
+          <p className="text-gray-600 mt-1">Each doctor has their own tokens, queue and consultation hours</p>
+        </div>
+        {editingId === undefined && (
+          <button
+            onClick={() => openForm()}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Doctor</span>
+          </button>
+        )}
+      </div>
+
+      {editingId !== undefined && (
+        <form onSubmit={handleSave} className="bg-white rounded-xl shadow-lg p-6 border border-gray-200 space-y-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Stethoscope className="w-6 h-6 text-green-600" />
+              <h2 className="text-xl font-semibold text-gray-900">{editingId ? 'Edit Doctor' : 'New Doctor'}</h2>
+            </div>
+            <button
+              type="button"
+              onClick={() => setEditingId(undefined)}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label="Close"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Doctor Name</label>
+              <input
+                type="text"
+                name="name"
+                value={formData.name}
+                onChange={handleInputChange}
+                required
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Dr. Full Name"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Qualifications</label>
+              <input
+                type="text"
+                name="qualifications"
+                value={formData.qualifications}
+                onChange={handleInputChange}
+                required
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="MBBS, MD, etc."
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Specialization</label>
+              <input
+                type="text"
+                name="specialization"
+                value={formData.specialization || ''}
+                onChange={handleInputChange}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Internal Medicine, Cardiology, etc."
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Photo URL (Optional)</label>
+              <input
+                type="url"
+                name="photo_url"
+                value={formData.photo_url || ''}
+                onChange={handleInputChange}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="https://example.com/doctor-photo.jpg"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Consultation Fee (₹)</label>
+              <input
+                type="number"
+                name="consultation_fee"
+                value={formData.consultation_fee}
+                onChange={handleInputChange}
+                min="0"
+                required
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Room</label>
+              <input
+                type="text"
+                name="room"
+                value={formData.room || ''}
+                onChange={handleInputChange}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder={settings?.consultation_room || DEFAULT_CONSULTATION_ROOM}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Token Code</label>
+              <input
+                type="text"
+                name="code"
+                value={formData.code}
+                onChange={handleInputChange}
+                maxLength={2}
+                required
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent uppercase"
+                placeholder="A"
+              />
+              <p className="text-sm text-gray-500 mt-1">
+                One or two letters added to this doctor's UIDs, e.g. XC-261018-A001. Changing it only affects new bookings.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Display Order</label>
+              <input
+                type="number"
+                name="sort_order"
+                value={formData.sort_order}
+                onChange={handleInputChange}
+                min="1"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-3">
+            <input
+              type="checkbox"
+              name="is_active"
+              checked={formData.is_active}
+              onChange={handleInputChange}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-700">Taking bookings (inactive doctors are hidden from patients)</span>
+          </label>
+
+          <div className="border-t border-gray-100 pt-6">
+            <div className="flex items-center space-x-3 mb-4">
+              <Clock className="w-5 h-5 text-purple-600" />
+              <h3 className="text-lg font-semibold text-gray-900">Consultation Hours</h3>
+            </div>
+            <label className="flex items-center space-x-3 mb-4">
+              <input
+                type="checkbox"
+                checked={customSchedule === null}
+                onChange={(e) =>
+                  setCustomSchedule(e.target.checked ? null : settings ? getWeeklySchedule(settings) : null)
+                }
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-700">Same as the clinic's operating hours</span>
+            </label>
+            {customSchedule && <WeeklyScheduleEditor schedule={customSchedule} onChange={setCustomSchedule} />}
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-gradient-to-r from-blue-600 to-green-600 text-white px-8 py-3 rounded-lg font-semibold hover:from-blue-700 hover:to-green-700 focus:ring-4 focus:ring-blue-200 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center space-x-3"
+            >
+              {saving ? (
+                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+              ) : (
+                <Save className="w-5 h-5" />
+              )}
+              <span>{saving ? 'Saving...' : 'Save Doctor'}</span>
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {doctors.map((doctor) => (
+          <div
+            key={doctor.id}
+            className={`bg-white rounded-xl shadow-lg p-6 border border-gray-200 ${doctor.is_active ? '' : 'opacity-60'}`}
+          >
+            <div className="flex items-start justify-between">
+              <div className="flex items-center space-x-4">
+                {doctor.photo_url ? (
+                  <img src={doctor.photo_url} alt={doctor.name} className="w-16 h-16 rounded-full object-cover" />
+                ) : (
+                  <div className="w-16 h-16 rounded-full bg-blue-100 flex items-center justify-center">
+                    <Stethoscope className="w-8 h-8 text-blue-600" />
+                  </div>
+                )}
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">{doctor.name}</h3>
+                  <p className="text-sm text-gray-600">{doctor.qualifications}</p>
+                  {doctor.specialization && <p className="text-sm text-gray-500">{doctor.specialization}</p>}
+                </div>
+              </div>
+              <button
+                onClick={() => openForm(doctor)}
+                className="text-blue-600 hover:text-blue-700"
+                aria-label={`Edit ${doctor.name}`}
+              >
+                <Edit className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="flex flex-wrap gap-2 mt-4 text-xs">
+              <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-700 font-mono">Code {doctor.code}</span>
+              <span className="px-2 py-1 rounded-full bg-green-100 text-green-700">₹{doctor.consultation_fee}</span>
+              <span className="px-2 py-1 rounded-full bg-purple-100 text-purple-700">
+                {getDoctorRoom(doctor, settings)}
+              </span>
+              <span className="px-2 py-1 rounded-full bg-blue-100 text-blue-700">
+                {doctor.weekly_schedule ? 'Own hours' : 'Clinic hours'}
+              </span>
+              {!doctor.is_active && <span className="px-2 py-1 rounded-full bg-red-100 text-red-700">Not taking bookings</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { supabase } from '../../lib/supabase';
+import { db, isLocalBackend, LOCAL_DEMO_ACCOUNTS } from '../../lib/data';
+import { STAFF_ROLE_LABELS } from '../../lib/staff';
 import { Lock, User, Stethoscope } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -8,8 +9,8 @@ export const AdminLoginPage: React.FC = () => {
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
-    email: 'admin@xclinic.com',
-    password: 'admin123',
+    email: '',
+    password: '',
   });
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -22,26 +23,12 @@ export const AdminLoginPage: React.FC = () => {
     setLoading(true);
 
     try {
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email: formData.email,
-        password: formData.password,
-      });
-
-      if (error) {
-        // For demo purposes, allow login with demo credentials
-        if (formData.email === 'admin@xclinic.com' && formData.password === 'admin123') {
-          toast.success('Admin login successful!');
-          navigate('/admin');
-          return;
-        }
-        throw error;
-      }
-
+      await db.auth.signIn(formData.email, formData.password);
       toast.success('Login successful!');
       navigate('/admin');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Login error:', error);
-      toast.error(error.message || 'Login failed');
+      toast.error(error instanceof Error ? error.message : 'Login failed');
     } finally {
       setLoading(false);
     }
@@ -59,14 +46,24 @@ export const AdminLoginPage: React.FC = () => {
           <p className="text-gray-600">Access X Clinic Management System</p>
         </div>
 
-        {/* Demo Credentials */}
-        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
-          <h3 className="text-sm font-semibold text-blue-800 mb-2">Demo Credentials</h3>
-          <div className="text-sm text-blue-700 space-y-1">
-            <p><strong>Email:</strong> admin@xclinic.com</p>
-            <p><strong>Password:</strong> admin123</p>
+        {/* Demo accounts only exist in the browser-only backend */}
+        {isLocalBackend && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+            <h3 className="text-sm font-semibold text-blue-800 mb-2">Demo Accounts</h3>
+            <div className="text-sm text-blue-700 space-y-1">
+              {LOCAL_DEMO_ACCOUNTS.map((account) => (
+                <button
+                  key={account.email}
+                  type="button"
+                  onClick={() => setFormData({ email: account.email, password: account.password })}
+                  className="block w-full text-left hover:text-blue-900"
+                >
+                  <strong>{STAFF_ROLE_LABELS[account.role]}:</strong> {account.email} / {account.password}
+                </button>
+              ))}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Login Form */}
         <form onSubmit={handleSubmit} className="space-y-6">
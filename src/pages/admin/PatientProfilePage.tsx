@@ -1,7 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { supabase } from '../../lib/supabase';
-import { Visit } from '../../types';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import { db, updateQueueSummary, VisitChanges } from '../../lib/data';
+import { fromDateKey, getTodayKey } from '../../lib/dates';
+import { getVisitDateKey } from '../../lib/scheduling';
+import { getVisitDoctor } from '../../lib/doctors';
+import { useCan } from '../../lib/staff';
+import { AuditEntryList } from '../../components/AuditEntryList';
+import { PatientRecordCard } from '../../components/PatientRecordCard';
+import { PatientFamilyCard } from '../../components/PatientFamilyCard';
+import { MedicalAlertChips } from '../../components/MedicalAlertChips';
+import { checkPrescription } from '../../lib/medicalAlerts';
+import { getPrescribingDetails, GUARDIAN_RELATIONSHIP_LABELS } from '../../lib/patients';
+import { AuditEntry, Doctor, Patient, Visit } from '../../types';
 import { 
   User, 
   Calendar, 
@@ -11,8 +21,10 @@ import {
   Download,
   Save,
   ArrowLeft,
-  Clock,
-  CreditCard
+  CreditCard,
+  History,
+  Users,
+  AlertTriangle
 } from 'lucide-react';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
@@ -20,8 +32,19 @@ import toast from 'react-hot-toast';
 export const PatientProfilePage: React.FC = () => {
   const { uid } = useParams<{ uid: string }>();
   const navigate = useNavigate();
+  const canManageQueue = useCan('manage_queue');
+  // Accountants see billing only; receptionists can read the doctor's notes but not change them
+  const canViewClinical = useCan('view_clinical');
+  const canEditClinical = useCan('edit_clinical');
   const [visit, setVisit] = useState<Visit | null>(null);
+  // The doctor the visit was booked with, who the prescription is issued under
+  const [doctor, setDoctor] = useState<Doctor | null>(null);
+  // The patient the visit is linked to, whose details are kept across visits
+  const [patient, setPatient] = useState<Patient | null>(null);
   const [pastVisits, setPastVisits] = useState<Visit[]>([]);
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  // Changes can include clinical notes, so only staff who can read those see them
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
   const [notes, setNotes] = useState('');
   const [diagnosis, setDiagnosis] = useState('');
   const [treatmentPlan, setTreatmentPlan] = useState('');
@@ -40,13 +63,8 @@ export const PatientProfilePage: React.FC = () => {
   const fetchPatientData = async () => {
     try {
       // Fetch current visit
-      const { data: currentVisit, error: visitError } = await supabase
-        .from('visits')
-        .select('*')
-        .eq('uid', uid)
-        .single();
-
-      if (visitError) throw visitError;
+      const currentVisit = await db.visits.getByUid(uid!);
+      if (!currentVisit) throw new Error(`Visit ${uid} not found`);
       
       setVisit(currentVisit);
       setNotes(currentVisit.notes || '');
@@ -54,23 +72,24 @@ export const PatientProfilePage: React.FC = () => {
       setTreatmentPlan(currentVisit.treatment_plan || '');
       setFollowUpInstructions(currentVisit.follow_up_instructions || '');
 
-      // Fetch past visits for the same patient (by name and phone)
-      let pastVisitsQuery = supabase
-        .from('visits')
-        .select('*')
-        .eq('name', currentVisit.name)
-        .neq('id', currentVisit.id)
-        .order('created_at', { ascending: false });
-
-      if (currentVisit.phone) {
-        pastVisitsQuery = pastVisitsQuery.eq('phone', currentVisit.phone);
+      try {
+        const doctorList = await db.doctors.list(currentVisit.branch_id ?? null);
+        setDoctors(doctorList);
+        setDoctor(getVisitDoctor(currentVisit, doctorList));
+      } catch (doctorError) {
+        console.error('Error fetching doctors:', doctorError);
       }
 
-      const { data: pastVisitsData, error: pastError } = await pastVisitsQuery;
-      
-      if (!pastError) {
-        setPastVisits(pastVisitsData || []);
+      fetchPatient(currentVisit.patient_id);
+
+      // The patient's other visits, at any branch
+      try {
+        setPastVisits(await db.visits.listHistory(currentVisit));
+      } catch (pastError) {
+        console.error('Error fetching visit history:', pastError);
       }
+
+      fetchAuditEntries(currentVisit.id);
     } catch (error) {
       console.error('Error fetching patient data:', error);
       toast.error('Patient not found');
@@ -80,23 +99,37 @@ export const PatientProfilePage: React.FC = () => {
     }
   };
 
+  const fetchPatient = async (patientId: string | null | undefined) => {
+    if (!patientId) return;
+
+    try {
+      setPatient(await db.patients.get(patientId));
+    } catch (error) {
+      console.error('Error fetching patient record:', error);
+    }
+  };
+
+  const fetchAuditEntries = async (visitId: string) => {
+    if (!canViewClinical) return;
+
+    try {
+      setAuditEntries(await db.auditLog.listForVisit(visitId));
+    } catch (error) {
+      console.error('Error fetching change history:', error);
+    }
+  };
+
   const handleSaveAllNotes = async () => {
     if (!visit) return;
     
     setSaving(true);
     try {
-      const { error } = await supabase
-        .from('visits')
-        .update({ 
-          notes,
-          diagnosis,
-          treatment_plan: treatmentPlan,
-          follow_up_instructions: followUpInstructions,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', visit.id);
-
-      if (error) throw error;
+      await db.visits.update(visit.id, {
+        notes,
+        diagnosis,
+        treatment_plan: treatmentPlan,
+        follow_up_instructions: followUpInstructions
+      });
 
       toast.success('All notes saved successfully');
       setVisit({ 
@@ -106,6 +139,7 @@ export const PatientProfilePage: React.FC = () => {
         treatment_plan: treatmentPlan,
         follow_up_instructions: followUpInstructions
       });
+      fetchAuditEntries(visit.id);
     } catch (error) {
       console.error('Error saving notes:', error);
       toast.error('Failed to save notes');
@@ -117,49 +151,50 @@ export const PatientProfilePage: React.FC = () => {
   const handleFileUpload = async () => {
     if (!visit || !prescriptionFile) return;
 
+    const alerts = checkPrescription(prescriptionText, getPrescribingDetails(patient, visit));
+    if (
+      alerts.length > 0 &&
+      !window.confirm(
+        `Check this prescription:\n\n${alerts.map((alert) => `• ${alert.message}`).join('\n')}\n\nIssue it anyway?`
+      )
+    ) {
+      return;
+    }
+
     setSaving(true);
     try {
+      const doctorName = doctor?.name || 'Doctor';
+
       // Create prescription record
       const fileExt = prescriptionFile.name.split('.').pop();
       const fileName = `${visit.uid}_prescription_${Date.now()}.${fileExt}`;
       
       // For demo purposes, create a downloadable prescription URL
       const prescriptionUrl = `data:text/plain;charset=utf-8,${encodeURIComponent(
-        `PRESCRIPTION\n\nPatient: ${visit.name}\nUID: ${visit.uid}\nDate: ${new Date().toLocaleDateString()}\n\nPrescription:\n${prescriptionText}\n\nDoctor: ${visit.name}\nSignature: Dr. Signature`
+        `PRESCRIPTION\n\nPatient: ${visit.name}\nUID: ${visit.uid}\nDate: ${new Date().toLocaleDateString()}\n\nPrescription:\n${prescriptionText}\n\nDoctor: ${doctorName}\nSignature: Dr. Signature`
       )}`;
 
       // Create prescription record
-      const { data: prescription, error: prescriptionError } = await supabase
-        .from('prescriptions')
-        .insert({
-          visit_id: visit.id,
-          patient_name: visit.name,
-          patient_uid: visit.uid,
-          doctor_name: 'Dr. Sarah Johnson',
-          prescription_date: new Date().toISOString().split('T')[0],
-          instructions: prescriptionText,
-          file_url: prescriptionUrl,
-          file_name: fileName,
-          file_size: prescriptionFile.size,
-          file_type: prescriptionFile.type
-        })
-        .select()
-        .single();
-
-      if (prescriptionError) throw prescriptionError;
+      const prescription = await db.prescriptions.create({
+        visit_id: visit.id,
+        patient_name: visit.name,
+        patient_uid: visit.uid,
+        doctor_id: doctor?.id ?? null,
+        doctor_name: doctorName,
+        prescription_date: getTodayKey(),
+        instructions: prescriptionText,
+        file_url: prescriptionUrl,
+        file_name: fileName,
+        file_size: prescriptionFile.size,
+        file_type: prescriptionFile.type
+      });
 
       // Update visit with prescription reference
-      const { error: visitError } = await supabase
-        .from('visits')
-        .update({ 
-          prescription_id: prescription.id,
-          prescription_url: prescriptionUrl,
-          prescription_notes: prescriptionText,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', visit.id);
-
-      if (visitError) throw visitError;
+      await db.visits.update(visit.id, {
+        prescription_id: prescription.id,
+        prescription_url: prescriptionUrl,
+        prescription_notes: prescriptionText
+      });
 
       toast.success('Prescription uploaded successfully');
       setVisit({ 
@@ -170,6 +205,7 @@ export const PatientProfilePage: React.FC = () => {
       });
       setPrescriptionFile(null);
       setPrescriptionText('');
+      fetchAuditEntries(visit.id);
     } catch (error) {
       console.error('Error uploading prescription:', error);
       toast.error('Failed to upload prescription');
@@ -178,13 +214,12 @@ export const PatientProfilePage: React.FC = () => {
     }
   };
 
-  const updateVisitStatus = async (status: string) => {
+  const updateVisitStatus = async (status: Visit['visit_status']) => {
     if (!visit) return;
 
     try {
-      const updateData: any = { visit_status: status };
+      const updateData: VisitChanges = { visit_status: status };
       
-        updated_at: new Date().toISOString()
       if (status === 'completed') {
         updateData.completed_at = new Date().toISOString();
         updateData.consultation_end_time = new Date().toISOString();
@@ -192,15 +227,13 @@ export const PatientProfilePage: React.FC = () => {
         updateData.consultation_start_time = new Date().toISOString();
       }
 
-      const { error } = await supabase
-        .from('visits')
-        .update(updateData)
-        .eq('id', visit.id);
-
-      if (error) throw error;
+      await db.visits.update(visit.id, updateData);
+      await db.visits.renumberQueue(getVisitDateKey(visit));
+      await updateQueueSummary(visit.branch_id ?? null, getVisitDateKey(visit));
 
       toast.success('Visit status updated');
       setVisit({ ...visit, ...updateData });
+      fetchAuditEntries(visit.id);
     } catch (error) {
       console.error('Error updating visit status:', error);
       toast.error('Failed to update visit status');
@@ -214,6 +247,7 @@ export const PatientProfilePage: React.FC = () => {
       in_consultation: 'bg-purple-100 text-purple-800',
       completed: 'bg-gray-100 text-gray-800',
       cancelled: 'bg-red-100 text-red-800',
+      no_show: 'bg-orange-100 text-orange-800',
     };
     return styles[status as keyof typeof styles] || 'bg-gray-100 text-gray-800';
   };
@@ -241,6 +275,9 @@ export const PatientProfilePage: React.FC = () => {
     );
   }
 
+  // Checked as the doctor types, and again before the prescription is issued
+  const prescriptionAlerts = checkPrescription(prescriptionText, getPrescribingDetails(patient, visit));
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -253,7 +290,15 @@ export const PatientProfilePage: React.FC = () => {
         </button>
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Patient Profile</h1>
-          <p className="text-gray-600 mt-1">Managing visit for {visit.name}</p>
+          <p className="text-gray-600 mt-1">
+            Managing visit for {visit.name}
+            {patient && <span className="ml-2 font-mono text-sm text-blue-600">{patient.code}</span>}
+          </p>
+          {canViewClinical && (
+            <div className="mt-2">
+              <MedicalAlertChips details={patient ?? visit} />
+            </div>
+          )}
         </div>
       </div>
 
@@ -297,6 +342,24 @@ export const PatientProfilePage: React.FC = () => {
               </div>
             )}
 
+            {visit.guardian_name && (
+              <div className="flex items-center space-x-3 p-4 bg-gray-50 rounded-lg">
+                <Users className="w-6 h-6 text-blue-600" />
+                <div>
+                  <div className="text-sm text-gray-600">Booked by</div>
+                  <div className="font-semibold text-gray-900">
+                    {visit.guardian_name}
+                    {visit.guardian_relationship && (
+                      <span className="font-normal text-gray-600">
+                        {' '}
+                        (patient is their {GUARDIAN_RELATIONSHIP_LABELS[visit.guardian_relationship].toLowerCase()})
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
             <div className="flex items-center space-x-3 p-4 bg-gray-50 rounded-lg">
               <Calendar className="w-6 h-6 text-purple-600" />
               <div>
@@ -333,178 +396,225 @@ export const PatientProfilePage: React.FC = () => {
           </div>
 
           {/* Quick Actions */}
-          <div className="pt-4 border-t border-gray-200">
-            <h3 className="text-sm font-semibold text-gray-900 mb-3">Quick Actions</h3>
-            <div className="flex flex-wrap gap-2">
-              {visit.visit_status === 'arrived' && (
-                <button
-                  onClick={() => updateVisitStatus('in_consultation')}
-                  className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors text-sm"
-                >
-                  Start Consultation
-                </button>
-              )}
+          {canManageQueue && (
+            <div className="pt-4 border-t border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-900 mb-3">Quick Actions</h3>
+              <div className="flex flex-wrap gap-2">
+                {visit.visit_status === 'arrived' && (
+                  <button
+                    onClick={() => updateVisitStatus('in_consultation')}
+                    className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors text-sm"
+                  >
+                    Start Consultation
+                  </button>
+                )}
               
-              {visit.visit_status === 'in_consultation' && (
-                <button
-                  onClick={() => updateVisitStatus('completed')}
-                  className="bg-gray-600 text-white px-4 py-2 rounded-lg hover:bg-gray-700 transition-colors text-sm"
-                >
-                  Complete Visit
-                </button>
-              )}
+                {visit.visit_status === 'in_consultation' && (
+                  <button
+                    onClick={() => updateVisitStatus('completed')}
+                    className="bg-gray-600 text-white px-4 py-2 rounded-lg hover:bg-gray-700 transition-colors text-sm"
+                  >
+                    Complete Visit
+                  </button>
+                )}
+              </div>
             </div>
-          </div>
+          )}
         </div>
 
         {/* Doctor's Section */}
-        <div className="space-y-6">
-          {/* Consultation Notes */}
-          <div className="bg-white rounded-xl shadow-lg p-6">
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">Consultation Notes</h2>
-            
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  General Notes
-                </label>
-                <textarea
-                  value={notes}
-                  onChange={(e) => setNotes(e.target.value)}
-                  rows={3}
-                  className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-                  placeholder="General consultation notes and observations..."
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Diagnosis
-                </label>
-                <textarea
-                  value={diagnosis}
-                  onChange={(e) => setDiagnosis(e.target.value)}
-                  rows={2}
-                  className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-                  placeholder="Patient diagnosis..."
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Treatment Plan
-                </label>
-                <textarea
-                  value={treatmentPlan}
-                  onChange={(e) => setTreatmentPlan(e.target.value)}
-                  rows={3}
-                  className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-                  placeholder="Recommended treatment plan..."
-                />
+        {canViewClinical && (
+          <div className="space-y-6">
+            {/* Consultation Notes */}
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-gray-900">Consultation Notes</h2>
+                {doctor && <span className="text-sm text-gray-500">{doctor.name}</span>}
               </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Follow-up Instructions
-                </label>
-                <textarea
-                  value={followUpInstructions}
-                  onChange={(e) => setFollowUpInstructions(e.target.value)}
-                  rows={2}
-                  className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-                  placeholder="Follow-up care instructions..."
-                />
-              </div>
-            </div>
             
-            <button
-              onClick={handleSaveAllNotes}
-              disabled={saving}
-              className="mt-4 bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
-            >
-              <Save className="w-4 h-4" />
-              <span>{saving ? 'Saving...' : 'Save All Notes'}</span>
-            </button>
-          </div>
-
-          {/* Prescription Upload */}
-          <div className="bg-white rounded-xl shadow-lg p-6">
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">Prescription</h2>
-            
-            {visit.prescription_url ? (
               <div className="space-y-4">
-                <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
-                  <div className="flex items-center space-x-3">
-                    <FileText className="w-6 h-6 text-green-600" />
-                    <div>
-                      <div className="font-semibold text-green-800">Prescription Available</div>
-                      <div className="text-sm text-green-600">Uploaded and accessible to patient</div>
-                    </div>
-                  </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    General Notes
+                  </label>
+                  <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    readOnly={!canEditClinical}
+                    rows={3}
+                    className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                    placeholder="General consultation notes and observations..."
+                  />
                 </div>
-                
-                <button
-                  onClick={() => {
-                    const link = document.createElement('a');
-                    link.href = visit.prescription_url!;
-                    link.download = `prescription_${visit.uid}.txt`;
-                    link.click();
-                  }}
-                  className="w-full bg-green-600 text-white py-3 px-4 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center space-x-2"
-                >
-                  <Download className="w-5 h-5" />
-                  <span>Download Prescription</span>
-                </button>
-              </div>
-            ) : (
-              <div className="space-y-4">
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Prescription Details
+                    Diagnosis
                   </label>
                   <textarea
-                    value={prescriptionText}
-                    onChange={(e) => setPrescriptionText(e.target.value)}
-                    rows={6}
+                    value={diagnosis}
+                    onChange={(e) => setDiagnosis(e.target.value)}
+                    readOnly={!canEditClinical}
+                    rows={2}
                     className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-                    placeholder="Enter prescription details, medications, dosage, instructions..."
+                    placeholder="Patient diagnosis..."
                   />
                 </div>
 
-                <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
-                  <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-                  <div className="space-y-2">
-                    <input
-                      type="file"
-                      accept=".pdf,.jpg,.jpeg,.png"
-                      onChange={(e) => setPrescriptionFile(e.target.files?.[0] || null)}
-                      className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
-                    />
-                    <p className="text-sm text-gray-500">Upload PDF, JPG, or PNG files (optional)</p>
-                  </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Treatment Plan
+                  </label>
+                  <textarea
+                    value={treatmentPlan}
+                    onChange={(e) => setTreatmentPlan(e.target.value)}
+                    readOnly={!canEditClinical}
+                    rows={3}
+                    className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                    placeholder="Recommended treatment plan..."
+                  />
                 </div>
 
-                {(prescriptionFile || prescriptionText.trim()) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Follow-up Instructions
+                  </label>
+                  <textarea
+                    value={followUpInstructions}
+                    onChange={(e) => setFollowUpInstructions(e.target.value)}
+                    readOnly={!canEditClinical}
+                    rows={2}
+                    className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                    placeholder="Follow-up care instructions..."
+                  />
+                </div>
+              </div>
+            
+              {canEditClinical && (
+                <button
+                  onClick={handleSaveAllNotes}
+                  disabled={saving}
+                  className="mt-4 bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                >
+                  <Save className="w-4 h-4" />
+                  <span>{saving ? 'Saving...' : 'Save All Notes'}</span>
+                </button>
+              )}
+            </div>
+
+            {/* Prescription Upload */}
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Prescription</h2>
+            
+              {visit.prescription_url ? (
+                <div className="space-y-4">
+                  <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+                    <div className="flex items-center space-x-3">
+                      <FileText className="w-6 h-6 text-green-600" />
+                      <div>
+                        <div className="font-semibold text-green-800">Prescription Available</div>
+                        <div className="text-sm text-green-600">Uploaded and accessible to patient</div>
+                      </div>
+                    </div>
+                  </div>
+                
                   <button
-                    onClick={handleFileUpload}
-                    disabled={saving}
-                    className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+                    onClick={() => {
+                      const link = document.createElement('a');
+                      link.href = visit.prescription_url!;
+                      link.download = `prescription_${visit.uid}.txt`;
+                      link.click();
+                    }}
+                    className="w-full bg-green-600 text-white py-3 px-4 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center space-x-2"
                   >
-                    <Upload className="w-5 h-5" />
-                    <span>{saving ? 'Creating...' : 'Create Prescription'}</span>
+                    <Download className="w-5 h-5" />
+                    <span>Download Prescription</span>
                   </button>
-                )}
-              </div>
-            )}
+                </div>
+              ) : !canEditClinical ? (
+                <p className="text-gray-500">No prescription has been issued for this visit yet.</p>
+              ) : (
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Prescription Details
+                    </label>
+                    <textarea
+                      value={prescriptionText}
+                      onChange={(e) => setPrescriptionText(e.target.value)}
+                      rows={6}
+                      className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                      placeholder="Enter prescription details, medications, dosage, instructions..."
+                    />
+                  </div>
+
+                  {prescriptionAlerts.length > 0 && (
+                    <ul className="space-y-2">
+                      {prescriptionAlerts.map((alert) => (
+                        <li
+                          key={alert.message}
+                          className={`flex items-start space-x-2 p-3 rounded-lg text-sm ${
+                            alert.severe ? 'bg-red-50 border border-red-200 text-red-800' : 'bg-yellow-50 border border-yellow-200 text-yellow-800'
+                          }`}
+                        >
+                          <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                          <span>{alert.message}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
+                    <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                    <div className="space-y-2">
+                      <input
+                        type="file"
+                        accept=".pdf,.jpg,.jpeg,.png"
+                        onChange={(e) => setPrescriptionFile(e.target.files?.[0] || null)}
+                        className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                      />
+                      <p className="text-sm text-gray-500">Upload PDF, JPG, or PNG files (optional)</p>
+                    </div>
+                  </div>
+
+                  {(prescriptionFile || prescriptionText.trim()) && (
+                    <button
+                      onClick={handleFileUpload}
+                      disabled={saving}
+                      className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+                    >
+                      <Upload className="w-5 h-5" />
+                      <span>{saving ? 'Creating...' : 'Create Prescription'}</span>
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
           </div>
-        </div>
+        )}
       </div>
 
-      {/* Past Visits */}
+      {patient && (
+        <PatientRecordCard
+          patient={patient}
+          canEdit={canManageQueue}
+          showMedical={canViewClinical}
+          visit={visit}
+          onSaved={() => fetchPatient(patient.id)}
+        />
+      )}
+
+      {patient && <PatientFamilyCard patient={patient} />}
+
+      {/* Visit History */}
       {pastVisits.length > 0 && (
         <div className="bg-white rounded-xl shadow-lg border border-gray-200">
           <div className="p-6 border-b border-gray-200">
             <h2 className="text-xl font-semibold text-gray-900">Visit History</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {pastVisits.length} other {pastVisits.length === 1 ? 'visit' : 'visits'}
+              {patient && ` since ${format(new Date(patient.created_at), 'PP')}`}
+            </p>
           </div>
           
           <div className="overflow-x-auto">
@@ -513,19 +623,30 @@ export const PatientProfilePage: React.FC = () => {
                 <tr>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">UID</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Doctor</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Reason</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Notes</th>
+                  {canViewClinical && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Diagnosis</th>
+                  )}
+                  {canViewClinical && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Notes</th>
+                  )}
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {pastVisits.map((pastVisit) => (
                   <tr key={pastVisit.id} className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {format(new Date(pastVisit.created_at), 'PP')}
+                      {format(fromDateKey(getVisitDateKey(pastVisit)), 'PP')}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <span className="text-sm font-mono text-blue-600">{pastVisit.uid}</span>
+                      <Link to={`/admin/patient/${pastVisit.uid}`} className="text-sm font-mono text-blue-600 hover:underline">
+                        {pastVisit.uid}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {doctors.find((candidate) => candidate.id === pastVisit.doctor_id)?.name || '—'}
                     </td>
                     <td className="px-6 py-4">
                       <div className="text-sm text-gray-900 max-w-xs truncate">
@@ -537,11 +658,20 @@ export const PatientProfilePage: React.FC = () => {
                         {pastVisit.visit_status.replace('_', ' ')}
                       </span>
                     </td>
-                    <td className="px-6 py-4">
-                      <div className="text-sm text-gray-600 max-w-xs truncate">
-                        {pastVisit.notes || 'No notes'}
-                      </div>
-                    </td>
+                    {canViewClinical && (
+                      <td className="px-6 py-4">
+                        <div className="text-sm text-gray-900 max-w-xs truncate">
+                          {pastVisit.diagnosis || '—'}
+                        </div>
+                      </td>
+                    )}
+                    {canViewClinical && (
+                      <td className="px-6 py-4">
+                        <div className="text-sm text-gray-600 max-w-xs truncate">
+                          {pastVisit.notes || 'No notes'}
+                        </div>
+                      </td>
+                    )}
                   </tr>
                 ))}
               </tbody>
@@ -549,6 +679,23 @@ export const PatientProfilePage: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Change History */}
+      {canViewClinical && (
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200">
+          <div className="flex items-center space-x-2 p-6 border-b border-gray-200">
+            <History className="w-5 h-5 text-gray-600" />
+            <h2 className="text-xl font-semibold text-gray-900">Change History</h2>
+          </div>
+          <div className="p-6">
+            {auditEntries.length > 0 ? (
+              <AuditEntryList entries={auditEntries} />
+            ) : (
+              <p className="text-gray-500">No changes have been recorded for this visit yet.</p>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
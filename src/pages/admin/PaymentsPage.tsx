@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { supabase } from '../../lib/supabase';
+import { db, updateQueueSummary } from '../../lib/data';
+import { useBranch } from '../../lib/branches';
 import { Visit, ClinicSettings } from '../../types';
 import { CreditCard, Calendar, Download, Filter, TrendingUp } from 'lucide-react';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 
 export const AdminPaymentsPage: React.FC = () => {
+  const { branch } = useBranch();
+  const branchId = branch?.id ?? null;
   const [visits, setVisits] = useState<Visit[]>([]);
   const [filteredVisits, setFilteredVisits] = useState<Visit[]>([]);
   const [clinicSettings, setClinicSettings] = useState<ClinicSettings | null>(null);
@@ -40,23 +43,11 @@ export const AdminPaymentsPage: React.FC = () => {
   };
 
   const fetchVisits = async () => {
-    const { data, error } = await supabase
-      .from('visits')
-      .select('*')
-      .order('created_at', { ascending: false });
-
-    if (error) throw error;
-    setVisits(data || []);
+    setVisits(await db.visits.listAll(branchId));
   };
 
   const fetchClinicSettings = async () => {
-    const { data, error } = await supabase
-      .from('clinic_settings')
-      .select('*')
-      .single();
-
-    if (error) throw error;
-    setClinicSettings(data);
+    setClinicSettings(await db.settings.get(branchId));
   };
 
   const filterVisits = () => {
@@ -94,7 +85,7 @@ export const AdminPaymentsPage: React.FC = () => {
     
     const totalRevenue = filteredData
       .filter(v => v.payment_status === 'paid')
-      .reduce((sum, v) => sum + fee, 0);
+      .reduce((sum, v) => sum + (v.payment_amount || fee), 0);
       
     const paidCount = filteredData.filter(v => v.payment_status === 'paid').length;
     const pendingCount = filteredData.filter(v => v.payment_status === 'pending').length;
@@ -112,10 +103,8 @@ export const AdminPaymentsPage: React.FC = () => {
 
   const updatePaymentStatus = async (visitId: string, status: 'paid' | 'pending') => {
     try {
-      await supabase
-        .from('visits')
-        .update({ payment_status: status })
-        .eq('id', visitId);
+      await db.visits.setPaymentStatus(visitId, status);
+      await updateQueueSummary(branchId);
 
       toast.success('Payment status updated');
       fetchVisits();
@@ -1,67 +1,120 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Link } from 'react-router-dom';
-import { supabase, updateQueueSummary, parseQRData } from '../../lib/supabase';
-import { Visit } from '../../types';
+import { parseQRData } from '../../lib/supabase';
+import { db, updateQueueSummary, VisitChanges } from '../../lib/data';
+import { useBranch } from '../../lib/branches';
+import { formatTimeKey, fromDateKey, getTodayKey } from '../../lib/dates';
+import {
+  getNextToCall,
+  getPriorityRules,
+  getWaitingOrder,
+  isRepeatNoShow,
+  PRIORITY_BADGES,
+  PRIORITY_LABELS,
+} from '../../lib/queue';
+import { isWaiting } from '../../lib/scheduling';
+import { filterVisitsForDoctor, getActiveDoctors } from '../../lib/doctors';
+import { ClinicSettings, Doctor, Patient, PriorityLane, QueueMove, Visit } from '../../types';
 import { QRScanner } from '../../components/QRScanner';
+import { MedicalAlertChips } from '../../components/MedicalAlertChips';
+import { useCan } from '../../lib/staff';
 import { 
   Users, 
   Search, 
   QrCode, 
-  Clock, 
   CheckCircle, 
   X, 
   Phone,
   CreditCard,
   UserCheck,
-  PlayCircle
+  PlayCircle,
+  GripVertical,
+  ArrowUpDown,
+  History,
+  RotateCcw,
+  AlertTriangle,
+  Megaphone,
+  Volume2
 } from 'lucide-react';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 
 export const AdminQueuePage: React.FC = () => {
+  const { branch } = useBranch();
+  const branchId = branch?.id ?? null;
   const [visits, setVisits] = useState<Visit[]>([]);
+  // The visits' patient records, for their allergy and medication alerts
+  const [patients, setPatients] = useState<Record<string, Patient>>({});
+  const canViewClinical = useCan('view_clinical');
+  const [clinicSettings, setClinicSettings] = useState<ClinicSettings | null>(null);
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [doctorId, setDoctorId] = useState<string | null>(null);
+  const [queueMoves, setQueueMoves] = useState<QueueMove[]>([]);
+  const [draggedVisitId, setDraggedVisitId] = useState<string | null>(null);
+  const [pendingMove, setPendingMove] = useState<{ visit: Visit; toPosition: number; reason: string } | null>(null);
   const [filteredVisits, setFilteredVisits] = useState<Visit[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [showQRScanner, setShowQRScanner] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(new Date());
+  const sweepingNoShows = useRef(false);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // The server marks the no-shows; sweeping as the clock ticks shows them here without waiting for its next run
+  useEffect(() => {
+    if (sweepingNoShows.current) return;
+    markNoShows();
+  }, [now, branchId]);
 
   useEffect(() => {
     fetchVisits();
+    db.settings
+      .get(branchId)
+      .then(setClinicSettings)
+      .catch((error) => console.error('Error fetching clinic settings:', error));
+    db.doctors
+      .list(branchId)
+      .then((doctorList) => {
+        setDoctors(doctorList);
+        setDoctorId((current) => current ?? getActiveDoctors(doctorList)[0]?.id ?? doctorList[0]?.id ?? null);
+      })
+      .catch((error) => console.error('Error fetching doctors:', error));
     
-    // Subscribe to real-time updates
-    const visitsSubscription = supabase
-      .channel('queue-visits')
-      .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'visits' },
-        (payload) => {
-          console.log('Queue update:', payload);
-          fetchVisits();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      visitsSubscription.unsubscribe();
-    };
+    fetchQueueMoves();
+
+    // Subscribe to real-time updates. Patients' bookings, cancellations and check-ins can't write the queue
+    // summary, so the open queue keeps it up to date.
+    const unsubscribe = db.subscribe('queue-visits', ['visits', 'queue_moves'], (table) => {
+      if (table === 'queue_moves') {
+        fetchQueueMoves();
+      } else {
+        fetchVisits();
+        updateQueueSummary(branchId);
+      }
+    });
+
+    return unsubscribe;
   }, []);
 
+  // Each doctor has their own tokens and queue, so the page works on one doctor's visits at a time
+  const doctorVisits = doctors.length > 0 ? filterVisitsForDoctor(visits, doctorId, doctors) : visits;
+
   useEffect(() => {
     filterVisits();
-  }, [visits, searchTerm, statusFilter]);
+  }, [visits, searchTerm, statusFilter, doctorId, doctors]);
+
+  useEffect(() => {
+    fetchPatients(visits);
+  }, [visits]);
 
   const fetchVisits = async () => {
     try {
-      const today = new Date().toISOString().split('T')[0];
-      const { data, error } = await supabase
-        .from('visits')
-        .select('*')
-        .gte('created_at', `${today}T00:00:00.000Z`)
-        .lt('created_at', `${today}T23:59:59.999Z`)
-        .order('token_number', { ascending: true });
-
-      if (error) throw error;
-      setVisits(data || []);
+      setVisits(await db.visits.listForDate(getTodayKey(), branchId));
     } catch (error) {
       console.error('Error fetching visits:', error);
       toast.error('Failed to load queue data');
@@ -70,8 +123,28 @@ export const AdminQueuePage: React.FC = () => {
     }
   };
 
+  const fetchPatients = async (visitList: Visit[]) => {
+    if (!canViewClinical) return;
+
+    try {
+      const ids = [...new Set(visitList.map((visit) => visit.patient_id).filter((id): id is string => Boolean(id)))];
+      const patientList = await db.patients.listByIds(ids);
+      setPatients(Object.fromEntries(patientList.map((patient) => [patient.id, patient])));
+    } catch (error) {
+      console.error('Error fetching patient alerts:', error);
+    }
+  };
+
+  const fetchQueueMoves = async () => {
+    try {
+      setQueueMoves(await db.queueMoves.listForDate(getTodayKey()));
+    } catch (error) {
+      console.error('Error fetching queue moves:', error);
+    }
+  };
+
   const filterVisits = () => {
-    let filtered = visits;
+    let filtered = doctorVisits;
 
     if (searchTerm) {
       filtered = filtered.filter(
@@ -86,14 +159,19 @@ export const AdminQueuePage: React.FC = () => {
       filtered = filtered.filter((visit) => visit.visit_status === statusFilter);
     }
 
-    setFilteredVisits(filtered);
+    // Whoever is with the doctor first, then the waiting list in queue order, then everyone else by token
+    const waitingOrder = getWaitingOrder(filtered);
+    setFilteredVisits([
+      ...filtered.filter((visit) => visit.visit_status === 'in_consultation'),
+      ...waitingOrder,
+      ...filtered.filter((visit) => visit.visit_status !== 'in_consultation' && !isWaiting(visit)),
+    ]);
   };
 
-  const updateVisitStatus = async (visitId: string, status: string, additionalData: any = {}) => {
+  const updateVisitStatus = async (visitId: string, status: Visit['visit_status'], additionalData: VisitChanges = {}) => {
     try {
-      const updateData = {
+      const updateData: VisitChanges = {
         visit_status: status,
-        updated_at: new Date().toISOString(),
         ...additionalData,
       };
 
@@ -107,17 +185,11 @@ export const AdminQueuePage: React.FC = () => {
         updateData.cancelled_at = new Date().toISOString();
       }
 
-      const { error } = await supabase
-        .from('visits')
-        .update(updateData)
-        .eq('id', visitId);
+      await db.visits.update(visitId, updateData);
 
-      if (error) throw error;
-
-      // Update queue summary
-      setTimeout(async () => {
-        await updateQueueSummary();
-      }, 500);
+      // Close the gap left by anyone who is no longer waiting, then update the queue summary
+      await db.visits.renumberQueue(getTodayKey());
+      await updateQueueSummary(branchId);
       
       toast.success('Visit status updated successfully');
       fetchVisits();
@@ -127,28 +199,157 @@ export const AdminQueuePage: React.FC = () => {
     }
   };
 
+  // Announces the patient on the display; a checked-in patient goes straight into consultation
+  const callVisit = async (visit: Visit) => {
+    try {
+      const calledAt = new Date().toISOString();
+      const changes: VisitChanges = { called_at: calledAt, call_count: (visit.call_count ?? 0) + 1 };
+      if (visit.visit_status === 'arrived') {
+        changes.visit_status = 'in_consultation';
+        changes.consultation_start_time = calledAt;
+      }
+
+      await db.visits.update(visit.id, changes);
+      if (changes.visit_status) {
+        await db.visits.renumberQueue(getTodayKey());
+      }
+      await updateQueueSummary(branchId);
+
+      toast.success(`Called token #${visit.token_number}`);
+      fetchVisits();
+    } catch (error) {
+      console.error('Error calling patient:', error);
+      toast.error('Failed to call patient');
+    }
+  };
+
+  const callNext = () => {
+    if (doctorVisits.some((visit) => visit.visit_status === 'in_consultation')) {
+      toast.error('Complete the current consultation before calling the next patient');
+      return;
+    }
+
+    const next = getNextToCall(doctorVisits, new Date());
+    if (!next) {
+      toast.error('No one in the queue is ready to be called');
+      return;
+    }
+    callVisit(next);
+  };
+
+  const updatePriority = async (visit: Visit, lane: PriorityLane | null) => {
+    try {
+      await db.visits.setPriority(visit.id, lane);
+      if (lane) await updateQueueSummary(branchId);
+
+      toast.success(lane ? `Marked as ${PRIORITY_LABELS[lane]}` : 'Priority cleared');
+      fetchVisits();
+    } catch (error) {
+      console.error('Error updating priority:', error);
+      toast.error('Failed to update priority');
+    }
+  };
+
+  const markNoShows = async () => {
+    sweepingNoShows.current = true;
+    try {
+      const due = await db.visits.markNoShows(branchId);
+      if (due.length === 0) return;
+      await updateQueueSummary(branchId);
+
+      toast(`Marked ${due.map((visit) => `#${visit.token_number}`).join(', ')} as no-show`, { icon: '⏰' });
+      fetchVisits();
+    } catch (error) {
+      console.error('Error marking no-shows:', error);
+    } finally {
+      sweepingNoShows.current = false;
+    }
+  };
+
+  // A no-show who turns up later goes to the back of the waiting queue
+  const requeueVisit = async (visit: Visit) => {
+    try {
+      const requeuedAt = new Date().toISOString();
+      await db.visits.update(visit.id, {
+        visit_status: 'arrived',
+        arrived_at: requeuedAt,
+        requeued_at: requeuedAt,
+        queue_position: getWaitingOrder(doctorVisits).length + 1,
+        position_change_reason: 'You missed your turn, so you were added to the end of the queue',
+        position_changed_at: requeuedAt,
+      });
+      await db.visits.renumberQueue(getTodayKey());
+      await updateQueueSummary(branchId);
+
+      toast.success(`${visit.name} re-joined the queue`);
+      fetchVisits();
+    } catch (error) {
+      console.error('Error re-queueing visit:', error);
+      toast.error('Failed to re-queue patient');
+    }
+  };
+
+  const waitingCount = getWaitingOrder(doctorVisits).length;
+  const doctorMoves = queueMoves.filter((move) => doctorVisits.some((visit) => visit.id === move.visit_id));
+
+  const requestMove = (visit: Visit, toPosition: number) => {
+    const clamped = Math.min(Math.max(toPosition, 1), waitingCount);
+    if (clamped !== visit.queue_position) {
+      setPendingMove({ visit, toPosition: clamped, reason: '' });
+    }
+  };
+
+  const handleDrop = (target: Visit) => {
+    const dragged = visits.find((visit) => visit.id === draggedVisitId);
+    setDraggedVisitId(null);
+    if (dragged && isWaiting(target)) {
+      requestMove(dragged, target.queue_position);
+    }
+  };
+
+  // Up / Down on a focused handle move a patient one place
+  const handleMoveKey = (e: React.KeyboardEvent, visit: Visit) => {
+    if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      requestMove(visit, visit.queue_position + (e.key === 'ArrowUp' ? -1 : 1));
+    }
+  };
+
+  const confirmMove = async () => {
+    if (!pendingMove) return;
+
+    const { visit, toPosition } = pendingMove;
+    const reason = pendingMove.reason.trim();
+    if (!reason) {
+      toast.error('Please give a reason for the move');
+      return;
+    }
+
+    try {
+      await db.visits.moveInQueue(visit.id, toPosition, reason);
+
+      toast.success(`Moved ${visit.name} to position ${toPosition}`);
+      setPendingMove(null);
+      fetchVisits();
+      fetchQueueMoves();
+    } catch (error) {
+      console.error('Error moving visit:', error);
+      toast.error('Failed to move patient');
+    }
+  };
+
   const updatePaymentStatus = async (visitId: string, status: 'paid' | 'pending') => {
     try {
-      const updateData: any = { 
-        payment_status: status,
-        updated_at: new Date().toISOString()
-      };
+      const updateData: VisitChanges = { payment_status: status };
 
       if (status === 'paid') {
         updateData.payment_id = `pay_${Date.now()}`;
       }
 
-      const { error } = await supabase
-        .from('visits')
-        .update(updateData)
-        .eq('id', visitId);
-
-      if (error) throw error;
+      await db.visits.update(visitId, updateData);
 
       // Update queue summary
-      setTimeout(async () => {
-        await updateQueueSummary();
-      }, 500);
+      await updateQueueSummary(branchId);
 
       toast.success('Payment status updated');
       fetchVisits();
@@ -159,22 +360,47 @@ export const AdminQueuePage: React.FC = () => {
   };
 
 
-  const handleQRScan = (data: string) => {
+  // Only signed codes are trusted; anything else has to be looked up by typing the UID
+  const handleQRScan = async (data: string) => {
+    setShowQRScanner(false);
     const parsed = parseQRData(data);
-    
-    if (parsed && parsed.uid) {
+
+    if (!parsed) {
+      toast.error('This is not a clinic check-in code');
+      return;
+    }
+    if (!parsed.checkInCode) {
+      toast.error(`This QR code is not signed by the clinic. Search for ${parsed.uid} by hand instead.`);
+      return;
+    }
+
+    try {
+      const status = await db.visits.verifyCheckInCode(parsed.checkInCode);
+      if (status === 'invalid') {
+        toast.error('This check-in code has been altered or was not issued by the clinic');
+        return;
+      }
+      if (status === 'expired') {
+        toast.error(
+          `This check-in code was for ${format(fromDateKey(parsed.validOn!), 'MMM d')}. Ask the patient for their current booking.`
+        );
+        return;
+      }
+
+      // UIDs start with the code of the branch they were booked at
+      const codeBranch = parsed.uid.split('-')[0];
+      if (branch && codeBranch !== branch.code) {
+        toast.error(`This booking is for another branch (${codeBranch}), not ${branch.name}`);
+        return;
+      }
+
       setSearchTerm(parsed.uid);
       toast.success(`Found patient: ${parsed.uid}`);
-      
-      // If we have a visit ID, navigate directly to patient profile
-      if (parsed.visitId) {
-        window.open(`/admin/patient/${parsed.uid}`, '_blank');
-      }
-    } else {
-      toast.error('Invalid QR code format');
+      window.open(`/admin/patient/${parsed.uid}`, '_blank');
+    } catch (error) {
+      console.error('Error verifying check-in code:', error);
+      toast.error('Failed to verify the check-in code');
     }
-    
-    setShowQRScanner(false);
   };
 
   const cancelVisit = async (visitId: string) => {
@@ -190,6 +416,7 @@ export const AdminQueuePage: React.FC = () => {
       in_consultation: 'bg-purple-100 text-purple-800',
       completed: 'bg-gray-100 text-gray-800',
       cancelled: 'bg-red-100 text-red-800',
+      no_show: 'bg-orange-100 text-orange-800',
     };
     return styles[status as keyof typeof styles] || 'bg-gray-100 text-gray-800';
   };
@@ -216,12 +443,44 @@ export const AdminQueuePage: React.FC = () => {
             Manage today's patient queue and check-ins
           </p>
         </div>
-        <div className="text-right">
-          <div className="text-2xl font-bold text-blue-600">{filteredVisits.length}</div>
-          <div className="text-sm text-gray-600">Total Patients</div>
+        <div className="flex items-center space-x-6">
+          <button
+            onClick={callNext}
+            className="bg-purple-600 text-white px-6 py-3 rounded-lg hover:bg-purple-700 transition-colors flex items-center space-x-2"
+          >
+            <Megaphone className="w-5 h-5" />
+            <span>Call Next</span>
+          </button>
+          <div className="text-right">
+            <div className="text-2xl font-bold text-blue-600">{filteredVisits.length}</div>
+            <div className="text-sm text-gray-600">Total Patients</div>
+          </div>
         </div>
       </div>
 
+      {/* Doctors */}
+      {doctors.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {doctors.map((doctor) => {
+            const waiting = getWaitingOrder(filterVisitsForDoctor(visits, doctor.id, doctors)).length;
+            return (
+              <button
+                key={doctor.id}
+                onClick={() => setDoctorId(doctor.id)}
+                className={`px-4 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                  doctor.id === doctorId
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {doctor.name}
+                <span className="ml-2 opacity-75">{waiting} waiting</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       {/* Filters and Search */}
       <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
         <div className="flex flex-col md:flex-row gap-4">
@@ -252,6 +511,7 @@ export const AdminQueuePage: React.FC = () => {
               <option value="in_consultation">In Consultation</option>
               <option value="completed">Completed</option>
               <option value="cancelled">Cancelled</option>
+              <option value="no_show">No Show</option>
             </select>
           </div>
 
@@ -297,12 +557,65 @@ export const AdminQueuePage: React.FC = () => {
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {filteredVisits.map((visit) => (
-                <tr key={visit.id} className="hover:bg-gray-50">
+                <tr
+                  key={visit.id}
+                  draggable={isWaiting(visit)}
+                  onDragStart={() => setDraggedVisitId(visit.id)}
+                  onDragEnd={() => setDraggedVisitId(null)}
+                  onDragOver={(e) => {
+                    if (draggedVisitId && isWaiting(visit)) e.preventDefault();
+                  }}
+                  onDrop={() => handleDrop(visit)}
+                  className={`hover:bg-gray-50 ${draggedVisitId === visit.id ? 'opacity-50' : ''}`}
+                >
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-lg font-bold text-blue-600">#{visit.token_number}</div>
+                    <div className="flex items-center space-x-2">
+                      {isWaiting(visit) && (
+                        <button
+                          type="button"
+                          onKeyDown={(e) => handleMoveKey(e, visit)}
+                          className="text-gray-400 hover:text-gray-600 cursor-grab p-1 rounded focus:ring-2 focus:ring-blue-500"
+                          title="Drag to reorder, or focus and press the up/down arrow keys"
+                          aria-label={`Move ${visit.name}, currently ${visit.queue_position} in line`}
+                        >
+                          <GripVertical className="w-4 h-4" />
+                        </button>
+                      )}
+                      <div>
+                        <div className="text-lg font-bold text-blue-600">#{visit.token_number}</div>
+                        {isWaiting(visit) && (
+                          <div className="text-xs text-gray-500">{visit.queue_position} in line</div>
+                        )}
+                      </div>
+                    </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm font-medium text-gray-900">{visit.name}</div>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium text-gray-900">{visit.name}</span>
+                      {visit.priority && (
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${PRIORITY_BADGES[visit.priority]}`}>
+                          {PRIORITY_LABELS[visit.priority]}
+                        </span>
+                      )}
+                      {isRepeatNoShow(visit, clinicSettings) && (
+                        <span
+                          className="flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800"
+                          title="Missed earlier appointments booked with this phone number"
+                        >
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          {visit.prior_no_shows} no-shows
+                        </span>
+                      )}
+                      {!!visit.call_count && ['upcoming', 'in_consultation'].includes(visit.visit_status) && (
+                        <span
+                          className="flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800"
+                          title={visit.called_at ? `Last called at ${format(new Date(visit.called_at), 'h:mm a')}` : undefined}
+                        >
+                          <Volume2 className="w-3 h-3 mr-1" />
+                          Called ×{visit.call_count}
+                        </span>
+                      )}
+                    </div>
                     <div className="text-sm text-gray-500">
                       {visit.age && `${visit.age} years`}
                       {visit.phone && (
@@ -312,13 +625,37 @@ export const AdminQueuePage: React.FC = () => {
                         </span>
                       )}
                     </div>
+                    {canViewClinical && (
+                      <div className="mt-1 max-w-xs whitespace-normal">
+                        <MedicalAlertChips details={(visit.patient_id && patients[visit.patient_id]) || visit} compact />
+                      </div>
+                    )}
+                    {isWaiting(visit) && (
+                      <select
+                        value={visit.priority || ''}
+                        onChange={(e) => updatePriority(visit, (e.target.value || null) as PriorityLane | null)}
+                        className="mt-1 text-xs border border-gray-300 rounded px-1 py-0.5 text-gray-600"
+                        aria-label="Priority lane"
+                      >
+                        <option value="">Regular</option>
+                        {getPriorityRules(clinicSettings)
+                          .filter((rule) => rule.enabled || rule.lane === visit.priority)
+                          .map((rule) => (
+                            <option key={rule.lane} value={rule.lane}>
+                              {PRIORITY_LABELS[rule.lane]}
+                            </option>
+                          ))}
+                      </select>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm font-mono text-blue-600">{visit.uid}</div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-900">
-                      {format(new Date(visit.created_at), 'h:mm a')}
+                      {visit.appointment_slot
+                        ? formatTimeKey(visit.appointment_slot)
+                        : format(new Date(visit.created_at), 'h:mm a')}
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
@@ -360,14 +697,24 @@ export const AdminQueuePage: React.FC = () => {
                       
                       {visit.visit_status === 'arrived' && (
                         <button
-                          onClick={() => updateVisitStatus(visit.id, 'in_consultation')}
+                          onClick={() => callVisit(visit)}
                           className="text-purple-600 hover:text-purple-800 p-1 rounded"
-                          title="Start consultation"
+                          title="Call in and start consultation"
                         >
                           <PlayCircle className="w-4 h-4" />
                         </button>
                       )}
 
+                      {(visit.visit_status === 'in_consultation' || (visit.visit_status === 'upcoming' && visit.called_at)) && (
+                        <button
+                          onClick={() => callVisit(visit)}
+                          className="text-purple-600 hover:text-purple-800 p-1 rounded"
+                          title="Call again"
+                        >
+                          <Volume2 className="w-4 h-4" />
+                        </button>
+                      )}
+
                       {visit.visit_status === 'in_consultation' && (
                         <button
                           onClick={() => updateVisitStatus(visit.id, 'completed')}
@@ -386,6 +733,16 @@ export const AdminQueuePage: React.FC = () => {
                         <Users className="w-4 h-4" />
                       </Link>
 
+                      {visit.visit_status === 'no_show' && clinicSettings?.no_show_requeue_enabled !== false && (
+                        <button
+                          onClick={() => requeueVisit(visit)}
+                          className="text-orange-600 hover:text-orange-800 p-1 rounded"
+                          title="Patient arrived late: add to the end of the queue"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </button>
+                      )}
+
                       {['upcoming', 'arrived'].includes(visit.visit_status) && (
                         <button
                           onClick={() => cancelVisit(visit.id)}
@@ -417,6 +774,104 @@ export const AdminQueuePage: React.FC = () => {
         </div>
       </div>
 
+      {/* Recent Moves */}
+      {doctorMoves.length > 0 && (
+        <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+          <div className="flex items-center space-x-3 mb-4">
+            <History className="w-5 h-5 text-gray-600" />
+            <h2 className="text-lg font-semibold text-gray-900">Queue Changes Today</h2>
+          </div>
+          <div className="space-y-2">
+            {doctorMoves.map((move) => {
+              const moved = doctorVisits.find((visit) => visit.id === move.visit_id);
+              return (
+                <div key={move.id} className="text-sm text-gray-700 flex flex-wrap gap-x-2">
+                  <span className="text-gray-500">{format(new Date(move.created_at), 'h:mm a')}</span>
+                  <span className="font-medium">{move.moved_by}</span>
+                  <span>
+                    moved {moved?.name || move.visit_uid} from {move.from_position} to {move.to_position}
+                  </span>
+                  <span className="text-gray-500">— {move.reason}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Move Dialog */}
+      {pendingMove && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-2xl max-w-md w-full mx-4">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div className="flex items-center space-x-3">
+                <ArrowUpDown className="w-6 h-6 text-blue-600" />
+                <h3 className="text-lg font-semibold text-gray-900">Move {pendingMove.visit.name}</h3>
+              </div>
+              <button
+                onClick={() => setPendingMove(null)}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                confirmMove();
+              }}
+              className="p-6 space-y-4"
+            >
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  New position (currently {pendingMove.visit.queue_position} of {waitingCount})
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  max={waitingCount}
+                  value={pendingMove.toPosition}
+                  onChange={(e) =>
+                    setPendingMove({
+                      ...pendingMove,
+                      toPosition: Math.min(Math.max(parseInt(e.target.value) || 1, 1), waitingCount),
+                    })
+                  }
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+                <input
+                  type="text"
+                  value={pendingMove.reason}
+                  onChange={(e) => setPendingMove({ ...pendingMove, reason: e.target.value })}
+                  autoFocus
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="e.g., Stepped out, will be back in 10 minutes"
+                />
+                <p className="text-xs text-gray-500 mt-1">The patient sees this reason on their tracking page.</p>
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  type="submit"
+                  className="flex-1 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700"
+                >
+                  Move
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setPendingMove(null)}
+                  className="flex-1 border border-gray-300 text-gray-700 py-2 rounded-lg hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
       {/* QR Scanner Modal */}
       {showQRScanner && (
         <QRScanner
@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { db, StaffUser } from '../../lib/data';
+import { Lock, KeyRound } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Invitation and password-reset emails open this page with the staff member already signed in
+export const AdminResetPasswordPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [user, setUser] = useState<StaffUser | null>(null);
+  const [checking, setChecking] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    password: '',
+    confirmPassword: '',
+  });
+
+  useEffect(() => {
+    db.auth
+      .getCurrentUser()
+      .then(setUser)
+      .catch((error) => console.error('Error checking sign-in:', error))
+      .finally(() => setChecking(false));
+  }, []);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.password.length < MIN_PASSWORD_LENGTH) {
+      toast.error(`Use at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (formData.password !== formData.confirmPassword) {
+      toast.error('Passwords do not match');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await db.auth.updatePassword(formData.password);
+      toast.success('Password saved');
+      navigate('/admin');
+    } catch (error) {
+      console.error('Error saving password:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save password');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-green-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl border border-gray-200 p-8">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-gradient-to-br from-blue-600 to-green-600 rounded-xl flex items-center justify-center mx-auto mb-4">
+            <KeyRound className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Choose a Password</h1>
+          <p className="text-gray-600">{user ? `For ${user.email}` : 'Set the password you will sign in with'}</p>
+        </div>
+
+        {checking ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+          </div>
+        ) : !user ? (
+          <div className="text-center space-y-4">
+            <p className="text-gray-600">
+              This link has expired or was already used. Open the latest link from your invitation or password reset
+              email, or ask the clinic owner to send a new one.
+            </p>
+            <Link to="/admin/login" className="text-blue-600 hover:text-blue-700 font-medium">
+              Back to login
+            </Link>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <Lock className="w-4 h-4 inline mr-1" />
+                New Password
+              </label>
+              <input
+                type="password"
+                name="password"
+                value={formData.password}
+                onChange={handleInputChange}
+                required
+                autoComplete="new-password"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <Lock className="w-4 h-4 inline mr-1" />
+                Confirm Password
+              </label>
+              <input
+                type="password"
+                name="confirmPassword"
+                value={formData.confirmPassword}
+                onChange={handleInputChange}
+                required
+                autoComplete="new-password"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Enter the password again"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full bg-gradient-to-r from-blue-600 to-green-600 text-white py-3 px-4 rounded-lg font-semibold hover:from-blue-700 hover:to-green-700 focus:ring-4 focus:ring-blue-200 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              {saving ? (
+                <div className="flex items-center justify-center space-x-2">
+                  <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  <span>Saving...</span>
+                </div>
+              ) : (
+                'Save Password'
+              )}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,18 @@
 import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { supabase } from '../../lib/supabase';
+import { db } from '../../lib/data';
+import { useBranch } from '../../lib/branches';
+import { useCan } from '../../lib/staff';
+import { DuplicatePatients } from '../../components/DuplicatePatients';
 import { Visit } from '../../types';
-import { Search, User, Calendar, Phone, FileText } from 'lucide-react';
+import { Search, User, Phone, FileText } from 'lucide-react';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 
 export const AdminSearchPage: React.FC = () => {
+  const { branch } = useBranch();
+  const branchId = branch?.id ?? null;
+  const canMergePatients = useCan('merge_patients');
   const [searchTerm, setSearchTerm] = useState('');
   const [searchResults, setSearchResults] = useState<Visit[]>([]);
   const [loading, setLoading] = useState(false);
@@ -22,18 +28,12 @@ export const AdminSearchPage: React.FC = () => {
     setSearchPerformed(true);
 
     try {
-      const { data, error } = await supabase
-        .from('visits')
-        .select('*')
-        .or(`name.ilike.%${searchTerm}%,uid.ilike.%${searchTerm}%,phone.ilike.%${searchTerm}%`)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
+      const data = await db.visits.search(searchTerm.trim(), branchId);
       
-      setSearchResults(data || []);
+      setSearchResults(data);
       
-      if (data && data.length === 0) {
-        toast.info('No patients found matching your search');
+      if (data.length === 0) {
+        toast('No patients found matching your search');
       }
     } catch (error) {
       console.error('Search error:', error);
@@ -56,6 +56,7 @@ export const AdminSearchPage: React.FC = () => {
       in_consultation: 'bg-purple-100 text-purple-800',
       completed: 'bg-gray-100 text-gray-800',
       cancelled: 'bg-red-100 text-red-800',
+      no_show: 'bg-orange-100 text-orange-800',
     };
     return styles[status as keyof typeof styles] || 'bg-gray-100 text-gray-800';
   };
@@ -80,7 +81,7 @@ export const AdminSearchPage: React.FC = () => {
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               onKeyPress={handleKeyPress}
-              placeholder="Enter patient name, UID (e.g., XC-001), or phone number..."
+              placeholder="Enter patient name, UID (e.g., XC-261018-001), or phone number..."
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
           </div>
@@ -102,7 +103,7 @@ export const AdminSearchPage: React.FC = () => {
           <span className="bg-gray-100 px-3 py-1 rounded-full">💡 Tips:</span>
           <span>Search by full or partial name</span>
           <span>•</span>
-          <span>Use UID format: XC-001</span>
+          <span>Use UID format: XC-261018-001</span>
           <span>•</span>
           <span>Enter phone number with or without spaces</span>
         </div>
@@ -223,7 +224,7 @@ export const AdminSearchPage: React.FC = () => {
                 <p>Try searching with:</p>
                 <div className="flex justify-center space-x-4 mt-2">
                   <span>• Full or partial name</span>
-                  <span>• Complete UID (XC-001)</span>
+                  <span>• Complete UID (XC-261018-001)</span>
                   <span>• Phone number</span>
                 </div>
               </div>
@@ -248,7 +249,7 @@ export const AdminSearchPage: React.FC = () => {
                 </div>
                 <div>
                   <div className="font-medium text-green-800 mb-1">By UID</div>
-                  <p>Use the unique identifier format like XC-001, XC-002, etc.</p>
+                  <p>Use the unique identifier format like XC-261018-001 (date of visit, then token).</p>
                 </div>
                 <div>
                   <div className="font-medium text-purple-800 mb-1">By Phone</div>
@@ -259,6 +260,8 @@ export const AdminSearchPage: React.FC = () => {
           </div>
         </div>
       )}
+
+      {canMergePatients && <DuplicatePatients branchId={branchId} />}
     </div>
   );
 };
\ No newline at end of file
@@ -1,30 +1,85 @@
 import React, { useState, useEffect } from 'react';
-import { supabase } from '../../lib/supabase';
-import { ClinicSettings } from '../../types';
-import { Save, Building, User, Clock, CreditCard, Image } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { db, updateQueueSummary } from '../../lib/data';
+import { useBranch } from '../../lib/branches';
+import { DEFAULT_CLINIC_TIMEZONE, getTodayKey, isValidTimeZone } from '../../lib/dates';
+import {
+  DEFAULT_SELF_SERVICE_CUTOFF_HOURS,
+  describeClosure,
+  getClosures,
+  getWeeklySchedule,
+  isVisitAffectedByClosure,
+  mapWeekdays,
+  summariseSession,
+  validateWeeklySchedule,
+  WEEKDAYS,
+} from '../../lib/scheduling';
+import {
+  DEFAULT_NO_SHOW_FLAG_THRESHOLD,
+  DEFAULT_NO_SHOW_GRACE_MINUTES,
+  getPriorityRules,
+  PRIORITY_LABELS,
+} from '../../lib/queue';
+import {
+  announceCall,
+  CALL_LANGUAGES,
+  DEFAULT_CALL_LANGUAGE,
+  DEFAULT_CALL_TEMPLATE,
+  DEFAULT_CONSULTATION_ROOM,
+  formatCallAnnouncement,
+  unlockAudio,
+} from '../../lib/callAnnouncer';
+import {
+  ClinicClosure,
+  ClinicSettings,
+  ClosurePart,
+  PriorityRule,
+  Visit,
+  WeeklySchedule,
+} from '../../types';
+import { WeeklyScheduleEditor } from '../../components/WeeklyScheduleEditor';
+import { Save, Building, User, Clock, Image, Plus, Trash2, CalendarX, Siren, Tv, Volume2, Copy } from 'lucide-react';
 import toast from 'react-hot-toast';
 
+const SAMPLE_CALL = { token: 12, uid: 'XC-261018-012' };
+
 export const AdminSettingsPage: React.FC = () => {
+  const { branch } = useBranch();
+  const branchId = branch?.id ?? null;
   const [settings, setSettings] = useState<ClinicSettings | null>(null);
   const [formData, setFormData] = useState({
     clinic_name: '',
     clinic_address: '',
     clinic_phone: '',
     clinic_email: '',
-    doctor_name: '',
-    doctor_qualifications: '',
-    doctor_specialization: '',
-    doctor_photo_url: '',
     clinic_logo_url: '',
-    morning_shift: '',
-    evening_shift: '',
     consultation_fee: 0,
     average_consultation_time: 15,
     max_daily_appointments: 50,
+    self_service_cutoff_hours: DEFAULT_SELF_SERVICE_CUTOFF_HOURS,
+    timezone: DEFAULT_CLINIC_TIMEZONE,
+    no_show_grace_minutes: DEFAULT_NO_SHOW_GRACE_MINUTES,
+    no_show_flag_threshold: DEFAULT_NO_SHOW_FLAG_THRESHOLD,
+    no_show_requeue_enabled: true,
+    consultation_room: DEFAULT_CONSULTATION_ROOM,
+    call_announcement_template: DEFAULT_CALL_TEMPLATE,
+    call_announcement_language: DEFAULT_CALL_LANGUAGE,
     emergency_contact: '',
     online_payment_enabled: true,
     clinic_payment_enabled: true,
   });
+  const [schedule, setSchedule] = useState<WeeklySchedule>(() => mapWeekdays(() => []));
+  const [closures, setClosures] = useState<ClinicClosure[]>([]);
+  const [newClosure, setNewClosure] = useState<ClinicClosure>({ date: '', part: 'full', reason: '' });
+  // Active bookings on each saved upcoming closure, keyed by date
+  const [affectedVisits, setAffectedVisits] = useState<Record<string, Visit[]>>({});
+  const [cancellingDate, setCancellingDate] = useState<string | null>(null);
+  const [cancelledForClosure, setCancelledForClosure] = useState<{ closure: ClinicClosure; visits: Visit[] } | null>(
+    null
+  );
+  const [priorityRules, setPriorityRules] = useState<PriorityRule[]>(() => getPriorityRules(null));
+  // One announcement per line
+  const [announcements, setAnnouncements] = useState('');
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
@@ -34,12 +89,8 @@ export const AdminSettingsPage: React.FC = () => {
 
   const fetchSettings = async () => {
     try {
-      const { data, error } = await supabase
-        .from('clinic_settings')
-        .select('*')
-        .single();
-
-      if (error) throw error;
+      const data = await db.settings.get(branchId);
+      if (!data) return;
       
       setSettings(data);
       setFormData({
@@ -47,20 +98,27 @@ export const AdminSettingsPage: React.FC = () => {
         clinic_address: data.clinic_address || '',
         clinic_phone: data.clinic_phone || '',
         clinic_email: data.clinic_email || '',
-        doctor_name: data.doctor_name || '',
-        doctor_qualifications: data.doctor_qualifications || '',
-        doctor_specialization: data.doctor_specialization || '',
-        doctor_photo_url: data.doctor_photo_url || '',
         clinic_logo_url: data.clinic_logo_url || '',
-        morning_shift: data.morning_shift || '',
-        evening_shift: data.evening_shift || '',
         consultation_fee: data.consultation_fee || 0,
         average_consultation_time: data.average_consultation_time || 15,
         max_daily_appointments: data.max_daily_appointments || 50,
+        self_service_cutoff_hours: data.self_service_cutoff_hours ?? DEFAULT_SELF_SERVICE_CUTOFF_HOURS,
+        timezone: data.timezone || DEFAULT_CLINIC_TIMEZONE,
+        no_show_grace_minutes: data.no_show_grace_minutes ?? DEFAULT_NO_SHOW_GRACE_MINUTES,
+        no_show_flag_threshold: data.no_show_flag_threshold ?? DEFAULT_NO_SHOW_FLAG_THRESHOLD,
+        no_show_requeue_enabled: data.no_show_requeue_enabled !== false,
+        consultation_room: data.consultation_room || DEFAULT_CONSULTATION_ROOM,
+        call_announcement_template: data.call_announcement_template || DEFAULT_CALL_TEMPLATE,
+        call_announcement_language: data.call_announcement_language || DEFAULT_CALL_LANGUAGE,
         emergency_contact: data.emergency_contact || '',
         online_payment_enabled: data.online_payment_enabled !== false,
         clinic_payment_enabled: data.clinic_payment_enabled !== false,
       });
+      setSchedule(getWeeklySchedule(data));
+      setClosures(getClosures(data));
+      setPriorityRules(getPriorityRules(data));
+      setAnnouncements((data.display_announcements || []).join('\n'));
+      await fetchAffectedVisits(getClosures(data));
     } catch (error) {
       console.error('Error fetching settings:', error);
       toast.error('Failed to load clinic settings');
@@ -69,8 +127,21 @@ export const AdminSettingsPage: React.FC = () => {
     }
   };
 
+  const fetchAffectedVisits = async (savedClosures: ClinicClosure[]) => {
+    const upcoming = savedClosures.filter((closure) => closure.date >= getTodayKey());
+    const entries = await Promise.all(
+      upcoming.map(async (closure) => {
+        const visits = await db.visits.listForDate(closure.date, branchId);
+        return [closure.date, visits.filter((visit) => isVisitAffectedByClosure(closure, visit))] as const;
+      })
+    );
+    const affected: Record<string, Visit[]> = Object.fromEntries(entries);
+    setAffectedVisits(affected);
+    return affected;
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-    const { name, value } = e.target;
+    const { name, value, type } = e.target;
     setFormData(prev => ({
       ...prev,
       [name]: type === 'number' ? parseFloat(value) || 0 : 
@@ -79,32 +150,114 @@ export const AdminSettingsPage: React.FC = () => {
     }));
   };
 
+  const updatePriorityRule = (lane: PriorityRule['lane'], changes: Partial<PriorityRule>) => {
+    setPriorityRules(prev => prev.map((rule) => (rule.lane === lane ? { ...rule, ...changes } : rule)));
+  };
+
+  const openDays = WEEKDAYS.filter((day) => schedule[day].length > 0);
+
+  const addClosure = () => {
+    if (!newClosure.date || !newClosure.reason.trim()) {
+      toast.error('Choose a date and give a reason for the closure');
+      return;
+    }
+    if (newClosure.date < getTodayKey()) {
+      toast.error('Closures can only be added for today or later');
+      return;
+    }
+
+    // One closure per date; adding again replaces it
+    setClosures(prev =>
+      [...prev.filter((closure) => closure.date !== newClosure.date), { ...newClosure, reason: newClosure.reason.trim() }]
+        .sort((a, b) => a.date.localeCompare(b.date))
+    );
+    setNewClosure({ date: '', part: 'full', reason: '' });
+  };
+
+  const removeClosure = (date: string) => {
+    setClosures(prev => prev.filter((closure) => closure.date !== date));
+  };
+
+  // Cancels every booking a saved closure takes away, then lists those patients so staff can let them know
+  const cancelAffectedVisits = async (closure: ClinicClosure) => {
+    const visits = affectedVisits[closure.date] || [];
+    if (!window.confirm(`Cancel ${visits.length} booking(s)? ${describeClosure(closure)}.`)) return;
+
+    setCancellingDate(closure.date);
+    try {
+      const cancelled = await db.visits.cancelForClosure(branchId, closure.date, describeClosure(closure));
+      await updateQueueSummary(branchId, closure.date);
+      toast.success(`Cancelled ${cancelled.length} booking(s)`);
+      setCancelledForClosure(cancelled.length > 0 ? { closure, visits: cancelled } : null);
+      await fetchAffectedVisits(closures);
+    } catch (error) {
+      console.error('Error cancelling bookings:', error);
+      toast.error('Failed to cancel bookings');
+    } finally {
+      setCancellingDate(null);
+    }
+  };
+
+  const getClosureMessage = (closure: ClinicClosure) =>
+    `${formData.clinic_name}: your appointment has been cancelled. ${describeClosure(closure)}. Please book another day.`;
+
+  const copyToClipboard = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(`${label} copied`);
+    } catch (error) {
+      console.error('Error copying to clipboard:', error);
+      toast.error(`Couldn't copy the ${label.toLowerCase()}`);
+    }
+  };
+
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const scheduleError = validateWeeklySchedule(schedule);
+    if (scheduleError) {
+      toast.error(scheduleError);
+      return;
+    }
+    if (!isValidTimeZone(formData.timezone)) {
+      toast.error('Please enter a time zone such as Asia/Kolkata');
+      return;
+    }
+
     setSaving(true);
 
     try {
-      if (settings) {
-        // Update existing settings
-        const { error } = await supabase
-          .from('clinic_settings')
-          .update({
-            ...formData,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', settings.id);
-
-        if (error) throw error;
-      } else {
-        // Create new settings
-        const { error } = await supabase
-          .from('clinic_settings')
-          .insert(formData);
-
-        if (error) throw error;
-      }
+      // The shift and operating-day columns are kept in step for anything that still reads them
+      const typicalDay = schedule[openDays[0]] || [];
+      const previousDates = settings ? getClosures(settings).map((closure) => closure.date) : [];
+
+      // Updates the existing settings row, or creates one if none exists yet
+      await db.settings.save(
+        {
+          ...formData,
+          branch_id: branchId,
+          weekly_schedule: schedule,
+          operating_days: openDays,
+          morning_shift: summariseSession(typicalDay[0]),
+          evening_shift: summariseSession(typicalDay[1]),
+          closures,
+          priority_rules: priorityRules,
+          display_announcements: announcements.split('\n').map((line) => line.trim()).filter(Boolean),
+          holiday_dates: closures.filter((closure) => closure.part === 'full').map((closure) => closure.date),
+        },
+        settings?.id
+      );
 
       toast.success('Settings saved successfully!');
+
+      // Point out bookings that now fall on a newly added closure
+      const affected = await fetchAffectedVisits(closures);
+      const newlyAffected = closures.filter(
+        (closure) => !previousDates.includes(closure.date) && affected[closure.date]?.length
+      );
+      if (newlyAffected.length > 0) {
+        toast('Some patients are booked on the new closure dates. Review them under Holidays & Leave.', { icon: '⚠️' });
+      }
       fetchSettings();
     } catch (error) {
       console.error('Error saving settings:', error);
@@ -114,6 +267,19 @@ export const AdminSettingsPage: React.FC = () => {
     }
   };
 
+  // Plays the call on this device using the unsaved form values
+  const testAnnouncement = async () => {
+    const preview = { ...settings, ...formData } as ClinicSettings;
+    try {
+      await unlockAudio();
+      toast(formatCallAnnouncement(preview, SAMPLE_CALL), { icon: '🔊' });
+      await announceCall(preview, SAMPLE_CALL);
+    } catch (error) {
+      console.error('Error playing test announcement:', error);
+      toast.error('This browser cannot play announcements');
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
@@ -233,76 +399,18 @@ export const AdminSettingsPage: React.FC = () => {
           </div>
         </div>
 
-        {/* Doctor Information */}
-        <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
-          <div className="flex items-center space-x-3 mb-6">
+        {/* Doctors */}
+        <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
             <User className="w-6 h-6 text-green-600" />
-            <h2 className="text-xl font-semibold text-gray-900">Doctor Information</h2>
-          </div>
-
-          <div className="grid md:grid-cols-2 gap-6">
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Doctor Name
-              </label>
-              <input
-                type="text"
-                name="doctor_name"
-                value={formData.doctor_name}
-                onChange={handleInputChange}
-                required
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="Dr. Full Name"
-              />
+              <h2 className="text-xl font-semibold text-gray-900">Doctors</h2>
+              <p className="text-sm text-gray-500">Names, fees, rooms and each doctor's own hours are managed on the Doctors page.</p>
             </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Qualifications
-              </label>
-              <input
-                type="text"
-                name="doctor_qualifications"
-                value={formData.doctor_qualifications}
-                onChange={handleInputChange}
-                required
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="MBBS, MD, etc."
-              />
-            </div>
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Specialization
-            </label>
-            <input
-              type="text"
-              name="doctor_specialization"
-              value={formData.doctor_specialization}
-              onChange={handleInputChange}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="Internal Medicine, Cardiology, etc."
-            />
-          </div>
-
-          <div className="mt-6">
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              <Image className="w-4 h-4 inline mr-1" />
-              Doctor Photo URL (Optional)
-            </label>
-            <input
-              type="url"
-              name="doctor_photo_url"
-              value={formData.doctor_photo_url}
-              onChange={handleInputChange}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="https://example.com/doctor-photo.jpg"
-            />
-            <p className="text-sm text-gray-500 mt-1">
-              Enter a direct URL to the doctor's photo. Leave blank if not available.
-            </p>
           </div>
+          <Link to="/admin/doctors" className="text-blue-600 hover:text-blue-700 font-medium whitespace-nowrap">
+            Manage doctors
+          </Link>
         </div>
 
         {/* Operating Hours */}
@@ -312,69 +420,75 @@ export const AdminSettingsPage: React.FC = () => {
             <h2 className="text-xl font-semibold text-gray-900">Operating Hours</h2>
           </div>
 
-          <div className="grid md:grid-cols-2 gap-6">
+          <WeeklyScheduleEditor schedule={schedule} onChange={setSchedule} />
+
+          <div className="grid md:grid-cols-2 gap-6 mt-6">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Morning Shift
+                Average Consultation Time (minutes)
               </label>
               <input
-                type="text"
-                name="morning_shift"
-                value={formData.morning_shift}
+                type="number"
+                name="average_consultation_time"
+                value={formData.average_consultation_time}
                 onChange={handleInputChange}
-                required
+                min="5"
+                max="60"
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="9:00 AM - 1:00 PM"
+                placeholder="15"
               />
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Evening Shift
+                Max Daily Appointments
               </label>
               <input
-                type="text"
-                name="evening_shift"
-                value={formData.evening_shift}
+                type="number"
+                name="max_daily_appointments"
+                value={formData.max_daily_appointments}
                 onChange={handleInputChange}
-                required
+                min="10"
+                max="200"
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="5:00 PM - 9:00 PM"
+                placeholder="50"
               />
             </div>
-          </div>
 
-          <div className="grid md:grid-cols-3 gap-6 mt-6">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Average Consultation Time (minutes)
+                Online Changes Cutoff (hours)
               </label>
               <input
                 type="number"
-                name="average_consultation_time"
-                value={formData.average_consultation_time}
+                name="self_service_cutoff_hours"
+                value={formData.self_service_cutoff_hours}
                 onChange={handleInputChange}
-                min="5"
-                max="60"
+                min="0"
+                max="72"
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="15"
+                placeholder="2"
               />
+              <p className="text-xs text-gray-500 mt-1">
+                Patients can cancel or reschedule online until this long before their slot
+              </p>
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Max Daily Appointments
+                Time Zone
               </label>
               <input
-                type="number"
-                name="max_daily_appointments"
-                value={formData.max_daily_appointments}
+                type="text"
+                name="timezone"
+                value={formData.timezone}
                 onChange={handleInputChange}
-                min="10"
-                max="200"
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="50"
+                placeholder={DEFAULT_CLINIC_TIMEZONE}
               />
+              <p className="text-xs text-gray-500 mt-1">
+                Where the branch is, e.g. Asia/Kolkata; slots, cutoffs and check-in days follow its clock
+              </p>
             </div>
 
             <div>
@@ -419,14 +533,369 @@ export const AdminSettingsPage: React.FC = () => {
               </label>
             </div>
           </div>
+
+          {/* No-Show Settings */}
+          <div className="mt-6 p-4 bg-gray-50 rounded-lg">
+            <h4 className="font-semibold text-gray-900 mb-3">No-Shows</h4>
+            <div className="grid md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label className="block text-sm text-gray-700 mb-1">
+                  Mark as no-show after (minutes)
+                </label>
+                <input
+                  type="number"
+                  name="no_show_grace_minutes"
+                  value={formData.no_show_grace_minutes}
+                  onChange={handleInputChange}
+                  min="1"
+                  max="120"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-700 mb-1">
+                  Flag patients with at least this many no-shows
+                </label>
+                <input
+                  type="number"
+                  name="no_show_flag_threshold"
+                  value={formData.no_show_flag_threshold}
+                  onChange={handleInputChange}
+                  min="1"
+                  max="10"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <label className="flex items-center space-x-3 pb-2">
+                <input
+                  type="checkbox"
+                  name="no_show_requeue_enabled"
+                  checked={formData.no_show_requeue_enabled}
+                  onChange={handleInputChange}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-700">Let late arrivals re-join at the end of the queue</span>
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              The clock starts when a patient is called, or at their slot time if they haven't been called yet.
+            </p>
+          </div>
           <div className="mt-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
             <p className="text-sm text-yellow-800">
-              <strong>Note:</strong> These timings will be displayed to patients on the homepage. 
-              Use clear, easy-to-understand format like "9:00 AM - 1:00 PM".
+              <strong>Note:</strong> Patients can only book slots inside these sessions. A day without sessions is closed.
+              Leave capacity blank to allow one booking per consultation slot.
             </p>
           </div>
         </div>
 
+        {/* Holidays & Leave */}
+        <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+          <div className="flex items-center space-x-3 mb-6">
+            <CalendarX className="w-6 h-6 text-red-600" />
+            <h2 className="text-xl font-semibold text-gray-900">Holidays & Leave</h2>
+          </div>
+
+          <div className="grid md:grid-cols-4 gap-3 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Date</label>
+              <input
+                type="date"
+                value={newClosure.date}
+                min={getTodayKey()}
+                onChange={(e) => setNewClosure(prev => ({ ...prev, date: e.target.value }))}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Closed for</label>
+              <select
+                value={newClosure.part}
+                onChange={(e) => setNewClosure(prev => ({ ...prev, part: e.target.value as ClosurePart }))}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="full">Full day</option>
+                <option value="morning">Morning only</option>
+                <option value="afternoon">Afternoon only</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+              <input
+                type="text"
+                value={newClosure.reason}
+                onChange={(e) => setNewClosure(prev => ({ ...prev, reason: e.target.value }))}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Public holiday, doctor on leave..."
+              />
+            </div>
+            <button
+              type="button"
+              onClick={addClosure}
+              className="flex items-center justify-center space-x-2 px-4 py-3 border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-50"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Closure</span>
+            </button>
+          </div>
+
+          <div className="mt-6 space-y-2">
+            {closures.filter((closure) => closure.date >= getTodayKey()).length === 0 ? (
+              <p className="text-sm text-gray-500">No upcoming closures</p>
+            ) : (
+              closures
+                .filter((closure) => closure.date >= getTodayKey())
+                .map((closure) => {
+                  const affected = affectedVisits[closure.date] || [];
+                  return (
+                    <div
+                      key={closure.date}
+                      className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 p-3 bg-gray-50 rounded-lg"
+                    >
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{describeClosure(closure)}</div>
+                        {affected.length > 0 && (
+                          <div className="text-xs text-red-600">
+                            {affected.length} active booking(s) on this closure
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        {affected.length > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => cancelAffectedVisits(closure)}
+                            disabled={cancellingDate === closure.date}
+                            className="px-3 py-1 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                          >
+                            {cancellingDate === closure.date ? 'Cancelling...' : 'Cancel Bookings'}
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => removeClosure(closure.date)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                          title="Remove closure"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })
+            )}
+          </div>
+          {cancelledForClosure && (
+            <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+              <div className="flex items-start justify-between gap-2 mb-3">
+                <div>
+                  <div className="text-sm font-medium text-amber-900">
+                    Let these patients know their booking was cancelled
+                  </div>
+                  <div className="text-xs text-amber-800">{getClosureMessage(cancelledForClosure.closure)}</div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setCancelledForClosure(null)}
+                  className="text-xs text-amber-800 hover:underline"
+                >
+                  Dismiss
+                </button>
+              </div>
+              <ul className="text-sm text-gray-800 space-y-1 mb-3">
+                {cancelledForClosure.visits.map((visit) => (
+                  <li key={visit.id} className="flex justify-between gap-2">
+                    <span>
+                      {visit.name} <span className="text-gray-500">#{visit.token_number}</span>
+                    </span>
+                    <span className="font-mono">{visit.phone || 'No phone'}</span>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  onClick={() =>
+                    copyToClipboard(
+                      cancelledForClosure.visits
+                        .map((visit) => visit.phone)
+                        .filter(Boolean)
+                        .join('\n'),
+                      'Phone numbers'
+                    )
+                  }
+                  className="flex items-center space-x-1 px-3 py-1 text-sm bg-white border border-amber-300 text-amber-900 rounded-lg hover:bg-amber-100"
+                >
+                  <Copy className="w-4 h-4" />
+                  <span>Copy Numbers</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => copyToClipboard(getClosureMessage(cancelledForClosure.closure), 'Message')}
+                  className="flex items-center space-x-1 px-3 py-1 text-sm bg-white border border-amber-300 text-amber-900 rounded-lg hover:bg-amber-100"
+                >
+                  <Copy className="w-4 h-4" />
+                  <span>Copy Message</span>
+                </button>
+              </div>
+            </div>
+          )}
+          <p className="text-xs text-gray-500 mt-3">
+            Bookings are blocked on these dates once you save. Half-day closures cover the sessions before or after midday.
+          </p>
+        </div>
+
+        {/* Priority Lanes */}
+        <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+          <div className="flex items-center space-x-3 mb-6">
+            <Siren className="w-6 h-6 text-orange-600" />
+            <h2 className="text-xl font-semibold text-gray-900">Priority Lanes</h2>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase tracking-wider">
+                  <th className="py-2">Lane</th>
+                  <th className="py-2">Enabled</th>
+                  <th className="py-2">Rank</th>
+                  <th className="py-2">Max places skipped</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {priorityRules.map((rule) => (
+                  <tr key={rule.lane}>
+                    <td className="py-3 font-medium text-gray-900">{PRIORITY_LABELS[rule.lane]}</td>
+                    <td className="py-3">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={(e) => updatePriorityRule(rule.lane, { enabled: e.target.checked })}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                    </td>
+                    <td className="py-3">
+                      <input
+                        type="number"
+                        min="1"
+                        value={rule.rank}
+                        onChange={(e) => updatePriorityRule(rule.lane, { rank: Math.max(1, parseInt(e.target.value) || 1) })}
+                        className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </td>
+                    <td className="py-3">
+                      <input
+                        type="number"
+                        min="0"
+                        value={rule.max_skip ?? ''}
+                        onChange={(e) =>
+                          updatePriorityRule(rule.lane, {
+                            max_skip: e.target.value ? Math.max(0, parseInt(e.target.value) || 0) : null,
+                          })
+                        }
+                        className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="No limit"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500 mt-3">
+            When the front desk marks a patient, they move up behind everyone waiting with the same or a lower rank,
+            skipping at most the number of places set here.
+          </p>
+        </div>
+
+        {/* Waiting-Room Display */}
+        <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <Tv className="w-6 h-6 text-slate-700" />
+              <h2 className="text-xl font-semibold text-gray-900">Waiting-Room Display</h2>
+            </div>
+            <a
+              href="/display"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+            >
+              Open display
+            </a>
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-4 mb-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Consultation Room
+              </label>
+              <input
+                type="text"
+                name="consultation_room"
+                value={formData.consultation_room}
+                onChange={handleInputChange}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Room 1"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Announcement Language
+              </label>
+              <select
+                value={formData.call_announcement_language}
+                onChange={(e) => setFormData(prev => ({ ...prev, call_announcement_language: e.target.value }))}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {CALL_LANGUAGES.map((language) => (
+                  <option key={language.code} value={language.code}>{language.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-end">
+              <button
+                type="button"
+                onClick={testAnnouncement}
+                className="w-full flex items-center justify-center space-x-2 border border-blue-300 text-blue-700 px-4 py-3 rounded-lg hover:bg-blue-50"
+              >
+                <Volume2 className="w-4 h-4" />
+                <span>Test Announcement</span>
+              </button>
+            </div>
+            <div className="md:col-span-3">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Call Announcement
+              </label>
+              <input
+                type="text"
+                name="call_announcement_template"
+                value={formData.call_announcement_template}
+                onChange={handleInputChange}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder={DEFAULT_CALL_TEMPLATE}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Read out on the display after a chime. Use {'{token}'}, {'{uid}'} and {'{room}'}; write it in the chosen language.
+              </p>
+            </div>
+          </div>
+
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Announcements (one per line)
+          </label>
+          <textarea
+            value={announcements}
+            onChange={(e) => setAnnouncements(e.target.value)}
+            rows={4}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Please keep your phone on silent"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Shown in rotation at the bottom of the screen, followed by any upcoming holidays or leave.
+          </p>
+        </div>
+
         {/* Save Button */}
         <div className="flex justify-end">
           <button
@@ -449,33 +918,22 @@ export const AdminSettingsPage: React.FC = () => {
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Preview</h3>
         <div className="bg-gradient-to-r from-blue-50 to-green-50 rounded-lg p-6">
           <div className="text-center">
-            {formData.doctor_photo_url && (
-              <img 
-                src={formData.doctor_photo_url} 
-                alt={formData.doctor_name}
-                className="w-24 h-24 rounded-full mx-auto object-cover border-4 border-white shadow-lg mb-4"
-                onError={(e) => {
-                  const img = e.target as HTMLImageElement;
-                  img.style.display = 'none';
-                }}
-              />
-            )}
             <h4 className="text-xl font-bold text-gray-900">
               Welcome to {formData.clinic_name || 'Your Clinic'}
             </h4>
-            <p className="text-gray-600 mt-1">
-              {formData.doctor_name || 'Doctor Name'}, {formData.doctor_qualifications || 'Qualifications'}
-            </p>
             <p className="text-gray-600 text-sm mt-2">
               {formData.clinic_address || 'Clinic Address'}
             </p>
             <div className="flex justify-center space-x-6 mt-4 text-sm">
-              <div>
-                <span className="font-medium">Morning:</span> {formData.morning_shift || 'Not set'}
-              </div>
-              <div>
-                <span className="font-medium">Evening:</span> {formData.evening_shift || 'Not set'}
-              </div>
+              {openDays.length === 0 ? (
+                <div>No consultation hours set</div>
+              ) : (
+                schedule[openDays[0]].map((session, index) => (
+                  <div key={index}>
+                    <span className="font-medium">{session.label}:</span> {summariseSession(session)}
+                  </div>
+                ))
+              )}
             </div>
             <div className="mt-2">
               <span className="text-lg font-bold text-green-600">
@@ -0,0 +1,389 @@
+import React, { useState, useEffect } from 'react';
+import { db, isLocalBackend, LOCAL_INVITE_PASSWORD, StaffInvite } from '../../lib/data';
+import { useBranch } from '../../lib/branches';
+import { STAFF_ROLE_LABELS, useStaff } from '../../lib/staff';
+import { StaffProfile, StaffRole } from '../../types';
+import { UserCog, Plus, Save, Edit, X, KeyRound, UserX, UserCheck, Mail } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+
+const STAFF_ROLES = Object.keys(STAFF_ROLE_LABELS) as StaffRole[];
+
+const ROLE_DESCRIPTIONS: Record<StaffRole, string> = {
+  owner: 'Everything, including settings, doctors and staff',
+  doctor: 'Queue, consultation notes and prescriptions',
+  receptionist: 'Queue and payments; can read but not edit notes',
+  accountant: 'Payments and patient details, without clinical notes',
+};
+
+const EMPTY_FORM: StaffInvite = {
+  email: '',
+  full_name: '',
+  role: 'receptionist',
+  branch_ids: [],
+};
+
+export const AdminStaffPage: React.FC = () => {
+  const currentStaff = useStaff();
+  const { branches, branch } = useBranch();
+  const [members, setMembers] = useState<StaffProfile[]>([]);
+  // The staff member being edited: undefined when the form is closed, null when inviting someone new
+  const [editingId, setEditingId] = useState<string | null | undefined>(undefined);
+  const [formData, setFormData] = useState<StaffInvite>(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchStaff();
+  }, []);
+
+  const fetchStaff = async () => {
+    try {
+      setMembers(await db.staff.list());
+    } catch (error) {
+      console.error('Error fetching staff:', error);
+      toast.error('Failed to load staff');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Owners cannot demote or deactivate themselves, so there is always someone who can fix access
+  const isSelf = (member: StaffProfile) => member.user_id === currentStaff.id;
+
+  const openForm = (member?: StaffProfile) => {
+    if (member) {
+      setFormData({
+        email: member.email,
+        full_name: member.full_name,
+        role: member.role,
+        branch_ids: member.branch_ids,
+      });
+    } else {
+      setFormData({ ...EMPTY_FORM, branch_ids: branch ? [branch.id] : [] });
+    }
+    setEditingId(member ? member.id : null);
+  };
+
+  const toggleBranch = (branchId: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      branch_ids: prev.branch_ids.includes(branchId)
+        ? prev.branch_ids.filter((id) => id !== branchId)
+        : [...prev.branch_ids, branchId],
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.branch_ids.length === 0) {
+      toast.error('Choose at least one branch');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        await db.staff.update(editingId, {
+          full_name: formData.full_name.trim(),
+          role: formData.role,
+          branch_ids: formData.branch_ids,
+        });
+        toast.success('Staff member updated');
+      } else {
+        await db.staff.invite({ ...formData, full_name: formData.full_name.trim() });
+        toast.success(
+          isLocalBackend
+            ? `Added; they can sign in with the password ${LOCAL_INVITE_PASSWORD}`
+            : `Invitation sent to ${formData.email.trim()}`
+        );
+      }
+      setEditingId(undefined);
+      fetchStaff();
+    } catch (error) {
+      console.error('Error saving staff member:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save staff member');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (member: StaffProfile) => {
+    const name = member.full_name || member.email;
+    try {
+      await db.staff.update(member.id, { is_active: !member.is_active });
+      toast.success(member.is_active ? `${name} can no longer sign in` : `${name} can sign in again`);
+      fetchStaff();
+    } catch (error) {
+      console.error('Error updating staff access:', error);
+      toast.error('Failed to update access');
+    }
+  };
+
+  // Sends the invitation again, e.g. when the first email didn't arrive
+  const resendInvitation = async (member: StaffProfile) => {
+    try {
+      await db.staff.invite({
+        email: member.email,
+        full_name: member.full_name,
+        role: member.role,
+        branch_ids: member.branch_ids,
+      });
+      toast.success(isLocalBackend ? 'Invitation renewed' : `Invitation sent again to ${member.email}`);
+      fetchStaff();
+    } catch (error) {
+      console.error('Error resending invitation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to resend invitation');
+    }
+  };
+
+  const sendPasswordReset = async (member: StaffProfile) => {
+    try {
+      await db.auth.sendPasswordReset(member.email);
+      toast.success(
+        isLocalBackend
+          ? `Password reset to ${LOCAL_INVITE_PASSWORD}`
+          : `Password reset email sent to ${member.email}`
+      );
+    } catch (error) {
+      console.error('Error sending password reset:', error);
+      toast.error('Failed to send password reset');
+    }
+  };
+
+  const getBranchNames = (branchIds: string[]) =>
+    branches
+      .filter((candidate) => branchIds.includes(candidate.id))
+      .map((candidate) => candidate.name)
+      .join(', ') || 'None';
+
+  const getStatus = (member: StaffProfile) => {
+    if (!member.is_active) return { label: 'Deactivated', color: 'bg-gray-100 text-gray-700' };
+    if (!member.user_id) return { label: 'Invited', color: 'bg-yellow-100 text-yellow-800' };
+    return { label: 'Active', color: 'bg-green-100 text-green-800' };
+  };
+
+  const editingSelf = Boolean(editingId && members.some((member) => member.id === editingId && isSelf(member)));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Staff</h1>
+          <p className="text-gray-600 mt-1">Who can sign in to the admin panel, what they can do and where</p>
+        </div>
+        {editingId === undefined && (
+          <button
+            onClick={() => openForm()}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Invite Staff</span>
+          </button>
+        )}
+      </div>
+
+      {editingId !== undefined && (
+        <form onSubmit={handleSave} className="bg-white rounded-xl shadow-lg p-6 border border-gray-200 space-y-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <UserCog className="w-6 h-6 text-blue-600" />
+              <h2 className="text-xl font-semibold text-gray-900">
+                {editingId ? 'Edit Staff Member' : 'Invite Staff Member'}
+              </h2>
+            </div>
+            <button
+              type="button"
+              onClick={() => setEditingId(undefined)}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label="Close"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Email Address</label>
+              <input
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData((prev) => ({ ...prev, email: e.target.value }))}
+                required
+                disabled={Boolean(editingId)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500"
+                placeholder="name@example.com"
+              />
+              {!editingId && (
+                <p className="text-sm text-gray-500 mt-1">They will get an email with a link to choose a password.</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Full Name</label>
+              <input
+                type="text"
+                value={formData.full_name}
+                onChange={(e) => setFormData((prev) => ({ ...prev, full_name: e.target.value }))}
+                required
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Full name"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-3">Role</label>
+            <div className="grid md:grid-cols-2 gap-3">
+              {STAFF_ROLES.map((role) => (
+                <label
+                  key={role}
+                  className={`flex items-start space-x-3 p-4 border-2 rounded-lg cursor-pointer transition-colors ${
+                    formData.role === role ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                  } ${editingSelf ? 'opacity-60 cursor-not-allowed' : ''}`}
+                >
+                  <input
+                    type="radio"
+                    name="role"
+                    value={role}
+                    checked={formData.role === role}
+                    onChange={() => setFormData((prev) => ({ ...prev, role }))}
+                    disabled={editingSelf}
+                    className="mt-1 w-4 h-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                  />
+                  <div>
+                    <div className="font-semibold text-gray-900">{STAFF_ROLE_LABELS[role]}</div>
+                    <div className="text-sm text-gray-600">{ROLE_DESCRIPTIONS[role]}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
+            {editingSelf && <p className="text-sm text-gray-500 mt-2">You cannot change your own role.</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-3">Branches</label>
+            <div className="flex flex-wrap gap-3">
+              {branches.map((option) => (
+                <label
+                  key={option.id}
+                  className="flex items-center space-x-2 px-4 py-2 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50"
+                >
+                  <input
+                    type="checkbox"
+                    checked={formData.branch_ids.includes(option.id)}
+                    onChange={() => toggleBranch(option.id)}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700">{option.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-gradient-to-r from-blue-600 to-green-600 text-white px-8 py-3 rounded-lg font-semibold hover:from-blue-700 hover:to-green-700 focus:ring-4 focus:ring-blue-200 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center space-x-3"
+            >
+              {saving ? (
+                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+              ) : (
+                <Save className="w-5 h-5" />
+              )}
+              <span>{saving ? 'Saving...' : editingId ? 'Save Changes' : 'Send Invitation'}</span>
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Branches</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Sign-in</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {members.map((member) => {
+              const status = getStatus(member);
+              return (
+                <tr key={member.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">
+                      {member.full_name || member.email}
+                      {isSelf(member) && <span className="text-gray-500 font-normal"> (you)</span>}
+                    </div>
+                    {member.full_name && <div className="text-sm text-gray-500">{member.email}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{STAFF_ROLE_LABELS[member.role]}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{getBranchNames(member.branch_ids)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${status.color}`}>
+                      {status.label}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {member.last_sign_in_at ? format(new Date(member.last_sign_in_at), 'PPp') : 'Never'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <div className="flex items-center space-x-3">
+                      <button
+                        onClick={() => openForm(member)}
+                        className="text-blue-600 hover:text-blue-900"
+                        title="Edit role and branches"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      {!member.user_id && member.is_active && (
+                        <button
+                          onClick={() => resendInvitation(member)}
+                          className="text-yellow-600 hover:text-yellow-800"
+                          title="Resend invitation"
+                        >
+                          <Mail className="w-4 h-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => sendPasswordReset(member)}
+                        className="text-gray-600 hover:text-gray-900"
+                        title="Send password reset"
+                      >
+                        <KeyRound className="w-4 h-4" />
+                      </button>
+                      {!isSelf(member) && (
+                        <button
+                          onClick={() => toggleActive(member)}
+                          className={member.is_active ? 'text-red-600 hover:text-red-900' : 'text-green-600 hover:text-green-900'}
+                          title={member.is_active ? 'Deactivate' : 'Reactivate'}
+                        >
+                          {member.is_active ? <UserX className="w-4 h-4" /> : <UserCheck className="w-4 h-4" />}
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 export interface Visit {
   id: string;
   uid: string;
+  // Secret carried in the patient's QR code and booking links; with the UID it opens the patient pages
+  access_key?: string;
   token_number: number;
   name: string;
   age?: number;
@@ -13,22 +15,46 @@ export interface Visit {
   medical_history?: string;
   allergies?: string;
   current_medications?: string;
+  allergy_list?: AllergyEntry[] | null;
+  medication_list?: MedicationEntry[] | null;
   emergency_contact_name?: string;
   emergency_contact_phone?: string;
   payment_method: 'online' | 'clinic';
   payment_status: 'pending' | 'paid';
   payment_id?: string;
   payment_amount?: number;
-  visit_status: 'upcoming' | 'arrived' | 'in_consultation' | 'completed' | 'cancelled';
+  visit_status: 'upcoming' | 'arrived' | 'in_consultation' | 'completed' | 'cancelled' | 'no_show';
   queue_position: number;
+  // Each doctor has their own tokens and queue; visits from before doctors existed have none
+  doctor_id?: string | null;
+  // The branch the visit was booked at; visits from before branches existed have none
+  branch_id?: string | null;
+  // Set by the backend when the visit is created: the patient with the same name and phone number, or a new one
+  patient_id?: string | null;
+  // Set when someone books for a dependent under their own phone number: who booked, and how the patient is related
+  guardian_name?: string | null;
+  guardian_relationship?: GuardianRelationship | null;
+  priority?: PriorityLane | null;
+  // Shown to the patient when staff move them in the queue
+  position_change_reason?: string | null;
+  position_changed_at?: string | null;
+  appointment_date?: string;
+  appointment_slot?: string;
   estimated_time?: string;
   actual_wait_time?: number;
   consultation_start_time?: string;
   consultation_end_time?: string;
   created_at: string;
   arrived_at?: string;
+  called_at?: string | null;
+  call_count?: number;
+  no_show_at?: string | null;
+  requeued_at?: string | null;
+  // No-shows on earlier visits with the same phone number, counted when the visit is booked
+  prior_no_shows?: number;
   completed_at?: string;
   cancelled_at?: string;
+  cancellation_reason?: string;
   updated_at?: string;
   notes?: string;
   diagnosis?: string;
@@ -42,8 +68,237 @@ export interface Visit {
   feedback?: string;
 }
 
+// A visit as patients see it on the confirmation, tracking and visit pages; the phone number is masked.
+// Keep in sync with the public_visit type in the Supabase migrations.
+export type PublicVisit = Pick<
+  Visit,
+  | 'id'
+  | 'uid'
+  | 'access_key'
+  | 'token_number'
+  | 'name'
+  | 'age'
+  | 'phone'
+  | 'reason'
+  | 'payment_status'
+  | 'visit_status'
+  | 'queue_position'
+  | 'doctor_id'
+  | 'branch_id'
+  | 'position_change_reason'
+  | 'position_changed_at'
+  | 'appointment_date'
+  | 'appointment_slot'
+  | 'estimated_time'
+  | 'created_at'
+  | 'arrived_at'
+  | 'completed_at'
+  | 'cancellation_reason'
+  | 'notes'
+  | 'prescription_url'
+>;
+
+// Details kept on the patient rather than re-entered on each visit. Visits keep a copy as it was when booked.
+export interface PatientDetails {
+  name: string;
+  age?: number | null;
+  phone?: string | null;
+  email?: string | null;
+  gender?: 'male' | 'female' | 'other' | null;
+  address?: string | null;
+  emergency_contact_name?: string | null;
+  emergency_contact_phone?: string | null;
+  allergies?: string | null;
+  medical_history?: string | null;
+  current_medications?: string | null;
+  // Coded allergies and medications; the free-text fields above hold what was noted before these lists existed
+  allergy_list?: AllergyEntry[] | null;
+  medication_list?: MedicationEntry[] | null;
+}
+
+export type AllergySeverity = 'mild' | 'moderate' | 'severe';
+
+export interface AllergyEntry {
+  // One of the ALLERGENS in lib/medicalAlerts, or null for a substance typed in
+  code: string | null;
+  substance: string;
+  reaction: string | null;
+  severity: AllergySeverity;
+}
+
+export type MedicationFrequency =
+  | 'once_daily'
+  | 'twice_daily'
+  | 'three_times_daily'
+  | 'four_times_daily'
+  | 'at_bedtime'
+  | 'weekly'
+  | 'as_needed';
+
+export interface MedicationEntry {
+  drug: string;
+  dose: string | null;
+  frequency: MedicationFrequency | null;
+}
+
+export interface Patient extends PatientDetails {
+  id: string;
+  // Stable patient number shown to staff, e.g. P000123
+  code: string;
+  // Goes up by one whenever the details change; every version is kept in patient_versions
+  version: number;
+  // Set when the record was merged into another as a duplicate; merged records are kept so the merge can be undone
+  merged_into?: string | null;
+  // Set on dependents: the patient whose phone number they are booked under, and how they are related to them
+  guardian_id?: string | null;
+  guardian_relationship?: GuardianRelationship | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// How a dependent is related to the guardian who books for them
+export type GuardianRelationship = 'child' | 'spouse' | 'parent' | 'other';
+
+// The guardian a patient is booked by, and the dependents they book for
+export interface PatientFamily {
+  guardian: Patient | null;
+  dependents: Patient[];
+}
+
+// One duplicate record merged into another, with what was moved so the merge can be undone
+export interface PatientMerge {
+  id: string;
+  survivor_id: string;
+  merged_id: string;
+  survivor_code: string;
+  merged_code: string;
+  merged_name: string;
+  visit_ids: string[];
+  prescription_ids: string[];
+  // The merged record's dependents, whose guardian became the survivor
+  dependent_ids: string[];
+  // The surviving record's details before blanks were filled in from the duplicate
+  survivor_details: PatientDetails;
+  merged_by: string;
+  created_at: string;
+  undone_at?: string | null;
+  undone_by?: string | null;
+}
+
+// The patient's details as they were at one version, and who made that change
+export interface PatientVersion {
+  id: string;
+  patient_id: string;
+  version: number;
+  details: PatientDetails;
+  changed_by: string;
+  created_at: string;
+}
+
+// A patient a verified phone number has booked for, offered in the returning-patient booking flow. The patient has
+// proved they own the phone, so allergies and medications are included for prefilling.
+export type BookingProfile = Pick<
+  Patient,
+  | 'id'
+  | 'name'
+  | 'age'
+  | 'phone'
+  | 'gender'
+  | 'email'
+  | 'address'
+  | 'emergency_contact_name'
+  | 'emergency_contact_phone'
+  | 'allergies'
+  | 'current_medications'
+  | 'allergy_list'
+  | 'medication_list'
+  | 'guardian_id'
+  | 'guardian_relationship'
+> & {
+  guardian_name: string | null;
+  last_visit_at: string | null;
+};
+
+// What a staff account may do in the admin panel; see ROLE_PERMISSIONS in src/lib/staff.ts
+export type StaffRole = 'owner' | 'doctor' | 'receptionist' | 'accountant';
+
+// A staff member as managed on the Staff page
+export interface StaffProfile {
+  id: string;
+  // The sign-in account; null until the invitation is accepted
+  user_id: string | null;
+  email: string;
+  full_name: string;
+  role: StaffRole;
+  // Deactivated accounts keep their history but can no longer use the admin panel
+  is_active: boolean;
+  branch_ids: string[];
+  last_sign_in_at: string | null;
+  invited_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PriorityLane = 'emergency' | 'senior' | 'pregnant' | 'follow_up';
+
+export interface PriorityRule {
+  lane: PriorityLane;
+  enabled: boolean;
+  rank: number; // lower ranks are seen first
+  max_skip?: number | null; // most places a visit may jump; unset means no limit
+}
+
+export type Weekday = 'Monday' | 'Tuesday' | 'Wednesday' | 'Thursday' | 'Friday' | 'Saturday' | 'Sunday';
+
+export interface ScheduleSession {
+  label: string;
+  start: string; // "HH:mm"
+  end: string; // "HH:mm"
+  capacity?: number; // max bookings in the session; unset means one per slot
+}
+
+export type WeeklySchedule = Record<Weekday, ScheduleSession[]>;
+
+// Half-day closures cover the sessions starting before or after midday
+export type ClosurePart = 'full' | 'morning' | 'afternoon';
+
+export interface ClinicClosure {
+  date: string; // "yyyy-MM-dd"
+  part: ClosurePart;
+  reason: string;
+}
+
+// One location of the clinic group. Settings, doctors, visits and queue summaries each belong to a branch.
+export interface Branch {
+  id: string;
+  code: string; // prefix of the branch's UIDs, e.g. "XC" in XC-261018-A012
+  name: string;
+  is_active: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Doctor {
+  id: string;
+  branch_id?: string | null;
+  code: string; // letter in the doctor's UIDs, e.g. "B" in XC-261018-B012
+  name: string;
+  qualifications: string;
+  specialization?: string | null;
+  photo_url?: string | null;
+  consultation_fee: number;
+  weekly_schedule?: WeeklySchedule | null; // unset means the clinic's hours
+  room?: string | null;
+  is_active: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface ClinicSettings {
   id: string;
+  branch_id?: string | null;
   clinic_name: string;
   clinic_address: string;
   clinic_phone?: string;
@@ -54,17 +309,30 @@ export interface ClinicSettings {
   doctor_specialization?: string;
   morning_shift: string;
   evening_shift: string;
+  weekly_schedule?: WeeklySchedule | null;
   consultation_fee: number;
   online_payment_enabled?: boolean;
   clinic_payment_enabled?: boolean;
   average_consultation_time?: number;
   max_daily_appointments?: number;
+  self_service_cutoff_hours?: number;
+  timezone?: string; // IANA name, e.g. "Asia/Kolkata"
+  no_show_grace_minutes?: number;
+  no_show_requeue_enabled?: boolean;
+  no_show_flag_threshold?: number;
   emergency_contact?: string;
   clinic_logo_url?: string;
   website_url?: string;
   social_media?: any;
   operating_days?: string[];
   holiday_dates?: string[];
+  closures?: ClinicClosure[] | null;
+  priority_rules?: PriorityRule[] | null;
+  display_announcements?: string[] | null;
+  consultation_room?: string;
+  // Spoken on the display when a token is called; {token}, {uid} and {room} are filled in
+  call_announcement_template?: string;
+  call_announcement_language?: string; // BCP 47 tag, e.g. "en-IN"
   created_at: string;
   updated_at: string;
 }
@@ -72,23 +340,107 @@ export interface ClinicSettings {
 export interface QueueSummary {
   id: string;
   date: string;
+  branch_id?: string | null;
   total_appointments: number;
   total_waiting: number;
   total_completed: number;
   total_cancelled: number;
-  current_token?: number;
+  current_token?: number | null;
   last_completed_token?: number;
   estimated_wait_time: number;
+  estimated_wait_low?: number | null;
+  estimated_wait_high?: number | null;
+  // Expected wait for each waiting queue position, first position first
+  wait_estimates?: WaitEstimate[] | null;
   average_consultation_time: number;
   total_revenue: number;
+  // The same figures for each doctor's own queue
+  doctor_queues?: DoctorQueueSummary[] | null;
   updated_at: string;
 }
 
+export interface DoctorQueueSummary {
+  doctor_id: string | null;
+  current_token: number | null;
+  total_waiting: number;
+  estimated_wait_time: number;
+  estimated_wait_low: number;
+  estimated_wait_high: number;
+  wait_estimates: WaitEstimate[];
+}
+
+// A visit as shown on the public waiting-room display, without contact details
+export interface QueueBoardEntry {
+  token_number: number;
+  uid: string;
+  masked_name: string;
+  visit_status: Visit['visit_status'];
+  queue_position: number;
+  doctor_id?: string | null;
+  call_count: number;
+  called_at?: string | null;
+}
+
+// Minutes until a patient is seen, with a likely range
+export interface WaitEstimate {
+  minutes: number;
+  low: number;
+  high: number;
+}
+
+// One manual move of a waiting visit, kept as an audit trail
+export interface QueueMove {
+  id: string;
+  visit_id: string;
+  visit_uid: string;
+  visit_date: string;
+  from_position: number;
+  to_position: number;
+  reason: string;
+  // Set by the database from the signed-in staff member
+  moved_by: string;
+  moved_by_id?: string | null;
+  created_at: string;
+}
+
+export type AuditTable = 'visits' | 'prescriptions';
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+// A field's value before and after the change; null when it was (or became) empty
+export interface AuditFieldChange {
+  old: unknown;
+  new: unknown;
+}
+
+// One change to a visit or prescription. Entries are written by the backend and never changed or removed.
+export interface AuditEntry {
+  id: string;
+  table_name: AuditTable;
+  record_id: string;
+  // The visit the change belongs to: the changed visit itself, or the prescription's visit
+  visit_id: string | null;
+  visit_uid: string | null;
+  branch_id: string | null;
+  action: AuditAction;
+  // Only the fields that changed
+  changes: Record<string, AuditFieldChange>;
+  // The staff profile that made the change; null for patients
+  actor_id: string | null;
+  actor_name: string;
+  // Path of the page the change was made from, when known
+  source: string | null;
+  created_at: string;
+}
+
 export interface Prescription {
   id: string;
   visit_id: string;
   patient_name: string;
   patient_uid: string;
+  // Set by the backend from the visit; moves with the visit when duplicate patients are merged
+  patient_id?: string | null;
+  doctor_id?: string | null;
   doctor_name: string;
   prescription_date: string;
   medications: any[];
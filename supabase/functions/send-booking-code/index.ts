@@ -0,0 +1,48 @@
+// Creates a one-time booking code for a returning patient's phone number and texts it to them. The code never
+// reaches the browser; patients type it back in and verify_booking_code() checks it.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { getSmsProvider, SmsProvider } from './sms.ts';
+
+// Keep in sync with buildBookingCodeMessage in src/lib/bookingCodes.ts
+const buildMessage = (code: string) =>
+  `${code} is your booking code. It expires in 10 minutes. Don't share it with anyone.`;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-client-page',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } });
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') return new Response('ok', { headers: CORS_HEADERS });
+
+  const { phone } = await request.json().catch(() => ({ phone: null }));
+  if (typeof phone !== 'string') return json({ error: 'A phone number is required' }, 400);
+
+  // Checked before a code is created, so a misconfigured function doesn't use up the patient's codes
+  let provider: SmsProvider;
+  try {
+    provider = getSmsProvider();
+  } catch (configError) {
+    console.error('Error choosing SMS provider:', configError);
+    return json({ error: 'Booking codes are not available right now. Please book as a new patient' }, 500);
+  }
+
+  const client = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { data: code, error } = await client.rpc('create_booking_code', { p_phone: phone });
+  if (error) return json({ error: error.message }, 400);
+
+  // Numbers nobody has booked with get the same reply, without a text
+  if (code) {
+    try {
+      await provider.send(phone, buildMessage(code));
+    } catch (sendError) {
+      console.error('Error sending booking code:', sendError);
+      return json({ error: 'The code could not be sent. Please try again' }, 502);
+    }
+  }
+
+  return json({ sent: true });
+});
@@ -0,0 +1,54 @@
+// SMS providers for the booking-code function, chosen with the SMS_PROVIDER secret, which must be set. Add a provider
+// by implementing SmsProvider and listing it in PROVIDERS.
+export interface SmsProvider {
+  name: string;
+  send(phone: string, message: string): Promise<void>;
+}
+
+// Logs messages to the function's logs instead of sending them; only when SMS_PROVIDER=console is set for development
+const consoleProvider: SmsProvider = {
+  name: 'console',
+  async send(phone, message) {
+    console.info(`[SMS to ${phone}] ${message}`);
+  },
+};
+
+// Needs TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER
+const twilioProvider: SmsProvider = {
+  name: 'twilio',
+  async send(phone, message) {
+    const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+    const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+    const from = Deno.env.get('TWILIO_FROM_NUMBER');
+    if (!accountSid || !authToken || !from) throw new Error('Twilio is not configured');
+
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ To: phone, From: from, Body: message }),
+    });
+    if (!response.ok) throw new Error(`Twilio returned ${response.status}: ${await response.text()}`);
+  },
+};
+
+const PROVIDERS: Record<string, SmsProvider> = {
+  console: consoleProvider,
+  twilio: twilioProvider,
+};
+
+// Patients can't sign in without the text, so a missing secret is an error rather than a silent fall back to the logs
+export const getSmsProvider = (): SmsProvider => {
+  const name = Deno.env.get('SMS_PROVIDER');
+  if (!name) {
+    throw new Error(
+      `SMS_PROVIDER is not set. Set it to one of ${Object.keys(PROVIDERS).join(', ')}; use console only for development`
+    );
+  }
+
+  const provider = PROVIDERS[name];
+  if (!provider) throw new Error(`Unknown SMS_PROVIDER "${name}"`);
+  return provider;
+};
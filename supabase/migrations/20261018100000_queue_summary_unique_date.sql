@@ -0,0 +1,14 @@
+/*
+  # One queue summary row per day
+
+  1. Changes
+    - Collapse duplicate `queue_summary` rows for the same date, keeping the latest
+    - Add a unique index on `queue_summary.date` so the data layer can upsert on it
+*/
+
+DELETE FROM queue_summary a
+USING queue_summary b
+WHERE a.date = b.date
+  AND a.updated_at < b.updated_at;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_queue_summary_date_unique ON queue_summary(date);
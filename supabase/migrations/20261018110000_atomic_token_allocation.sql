@@ -0,0 +1,51 @@
+/*
+  # Atomic token and UID allocation
+
+  1. New Tables
+    - `daily_token_counters` - Last token handed out for each visit day
+
+  2. Functions
+    - `allocate_visit_token(p_day)` - Atomically reserves the next token for a day and
+      returns it with a UID in `XC-YYMMDD-NNN` format
+    - Drops the old `generate_uid()`, which read MAX(token_number) and raced under load
+
+  3. Security
+    - RLS on the counters table with no policies; it is only reachable through the
+      SECURITY DEFINER function, which anonymous patients may execute
+*/
+
+CREATE TABLE IF NOT EXISTS daily_token_counters (
+  day date PRIMARY KEY,
+  last_token integer NOT NULL DEFAULT 0,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE daily_token_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION allocate_visit_token(p_day date DEFAULT CURRENT_DATE)
+RETURNS TABLE (token_number integer, uid text) AS $$
+DECLARE
+  next_token integer;
+BEGIN
+  -- The first allocation of a day continues after any visits booked before this migration
+  INSERT INTO daily_token_counters AS counters (day, last_token)
+  VALUES (
+    p_day,
+    (SELECT COALESCE(MAX(v.token_number), 0) + 1 FROM visits v WHERE DATE(v.created_at) = p_day)
+  )
+  ON CONFLICT (day) DO UPDATE
+    SET last_token = counters.last_token + 1,
+        updated_at = now()
+  RETURNING counters.last_token INTO next_token;
+
+  token_number := next_token;
+  -- Keep in sync with generateUID in src/lib/supabase.ts
+  uid := 'XC-' || to_char(p_day, 'YYMMDD') || '-' || LPAD(next_token::text, 3, '0');
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION allocate_visit_token(date) FROM public;
+GRANT EXECUTE ON FUNCTION allocate_visit_token(date) TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS generate_uid();
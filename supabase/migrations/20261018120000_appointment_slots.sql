@@ -0,0 +1,44 @@
+/*
+  # Advance appointment scheduling
+
+  1. Changes to `visits`
+    - `appointment_date` - Day the visit is booked for (backfilled from `created_at`)
+    - `appointment_slot` - Chosen slot start time as "HH:MM"; NULL for walk-ins
+
+  2. Functions
+    - `allocate_visit_token` now seeds a day's counter from visits booked for that
+      appointment date rather than the day they were created
+*/
+
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS appointment_date date;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS appointment_slot text
+  CHECK (appointment_slot ~ '^[0-2][0-9]:[0-5][0-9]$');
+
+UPDATE visits SET appointment_date = DATE(created_at) WHERE appointment_date IS NULL;
+
+ALTER TABLE visits ALTER COLUMN appointment_date SET DEFAULT CURRENT_DATE;
+ALTER TABLE visits ALTER COLUMN appointment_date SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_visits_appointment ON visits(appointment_date, appointment_slot);
+
+CREATE OR REPLACE FUNCTION allocate_visit_token(p_day date DEFAULT CURRENT_DATE)
+RETURNS TABLE (token_number integer, uid text) AS $$
+DECLARE
+  next_token integer;
+BEGIN
+  INSERT INTO daily_token_counters AS counters (day, last_token)
+  VALUES (
+    p_day,
+    (SELECT COALESCE(MAX(v.token_number), 0) + 1 FROM visits v WHERE v.appointment_date = p_day)
+  )
+  ON CONFLICT (day) DO UPDATE
+    SET last_token = counters.last_token + 1,
+        updated_at = now()
+  RETURNING counters.last_token INTO next_token;
+
+  token_number := next_token;
+  -- Keep in sync with generateUID in src/lib/supabase.ts
+  uid := 'XC-' || to_char(p_day, 'YYMMDD') || '-' || LPAD(next_token::text, 3, '0');
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
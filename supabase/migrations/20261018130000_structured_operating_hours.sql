@@ -0,0 +1,39 @@
+/*
+  # Structured operating hours
+
+  1. Changes
+    - `clinic_settings.weekly_schedule` (jsonb): sessions per weekday, keyed by day name,
+      each `{ "label", "start": "HH:MM", "end": "HH:MM", "capacity"? }`
+    - Rows still on the seeded default shifts are converted; anything else stays null and the
+      app keeps deriving hours from `morning_shift`, `evening_shift` and `operating_days`
+
+  2. Notes
+    - The shift and operating-day columns are still written on save so older readers keep working
+*/
+
+ALTER TABLE clinic_settings
+  ADD COLUMN IF NOT EXISTS weekly_schedule jsonb;
+
+ALTER TABLE clinic_settings
+  DROP CONSTRAINT IF EXISTS clinic_settings_weekly_schedule_object;
+
+ALTER TABLE clinic_settings
+  ADD CONSTRAINT clinic_settings_weekly_schedule_object
+  CHECK (weekly_schedule IS NULL OR jsonb_typeof(weekly_schedule) = 'object');
+
+UPDATE clinic_settings
+SET weekly_schedule = (
+  SELECT jsonb_object_agg(
+    day,
+    CASE
+      WHEN operating_days IS NULL OR day = ANY (operating_days) THEN
+        '[{"label": "Morning", "start": "09:00", "end": "13:00"},
+          {"label": "Evening", "start": "17:00", "end": "21:00"}]'::jsonb
+      ELSE '[]'::jsonb
+    END
+  )
+  FROM unnest(ARRAY['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']) AS day
+)
+WHERE weekly_schedule IS NULL
+  AND morning_shift = '9:00 AM - 1:00 PM'
+  AND evening_shift = '5:00 PM - 9:00 PM';
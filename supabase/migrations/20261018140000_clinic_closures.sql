@@ -0,0 +1,35 @@
+/*
+  # Holiday and leave calendar
+
+  1. Changes
+    - `clinic_settings.closures` (jsonb): array of `{ "date": "YYYY-MM-DD", "part", "reason" }`
+      where `part` is `full`, `morning` or `afternoon`
+    - Existing `holiday_dates` are converted to full-day closures
+    - `visits.cancellation_reason` (text): shown to the patient when the clinic cancels a booking
+
+  2. Notes
+    - `holiday_dates` is still written with the full-day closure dates so older readers keep working
+*/
+
+ALTER TABLE clinic_settings
+  ADD COLUMN IF NOT EXISTS closures jsonb;
+
+ALTER TABLE clinic_settings
+  DROP CONSTRAINT IF EXISTS clinic_settings_closures_array;
+
+ALTER TABLE clinic_settings
+  ADD CONSTRAINT clinic_settings_closures_array
+  CHECK (closures IS NULL OR jsonb_typeof(closures) = 'array');
+
+UPDATE clinic_settings
+SET closures = COALESCE(
+  (
+    SELECT jsonb_agg(jsonb_build_object('date', holiday, 'part', 'full', 'reason', 'Holiday') ORDER BY holiday)
+    FROM unnest(holiday_dates) AS holiday
+  ),
+  '[]'::jsonb
+)
+WHERE closures IS NULL;
+
+ALTER TABLE visits
+  ADD COLUMN IF NOT EXISTS cancellation_reason text;
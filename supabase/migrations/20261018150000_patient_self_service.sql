@@ -0,0 +1,133 @@
+/*
+  # Patient self-service cancellation and rescheduling
+
+  1. Changes
+    - `clinic_settings.self_service_cutoff_hours` - Patients may change a booking online until
+      this many hours before it starts (default 2)
+
+  2. Functions
+    - `renumber_queue(p_day)` - Re-sequences `queue_position` 1..n among visits still waiting
+    - `cancel_visit_by_patient(p_uid, p_phone_digits)` - Cancels an upcoming booking
+    - `reschedule_visit_by_patient(p_uid, p_phone_digits, p_day, p_slot)` - Moves an upcoming
+      booking to a free slot; moving to another day takes that day's next token but keeps the UID
+
+  3. Security
+    - Patients prove ownership with the last 4 digits of the booking phone number
+    - The functions are SECURITY DEFINER so anonymous patients never get UPDATE on `visits`
+    - Error messages match the local backend in src/lib/data/localBackend.ts
+*/
+
+ALTER TABLE clinic_settings
+  ADD COLUMN IF NOT EXISTS self_service_cutoff_hours integer DEFAULT 2
+  CHECK (self_service_cutoff_hours >= 0);
+
+CREATE OR REPLACE FUNCTION renumber_queue(p_day date)
+RETURNS void AS $$
+  UPDATE visits v
+  SET queue_position = ordered.position
+  FROM (
+    SELECT id, row_number() OVER (ORDER BY queue_position, token_number) AS position
+    FROM visits
+    WHERE appointment_date = p_day AND visit_status IN ('upcoming', 'arrived')
+  ) ordered
+  WHERE v.id = ordered.id AND v.queue_position IS DISTINCT FROM ordered.position;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Locks and returns the visit after checking ownership and the cutoff window
+CREATE OR REPLACE FUNCTION claim_visit_for_patient(p_uid text, p_phone_digits text)
+RETURNS visits AS $$
+DECLARE
+  target visits;
+  digits text := regexp_replace(COALESCE(p_phone_digits, ''), '\D', '', 'g');
+  cutoff integer;
+BEGIN
+  SELECT * INTO target FROM visits WHERE uid = p_uid FOR UPDATE;
+
+  IF NOT FOUND
+    OR length(digits) <> 4
+    OR right(regexp_replace(COALESCE(target.phone, ''), '\D', '', 'g'), 4) <> digits THEN
+    RAISE EXCEPTION 'We could not find a booking with that UID and phone number';
+  END IF;
+
+  IF target.visit_status <> 'upcoming' THEN
+    RAISE EXCEPTION 'Only upcoming bookings can be changed online';
+  END IF;
+
+  SELECT COALESCE(self_service_cutoff_hours, 2) INTO cutoff FROM clinic_settings LIMIT 1;
+  cutoff := COALESCE(cutoff, 2);
+
+  IF target.appointment_date + COALESCE(target.appointment_slot::time, time '00:00')
+      - make_interval(hours => cutoff) < localtimestamp THEN
+    RAISE EXCEPTION 'Bookings can only be changed online up to % hours before the appointment', cutoff;
+  END IF;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION cancel_visit_by_patient(p_uid text, p_phone_digits text)
+RETURNS SETOF visits AS $$
+DECLARE
+  target visits := claim_visit_for_patient(p_uid, p_phone_digits);
+BEGIN
+  UPDATE visits
+  SET visit_status = 'cancelled',
+      cancelled_at = now(),
+      cancellation_reason = 'Cancelled by patient',
+      updated_at = now()
+  WHERE id = target.id;
+
+  PERFORM renumber_queue(target.appointment_date);
+
+  RETURN QUERY SELECT * FROM visits WHERE id = target.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION reschedule_visit_by_patient(p_uid text, p_phone_digits text, p_day date, p_slot text)
+RETURNS SETOF visits AS $$
+DECLARE
+  target visits := claim_visit_for_patient(p_uid, p_phone_digits);
+  new_token integer;
+BEGIN
+  IF p_day + p_slot::time <= localtimestamp THEN
+    RAISE EXCEPTION 'Please choose a time in the future';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM visits
+    WHERE id <> target.id
+      AND appointment_date = p_day
+      AND appointment_slot = p_slot
+      AND visit_status NOT IN ('cancelled', 'no_show')
+  ) THEN
+    RAISE EXCEPTION 'That slot is no longer available';
+  END IF;
+
+  IF p_day <> target.appointment_date THEN
+    SELECT allocated.token_number INTO new_token FROM allocate_visit_token(p_day) allocated;
+  END IF;
+
+  UPDATE visits
+  SET appointment_date = p_day,
+      appointment_slot = p_slot,
+      estimated_time = to_char(p_slot::time, 'FMHH12:MI AM'),
+      token_number = COALESCE(new_token, token_number),
+      queue_position = COALESCE(new_token, queue_position),
+      updated_at = now()
+  WHERE id = target.id;
+
+  PERFORM renumber_queue(target.appointment_date);
+  PERFORM renumber_queue(p_day);
+
+  RETURN QUERY SELECT * FROM visits WHERE id = target.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION renumber_queue(date) FROM public;
+REVOKE ALL ON FUNCTION claim_visit_for_patient(text, text) FROM public;
+REVOKE ALL ON FUNCTION cancel_visit_by_patient(text, text) FROM public;
+REVOKE ALL ON FUNCTION reschedule_visit_by_patient(text, text, date, text) FROM public;
+
+GRANT EXECUTE ON FUNCTION renumber_queue(date) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION cancel_visit_by_patient(text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_visit_by_patient(text, text, date, text) TO anon, authenticated;
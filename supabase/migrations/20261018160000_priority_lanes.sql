@@ -0,0 +1,27 @@
+/*
+  # Priority and emergency queue lanes
+
+  1. Changes to `visits`
+    - `priority` - `emergency`, `senior`, `pregnant` or `follow_up`; NULL for regular visits
+    - `position_change_reason` - Why staff last moved the patient, shown on the tracking page
+    - `position_changed_at` - When that happened
+
+  2. Changes to `clinic_settings`
+    - `priority_rules` (jsonb): array of `{ "lane", "enabled", "rank", "max_skip" }`;
+      NULL uses the defaults in src/lib/queue.ts
+*/
+
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS priority text
+  CHECK (priority IN ('emergency', 'senior', 'pregnant', 'follow_up'));
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS position_change_reason text;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS position_changed_at timestamptz;
+
+ALTER TABLE clinic_settings
+  ADD COLUMN IF NOT EXISTS priority_rules jsonb;
+
+ALTER TABLE clinic_settings
+  DROP CONSTRAINT IF EXISTS clinic_settings_priority_rules_array;
+
+ALTER TABLE clinic_settings
+  ADD CONSTRAINT clinic_settings_priority_rules_array
+  CHECK (priority_rules IS NULL OR jsonb_typeof(priority_rules) = 'array');
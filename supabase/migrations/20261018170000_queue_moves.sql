@@ -0,0 +1,39 @@
+/*
+  # Manual queue reordering audit trail
+
+  1. New Tables
+    - `queue_moves` - One row per manual move of a waiting visit: who moved it, from and to
+      which position, and why
+
+  2. Security
+    - RLS enabled; only signed-in staff can read or add moves, and rows are never updated
+      or deleted
+*/
+
+CREATE TABLE IF NOT EXISTS queue_moves (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  visit_id uuid NOT NULL REFERENCES visits(id) ON DELETE CASCADE,
+  visit_uid text NOT NULL,
+  visit_date date NOT NULL,
+  from_position integer NOT NULL,
+  to_position integer NOT NULL,
+  reason text NOT NULL,
+  moved_by text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_queue_moves_visit_date ON queue_moves(visit_date, created_at DESC);
+
+ALTER TABLE queue_moves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read queue moves"
+  ON queue_moves
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can record queue moves"
+  ON queue_moves
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
@@ -0,0 +1,48 @@
+/*
+  # No-show detection and handling
+
+  1. Changes to `visits`
+    - `called_at` - When the patient was last called; the no-show clock starts here
+    - `no_show_at` - When the visit was marked as a no-show
+    - `requeued_at` - When a no-show who arrived late re-joined the end of the queue
+    - `prior_no_shows` - No-shows on earlier visits with the same phone number, set on insert
+
+  2. Changes to `clinic_settings`
+    - `no_show_grace_minutes` - Minutes after the call (or slot) before a visit is a no-show
+    - `no_show_requeue_enabled` - Whether late arrivals may re-join the queue
+    - `no_show_flag_threshold` - Prior no-shows at which staff see a warning
+
+  3. Functions
+    - `flag_repeat_no_shows()` trigger fills `prior_no_shows` so the count is available to staff
+      without patients being able to read each other's history
+*/
+
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS called_at timestamptz;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS no_show_at timestamptz;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS requeued_at timestamptz;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS prior_no_shows integer NOT NULL DEFAULT 0;
+
+ALTER TABLE clinic_settings ADD COLUMN IF NOT EXISTS no_show_grace_minutes integer DEFAULT 15
+  CHECK (no_show_grace_minutes > 0);
+ALTER TABLE clinic_settings ADD COLUMN IF NOT EXISTS no_show_requeue_enabled boolean DEFAULT true;
+ALTER TABLE clinic_settings ADD COLUMN IF NOT EXISTS no_show_flag_threshold integer DEFAULT 2
+  CHECK (no_show_flag_threshold > 0);
+
+CREATE INDEX IF NOT EXISTS idx_visits_phone_status ON visits(phone, visit_status);
+
+CREATE OR REPLACE FUNCTION flag_repeat_no_shows()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.phone IS NOT NULL THEN
+    SELECT COUNT(*) INTO NEW.prior_no_shows
+    FROM visits
+    WHERE phone = NEW.phone AND visit_status = 'no_show';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS flag_repeat_no_shows ON visits;
+CREATE TRIGGER flag_repeat_no_shows
+  BEFORE INSERT ON visits
+  FOR EACH ROW EXECUTE FUNCTION flag_repeat_no_shows();
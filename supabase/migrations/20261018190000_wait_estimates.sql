@@ -0,0 +1,16 @@
+/*
+  # Learned wait estimates
+
+  1. Changes to `queue_summary`
+    - `estimated_wait_low` / `estimated_wait_high` - Likely range, in minutes, for someone joining the queue now
+    - `wait_estimates` - Expected wait and range for each waiting queue position, first position first.
+      Keyed by position rather than visit so the public tracking page can read it without seeing who is queued.
+
+  2. Notes
+    - `average_consultation_time` now holds the rolling average learned from recent consultations
+      rather than the configured default
+*/
+
+ALTER TABLE queue_summary ADD COLUMN IF NOT EXISTS estimated_wait_low integer;
+ALTER TABLE queue_summary ADD COLUMN IF NOT EXISTS estimated_wait_high integer;
+ALTER TABLE queue_summary ADD COLUMN IF NOT EXISTS wait_estimates jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,43 @@
+/*
+  # Waiting-room display
+
+  1. Changes
+    - `clinic_settings.display_announcements` - Messages rotated on the waiting-room screen
+
+  2. Functions
+    - `mask_patient_name(p_name)` - "Ravi Kumar" becomes "R*** K."; mirrors maskPatientName in src/lib/queue.ts
+    - `get_queue_board(p_day)` - The visit in consultation followed by everyone waiting, in queue order,
+      with only token, UID, masked name, status and position
+
+  3. Security
+    - `get_queue_board` is SECURITY DEFINER so the display never needs to read names or phone numbers
+*/
+
+ALTER TABLE clinic_settings ADD COLUMN IF NOT EXISTS display_announcements text[] NOT NULL DEFAULT '{}';
+
+CREATE OR REPLACE FUNCTION mask_patient_name(p_name text)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN words[1] IS NULL THEN ''
+    WHEN array_length(words, 1) = 1 THEN upper(left(words[1], 1)) || '***'
+    ELSE upper(left(words[1], 1)) || '*** ' || upper(left(words[array_length(words, 1)], 1)) || '.'
+  END
+  FROM (SELECT regexp_split_to_array(btrim(COALESCE(p_name, '')), '\s+') AS words) parts;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION get_queue_board(p_day date)
+RETURNS TABLE (
+  token_number integer,
+  uid text,
+  masked_name text,
+  visit_status text,
+  queue_position integer
+) AS $$
+  SELECT v.token_number, v.uid, mask_patient_name(v.name), v.visit_status, v.queue_position
+  FROM visits v
+  WHERE v.appointment_date = p_day
+    AND v.visit_status IN ('in_consultation', 'upcoming', 'arrived')
+  ORDER BY v.visit_status <> 'in_consultation', v.queue_position, v.token_number;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_queue_board(date) TO anon, authenticated;
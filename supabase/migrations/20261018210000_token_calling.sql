@@ -0,0 +1,45 @@
+/*
+  # Audible token calling
+
+  1. Changes to `visits`
+    - `call_count` - How many times the patient has been called; each call also moves `called_at`
+
+  2. Changes to `clinic_settings`
+    - `consultation_room` - Where called patients are sent
+    - `call_announcement_template` - Spoken on the display; {token}, {uid} and {room} are filled in
+    - `call_announcement_language` - BCP 47 language tag for the speech voice
+
+  3. Functions
+    - `get_queue_board(p_day)` now also returns `call_count` and `called_at`, so the display can
+      announce each new call
+*/
+
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS call_count integer NOT NULL DEFAULT 0;
+
+ALTER TABLE clinic_settings ADD COLUMN IF NOT EXISTS consultation_room text DEFAULT 'Room 1';
+ALTER TABLE clinic_settings ADD COLUMN IF NOT EXISTS call_announcement_template text
+  DEFAULT 'Token {token}, please proceed to {room}';
+ALTER TABLE clinic_settings ADD COLUMN IF NOT EXISTS call_announcement_language text DEFAULT 'en-IN';
+
+-- The returned columns change, so the function has to be recreated
+DROP FUNCTION IF EXISTS get_queue_board(date);
+
+CREATE FUNCTION get_queue_board(p_day date)
+RETURNS TABLE (
+  token_number integer,
+  uid text,
+  masked_name text,
+  visit_status text,
+  queue_position integer,
+  call_count integer,
+  called_at timestamptz
+) AS $$
+  SELECT v.token_number, v.uid, mask_patient_name(v.name), v.visit_status, v.queue_position,
+    v.call_count, v.called_at
+  FROM visits v
+  WHERE v.appointment_date = p_day
+    AND v.visit_status IN ('in_consultation', 'upcoming', 'arrived')
+  ORDER BY v.visit_status <> 'in_consultation', v.queue_position, v.token_number;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_queue_board(date) TO anon, authenticated;
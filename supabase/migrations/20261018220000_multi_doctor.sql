@@ -0,0 +1,179 @@
+/*
+  # Multiple doctors with their own queues
+
+  1. New Tables
+    - `doctors` - Name, qualifications, specialization, photo, fee, room and an optional weekly
+      schedule (NULL follows the clinic's hours). `code` is the letter in the doctor's UIDs.
+    - Seeded with the doctor from `clinic_settings`, code 'A'
+
+  2. Changes
+    - `visits.doctor_id`, `prescriptions.doctor_id` - Existing rows are assigned to the seeded doctor
+    - `daily_token_counters` is keyed by day and doctor, so each doctor's tokens start at 1
+    - `queue_summary.doctor_queues` - Per-doctor current token, waiting count and wait estimates
+
+  3. Functions
+    - `allocate_visit_token(p_day, p_doctor_id)` replaces `allocate_visit_token(p_day)`; UIDs become
+      `XC-YYMMDD-DNNN` where D is the doctor's code
+    - `renumber_queue(p_day)` numbers each doctor's waiting visits separately
+    - `reschedule_visit_by_patient` checks slots and allocates tokens within the visit's doctor
+    - `get_queue_board(p_day)` also returns `doctor_id`
+
+  4. Security
+    - Anyone can read doctors; authenticated staff manage them
+*/
+
+CREATE TABLE IF NOT EXISTS doctors (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code text NOT NULL UNIQUE CHECK (code ~ '^[A-Z]{1,2}$'),
+  name text NOT NULL,
+  qualifications text NOT NULL DEFAULT '',
+  specialization text,
+  photo_url text,
+  consultation_fee numeric NOT NULL DEFAULT 500,
+  weekly_schedule jsonb,
+  room text,
+  is_active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 1,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE doctors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read doctors" ON doctors FOR SELECT TO public USING (true);
+CREATE POLICY "Authenticated users can manage doctors" ON doctors FOR ALL TO authenticated USING (true);
+
+INSERT INTO doctors (code, name, qualifications, specialization, photo_url, consultation_fee, room)
+SELECT 'A', doctor_name, doctor_qualifications, doctor_specialization, doctor_photo_url, consultation_fee,
+  consultation_room
+FROM clinic_settings
+WHERE NOT EXISTS (SELECT 1 FROM doctors)
+LIMIT 1;
+
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS doctor_id uuid REFERENCES doctors(id);
+ALTER TABLE prescriptions ADD COLUMN IF NOT EXISTS doctor_id uuid REFERENCES doctors(id);
+
+UPDATE visits SET doctor_id = (SELECT id FROM doctors WHERE code = 'A') WHERE doctor_id IS NULL;
+UPDATE prescriptions SET doctor_id = (SELECT id FROM doctors WHERE code = 'A') WHERE doctor_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_visits_doctor_day ON visits(doctor_id, appointment_date);
+
+ALTER TABLE daily_token_counters ADD COLUMN IF NOT EXISTS doctor_id uuid REFERENCES doctors(id);
+UPDATE daily_token_counters SET doctor_id = (SELECT id FROM doctors WHERE code = 'A') WHERE doctor_id IS NULL;
+ALTER TABLE daily_token_counters ALTER COLUMN doctor_id SET NOT NULL;
+ALTER TABLE daily_token_counters DROP CONSTRAINT IF EXISTS daily_token_counters_pkey;
+ALTER TABLE daily_token_counters ADD PRIMARY KEY (day, doctor_id);
+
+ALTER TABLE queue_summary ADD COLUMN IF NOT EXISTS doctor_queues jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+DROP FUNCTION IF EXISTS allocate_visit_token(date);
+
+CREATE FUNCTION allocate_visit_token(p_day date, p_doctor_id uuid)
+RETURNS TABLE (token_number integer, uid text) AS $$
+DECLARE
+  next_token integer;
+  doctor_code text;
+BEGIN
+  SELECT code INTO doctor_code FROM doctors WHERE id = p_doctor_id;
+  IF doctor_code IS NULL THEN
+    RAISE EXCEPTION 'Unknown doctor';
+  END IF;
+
+  INSERT INTO daily_token_counters AS counters (day, doctor_id, last_token)
+  VALUES (
+    p_day,
+    p_doctor_id,
+    (SELECT COALESCE(MAX(v.token_number), 0) + 1 FROM visits v
+      WHERE v.appointment_date = p_day AND v.doctor_id = p_doctor_id)
+  )
+  ON CONFLICT (day, doctor_id) DO UPDATE
+    SET last_token = counters.last_token + 1,
+        updated_at = now()
+  RETURNING counters.last_token INTO next_token;
+
+  token_number := next_token;
+  -- Keep in sync with generateUID in src/lib/supabase.ts
+  uid := 'XC-' || to_char(p_day, 'YYMMDD') || '-' || doctor_code || LPAD(next_token::text, 3, '0');
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION allocate_visit_token(date, uuid) FROM public;
+GRANT EXECUTE ON FUNCTION allocate_visit_token(date, uuid) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION renumber_queue(p_day date)
+RETURNS void AS $$
+  UPDATE visits v
+  SET queue_position = ordered.position
+  FROM (
+    SELECT id, row_number() OVER (PARTITION BY doctor_id ORDER BY queue_position, token_number) AS position
+    FROM visits
+    WHERE appointment_date = p_day AND visit_status IN ('upcoming', 'arrived')
+  ) ordered
+  WHERE v.id = ordered.id AND v.queue_position IS DISTINCT FROM ordered.position;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION reschedule_visit_by_patient(p_uid text, p_phone_digits text, p_day date, p_slot text)
+RETURNS SETOF visits AS $$
+DECLARE
+  target visits := claim_visit_for_patient(p_uid, p_phone_digits);
+  new_token integer;
+BEGIN
+  IF p_day + p_slot::time <= localtimestamp THEN
+    RAISE EXCEPTION 'Please choose a time in the future';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM visits
+    WHERE id <> target.id
+      AND doctor_id IS NOT DISTINCT FROM target.doctor_id
+      AND appointment_date = p_day
+      AND appointment_slot = p_slot
+      AND visit_status NOT IN ('cancelled', 'no_show')
+  ) THEN
+    RAISE EXCEPTION 'That slot is no longer available';
+  END IF;
+
+  IF p_day <> target.appointment_date THEN
+    SELECT allocated.token_number INTO new_token
+    FROM allocate_visit_token(p_day, target.doctor_id) allocated;
+  END IF;
+
+  UPDATE visits
+  SET appointment_date = p_day,
+      appointment_slot = p_slot,
+      estimated_time = to_char(p_slot::time, 'FMHH12:MI AM'),
+      token_number = COALESCE(new_token, token_number),
+      queue_position = COALESCE(new_token, queue_position),
+      updated_at = now()
+  WHERE id = target.id;
+
+  PERFORM renumber_queue(target.appointment_date);
+  PERFORM renumber_queue(p_day);
+
+  RETURN QUERY SELECT * FROM visits WHERE id = target.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS get_queue_board(date);
+
+CREATE FUNCTION get_queue_board(p_day date)
+RETURNS TABLE (
+  token_number integer,
+  uid text,
+  masked_name text,
+  visit_status text,
+  queue_position integer,
+  doctor_id uuid,
+  call_count integer,
+  called_at timestamptz
+) AS $$
+  SELECT v.token_number, v.uid, mask_patient_name(v.name), v.visit_status, v.queue_position,
+    v.doctor_id, v.call_count, v.called_at
+  FROM visits v
+  WHERE v.appointment_date = p_day
+    AND v.visit_status IN ('in_consultation', 'upcoming', 'arrived')
+  ORDER BY v.visit_status <> 'in_consultation', v.queue_position, v.token_number;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_queue_board(date) TO anon, authenticated;
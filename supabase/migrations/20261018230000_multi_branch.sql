@@ -0,0 +1,164 @@
+/*
+  # Branches of the clinic group
+
+  1. New Tables
+    - `branches` - One location of the group. `code` starts every UID booked there (e.g. BLR-261018-A004).
+      Seeded with the existing clinic as 'XC', so UIDs already issued keep their prefix.
+    - `branch_staff` - Which branches each staff account may manage. Every existing account is given the
+      seeded branch.
+
+  2. Changes
+    - `clinic_settings`, `doctors`, `visits`, `queue_summary` get `branch_id`; existing rows belong to the
+      seeded branch
+    - `queue_summary` is unique per date and branch instead of per date
+    - Doctor codes are unique within a branch rather than across the group
+
+  3. Functions
+    - `is_branch_staff(p_branch_id)` - Whether the signed-in user is assigned to the branch
+    - `allocate_visit_token(p_day, p_doctor_id)` prefixes UIDs with the code of the doctor's branch
+    - `get_queue_board(p_day, p_branch_id)` replaces `get_queue_board(p_day)`
+
+  4. Security
+    - Anyone can read branches; staff can read their own assignments
+    - Staff can only change settings, doctors, visits, prescriptions and queue summaries of their branches
+*/
+
+CREATE TABLE IF NOT EXISTS branches (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code text NOT NULL UNIQUE CHECK (code ~ '^[A-Z]{2,4}$'),
+  name text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 1,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS branch_staff (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  branch_id uuid NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, branch_id)
+);
+
+INSERT INTO branches (code, name)
+SELECT 'XC', COALESCE((SELECT clinic_name FROM clinic_settings LIMIT 1), 'Main Branch')
+WHERE NOT EXISTS (SELECT 1 FROM branches);
+
+INSERT INTO branch_staff (user_id, branch_id)
+SELECT u.id, b.id FROM auth.users u CROSS JOIN branches b WHERE b.code = 'XC'
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE clinic_settings ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES branches(id);
+ALTER TABLE doctors ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES branches(id);
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES branches(id);
+ALTER TABLE queue_summary ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES branches(id);
+
+UPDATE clinic_settings SET branch_id = (SELECT id FROM branches WHERE code = 'XC') WHERE branch_id IS NULL;
+UPDATE doctors SET branch_id = (SELECT id FROM branches WHERE code = 'XC') WHERE branch_id IS NULL;
+UPDATE visits SET branch_id = (SELECT id FROM branches WHERE code = 'XC') WHERE branch_id IS NULL;
+UPDATE queue_summary SET branch_id = (SELECT id FROM branches WHERE code = 'XC') WHERE branch_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_clinic_settings_branch_unique ON clinic_settings(branch_id);
+CREATE INDEX IF NOT EXISTS idx_visits_branch_day ON visits(branch_id, appointment_date);
+
+DROP INDEX IF EXISTS idx_queue_summary_date_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_queue_summary_date_branch_unique ON queue_summary(date, branch_id);
+
+ALTER TABLE doctors DROP CONSTRAINT IF EXISTS doctors_code_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_doctors_branch_code_unique ON doctors(branch_id, code);
+
+CREATE OR REPLACE FUNCTION is_branch_staff(p_branch_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM branch_staff WHERE user_id = auth.uid() AND branch_id = p_branch_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_branch_staff(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION allocate_visit_token(p_day date, p_doctor_id uuid)
+RETURNS TABLE (token_number integer, uid text) AS $$
+DECLARE
+  next_token integer;
+  doctor_code text;
+  branch_code text;
+BEGIN
+  SELECT d.code, b.code INTO doctor_code, branch_code
+  FROM doctors d
+  LEFT JOIN branches b ON b.id = d.branch_id
+  WHERE d.id = p_doctor_id;
+  IF doctor_code IS NULL THEN
+    RAISE EXCEPTION 'Unknown doctor';
+  END IF;
+
+  INSERT INTO daily_token_counters AS counters (day, doctor_id, last_token)
+  VALUES (
+    p_day,
+    p_doctor_id,
+    (SELECT COALESCE(MAX(v.token_number), 0) + 1 FROM visits v
+      WHERE v.appointment_date = p_day AND v.doctor_id = p_doctor_id)
+  )
+  ON CONFLICT (day, doctor_id) DO UPDATE
+    SET last_token = counters.last_token + 1,
+        updated_at = now()
+  RETURNING counters.last_token INTO next_token;
+
+  token_number := next_token;
+  -- Keep in sync with generateUID in src/lib/supabase.ts
+  uid := COALESCE(branch_code, 'XC') || '-' || to_char(p_day, 'YYMMDD') || '-' || doctor_code
+    || LPAD(next_token::text, 3, '0');
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS get_queue_board(date);
+
+CREATE FUNCTION get_queue_board(p_day date, p_branch_id uuid)
+RETURNS TABLE (
+  token_number integer,
+  uid text,
+  masked_name text,
+  visit_status text,
+  queue_position integer,
+  doctor_id uuid,
+  call_count integer,
+  called_at timestamptz
+) AS $$
+  SELECT v.token_number, v.uid, mask_patient_name(v.name), v.visit_status, v.queue_position,
+    v.doctor_id, v.call_count, v.called_at
+  FROM visits v
+  WHERE v.appointment_date = p_day
+    AND v.branch_id IS NOT DISTINCT FROM p_branch_id
+    AND v.visit_status IN ('in_consultation', 'upcoming', 'arrived')
+  ORDER BY v.visit_status <> 'in_consultation', v.queue_position, v.token_number;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_queue_board(date, uuid) TO anon, authenticated;
+
+ALTER TABLE branches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE branch_staff ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read branches" ON branches FOR SELECT TO public USING (true);
+CREATE POLICY "Staff can read their branch assignments" ON branch_staff FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Authenticated users can update clinic settings" ON clinic_settings;
+DROP POLICY IF EXISTS "Authenticated users can manage doctors" ON doctors;
+DROP POLICY IF EXISTS "Authenticated users can update visits" ON visits;
+DROP POLICY IF EXISTS "Authenticated users can delete visits" ON visits;
+DROP POLICY IF EXISTS "Authenticated users can manage prescriptions" ON prescriptions;
+DROP POLICY IF EXISTS "Authenticated users can update queue summary" ON queue_summary;
+
+CREATE POLICY "Branch staff can manage clinic settings" ON clinic_settings FOR ALL TO authenticated
+  USING (is_branch_staff(branch_id)) WITH CHECK (is_branch_staff(branch_id));
+CREATE POLICY "Branch staff can manage doctors" ON doctors FOR ALL TO authenticated
+  USING (is_branch_staff(branch_id)) WITH CHECK (is_branch_staff(branch_id));
+CREATE POLICY "Branch staff can update visits" ON visits FOR UPDATE TO authenticated
+  USING (is_branch_staff(branch_id)) WITH CHECK (is_branch_staff(branch_id));
+CREATE POLICY "Branch staff can delete visits" ON visits FOR DELETE TO authenticated
+  USING (is_branch_staff(branch_id));
+CREATE POLICY "Branch staff can manage prescriptions" ON prescriptions FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM visits v WHERE v.id = prescriptions.visit_id AND is_branch_staff(v.branch_id)))
+  WITH CHECK (EXISTS (SELECT 1 FROM visits v WHERE v.id = prescriptions.visit_id AND is_branch_staff(v.branch_id)));
+CREATE POLICY "Branch staff can update queue summary" ON queue_summary FOR ALL TO authenticated
+  USING (is_branch_staff(branch_id)) WITH CHECK (is_branch_staff(branch_id));
@@ -0,0 +1,138 @@
+/*
+  # Staff roles
+
+  1. New Tables
+    - `staff_profiles` - The role of each staff account: owner, doctor, receptionist or accountant.
+      Every existing account becomes an owner so nobody loses access; accounts without a profile
+      cannot change anything.
+
+  2. Functions
+    - `current_staff_role()` - Role of the signed-in user, or NULL
+    - `has_staff_role(p_roles)` - Whether the signed-in user has one of the roles
+    - `check_visit_update()` - Trigger that limits which visit fields each role may change:
+      clinical notes and prescriptions (owner, doctor), payments (owner, receptionist, accountant),
+      queue and status (everyone but accountants)
+
+  3. Security
+    - Clinic settings and doctors: owners of the branch
+    - Visits: any staff role of the branch may update, subject to `check_visit_update()`; owners may delete
+    - Prescriptions: owners and doctors
+    - Queue moves: owners, doctors and receptionists
+    - Staff read their own profile; owners read and manage all profiles
+    - Mirrors ROLE_PERMISSIONS in src/lib/staff.ts
+    - Visit rows are still readable in full while the public can read visits, so hiding clinical notes
+      from accountants is done by the admin panel for now
+*/
+
+CREATE TABLE IF NOT EXISTS staff_profiles (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('owner', 'doctor', 'receptionist', 'accountant')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO staff_profiles (user_id, role)
+SELECT id, 'owner' FROM auth.users
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION current_staff_role()
+RETURNS text AS $$
+  SELECT role FROM staff_profiles WHERE user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_staff_role(p_roles text[])
+RETURNS boolean AS $$
+  SELECT COALESCE(current_staff_role() = ANY(p_roles), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION current_staff_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION has_staff_role(text[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION check_visit_update()
+RETURNS trigger AS $$
+DECLARE
+  staff_role text := current_staff_role();
+BEGIN
+  -- Patients' self-service functions run without a signed-in user and check ownership themselves
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF staff_role IS NULL THEN
+    RAISE EXCEPTION 'Your account does not have a staff role';
+  END IF;
+
+  IF staff_role NOT IN ('owner', 'doctor')
+    AND (NEW.notes, NEW.diagnosis, NEW.treatment_plan, NEW.follow_up_date, NEW.follow_up_instructions,
+      NEW.prescription_id, NEW.prescription_url, NEW.prescription_notes)
+    IS DISTINCT FROM (OLD.notes, OLD.diagnosis, OLD.treatment_plan, OLD.follow_up_date, OLD.follow_up_instructions,
+      OLD.prescription_id, OLD.prescription_url, OLD.prescription_notes)
+  THEN
+    RAISE EXCEPTION 'Only doctors can change consultation notes and prescriptions';
+  END IF;
+
+  IF staff_role NOT IN ('owner', 'receptionist', 'accountant')
+    AND (NEW.payment_status, NEW.payment_method, NEW.payment_id, NEW.payment_amount)
+    IS DISTINCT FROM (OLD.payment_status, OLD.payment_method, OLD.payment_id, OLD.payment_amount)
+  THEN
+    RAISE EXCEPTION 'Only the front desk and accounts can change payments';
+  END IF;
+
+  IF staff_role = 'accountant'
+    AND (NEW.visit_status, NEW.queue_position, NEW.priority, NEW.appointment_date, NEW.appointment_slot,
+      NEW.arrived_at, NEW.called_at, NEW.call_count)
+    IS DISTINCT FROM (OLD.visit_status, OLD.queue_position, OLD.priority, OLD.appointment_date, OLD.appointment_slot,
+      OLD.arrived_at, OLD.called_at, OLD.call_count)
+  THEN
+    RAISE EXCEPTION 'Accountants cannot change the queue';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_visit_update ON visits;
+CREATE TRIGGER check_visit_update
+  BEFORE UPDATE ON visits
+  FOR EACH ROW EXECUTE FUNCTION check_visit_update();
+
+ALTER TABLE staff_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read their own profile" ON staff_profiles FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+CREATE POLICY "Owners can manage staff profiles" ON staff_profiles FOR ALL TO authenticated
+  USING (has_staff_role(ARRAY['owner'])) WITH CHECK (has_staff_role(ARRAY['owner']));
+
+DROP POLICY IF EXISTS "Branch staff can manage clinic settings" ON clinic_settings;
+DROP POLICY IF EXISTS "Branch staff can manage doctors" ON doctors;
+DROP POLICY IF EXISTS "Branch staff can update visits" ON visits;
+DROP POLICY IF EXISTS "Branch staff can delete visits" ON visits;
+DROP POLICY IF EXISTS "Branch staff can manage prescriptions" ON prescriptions;
+DROP POLICY IF EXISTS "Branch staff can update queue summary" ON queue_summary;
+DROP POLICY IF EXISTS "Authenticated users can record queue moves" ON queue_moves;
+
+CREATE POLICY "Branch owners can manage clinic settings" ON clinic_settings FOR ALL TO authenticated
+  USING (is_branch_staff(branch_id) AND has_staff_role(ARRAY['owner']))
+  WITH CHECK (is_branch_staff(branch_id) AND has_staff_role(ARRAY['owner']));
+CREATE POLICY "Branch owners can manage doctors" ON doctors FOR ALL TO authenticated
+  USING (is_branch_staff(branch_id) AND has_staff_role(ARRAY['owner']))
+  WITH CHECK (is_branch_staff(branch_id) AND has_staff_role(ARRAY['owner']));
+CREATE POLICY "Branch staff can update visits" ON visits FOR UPDATE TO authenticated
+  USING (is_branch_staff(branch_id) AND current_staff_role() IS NOT NULL)
+  WITH CHECK (is_branch_staff(branch_id) AND current_staff_role() IS NOT NULL);
+CREATE POLICY "Branch owners can delete visits" ON visits FOR DELETE TO authenticated
+  USING (is_branch_staff(branch_id) AND has_staff_role(ARRAY['owner']));
+CREATE POLICY "Branch doctors can manage prescriptions" ON prescriptions FOR ALL TO authenticated
+  USING (
+    has_staff_role(ARRAY['owner', 'doctor'])
+    AND EXISTS (SELECT 1 FROM visits v WHERE v.id = prescriptions.visit_id AND is_branch_staff(v.branch_id))
+  )
+  WITH CHECK (
+    has_staff_role(ARRAY['owner', 'doctor'])
+    AND EXISTS (SELECT 1 FROM visits v WHERE v.id = prescriptions.visit_id AND is_branch_staff(v.branch_id))
+  );
+CREATE POLICY "Branch staff can update queue summary" ON queue_summary FOR ALL TO authenticated
+  USING (is_branch_staff(branch_id) AND current_staff_role() IS NOT NULL)
+  WITH CHECK (is_branch_staff(branch_id) AND current_staff_role() IS NOT NULL);
+CREATE POLICY "Queue staff can record queue moves" ON queue_moves FOR INSERT TO authenticated
+  WITH CHECK (has_staff_role(ARRAY['owner', 'doctor', 'receptionist']));
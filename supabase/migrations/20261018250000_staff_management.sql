@@ -0,0 +1,132 @@
+/*
+  # Staff management
+
+  1. Changes
+    - `staff_profiles` can exist before its sign-in account: owners invite staff by email and the profile
+      is linked to the Supabase auth user when it is created. Adds `id` (new primary key), `email`,
+      `full_name`, `is_active` and `invited_at`; `user_id` becomes optional and unique.
+    - `branch_staff` belongs to a staff profile (`staff_id`) instead of an auth user, so branches can be
+      assigned before the invitation is accepted
+
+  2. Functions
+    - `link_staff_profile()` - Triggers that link profiles and auth users with the same email, whichever
+      is created first
+    - `list_staff()` - Every staff profile with its branches and last sign-in time, for owners
+    - `is_branch_staff()` and `current_staff_role()` ignore deactivated profiles, so a deactivated account
+      keeps its sign-in but can no longer read or change clinic data
+
+  3. Security
+    - Owners can manage branch assignments; staff can still read their own
+*/
+
+ALTER TABLE staff_profiles ADD COLUMN IF NOT EXISTS id uuid NOT NULL DEFAULT uuid_generate_v4();
+ALTER TABLE staff_profiles ADD COLUMN IF NOT EXISTS email text;
+ALTER TABLE staff_profiles ADD COLUMN IF NOT EXISTS full_name text NOT NULL DEFAULT '';
+ALTER TABLE staff_profiles ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true;
+ALTER TABLE staff_profiles ADD COLUMN IF NOT EXISTS invited_at timestamptz DEFAULT now();
+
+UPDATE staff_profiles sp SET email = lower(u.email)
+FROM auth.users u
+WHERE u.id = sp.user_id AND sp.email IS NULL;
+
+ALTER TABLE staff_profiles ALTER COLUMN email SET NOT NULL;
+ALTER TABLE staff_profiles DROP CONSTRAINT IF EXISTS staff_profiles_pkey;
+ALTER TABLE staff_profiles ADD PRIMARY KEY (id);
+ALTER TABLE staff_profiles ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE staff_profiles ADD CONSTRAINT staff_profiles_user_id_key UNIQUE (user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_staff_profiles_email_unique ON staff_profiles(lower(email));
+
+ALTER TABLE branch_staff ADD COLUMN IF NOT EXISTS staff_id uuid REFERENCES staff_profiles(id) ON DELETE CASCADE;
+
+UPDATE branch_staff bs SET staff_id = sp.id
+FROM staff_profiles sp
+WHERE sp.user_id = bs.user_id AND bs.staff_id IS NULL;
+
+-- Accounts without a profile had no role, so their assignments gave them nothing
+DELETE FROM branch_staff WHERE staff_id IS NULL;
+
+DROP POLICY IF EXISTS "Staff can read their branch assignments" ON branch_staff;
+ALTER TABLE branch_staff DROP CONSTRAINT IF EXISTS branch_staff_pkey;
+ALTER TABLE branch_staff DROP COLUMN IF EXISTS user_id;
+ALTER TABLE branch_staff ALTER COLUMN staff_id SET NOT NULL;
+ALTER TABLE branch_staff ADD PRIMARY KEY (staff_id, branch_id);
+
+CREATE OR REPLACE FUNCTION is_branch_staff(p_branch_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM branch_staff bs
+    JOIN staff_profiles sp ON sp.id = bs.staff_id
+    WHERE sp.user_id = auth.uid() AND sp.is_active AND bs.branch_id = p_branch_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION current_staff_role()
+RETURNS text AS $$
+  SELECT role FROM staff_profiles WHERE user_id = auth.uid() AND is_active;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- A new auth user (e.g. from an invitation email) takes over the profile created for their email
+CREATE OR REPLACE FUNCTION link_staff_profile()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE public.staff_profiles
+  SET user_id = NEW.id, updated_at = now()
+  WHERE user_id IS NULL AND email = lower(NEW.email);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS link_staff_profile ON auth.users;
+CREATE TRIGGER link_staff_profile
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION link_staff_profile();
+
+-- Inviting someone who already has an account links the profile straight away
+CREATE OR REPLACE FUNCTION prepare_staff_profile()
+RETURNS trigger AS $$
+BEGIN
+  NEW.email := lower(trim(NEW.email));
+  IF NEW.user_id IS NULL THEN
+    SELECT id INTO NEW.user_id FROM auth.users WHERE lower(email) = NEW.email;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS prepare_staff_profile ON staff_profiles;
+CREATE TRIGGER prepare_staff_profile
+  BEFORE INSERT ON staff_profiles
+  FOR EACH ROW EXECUTE FUNCTION prepare_staff_profile();
+
+-- Last sign-in times live in auth.users, which the API cannot read directly
+CREATE OR REPLACE FUNCTION list_staff()
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  email text,
+  full_name text,
+  role text,
+  is_active boolean,
+  branch_ids uuid[],
+  last_sign_in_at timestamptz,
+  invited_at timestamptz,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+  SELECT sp.id, sp.user_id, sp.email, sp.full_name, sp.role, sp.is_active,
+    COALESCE(array_agg(bs.branch_id) FILTER (WHERE bs.branch_id IS NOT NULL), '{}'),
+    u.last_sign_in_at, sp.invited_at, sp.created_at, sp.updated_at
+  FROM staff_profiles sp
+  LEFT JOIN auth.users u ON u.id = sp.user_id
+  LEFT JOIN branch_staff bs ON bs.staff_id = sp.id
+  WHERE has_staff_role(ARRAY['owner'])
+  GROUP BY sp.id, u.last_sign_in_at
+  ORDER BY sp.is_active DESC, sp.full_name, sp.email;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION list_staff() TO authenticated;
+
+CREATE POLICY "Staff can read their branch assignments" ON branch_staff FOR SELECT TO authenticated
+  USING (staff_id IN (SELECT id FROM staff_profiles WHERE user_id = auth.uid()));
+CREATE POLICY "Owners can manage branch assignments" ON branch_staff FOR ALL TO authenticated
+  USING (has_staff_role(ARRAY['owner'])) WITH CHECK (has_staff_role(ARRAY['owner']));
@@ -0,0 +1,183 @@
+/*
+  # Private public visit lookup
+
+  1. Changes
+    - `visits.access_key` - Random secret carried in the patient's QR code and booking links. Existing visits
+      get one too.
+
+  2. Functions
+    - `mask_phone(p_phone)` - "+91 98765 43210" becomes "********3210"; mirrors maskPhoneNumber in src/lib/queue.ts
+    - `to_public_visit(v)` - The `public_visit` fields the confirmation, tracking and visit pages show: no
+      contact details beyond the masked phone, no symptoms, history, allergies, diagnosis or payment ids
+    - `get_public_visit(p_uid, p_access_key, p_phone)` - Looks a visit up for a patient who gives its UID and
+      either the access key or the full phone number it was booked with
+    - `get_booked_slots(p_day, p_doctor_id)` - Slots held with a doctor, for the booking form
+    - `cancel_visit_by_patient` and `reschedule_visit_by_patient` return a `public_visit` instead of the whole row
+
+  3. Security
+    - "Anyone can read visits" and "Anyone can read prescriptions" are replaced by reads for staff of the branch;
+      patients only get at visits through the functions above
+*/
+
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS access_key text;
+UPDATE visits SET access_key = replace(gen_random_uuid()::text, '-', '') WHERE access_key IS NULL;
+ALTER TABLE visits ALTER COLUMN access_key SET DEFAULT replace(gen_random_uuid()::text, '-', '');
+ALTER TABLE visits ALTER COLUMN access_key SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION mask_phone(p_phone text)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN digits = '' THEN NULL
+    ELSE repeat('*', greatest(length(digits) - 4, 0)) || right(digits, 4)
+  END
+  FROM (SELECT regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g') AS digits) parts;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Keep in sync with PublicVisit in src/types/index.ts
+CREATE TYPE public_visit AS (
+  id uuid,
+  uid text,
+  access_key text,
+  token_number integer,
+  name text,
+  age integer,
+  phone text,
+  reason text,
+  payment_status text,
+  visit_status text,
+  queue_position integer,
+  doctor_id uuid,
+  branch_id uuid,
+  position_change_reason text,
+  position_changed_at timestamptz,
+  appointment_date date,
+  appointment_slot text,
+  estimated_time text,
+  created_at timestamptz,
+  arrived_at timestamptz,
+  completed_at timestamptz,
+  cancellation_reason text,
+  notes text,
+  prescription_url text
+);
+
+CREATE OR REPLACE FUNCTION to_public_visit(v visits)
+RETURNS public_visit AS $$
+  SELECT ROW(
+    v.id, v.uid, v.access_key, v.token_number, v.name, v.age, mask_phone(v.phone), v.reason, v.payment_status,
+    v.visit_status, v.queue_position, v.doctor_id, v.branch_id, v.position_change_reason, v.position_changed_at,
+    v.appointment_date, v.appointment_slot, v.estimated_time, v.created_at, v.arrived_at, v.completed_at,
+    v.cancellation_reason, v.notes, v.prescription_url
+  )::public_visit;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The phone number must match in full (ignoring formatting and a country code); mirrors phoneMatchesNumber
+-- in src/lib/scheduling.ts
+CREATE OR REPLACE FUNCTION get_public_visit(p_uid text, p_access_key text, p_phone text)
+RETURNS SETOF public_visit AS $$
+  SELECT (to_public_visit(v)).*
+  FROM visits v
+  WHERE v.uid = p_uid
+    AND (
+      (p_access_key IS NOT NULL AND v.access_key = p_access_key)
+      OR (
+        length(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g')) >= 7
+        AND right(regexp_replace(COALESCE(v.phone, ''), '\D', '', 'g'), 10)
+          = right(regexp_replace(p_phone, '\D', '', 'g'), 10)
+      )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_booked_slots(p_day date, p_doctor_id uuid)
+RETURNS SETOF text AS $$
+  SELECT appointment_slot
+  FROM visits
+  WHERE appointment_date = p_day
+    AND doctor_id IS NOT DISTINCT FROM p_doctor_id
+    AND appointment_slot IS NOT NULL
+    AND visit_status NOT IN ('cancelled', 'no_show');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS cancel_visit_by_patient(text, text);
+DROP FUNCTION IF EXISTS reschedule_visit_by_patient(text, text, date, text);
+
+CREATE FUNCTION cancel_visit_by_patient(p_uid text, p_phone_digits text)
+RETURNS SETOF public_visit AS $$
+DECLARE
+  target visits := claim_visit_for_patient(p_uid, p_phone_digits);
+BEGIN
+  UPDATE visits
+  SET visit_status = 'cancelled',
+      cancelled_at = now(),
+      cancellation_reason = 'Cancelled by patient',
+      updated_at = now()
+  WHERE id = target.id;
+
+  PERFORM renumber_queue(target.appointment_date);
+
+  RETURN QUERY SELECT (to_public_visit(v)).* FROM visits v WHERE v.id = target.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE FUNCTION reschedule_visit_by_patient(p_uid text, p_phone_digits text, p_day date, p_slot text)
+RETURNS SETOF public_visit AS $$
+DECLARE
+  target visits := claim_visit_for_patient(p_uid, p_phone_digits);
+  new_token integer;
+BEGIN
+  IF p_day + p_slot::time <= localtimestamp THEN
+    RAISE EXCEPTION 'Please choose a time in the future';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM visits
+    WHERE id <> target.id
+      AND doctor_id IS NOT DISTINCT FROM target.doctor_id
+      AND appointment_date = p_day
+      AND appointment_slot = p_slot
+      AND visit_status NOT IN ('cancelled', 'no_show')
+  ) THEN
+    RAISE EXCEPTION 'That slot is no longer available';
+  END IF;
+
+  IF p_day <> target.appointment_date THEN
+    SELECT allocated.token_number INTO new_token
+    FROM allocate_visit_token(p_day, target.doctor_id) allocated;
+  END IF;
+
+  UPDATE visits
+  SET appointment_date = p_day,
+      appointment_slot = p_slot,
+      estimated_time = to_char(p_slot::time, 'FMHH12:MI AM'),
+      token_number = COALESCE(new_token, token_number),
+      queue_position = COALESCE(new_token, queue_position),
+      updated_at = now()
+  WHERE id = target.id;
+
+  PERFORM renumber_queue(target.appointment_date);
+  PERFORM renumber_queue(p_day);
+
+  RETURN QUERY SELECT (to_public_visit(v)).* FROM visits v WHERE v.id = target.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_public_visit(text, text, text) FROM public;
+REVOKE ALL ON FUNCTION get_booked_slots(date, uuid) FROM public;
+REVOKE ALL ON FUNCTION cancel_visit_by_patient(text, text) FROM public;
+REVOKE ALL ON FUNCTION reschedule_visit_by_patient(text, text, date, text) FROM public;
+
+GRANT EXECUTE ON FUNCTION get_public_visit(text, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_booked_slots(date, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION cancel_visit_by_patient(text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_visit_by_patient(text, text, date, text) TO anon, authenticated;
+
+DROP POLICY IF EXISTS "Anyone can read visits" ON visits;
+DROP POLICY IF EXISTS "Anyone can read prescriptions" ON prescriptions;
+
+CREATE POLICY "Branch staff can read visits" ON visits FOR SELECT TO authenticated
+  USING (is_branch_staff(branch_id) AND current_staff_role() IS NOT NULL);
+CREATE POLICY "Branch staff can read prescriptions" ON prescriptions FOR SELECT TO authenticated
+  USING (
+    current_staff_role() IS NOT NULL
+    AND EXISTS (SELECT 1 FROM visits v WHERE v.id = prescriptions.visit_id AND is_branch_staff(v.branch_id))
+  );
@@ -0,0 +1,113 @@
+/*
+  # Signed check-in codes
+
+  1. New Tables
+    - `app_secrets` - Server-side secrets. Seeded with `check_in_signing_key`, a random key for signing
+      check-in codes. Nothing can read it through the API.
+
+  2. Functions
+    - `sign_check_in_code(p_uid, p_valid_on)` - Builds `UID.YYMMDD.signature`. The signature is the first
+      16 bytes of an HMAC-SHA256 of `UID.YYMMDD`, base64url encoded.
+    - `check_in_code_status(p_code)` - 'valid', 'expired' (the day has passed) or 'invalid' (bad signature
+      or malformed)
+    - `get_check_in_code(p_uid, p_access_key)` - The code for the patient's QR, valid through the visit's day
+    - `verify_check_in_code(p_code)` - The status of a scanned code, for staff
+    - `get_public_visit` also accepts a valid check-in code, so the QR opens the patient's Track page
+
+  3. Security
+    - The signing key never leaves the database; patients need the visit's access key to get a code
+    - Mirrors signCheckInCode in src/lib/data/localBackend.ts
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS app_secrets (
+  name text PRIMARY KEY,
+  value text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE app_secrets ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO app_secrets (name, value)
+VALUES ('check_in_signing_key', encode(gen_random_bytes(32), 'hex'))
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION sign_check_in_code(p_uid text, p_valid_on date)
+RETURNS text AS $$
+  SELECT payload || '.' || rtrim(translate(encode(substring(
+    hmac(payload, (SELECT value FROM app_secrets WHERE name = 'check_in_signing_key'), 'sha256')
+    FROM 1 FOR 16), 'base64'), '+/', '-_'), '=')
+  FROM (SELECT p_uid || '.' || to_char(p_valid_on, 'YYMMDD') AS payload) parts;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION check_in_code_status(p_code text)
+RETURNS text AS $$
+DECLARE
+  parts text[] := string_to_array(COALESCE(p_code, ''), '.');
+  valid_on date;
+BEGIN
+  IF array_length(parts, 1) IS DISTINCT FROM 3 OR parts[2] !~ '^\d{6}$' THEN
+    RETURN 'invalid';
+  END IF;
+
+  BEGIN
+    valid_on := to_date(parts[2], 'YYMMDD');
+  EXCEPTION WHEN others THEN
+    RETURN 'invalid';
+  END;
+
+  IF sign_check_in_code(parts[1], valid_on) <> p_code THEN
+    RETURN 'invalid';
+  END IF;
+
+  IF valid_on < current_date THEN
+    RETURN 'expired';
+  END IF;
+
+  RETURN 'valid';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION get_check_in_code(p_uid text, p_access_key text)
+RETURNS text AS $$
+  SELECT sign_check_in_code(v.uid, COALESCE(v.appointment_date, v.created_at::date))
+  FROM visits v
+  WHERE v.uid = p_uid AND v.access_key = p_access_key;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION verify_check_in_code(p_code text)
+RETURNS text AS $$
+  SELECT CASE WHEN current_staff_role() IS NULL THEN NULL ELSE check_in_code_status(p_code) END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS get_public_visit(text, text, text);
+
+CREATE FUNCTION get_public_visit(p_uid text, p_access_key text, p_phone text, p_check_in_code text)
+RETURNS SETOF public_visit AS $$
+  SELECT (to_public_visit(v)).*
+  FROM visits v
+  WHERE v.uid = p_uid
+    AND (
+      (p_access_key IS NOT NULL AND v.access_key = p_access_key)
+      OR (
+        length(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g')) >= 7
+        AND right(regexp_replace(COALESCE(v.phone, ''), '\D', '', 'g'), 10)
+          = right(regexp_replace(p_phone, '\D', '', 'g'), 10)
+      )
+      OR (
+        split_part(COALESCE(p_check_in_code, ''), '.', 1) = v.uid
+        AND check_in_code_status(p_check_in_code) = 'valid'
+      )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION sign_check_in_code(text, date) FROM public;
+REVOKE ALL ON FUNCTION check_in_code_status(text) FROM public;
+REVOKE ALL ON FUNCTION get_check_in_code(text, text) FROM public;
+REVOKE ALL ON FUNCTION verify_check_in_code(text) FROM public;
+REVOKE ALL ON FUNCTION get_public_visit(text, text, text, text) FROM public;
+
+GRANT EXECUTE ON FUNCTION get_check_in_code(text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION verify_check_in_code(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_public_visit(text, text, text, text) TO anon, authenticated;
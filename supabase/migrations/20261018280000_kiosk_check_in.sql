@@ -0,0 +1,59 @@
+/*
+  # Kiosk self check-in
+
+  1. Functions
+    - `check_in_visit_by_patient(p_uid, p_access_key, p_phone, p_check_in_code, p_branch_id)` - Marks a patient's
+      booking as arrived from the check-in kiosk at the entrance. The patient proves the visit is theirs the same
+      way as for `get_public_visit`, usually by scanning their QR code or typing their UID and phone number.
+      Only today's upcoming bookings at the kiosk's branch can be checked in; patients already checked in get
+      their visit back unchanged, so they can reprint their ticket.
+
+  2. Security
+    - Patients still cannot update visits directly; the function only ever sets `visit_status` and `arrived_at`
+    - Mirrors getKioskCheckInBlocker in src/lib/scheduling.ts
+*/
+
+CREATE OR REPLACE FUNCTION check_in_visit_by_patient(
+  p_uid text,
+  p_access_key text,
+  p_phone text,
+  p_check_in_code text,
+  p_branch_id uuid
+)
+RETURNS SETOF public_visit AS $$
+DECLARE
+  target visits;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM get_public_visit(p_uid, p_access_key, p_phone, p_check_in_code)) THEN
+    RAISE EXCEPTION 'We could not find a booking with that UID';
+  END IF;
+
+  SELECT * INTO target FROM visits WHERE uid = p_uid FOR UPDATE;
+
+  IF target.branch_id IS DISTINCT FROM p_branch_id THEN
+    RAISE EXCEPTION 'This booking is for another branch. Please see the front desk';
+  END IF;
+
+  IF target.visit_status NOT IN ('upcoming', 'arrived') THEN
+    RAISE EXCEPTION 'This booking can no longer be checked in here. Please see the front desk';
+  END IF;
+
+  IF COALESCE(target.appointment_date, target.created_at::date) <> current_date THEN
+    RAISE EXCEPTION 'This booking is for %. Please see the front desk',
+      to_char(COALESCE(target.appointment_date, target.created_at::date), 'FMDay, FMMonth FMDD');
+  END IF;
+
+  IF target.visit_status = 'upcoming' THEN
+    UPDATE visits
+    SET visit_status = 'arrived',
+        arrived_at = now(),
+        updated_at = now()
+    WHERE id = target.id;
+  END IF;
+
+  RETURN QUERY SELECT (to_public_visit(v)).* FROM visits v WHERE v.id = target.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION check_in_visit_by_patient(text, text, text, text, uuid) FROM public;
+GRANT EXECUTE ON FUNCTION check_in_visit_by_patient(text, text, text, text, uuid) TO anon, authenticated;
@@ -0,0 +1,127 @@
+/*
+  # Audit log
+
+  1. New Tables
+    - `audit_log` - One row for every change to a visit or prescription: who made it (`actor_id`, `actor_name`),
+      when, the page it was made from (`source`) and the old and new value of each changed field (`changes`)
+
+  2. Functions
+    - `record_audit_entry()` - Trigger on `visits` and `prescriptions` that writes the entries. Changes made
+      without signing in (bookings, patient cancellations and reschedules, kiosk check-ins) are put down to
+      the patient. Queue renumbering, `updated_at` and access keys are not logged.
+    - `prevent_audit_log_changes()` - Stops entries from being updated, deleted or truncated
+
+  3. Security
+    - RLS enabled; staff who can see clinical notes (owners, doctors and receptionists) can read their
+      branches' entries. Nobody can write entries except the trigger.
+    - Pages say where they are with the `x-client-page` request header (see src/lib/supabase.ts); it is only
+      informational, the actor comes from the signed-in user
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name text NOT NULL CHECK (table_name IN ('visits', 'prescriptions')),
+  record_id uuid NOT NULL,
+  -- No foreign keys, so a deleted visit keeps its history
+  visit_id uuid,
+  visit_uid text,
+  branch_id uuid,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  changes jsonb NOT NULL,
+  actor_id uuid,
+  actor_name text NOT NULL,
+  source text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_visit ON audit_log(visit_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_branch_created ON audit_log(branch_id, created_at DESC);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clinical staff can read the audit log" ON audit_log FOR SELECT TO authenticated
+  USING (is_branch_staff(branch_id) AND has_staff_role(ARRAY['owner', 'doctor', 'receptionist']));
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log cannot be changed';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_audit_log_changes ON audit_log;
+CREATE TRIGGER prevent_audit_log_changes
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+
+DROP TRIGGER IF EXISTS prevent_audit_log_truncate ON audit_log;
+CREATE TRIGGER prevent_audit_log_truncate
+  BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- Mirrors diffAuditFields in src/lib/audit.ts
+CREATE OR REPLACE FUNCTION record_audit_entry()
+RETURNS trigger AS $$
+DECLARE
+  old_row jsonb := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE jsonb_strip_nulls(to_jsonb(OLD)) END;
+  new_row jsonb := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE jsonb_strip_nulls(to_jsonb(NEW)) END;
+  row_data jsonb := CASE WHEN TG_OP = 'DELETE' THEN old_row ELSE new_row END;
+  field_changes jsonb;
+  target_visit_id uuid;
+  target_uid text;
+  target_branch_id uuid;
+  actor staff_profiles;
+BEGIN
+  SELECT COALESCE(jsonb_object_agg(field, jsonb_build_object('old', old_row -> field, 'new', new_row -> field)), '{}')
+  INTO field_changes
+  FROM (SELECT jsonb_object_keys(old_row || new_row) AS field) fields
+  WHERE field <> ALL (ARRAY['updated_at', 'queue_position', 'access_key'])
+    AND old_row -> field IS DISTINCT FROM new_row -> field;
+
+  IF field_changes = '{}'::jsonb THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_TABLE_NAME = 'visits' THEN
+    target_visit_id := (row_data ->> 'id')::uuid;
+    target_uid := row_data ->> 'uid';
+    target_branch_id := (row_data ->> 'branch_id')::uuid;
+  ELSE
+    target_visit_id := (row_data ->> 'visit_id')::uuid;
+    SELECT v.uid, v.branch_id INTO target_uid, target_branch_id FROM visits v WHERE v.id = target_visit_id;
+  END IF;
+
+  SELECT * INTO actor FROM staff_profiles WHERE user_id = auth.uid();
+
+  INSERT INTO audit_log (
+    table_name, record_id, visit_id, visit_uid, branch_id, action, changes, actor_id, actor_name, source
+  ) VALUES (
+    TG_TABLE_NAME,
+    (row_data ->> 'id')::uuid,
+    target_visit_id,
+    target_uid,
+    target_branch_id,
+    lower(TG_OP),
+    field_changes,
+    actor.id,
+    CASE
+      WHEN actor.id IS NOT NULL THEN COALESCE(NULLIF(actor.full_name, ''), actor.email)
+      WHEN auth.uid() IS NULL THEN 'Patient'
+      ELSE 'Unknown user'
+    END,
+    NULLIF(current_setting('request.headers', true), '')::json ->> 'x-client-page'
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_visit_audit_entry ON visits;
+CREATE TRIGGER record_visit_audit_entry
+  AFTER INSERT OR UPDATE OR DELETE ON visits
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry();
+
+DROP TRIGGER IF EXISTS record_prescription_audit_entry ON prescriptions;
+CREATE TRIGGER record_prescription_audit_entry
+  AFTER INSERT OR UPDATE OR DELETE ON prescriptions
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry();
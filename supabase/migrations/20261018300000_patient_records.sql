@@ -0,0 +1,250 @@
+/*
+  # Patient records
+
+  1. New Tables
+    - `patients` - One row per patient with a stable patient number (`code`, e.g. P000123) and the details
+      that used to be re-entered on every visit: demographics, contact details, allergies, medical history
+      and current medications. `version` goes up by one whenever the details change.
+    - `patient_versions` - Every version of each patient's details, with who made the change
+
+  2. Changes
+    - `visits.patient_id` - The patient the visit belongs to. Visits keep their own copy of the details as
+      they were when booked.
+    - Existing visits are linked to patients, oldest first: visits with the same name (ignoring case and
+      spacing) and phone number share a patient, and the latest visit's details win
+
+  3. Functions
+    - `normalize_patient_name(p_name)` and `phone_key(p_phone)` - What patients are matched on; mirror
+      src/lib/patients.ts
+    - `resolve_visit_patient(v)` - Finds the visit's patient and updates their details with the visit's
+      (blank fields keep what is on file), or creates a new patient. Runs before every new visit is saved,
+      so patient bookings are linked without patients being able to read the table.
+    - `record_patient_version()` - Bumps `version` and stores the new version when the details change
+    - `find_returning_patient(p_name, p_phone)` - What the booking form can prefill for a patient who gives
+      the name and full phone number they booked with before. Medical details are not returned.
+
+  4. Security
+    - RLS enabled on both tables; staff can read the patients who have visited their branches, and owners,
+      doctors and receptionists can update their details. Rows are only created by the functions above.
+*/
+
+CREATE SEQUENCE IF NOT EXISTS patient_code_seq;
+
+CREATE TABLE IF NOT EXISTS patients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE DEFAULT 'P' || lpad(nextval('patient_code_seq')::text, 6, '0'),
+  name text NOT NULL,
+  age integer,
+  phone text,
+  email text,
+  gender text CHECK (gender IN ('male', 'female', 'other')),
+  address text,
+  emergency_contact_name text,
+  emergency_contact_phone text,
+  allergies text,
+  medical_history text,
+  current_medications text,
+  version integer NOT NULL DEFAULT 1,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS patient_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  details jsonb NOT NULL,
+  changed_by text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (patient_id, version)
+);
+
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS patient_id uuid REFERENCES patients(id);
+CREATE INDEX IF NOT EXISTS idx_visits_patient_id ON visits(patient_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION normalize_patient_name(p_name text)
+RETURNS text AS $$
+  SELECT lower(regexp_replace(trim(COALESCE(p_name, '')), '\s+', ' ', 'g'));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION phone_key(p_phone text)
+RETURNS text AS $$
+  SELECT right(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g'), 10);
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS idx_patients_match ON patients(phone_key(phone), normalize_patient_name(name));
+
+-- Who made the current change, named the same way as in the audit log
+CREATE OR REPLACE FUNCTION current_actor_name()
+RETURNS text AS $$
+  SELECT COALESCE(
+    (SELECT COALESCE(NULLIF(full_name, ''), email) FROM staff_profiles WHERE user_id = auth.uid()),
+    CASE WHEN auth.uid() IS NULL THEN 'Patient' ELSE 'Unknown user' END
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION patient_details(p patients)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'name', p.name,
+    'age', p.age,
+    'phone', p.phone,
+    'email', p.email,
+    'gender', p.gender,
+    'address', p.address,
+    'emergency_contact_name', p.emergency_contact_name,
+    'emergency_contact_phone', p.emergency_contact_phone,
+    'allergies', p.allergies,
+    'medical_history', p.medical_history,
+    'current_medications', p.current_medications
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION bump_patient_version()
+RETURNS trigger AS $$
+BEGIN
+  IF patient_details(NEW) IS DISTINCT FROM patient_details(OLD) THEN
+    NEW.version := OLD.version + 1;
+    NEW.updated_at := now();
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_patient_version()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.version <> OLD.version THEN
+    INSERT INTO patient_versions (patient_id, version, details, changed_by)
+    VALUES (NEW.id, NEW.version, patient_details(NEW), current_actor_name());
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS bump_patient_version ON patients;
+CREATE TRIGGER bump_patient_version
+  BEFORE UPDATE ON patients
+  FOR EACH ROW EXECUTE FUNCTION bump_patient_version();
+
+DROP TRIGGER IF EXISTS record_patient_version ON patients;
+CREATE TRIGGER record_patient_version
+  AFTER INSERT OR UPDATE ON patients
+  FOR EACH ROW EXECUTE FUNCTION record_patient_version();
+
+CREATE OR REPLACE FUNCTION resolve_visit_patient(v visits)
+RETURNS uuid AS $$
+DECLARE
+  match_id uuid;
+BEGIN
+  IF phone_key(v.phone) <> '' THEN
+    SELECT id INTO match_id
+    FROM patients
+    WHERE phone_key(phone) = phone_key(v.phone)
+      AND normalize_patient_name(name) = normalize_patient_name(v.name)
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+
+  IF match_id IS NULL THEN
+    INSERT INTO patients (
+      name, age, phone, email, gender, address, emergency_contact_name, emergency_contact_phone,
+      allergies, medical_history, current_medications
+    ) VALUES (
+      trim(v.name), v.age, NULLIF(v.phone, ''), NULLIF(v.email, ''), v.gender, NULLIF(v.address, ''),
+      NULLIF(v.emergency_contact_name, ''), NULLIF(v.emergency_contact_phone, ''), NULLIF(v.allergies, ''),
+      NULLIF(v.medical_history, ''), NULLIF(v.current_medications, '')
+    )
+    RETURNING id INTO match_id;
+  ELSE
+    UPDATE patients SET
+      name = trim(v.name),
+      age = COALESCE(v.age, age),
+      phone = COALESCE(NULLIF(v.phone, ''), phone),
+      email = COALESCE(NULLIF(v.email, ''), email),
+      gender = COALESCE(v.gender, gender),
+      address = COALESCE(NULLIF(v.address, ''), address),
+      emergency_contact_name = COALESCE(NULLIF(v.emergency_contact_name, ''), emergency_contact_name),
+      emergency_contact_phone = COALESCE(NULLIF(v.emergency_contact_phone, ''), emergency_contact_phone),
+      allergies = COALESCE(NULLIF(v.allergies, ''), allergies),
+      medical_history = COALESCE(NULLIF(v.medical_history, ''), medical_history),
+      current_medications = COALESCE(NULLIF(v.current_medications, ''), current_medications)
+    WHERE id = match_id;
+  END IF;
+
+  RETURN match_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION link_visit_patient()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.patient_id IS NULL THEN
+    NEW.patient_id := resolve_visit_patient(NEW);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS link_visit_patient ON visits;
+CREATE TRIGGER link_visit_patient
+  BEFORE INSERT ON visits
+  FOR EACH ROW EXECUTE FUNCTION link_visit_patient();
+
+-- Link existing visits without filling the audit log with the backfill
+ALTER TABLE visits DISABLE TRIGGER record_visit_audit_entry;
+
+DO $$
+DECLARE
+  v visits;
+BEGIN
+  FOR v IN SELECT * FROM visits WHERE patient_id IS NULL ORDER BY created_at LOOP
+    UPDATE visits SET patient_id = resolve_visit_patient(v) WHERE id = v.id;
+  END LOOP;
+END $$;
+
+ALTER TABLE visits ENABLE TRIGGER record_visit_audit_entry;
+
+-- Mirrors IMPORTED_PATIENT_ACTOR in src/lib/data/localBackend.ts
+UPDATE patient_versions SET changed_by = 'Imported from earlier visits';
+
+CREATE OR REPLACE FUNCTION find_returning_patient(p_name text, p_phone text)
+RETURNS TABLE (
+  name text,
+  age integer,
+  gender text,
+  email text,
+  address text,
+  emergency_contact_name text,
+  emergency_contact_phone text
+) AS $$
+  SELECT p.name, p.age, p.gender, p.email, p.address, p.emergency_contact_name, p.emergency_contact_phone
+  FROM patients p
+  WHERE length(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g')) >= 7
+    AND phone_key(p.phone) = phone_key(p_phone)
+    AND normalize_patient_name(p.name) = normalize_patient_name(p_name)
+  ORDER BY p.updated_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION resolve_visit_patient(visits) FROM public;
+REVOKE ALL ON FUNCTION find_returning_patient(text, text) FROM public;
+GRANT EXECUTE ON FUNCTION find_returning_patient(text, text) TO anon, authenticated;
+
+ALTER TABLE patients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE patient_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_branch_patient(p_patient_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (SELECT 1 FROM visits v WHERE v.patient_id = p_patient_id AND is_branch_staff(v.branch_id));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Branch staff can read their patients" ON patients FOR SELECT TO authenticated
+  USING (current_staff_role() IS NOT NULL AND is_branch_patient(id));
+CREATE POLICY "Front desk and doctors can update patients" ON patients FOR UPDATE TO authenticated
+  USING (has_staff_role(ARRAY['owner', 'doctor', 'receptionist']) AND is_branch_patient(id))
+  WITH CHECK (has_staff_role(ARRAY['owner', 'doctor', 'receptionist']) AND is_branch_patient(id));
+CREATE POLICY "Branch staff can read patient versions" ON patient_versions FOR SELECT TO authenticated
+  USING (current_staff_role() IS NOT NULL AND is_branch_patient(patient_id));
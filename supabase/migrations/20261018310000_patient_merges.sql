@@ -0,0 +1,257 @@
+/*
+  # Merging duplicate patients
+
+  1. New Tables
+    - `patient_merges` - One row per merge: which record was merged into which, the visits and prescriptions
+      that were moved, the surviving record's details before the merge, who merged them and, once undone,
+      who undid it and when
+
+  2. Changes
+    - `patients.merged_into` - Set on a duplicate once merged. Merged records are kept, but no longer matched
+      to new bookings or offered to returning patients.
+    - `prescriptions.patient_id` - The patient the prescription belongs to, copied from its visit when
+      created; existing prescriptions are backfilled
+
+  3. Functions
+    - `merge_patients(p_survivor_id, p_merged_id)` - Moves the duplicate's visits and prescriptions to the
+      surviving record, fills the survivor's blank details from the duplicate and logs the merge
+    - `undo_patient_merge(p_merge_id)` - Moves the same visits and prescriptions back and restores the
+      survivor's details
+    - `resolve_visit_patient()` and `find_returning_patient()` now skip merged records
+    - Moved visits and prescriptions also appear in the audit log, put down to whoever merged them
+
+  4. Security
+    - RLS enabled on `patient_merges`; branch staff can read merges of their patients. Only owners and
+      receptionists can merge or undo, and only for patients who have visited their branches.
+*/
+
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS merged_into uuid REFERENCES patients(id);
+ALTER TABLE prescriptions ADD COLUMN IF NOT EXISTS patient_id uuid REFERENCES patients(id);
+CREATE INDEX IF NOT EXISTS idx_prescriptions_patient_id ON prescriptions(patient_id);
+
+ALTER TABLE prescriptions DISABLE TRIGGER record_prescription_audit_entry;
+
+UPDATE prescriptions p SET patient_id = v.patient_id
+FROM visits v
+WHERE v.id = p.visit_id AND p.patient_id IS NULL;
+
+ALTER TABLE prescriptions ENABLE TRIGGER record_prescription_audit_entry;
+
+CREATE OR REPLACE FUNCTION link_prescription_patient()
+RETURNS trigger AS $$
+BEGIN
+  SELECT patient_id INTO NEW.patient_id FROM visits WHERE id = NEW.visit_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS link_prescription_patient ON prescriptions;
+CREATE TRIGGER link_prescription_patient
+  BEFORE INSERT ON prescriptions
+  FOR EACH ROW EXECUTE FUNCTION link_prescription_patient();
+
+CREATE TABLE IF NOT EXISTS patient_merges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  survivor_id uuid NOT NULL REFERENCES patients(id),
+  merged_id uuid NOT NULL REFERENCES patients(id),
+  survivor_code text NOT NULL,
+  merged_code text NOT NULL,
+  merged_name text NOT NULL,
+  visit_ids uuid[] NOT NULL DEFAULT '{}',
+  prescription_ids uuid[] NOT NULL DEFAULT '{}',
+  survivor_details jsonb NOT NULL,
+  merged_by text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  undone_at timestamptz,
+  undone_by text
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_merges_created ON patient_merges(created_at DESC);
+
+ALTER TABLE patient_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Branch staff can read patient merges" ON patient_merges FOR SELECT TO authenticated
+  USING (current_staff_role() IS NOT NULL AND is_branch_patient(survivor_id));
+
+-- Same as in 20261018300000_patient_records.sql, leaving out merged records
+CREATE OR REPLACE FUNCTION resolve_visit_patient(v visits)
+RETURNS uuid AS $$
+DECLARE
+  match_id uuid;
+BEGIN
+  IF phone_key(v.phone) <> '' THEN
+    SELECT id INTO match_id
+    FROM patients
+    WHERE merged_into IS NULL
+      AND phone_key(phone) = phone_key(v.phone)
+      AND normalize_patient_name(name) = normalize_patient_name(v.name)
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+
+  IF match_id IS NULL THEN
+    INSERT INTO patients (
+      name, age, phone, email, gender, address, emergency_contact_name, emergency_contact_phone,
+      allergies, medical_history, current_medications
+    ) VALUES (
+      trim(v.name), v.age, NULLIF(v.phone, ''), NULLIF(v.email, ''), v.gender, NULLIF(v.address, ''),
+      NULLIF(v.emergency_contact_name, ''), NULLIF(v.emergency_contact_phone, ''), NULLIF(v.allergies, ''),
+      NULLIF(v.medical_history, ''), NULLIF(v.current_medications, '')
+    )
+    RETURNING id INTO match_id;
+  ELSE
+    UPDATE patients SET
+      name = trim(v.name),
+      age = COALESCE(v.age, age),
+      phone = COALESCE(NULLIF(v.phone, ''), phone),
+      email = COALESCE(NULLIF(v.email, ''), email),
+      gender = COALESCE(v.gender, gender),
+      address = COALESCE(NULLIF(v.address, ''), address),
+      emergency_contact_name = COALESCE(NULLIF(v.emergency_contact_name, ''), emergency_contact_name),
+      emergency_contact_phone = COALESCE(NULLIF(v.emergency_contact_phone, ''), emergency_contact_phone),
+      allergies = COALESCE(NULLIF(v.allergies, ''), allergies),
+      medical_history = COALESCE(NULLIF(v.medical_history, ''), medical_history),
+      current_medications = COALESCE(NULLIF(v.current_medications, ''), current_medications)
+    WHERE id = match_id;
+  END IF;
+
+  RETURN match_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION find_returning_patient(p_name text, p_phone text)
+RETURNS TABLE (
+  name text,
+  age integer,
+  gender text,
+  email text,
+  address text,
+  emergency_contact_name text,
+  emergency_contact_phone text
+) AS $$
+  SELECT p.name, p.age, p.gender, p.email, p.address, p.emergency_contact_name, p.emergency_contact_phone
+  FROM patients p
+  WHERE p.merged_into IS NULL
+    AND length(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g')) >= 7
+    AND phone_key(p.phone) = phone_key(p_phone)
+    AND normalize_patient_name(p.name) = normalize_patient_name(p_name)
+  ORDER BY p.updated_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Mirrors patients.merge in src/lib/data/localBackend.ts
+CREATE OR REPLACE FUNCTION merge_patients(p_survivor_id uuid, p_merged_id uuid)
+RETURNS patient_merges AS $$
+DECLARE
+  survivor patients;
+  merged patients;
+  moved_visit_ids uuid[];
+  moved_prescription_ids uuid[];
+  merge_row patient_merges;
+BEGIN
+  IF NOT has_staff_role(ARRAY['owner', 'receptionist']) THEN
+    RAISE EXCEPTION 'Only owners and receptionists can merge patients';
+  END IF;
+  IF p_survivor_id = p_merged_id THEN
+    RAISE EXCEPTION 'A patient cannot be merged into themselves';
+  END IF;
+  IF NOT (is_branch_patient(p_survivor_id) AND is_branch_patient(p_merged_id)) THEN
+    RAISE EXCEPTION 'Patient not found';
+  END IF;
+
+  SELECT * INTO survivor FROM patients WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO merged FROM patients WHERE id = p_merged_id FOR UPDATE;
+  IF survivor.merged_into IS NOT NULL OR merged.merged_into IS NOT NULL THEN
+    RAISE EXCEPTION 'One of these patients has already been merged';
+  END IF;
+
+  WITH moved AS (
+    UPDATE visits SET patient_id = p_survivor_id, updated_at = now() WHERE patient_id = p_merged_id RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO moved_visit_ids FROM moved;
+
+  WITH moved AS (
+    UPDATE prescriptions SET patient_id = p_survivor_id, updated_at = now() WHERE patient_id = p_merged_id RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO moved_prescription_ids FROM moved;
+
+  UPDATE patients SET merged_into = p_survivor_id WHERE id = p_merged_id;
+
+  UPDATE patients SET
+    age = COALESCE(age, merged.age),
+    phone = COALESCE(NULLIF(phone, ''), merged.phone),
+    email = COALESCE(NULLIF(email, ''), merged.email),
+    gender = COALESCE(gender, merged.gender),
+    address = COALESCE(NULLIF(address, ''), merged.address),
+    emergency_contact_name = COALESCE(NULLIF(emergency_contact_name, ''), merged.emergency_contact_name),
+    emergency_contact_phone = COALESCE(NULLIF(emergency_contact_phone, ''), merged.emergency_contact_phone),
+    allergies = COALESCE(NULLIF(allergies, ''), merged.allergies),
+    medical_history = COALESCE(NULLIF(medical_history, ''), merged.medical_history),
+    current_medications = COALESCE(NULLIF(current_medications, ''), merged.current_medications)
+  WHERE id = p_survivor_id;
+
+  INSERT INTO patient_merges (
+    survivor_id, merged_id, survivor_code, merged_code, merged_name, visit_ids, prescription_ids,
+    survivor_details, merged_by
+  ) VALUES (
+    p_survivor_id, p_merged_id, survivor.code, merged.code, merged.name, moved_visit_ids, moved_prescription_ids,
+    patient_details(survivor), current_actor_name()
+  )
+  RETURNING * INTO merge_row;
+
+  RETURN merge_row;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION undo_patient_merge(p_merge_id uuid)
+RETURNS void AS $$
+DECLARE
+  merge_row patient_merges;
+  details jsonb;
+BEGIN
+  IF NOT has_staff_role(ARRAY['owner', 'receptionist']) THEN
+    RAISE EXCEPTION 'Only owners and receptionists can undo merges';
+  END IF;
+
+  SELECT * INTO merge_row FROM patient_merges WHERE id = p_merge_id FOR UPDATE;
+  IF merge_row.id IS NULL OR NOT is_branch_patient(merge_row.survivor_id) THEN
+    RAISE EXCEPTION 'Merge not found';
+  END IF;
+  IF merge_row.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This merge has already been undone';
+  END IF;
+  IF (SELECT merged_into FROM patients WHERE id = merge_row.survivor_id) IS NOT NULL THEN
+    RAISE EXCEPTION '% has since been merged into another patient; undo that merge first', merge_row.survivor_code;
+  END IF;
+
+  -- Only what the merge moved, and only if it hasn't been moved again since
+  UPDATE visits SET patient_id = merge_row.merged_id, updated_at = now()
+  WHERE id = ANY(merge_row.visit_ids) AND patient_id = merge_row.survivor_id;
+  UPDATE prescriptions SET patient_id = merge_row.merged_id, updated_at = now()
+  WHERE id = ANY(merge_row.prescription_ids) AND patient_id = merge_row.survivor_id;
+
+  UPDATE patients SET merged_into = NULL WHERE id = merge_row.merged_id;
+
+  details := merge_row.survivor_details;
+  UPDATE patients SET
+    name = details ->> 'name',
+    age = (details ->> 'age')::integer,
+    phone = details ->> 'phone',
+    email = details ->> 'email',
+    gender = details ->> 'gender',
+    address = details ->> 'address',
+    emergency_contact_name = details ->> 'emergency_contact_name',
+    emergency_contact_phone = details ->> 'emergency_contact_phone',
+    allergies = details ->> 'allergies',
+    medical_history = details ->> 'medical_history',
+    current_medications = details ->> 'current_medications'
+  WHERE id = merge_row.survivor_id;
+
+  UPDATE patient_merges SET undone_at = now(), undone_by = current_actor_name() WHERE id = p_merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION merge_patients(uuid, uuid) FROM public;
+REVOKE ALL ON FUNCTION undo_patient_merge(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION merge_patients(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION undo_patient_merge(uuid) TO authenticated;
@@ -0,0 +1,136 @@
+/*
+  # One-time booking codes for returning patients
+
+  1. New Tables
+    - `booking_codes` - Codes texted to returning patients: a hash of the code, the phone number it was sent to
+      (`phone_key`, the last ten digits), when it expires, wrong guesses so far and when it was used
+
+  2. Functions
+    - `create_booking_code(p_phone)` - A new six-digit code for the phone number, or null when no patient has
+      booked with it. Called only by the send-booking-code function, which texts the code through the SMS
+      provider set in its SMS_PROVIDER secret. At most three codes per number every ten minutes.
+    - `verify_booking_code(p_phone, p_code)` - `{ status, profiles }`: status is 'verified', 'incorrect',
+      'expired' or 'locked' (five wrong guesses), and profiles are the patients who have booked with the
+      number, with their demographics, allergies and medications, most recent visit first
+    - `link_visit_patient()` now always links new visits by name and phone number, ignoring any patient_id sent
+      with the booking, so a booking can't be attached to someone else's record
+
+  3. Security
+    - RLS enabled on `booking_codes` with no policies; codes are stored hashed and only the functions above
+      touch them. Mirrors src/lib/bookingCodes.ts.
+*/
+
+CREATE TABLE IF NOT EXISTS booking_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone_key text NOT NULL,
+  code_hash text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  attempts integer NOT NULL DEFAULT 0,
+  verified_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_codes_phone ON booking_codes(phone_key, created_at DESC);
+
+ALTER TABLE booking_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION hash_booking_code(p_phone_key text, p_code text)
+RETURNS text AS $$
+  SELECT encode(digest(p_phone_key || ':' || p_code, 'sha256'), 'hex');
+$$ LANGUAGE sql IMMUTABLE SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION create_booking_code(p_phone text)
+RETURNS text AS $$
+DECLARE
+  key text := phone_key(p_phone);
+  code text;
+BEGIN
+  IF length(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g')) < 7 THEN
+    RAISE EXCEPTION 'Please enter your full phone number';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM booking_codes WHERE phone_key = key AND created_at > now() - interval '10 minutes'
+  ) >= 3 THEN
+    RAISE EXCEPTION 'Too many codes requested. Please wait a few minutes and try again';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM patients WHERE merged_into IS NULL AND phone_key(phone) = key) THEN
+    RETURN NULL;
+  END IF;
+
+  code := lpad(((('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::bigint) % 1000000)::text, 6, '0');
+
+  INSERT INTO booking_codes (phone_key, code_hash, expires_at)
+  VALUES (key, hash_booking_code(key, code), now() + interval '10 minutes');
+
+  RETURN code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION verify_booking_code(p_phone text, p_code text)
+RETURNS jsonb AS $$
+DECLARE
+  key text := phone_key(p_phone);
+  code_row booking_codes;
+BEGIN
+  SELECT * INTO code_row
+  FROM booking_codes
+  WHERE phone_key = key AND verified_at IS NULL
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF code_row.id IS NULL OR code_row.expires_at < now() THEN
+    RETURN jsonb_build_object('status', 'expired');
+  END IF;
+  IF code_row.attempts >= 5 THEN
+    RETURN jsonb_build_object('status', 'locked');
+  END IF;
+  IF code_row.code_hash <> hash_booking_code(key, trim(COALESCE(p_code, ''))) THEN
+    UPDATE booking_codes SET attempts = attempts + 1 WHERE id = code_row.id;
+    RETURN jsonb_build_object('status', 'incorrect');
+  END IF;
+
+  UPDATE booking_codes SET verified_at = now() WHERE id = code_row.id;
+
+  RETURN jsonb_build_object(
+    'status', 'verified',
+    'profiles', COALESCE((
+      SELECT jsonb_agg(profile ORDER BY profile ->> 'last_visit_at' DESC NULLS LAST)
+      FROM (
+        SELECT jsonb_build_object(
+          'id', p.id,
+          'name', p.name,
+          'age', p.age,
+          'phone', p.phone,
+          'gender', p.gender,
+          'email', p.email,
+          'address', p.address,
+          'emergency_contact_name', p.emergency_contact_name,
+          'emergency_contact_phone', p.emergency_contact_phone,
+          'allergies', p.allergies,
+          'current_medications', p.current_medications,
+          'last_visit_at', (SELECT max(v.created_at) FROM visits v WHERE v.patient_id = p.id)
+        ) AS profile
+        FROM patients p
+        WHERE p.merged_into IS NULL AND phone_key(p.phone) = key
+      ) profiles
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION link_visit_patient()
+RETURNS trigger AS $$
+BEGIN
+  NEW.patient_id := resolve_visit_patient(NEW);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION hash_booking_code(text, text) FROM public;
+REVOKE ALL ON FUNCTION create_booking_code(text) FROM public, anon, authenticated;
+REVOKE ALL ON FUNCTION verify_booking_code(text, text) FROM public;
+GRANT EXECUTE ON FUNCTION create_booking_code(text) TO service_role;
+GRANT EXECUTE ON FUNCTION verify_booking_code(text, text) TO anon, authenticated;
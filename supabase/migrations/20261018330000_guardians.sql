@@ -0,0 +1,172 @@
+/*
+  # Guardians and dependents
+
+  1. Changes
+    - `visits.guardian_name`, `visits.guardian_relationship` - Set when someone books for a dependent (a child,
+      spouse, parent or other) under their own phone number: who booked, and how the patient is related to them
+    - `patients.guardian_id`, `patients.guardian_relationship` - Set on dependents: the patient whose phone
+      number they are booked under. One phone number can have many dependents, each with their own patient
+      record, visits and history.
+
+  2. Functions
+    - `resolve_visit_patient()` matches people booking for themselves and dependents separately, so a parent
+      and a child with the same name and phone number stay two patients. A dependent booking links the patient
+      to the guardian, adding the guardian as a patient if they have never visited. Dependents booked as
+      themselves before guardians existed are matched too, as long as they aren't the guardian.
+    - `is_branch_patient()` also covers the guardians of the branch's patients, so staff can see who booked
+    - `verify_booking_code()` profiles include each dependent's guardian and relationship
+
+  3. Security
+    - No new policies; guardians are read and updated through the existing patient policies
+*/
+
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS guardian_name text;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS guardian_relationship text
+  CHECK (guardian_relationship IN ('child', 'spouse', 'parent', 'other'));
+
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS guardian_id uuid REFERENCES patients(id);
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS guardian_relationship text
+  CHECK (guardian_relationship IN ('child', 'spouse', 'parent', 'other'));
+
+CREATE INDEX IF NOT EXISTS idx_patients_guardian_id ON patients(guardian_id);
+
+-- Mirrors resolvePatient in src/lib/data/localBackend.ts
+CREATE OR REPLACE FUNCTION resolve_visit_patient(v visits)
+RETURNS uuid AS $$
+DECLARE
+  guardian uuid;
+  match_id uuid;
+BEGIN
+  IF phone_key(v.phone) <> '' AND trim(COALESCE(v.guardian_name, '')) <> '' THEN
+    SELECT id INTO guardian
+    FROM patients
+    WHERE merged_into IS NULL
+      AND guardian_id IS NULL
+      AND phone_key(phone) = phone_key(v.phone)
+      AND normalize_patient_name(name) = normalize_patient_name(v.guardian_name)
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF guardian IS NULL THEN
+      INSERT INTO patients (name, phone) VALUES (trim(v.guardian_name), v.phone) RETURNING id INTO guardian;
+    END IF;
+  END IF;
+
+  IF phone_key(v.phone) <> '' THEN
+    SELECT id INTO match_id
+    FROM patients
+    WHERE merged_into IS NULL
+      AND phone_key(phone) = phone_key(v.phone)
+      AND normalize_patient_name(name) = normalize_patient_name(v.name)
+      AND CASE
+        WHEN guardian IS NULL THEN guardian_id IS NULL
+        ELSE guardian_id IS NOT NULL OR id <> guardian
+      END
+    ORDER BY guardian_id IS NULL, created_at
+    LIMIT 1;
+  END IF;
+
+  IF match_id IS NULL THEN
+    INSERT INTO patients (
+      name, age, phone, email, gender, address, emergency_contact_name, emergency_contact_phone,
+      allergies, medical_history, current_medications
+    ) VALUES (
+      trim(v.name), v.age, NULLIF(v.phone, ''), NULLIF(v.email, ''), v.gender, NULLIF(v.address, ''),
+      NULLIF(v.emergency_contact_name, ''), NULLIF(v.emergency_contact_phone, ''), NULLIF(v.allergies, ''),
+      NULLIF(v.medical_history, ''), NULLIF(v.current_medications, '')
+    )
+    RETURNING id INTO match_id;
+  ELSE
+    UPDATE patients SET
+      name = trim(v.name),
+      age = COALESCE(v.age, age),
+      phone = COALESCE(NULLIF(v.phone, ''), phone),
+      email = COALESCE(NULLIF(v.email, ''), email),
+      gender = COALESCE(v.gender, gender),
+      address = COALESCE(NULLIF(v.address, ''), address),
+      emergency_contact_name = COALESCE(NULLIF(v.emergency_contact_name, ''), emergency_contact_name),
+      emergency_contact_phone = COALESCE(NULLIF(v.emergency_contact_phone, ''), emergency_contact_phone),
+      allergies = COALESCE(NULLIF(v.allergies, ''), allergies),
+      medical_history = COALESCE(NULLIF(v.medical_history, ''), medical_history),
+      current_medications = COALESCE(NULLIF(v.current_medications, ''), current_medications)
+    WHERE id = match_id;
+  END IF;
+
+  IF guardian IS NOT NULL THEN
+    UPDATE patients SET
+      guardian_id = guardian,
+      guardian_relationship = COALESCE(v.guardian_relationship, guardian_relationship)
+    WHERE id = match_id;
+  END IF;
+
+  RETURN match_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_branch_patient(p_patient_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (SELECT 1 FROM visits v WHERE v.patient_id = p_patient_id AND is_branch_staff(v.branch_id))
+    OR EXISTS (
+      SELECT 1
+      FROM patients d
+      JOIN visits v ON v.patient_id = d.id
+      WHERE d.guardian_id = p_patient_id AND is_branch_staff(v.branch_id)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Same as in 20261018320000_booking_codes.sql, with each dependent's guardian
+CREATE OR REPLACE FUNCTION verify_booking_code(p_phone text, p_code text)
+RETURNS jsonb AS $$
+DECLARE
+  key text := phone_key(p_phone);
+  code_row booking_codes;
+BEGIN
+  SELECT * INTO code_row
+  FROM booking_codes
+  WHERE phone_key = key AND verified_at IS NULL
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF code_row.id IS NULL OR code_row.expires_at < now() THEN
+    RETURN jsonb_build_object('status', 'expired');
+  END IF;
+  IF code_row.attempts >= 5 THEN
+    RETURN jsonb_build_object('status', 'locked');
+  END IF;
+  IF code_row.code_hash <> hash_booking_code(key, trim(COALESCE(p_code, ''))) THEN
+    UPDATE booking_codes SET attempts = attempts + 1 WHERE id = code_row.id;
+    RETURN jsonb_build_object('status', 'incorrect');
+  END IF;
+
+  UPDATE booking_codes SET verified_at = now() WHERE id = code_row.id;
+
+  RETURN jsonb_build_object(
+    'status', 'verified',
+    'profiles', COALESCE((
+      SELECT jsonb_agg(profile ORDER BY profile ->> 'last_visit_at' DESC NULLS LAST)
+      FROM (
+        SELECT jsonb_build_object(
+          'id', p.id,
+          'name', p.name,
+          'age', p.age,
+          'phone', p.phone,
+          'gender', p.gender,
+          'email', p.email,
+          'address', p.address,
+          'emergency_contact_name', p.emergency_contact_name,
+          'emergency_contact_phone', p.emergency_contact_phone,
+          'allergies', p.allergies,
+          'current_medications', p.current_medications,
+          'guardian_id', p.guardian_id,
+          'guardian_relationship', p.guardian_relationship,
+          'guardian_name', (SELECT g.name FROM patients g WHERE g.id = p.guardian_id),
+          'last_visit_at', (SELECT max(v.created_at) FROM visits v WHERE v.patient_id = p.id)
+        ) AS profile
+        FROM patients p
+        WHERE p.merged_into IS NULL AND phone_key(p.phone) = key
+      ) profiles
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
@@ -0,0 +1,315 @@
+/*
+  # Coded allergy and medication lists
+
+  1. Changes
+    - `visits.allergy_list`, `patients.allergy_list` - `[{ code, substance, reaction, severity }]`, where code is
+      one of the allergens in src/lib/medicalAlerts.ts or null for a substance typed in, and severity is 'mild',
+      'moderate' or 'severe'
+    - `visits.medication_list`, `patients.medication_list` - `[{ drug, dose, frequency }]`
+    - The free-text `allergies` and `current_medications` columns stay as notes, and hold everything recorded
+      before the lists existed
+
+  2. Functions
+    - `merge_medical_list(current, new, key)` - The new entries followed by the current ones for any other
+      substance or drug, so one left off a later booking isn't lost
+    - `patient_details()` includes both lists, so changes to them are versioned
+    - `resolve_visit_patient()` adds a booking's allergies and medications to the patient's lists
+    - `merge_patients()` combines the two records' lists and `undo_patient_merge()` restores the survivor's
+    - `verify_booking_code()` profiles include both lists
+
+  3. Security
+    - No new policies; the lists are read and written with the rest of the visit and patient rows
+*/
+
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS allergy_list jsonb;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS medication_list jsonb;
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS allergy_list jsonb;
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS medication_list jsonb;
+
+-- Mirrors mergeMedicalList in src/lib/patients.ts
+CREATE OR REPLACE FUNCTION merge_medical_list(p_current jsonb, p_new jsonb, p_key text)
+RETURNS jsonb AS $$
+  SELECT CASE
+    WHEN p_new IS NULL OR jsonb_array_length(p_new) = 0 THEN NULLIF(p_current, '[]'::jsonb)
+    ELSE p_new || COALESCE((
+      SELECT jsonb_agg(entry)
+      FROM jsonb_array_elements(COALESCE(p_current, '[]'::jsonb)) entry
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(p_new) added
+        WHERE normalize_patient_name(added ->> p_key) = normalize_patient_name(entry ->> p_key)
+      )
+    ), '[]'::jsonb)
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION patient_details(p patients)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'name', p.name,
+    'age', p.age,
+    'phone', p.phone,
+    'email', p.email,
+    'gender', p.gender,
+    'address', p.address,
+    'emergency_contact_name', p.emergency_contact_name,
+    'emergency_contact_phone', p.emergency_contact_phone,
+    'allergies', p.allergies,
+    'medical_history', p.medical_history,
+    'current_medications', p.current_medications,
+    'allergy_list', p.allergy_list,
+    'medication_list', p.medication_list
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Same as in 20261018330000_guardians.sql, with the allergy and medication lists
+CREATE OR REPLACE FUNCTION resolve_visit_patient(v visits)
+RETURNS uuid AS $$
+DECLARE
+  guardian uuid;
+  match_id uuid;
+BEGIN
+  IF phone_key(v.phone) <> '' AND trim(COALESCE(v.guardian_name, '')) <> '' THEN
+    SELECT id INTO guardian
+    FROM patients
+    WHERE merged_into IS NULL
+      AND guardian_id IS NULL
+      AND phone_key(phone) = phone_key(v.phone)
+      AND normalize_patient_name(name) = normalize_patient_name(v.guardian_name)
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF guardian IS NULL THEN
+      INSERT INTO patients (name, phone) VALUES (trim(v.guardian_name), v.phone) RETURNING id INTO guardian;
+    END IF;
+  END IF;
+
+  IF phone_key(v.phone) <> '' THEN
+    SELECT id INTO match_id
+    FROM patients
+    WHERE merged_into IS NULL
+      AND phone_key(phone) = phone_key(v.phone)
+      AND normalize_patient_name(name) = normalize_patient_name(v.name)
+      AND CASE
+        WHEN guardian IS NULL THEN guardian_id IS NULL
+        ELSE guardian_id IS NOT NULL OR id <> guardian
+      END
+    ORDER BY guardian_id IS NULL, created_at
+    LIMIT 1;
+  END IF;
+
+  IF match_id IS NULL THEN
+    INSERT INTO patients (
+      name, age, phone, email, gender, address, emergency_contact_name, emergency_contact_phone,
+      allergies, medical_history, current_medications, allergy_list, medication_list
+    ) VALUES (
+      trim(v.name), v.age, NULLIF(v.phone, ''), NULLIF(v.email, ''), v.gender, NULLIF(v.address, ''),
+      NULLIF(v.emergency_contact_name, ''), NULLIF(v.emergency_contact_phone, ''), NULLIF(v.allergies, ''),
+      NULLIF(v.medical_history, ''), NULLIF(v.current_medications, ''), NULLIF(v.allergy_list, '[]'::jsonb),
+      NULLIF(v.medication_list, '[]'::jsonb)
+    )
+    RETURNING id INTO match_id;
+  ELSE
+    UPDATE patients SET
+      name = trim(v.name),
+      age = COALESCE(v.age, age),
+      phone = COALESCE(NULLIF(v.phone, ''), phone),
+      email = COALESCE(NULLIF(v.email, ''), email),
+      gender = COALESCE(v.gender, gender),
+      address = COALESCE(NULLIF(v.address, ''), address),
+      emergency_contact_name = COALESCE(NULLIF(v.emergency_contact_name, ''), emergency_contact_name),
+      emergency_contact_phone = COALESCE(NULLIF(v.emergency_contact_phone, ''), emergency_contact_phone),
+      allergies = COALESCE(NULLIF(v.allergies, ''), allergies),
+      medical_history = COALESCE(NULLIF(v.medical_history, ''), medical_history),
+      current_medications = COALESCE(NULLIF(v.current_medications, ''), current_medications),
+      allergy_list = merge_medical_list(allergy_list, v.allergy_list, 'substance'),
+      medication_list = merge_medical_list(medication_list, v.medication_list, 'drug')
+    WHERE id = match_id;
+  END IF;
+
+  IF guardian IS NOT NULL THEN
+    UPDATE patients SET
+      guardian_id = guardian,
+      guardian_relationship = COALESCE(v.guardian_relationship, guardian_relationship)
+    WHERE id = match_id;
+  END IF;
+
+  RETURN match_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same as in 20261018310000_patient_merges.sql, combining the two records' lists
+CREATE OR REPLACE FUNCTION merge_patients(p_survivor_id uuid, p_merged_id uuid)
+RETURNS patient_merges AS $$
+DECLARE
+  survivor patients;
+  merged patients;
+  moved_visit_ids uuid[];
+  moved_prescription_ids uuid[];
+  merge_row patient_merges;
+BEGIN
+  IF NOT has_staff_role(ARRAY['owner', 'receptionist']) THEN
+    RAISE EXCEPTION 'Only owners and receptionists can merge patients';
+  END IF;
+  IF p_survivor_id = p_merged_id THEN
+    RAISE EXCEPTION 'A patient cannot be merged into themselves';
+  END IF;
+  IF NOT (is_branch_patient(p_survivor_id) AND is_branch_patient(p_merged_id)) THEN
+    RAISE EXCEPTION 'Patient not found';
+  END IF;
+
+  SELECT * INTO survivor FROM patients WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO merged FROM patients WHERE id = p_merged_id FOR UPDATE;
+  IF survivor.merged_into IS NOT NULL OR merged.merged_into IS NOT NULL THEN
+    RAISE EXCEPTION 'One of these patients has already been merged';
+  END IF;
+
+  WITH moved AS (
+    UPDATE visits SET patient_id = p_survivor_id, updated_at = now() WHERE patient_id = p_merged_id RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO moved_visit_ids FROM moved;
+
+  WITH moved AS (
+    UPDATE prescriptions SET patient_id = p_survivor_id, updated_at = now() WHERE patient_id = p_merged_id RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO moved_prescription_ids FROM moved;
+
+  UPDATE patients SET merged_into = p_survivor_id WHERE id = p_merged_id;
+
+  UPDATE patients SET
+    age = COALESCE(age, merged.age),
+    phone = COALESCE(NULLIF(phone, ''), merged.phone),
+    email = COALESCE(NULLIF(email, ''), merged.email),
+    gender = COALESCE(gender, merged.gender),
+    address = COALESCE(NULLIF(address, ''), merged.address),
+    emergency_contact_name = COALESCE(NULLIF(emergency_contact_name, ''), merged.emergency_contact_name),
+    emergency_contact_phone = COALESCE(NULLIF(emergency_contact_phone, ''), merged.emergency_contact_phone),
+    allergies = COALESCE(NULLIF(allergies, ''), merged.allergies),
+    medical_history = COALESCE(NULLIF(medical_history, ''), merged.medical_history),
+    current_medications = COALESCE(NULLIF(current_medications, ''), merged.current_medications),
+    allergy_list = merge_medical_list(merged.allergy_list, allergy_list, 'substance'),
+    medication_list = merge_medical_list(merged.medication_list, medication_list, 'drug')
+  WHERE id = p_survivor_id;
+
+  INSERT INTO patient_merges (
+    survivor_id, merged_id, survivor_code, merged_code, merged_name, visit_ids, prescription_ids,
+    survivor_details, merged_by
+  ) VALUES (
+    p_survivor_id, p_merged_id, survivor.code, merged.code, merged.name, moved_visit_ids, moved_prescription_ids,
+    patient_details(survivor), current_actor_name()
+  )
+  RETURNING * INTO merge_row;
+
+  RETURN merge_row;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same as in 20261018310000_patient_merges.sql, restoring the survivor's lists
+CREATE OR REPLACE FUNCTION undo_patient_merge(p_merge_id uuid)
+RETURNS void AS $$
+DECLARE
+  merge_row patient_merges;
+  details jsonb;
+BEGIN
+  IF NOT has_staff_role(ARRAY['owner', 'receptionist']) THEN
+    RAISE EXCEPTION 'Only owners and receptionists can undo merges';
+  END IF;
+
+  SELECT * INTO merge_row FROM patient_merges WHERE id = p_merge_id FOR UPDATE;
+  IF merge_row.id IS NULL OR NOT is_branch_patient(merge_row.survivor_id) THEN
+    RAISE EXCEPTION 'Merge not found';
+  END IF;
+  IF merge_row.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This merge has already been undone';
+  END IF;
+  IF (SELECT merged_into FROM patients WHERE id = merge_row.survivor_id) IS NOT NULL THEN
+    RAISE EXCEPTION '% has since been merged into another patient; undo that merge first', merge_row.survivor_code;
+  END IF;
+
+  -- Only what the merge moved, and only if it hasn't been moved again since
+  UPDATE visits SET patient_id = merge_row.merged_id, updated_at = now()
+  WHERE id = ANY(merge_row.visit_ids) AND patient_id = merge_row.survivor_id;
+  UPDATE prescriptions SET patient_id = merge_row.merged_id, updated_at = now()
+  WHERE id = ANY(merge_row.prescription_ids) AND patient_id = merge_row.survivor_id;
+
+  UPDATE patients SET merged_into = NULL WHERE id = merge_row.merged_id;
+
+  details := merge_row.survivor_details;
+  UPDATE patients SET
+    name = details ->> 'name',
+    age = (details ->> 'age')::integer,
+    phone = details ->> 'phone',
+    email = details ->> 'email',
+    gender = details ->> 'gender',
+    address = details ->> 'address',
+    emergency_contact_name = details ->> 'emergency_contact_name',
+    emergency_contact_phone = details ->> 'emergency_contact_phone',
+    allergies = details ->> 'allergies',
+    medical_history = details ->> 'medical_history',
+    current_medications = details ->> 'current_medications',
+    allergy_list = NULLIF(details -> 'allergy_list', 'null'::jsonb),
+    medication_list = NULLIF(details -> 'medication_list', 'null'::jsonb)
+  WHERE id = merge_row.survivor_id;
+
+  UPDATE patient_merges SET undone_at = now(), undone_by = current_actor_name() WHERE id = p_merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same as in 20261018330000_guardians.sql, with the allergy and medication lists
+CREATE OR REPLACE FUNCTION verify_booking_code(p_phone text, p_code text)
+RETURNS jsonb AS $$
+DECLARE
+  key text := phone_key(p_phone);
+  code_row booking_codes;
+BEGIN
+  SELECT * INTO code_row
+  FROM booking_codes
+  WHERE phone_key = key AND verified_at IS NULL
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF code_row.id IS NULL OR code_row.expires_at < now() THEN
+    RETURN jsonb_build_object('status', 'expired');
+  END IF;
+  IF code_row.attempts >= 5 THEN
+    RETURN jsonb_build_object('status', 'locked');
+  END IF;
+  IF code_row.code_hash <> hash_booking_code(key, trim(COALESCE(p_code, ''))) THEN
+    UPDATE booking_codes SET attempts = attempts + 1 WHERE id = code_row.id;
+    RETURN jsonb_build_object('status', 'incorrect');
+  END IF;
+
+  UPDATE booking_codes SET verified_at = now() WHERE id = code_row.id;
+
+  RETURN jsonb_build_object(
+    'status', 'verified',
+    'profiles', COALESCE((
+      SELECT jsonb_agg(profile ORDER BY profile ->> 'last_visit_at' DESC NULLS LAST)
+      FROM (
+        SELECT jsonb_build_object(
+          'id', p.id,
+          'name', p.name,
+          'age', p.age,
+          'phone', p.phone,
+          'gender', p.gender,
+          'email', p.email,
+          'address', p.address,
+          'emergency_contact_name', p.emergency_contact_name,
+          'emergency_contact_phone', p.emergency_contact_phone,
+          'allergies', p.allergies,
+          'current_medications', p.current_medications,
+          'allergy_list', p.allergy_list,
+          'medication_list', p.medication_list,
+          'guardian_id', p.guardian_id,
+          'guardian_relationship', p.guardian_relationship,
+          'guardian_name', (SELECT g.name FROM patients g WHERE g.id = p.guardian_id),
+          'last_visit_at', (SELECT max(v.created_at) FROM visits v WHERE v.patient_id = p.id)
+        ) AS profile
+        FROM patients p
+        WHERE p.merged_into IS NULL AND phone_key(p.phone) = key
+      ) profiles
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
@@ -0,0 +1,165 @@
+/*
+  # Stronger ownership checks for patient self-service
+
+  1. New Tables
+    - `self_service_attempts` - Failed attempts to change a booking online, per UID
+
+  2. Functions
+    - `claim_visit_for_patient(p_uid, p_access_key, p_phone, p_check_in_code)` replaces
+      `claim_visit_for_patient(p_uid, p_phone_digits)`. The patient proves the visit is theirs the same way as for
+      `get_public_visit` rather than with the last 4 digits of the phone number, which UIDs issued in sequence
+      made easy to guess.
+    - `cancel_visit_by_patient` and `reschedule_visit_by_patient` take the same credentials
+    - After 5 failed attempts within an hour, the booking can't be changed online until the hour is up
+
+  3. Security
+    - A failed attempt returns no row instead of raising, so the count is kept rather than rolled back
+    - Nobody reads or writes `self_service_attempts` directly; mirrors findOwnedVisit in
+      src/lib/data/localBackend.ts
+*/
+
+CREATE TABLE IF NOT EXISTS self_service_attempts (
+  uid text PRIMARY KEY,
+  failed_attempts integer NOT NULL DEFAULT 0,
+  last_failed_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE self_service_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP FUNCTION IF EXISTS cancel_visit_by_patient(text, text);
+DROP FUNCTION IF EXISTS reschedule_visit_by_patient(text, text, date, text);
+DROP FUNCTION IF EXISTS claim_visit_for_patient(text, text);
+
+-- Locks and returns the visit after checking ownership and the cutoff window; returns null for the wrong
+-- credentials after counting the attempt
+CREATE FUNCTION claim_visit_for_patient(p_uid text, p_access_key text, p_phone text, p_check_in_code text)
+RETURNS visits AS $$
+DECLARE
+  target visits;
+  attempt self_service_attempts;
+  cutoff integer;
+BEGIN
+  SELECT * INTO attempt FROM self_service_attempts WHERE uid = p_uid;
+  IF attempt.failed_attempts >= 5 AND attempt.last_failed_at > now() - interval '1 hour' THEN
+    RAISE EXCEPTION 'Too many attempts. Please try again in an hour or contact the clinic';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM get_public_visit(p_uid, p_access_key, p_phone, p_check_in_code)) THEN
+    IF EXISTS (SELECT 1 FROM visits WHERE uid = p_uid) THEN
+      INSERT INTO self_service_attempts AS attempts (uid, failed_attempts, last_failed_at)
+      VALUES (p_uid, 1, now())
+      ON CONFLICT (uid) DO UPDATE SET
+        failed_attempts = CASE
+          WHEN attempts.last_failed_at > now() - interval '1 hour' THEN attempts.failed_attempts + 1
+          ELSE 1
+        END,
+        last_failed_at = now();
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM self_service_attempts WHERE uid = p_uid;
+
+  SELECT * INTO target FROM visits WHERE uid = p_uid FOR UPDATE;
+
+  IF target.visit_status <> 'upcoming' THEN
+    RAISE EXCEPTION 'Only upcoming bookings can be changed online';
+  END IF;
+
+  SELECT COALESCE(self_service_cutoff_hours, 2) INTO cutoff FROM clinic_settings
+  WHERE branch_id IS NOT DISTINCT FROM target.branch_id;
+  cutoff := COALESCE(cutoff, 2);
+
+  IF target.appointment_date + COALESCE(target.appointment_slot::time, time '00:00')
+      - make_interval(hours => cutoff) < localtimestamp THEN
+    RAISE EXCEPTION 'Bookings can only be changed online up to % hours before the appointment', cutoff;
+  END IF;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE FUNCTION cancel_visit_by_patient(p_uid text, p_access_key text, p_phone text, p_check_in_code text)
+RETURNS SETOF public_visit AS $$
+DECLARE
+  target visits;
+BEGIN
+  target := claim_visit_for_patient(p_uid, p_access_key, p_phone, p_check_in_code);
+  IF target.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE visits
+  SET visit_status = 'cancelled',
+      cancelled_at = now(),
+      cancellation_reason = 'Cancelled by patient',
+      updated_at = now()
+  WHERE id = target.id;
+
+  PERFORM renumber_queue(target.appointment_date);
+
+  RETURN QUERY SELECT (to_public_visit(v)).* FROM visits v WHERE v.id = target.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same as in 20261018260000_private_visit_lookup.sql, with the new credentials
+CREATE FUNCTION reschedule_visit_by_patient(
+  p_uid text,
+  p_access_key text,
+  p_phone text,
+  p_check_in_code text,
+  p_day date,
+  p_slot text
+)
+RETURNS SETOF public_visit AS $$
+DECLARE
+  target visits;
+  new_token integer;
+BEGIN
+  target := claim_visit_for_patient(p_uid, p_access_key, p_phone, p_check_in_code);
+  IF target.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF p_day + p_slot::time <= localtimestamp THEN
+    RAISE EXCEPTION 'Please choose a time in the future';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM visits
+    WHERE id <> target.id
+      AND doctor_id IS NOT DISTINCT FROM target.doctor_id
+      AND appointment_date = p_day
+      AND appointment_slot = p_slot
+      AND visit_status NOT IN ('cancelled', 'no_show')
+  ) THEN
+    RAISE EXCEPTION 'That slot is no longer available';
+  END IF;
+
+  IF p_day <> target.appointment_date THEN
+    SELECT allocated.token_number INTO new_token
+    FROM allocate_visit_token(p_day, target.doctor_id) allocated;
+  END IF;
+
+  UPDATE visits
+  SET appointment_date = p_day,
+      appointment_slot = p_slot,
+      estimated_time = to_char(p_slot::time, 'FMHH12:MI AM'),
+      token_number = COALESCE(new_token, token_number),
+      queue_position = COALESCE(new_token, queue_position),
+      updated_at = now()
+  WHERE id = target.id;
+
+  PERFORM renumber_queue(target.appointment_date);
+  PERFORM renumber_queue(p_day);
+
+  RETURN QUERY SELECT (to_public_visit(v)).* FROM visits v WHERE v.id = target.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION claim_visit_for_patient(text, text, text, text) FROM public;
+REVOKE ALL ON FUNCTION cancel_visit_by_patient(text, text, text, text) FROM public;
+REVOKE ALL ON FUNCTION reschedule_visit_by_patient(text, text, text, text, date, text) FROM public;
+
+GRANT EXECUTE ON FUNCTION cancel_visit_by_patient(text, text, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_visit_by_patient(text, text, text, text, date, text) TO anon, authenticated;
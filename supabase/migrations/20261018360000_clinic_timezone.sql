@@ -0,0 +1,293 @@
+/*
+  # Clinic time zone and server-side slot checks
+
+  1. Changes
+    - `clinic_settings.timezone` - IANA name of the branch's time zone (default 'Asia/Kolkata'). Appointment
+      dates and slots are the clinic's wall-clock time, while `now()`, `localtimestamp` and `current_date` follow
+      the database's time zone, which is UTC on Supabase.
+
+  2. Functions
+    - `clinic_localtime(p_branch_id)` and `clinic_today(p_branch_id)` - The branch's current time and date
+    - `time_key_minutes(p_time)`, `parse_shift(p_label, p_shift)` and `closure_covers_time(p_closure, p_time)` -
+      Mirror fromTimeKey, parseShift and closureCoversTime in src/lib
+    - `get_slot_problem(p_branch_id, p_doctor_id, p_day, p_slot, p_visit_id)` - Why a slot can't be booked, or
+      null when it can: the booking window, closures, the doctor's or clinic's weekly hours, slot alignment,
+      the slot being in the past or taken, and the day and session caps. Mirrors getSlotProblem in
+      src/lib/scheduling.ts.
+    - `claim_visit_for_patient()` checks the cutoff in the clinic's time
+    - `reschedule_visit_by_patient()` only moves a booking to a slot `get_slot_problem()` allows
+*/
+
+ALTER TABLE clinic_settings ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'Asia/Kolkata';
+
+-- Converting the time fails for a name Postgres doesn't know
+ALTER TABLE clinic_settings DROP CONSTRAINT IF EXISTS clinic_settings_timezone_valid;
+ALTER TABLE clinic_settings
+  ADD CONSTRAINT clinic_settings_timezone_valid CHECK (now() AT TIME ZONE timezone IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION clinic_localtime(p_branch_id uuid)
+RETURNS timestamp AS $$
+  SELECT now() AT TIME ZONE COALESCE(
+    (SELECT timezone FROM clinic_settings WHERE branch_id IS NOT DISTINCT FROM p_branch_id LIMIT 1),
+    'Asia/Kolkata'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION clinic_today(p_branch_id uuid)
+RETURNS date AS $$
+  SELECT clinic_localtime(p_branch_id)::date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION time_key_minutes(p_time text)
+RETURNS integer AS $$
+  SELECT (extract(epoch FROM p_time::time) / 60)::integer;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Free-text shifts like "9:00 AM - 1:00 PM" as a session; null when they don't read as a start and a later end
+CREATE OR REPLACE FUNCTION parse_shift(p_label text, p_shift text)
+RETURNS jsonb AS $$
+  WITH times AS (
+    SELECT n,
+      (m[1]::integer % 12 + CASE WHEN upper(m[3]) = 'PM' OR (m[3] IS NULL AND m[1]::integer = 12) THEN 12 ELSE 0 END)
+        * 60 + COALESCE(m[2], '0')::integer AS minutes
+    FROM regexp_matches(COALESCE(p_shift, ''), '(\d{1,2})(?::(\d{2}))?\s*(AM|PM)?', 'gi')
+      WITH ORDINALITY AS matches(m, n)
+  ),
+  bounds AS (
+    SELECT
+      (SELECT minutes FROM times WHERE n = 1) AS start_minutes,
+      (SELECT minutes FROM times WHERE n = 2) AS end_minutes
+  )
+  SELECT jsonb_build_object(
+    'label', p_label,
+    'start', to_char(time '00:00' + make_interval(mins => start_minutes), 'HH24:MI'),
+    'end', to_char(time '00:00' + make_interval(mins => end_minutes), 'HH24:MI')
+  )
+  FROM bounds
+  WHERE end_minutes > start_minutes;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Sessions starting before midday belong to the morning half of the day
+CREATE OR REPLACE FUNCTION closure_covers_time(p_closure jsonb, p_time text)
+RETURNS boolean AS $$
+  SELECT CASE p_closure ->> 'part'
+    WHEN 'full' THEN true
+    WHEN 'morning' THEN p_time < '12:00'
+    ELSE p_time >= '12:00'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION get_slot_problem(
+  p_branch_id uuid,
+  p_doctor_id uuid,
+  p_day date,
+  p_slot text,
+  p_visit_id uuid
+)
+RETURNS text AS $$
+DECLARE
+  settings clinic_settings;
+  schedule jsonb;
+  sessions jsonb;
+  closure jsonb;
+  slot_session jsonb;
+  today date := clinic_today(p_branch_id);
+  weekday text := to_char(p_day, 'FMDay');
+  slot_minutes integer;
+  slot_start integer;
+  booked integer;
+BEGIN
+  SELECT * INTO settings FROM clinic_settings WHERE branch_id IS NOT DISTINCT FROM p_branch_id LIMIT 1;
+  SELECT weekly_schedule INTO schedule FROM doctors WHERE id = p_doctor_id;
+  schedule := COALESCE(schedule, settings.weekly_schedule);
+
+  IF p_day < today OR p_day >= today + 14 THEN
+    RETURN 'Please choose a date within the next 14 days';
+  END IF;
+
+  -- Closures saved before reasons existed are plain full-day holiday dates
+  IF settings.closures IS NOT NULL THEN
+    SELECT c INTO closure FROM jsonb_array_elements(settings.closures) c WHERE c ->> 'date' = p_day::text LIMIT 1;
+  ELSIF p_day = ANY(settings.holiday_dates) THEN
+    closure := jsonb_build_object('date', p_day, 'part', 'full', 'reason', 'Holiday');
+  END IF;
+
+  -- Settings saved before structured hours existed only have the free-text shifts and operating days
+  IF schedule IS NOT NULL THEN
+    sessions := COALESCE(schedule -> weekday, '[]'::jsonb);
+  ELSIF settings.operating_days IS NULL OR weekday = ANY(settings.operating_days) THEN
+    SELECT COALESCE(jsonb_agg(shift), '[]'::jsonb) INTO sessions
+    FROM (VALUES (parse_shift('Morning', settings.morning_shift)), (parse_shift('Evening', settings.evening_shift)))
+      AS shifts(shift)
+    WHERE shift IS NOT NULL;
+  ELSE
+    sessions := '[]'::jsonb;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(s), '[]'::jsonb) INTO sessions
+  FROM jsonb_array_elements(sessions) s
+  WHERE closure IS NULL OR NOT closure_covers_time(closure, s ->> 'start');
+
+  IF jsonb_array_length(sessions) = 0 THEN
+    IF closure IS NOT NULL THEN
+      RETURN format('The clinic is closed (%s)', closure ->> 'reason');
+    END IF;
+    RETURN format('The clinic is closed on %ss', weekday);
+  END IF;
+
+  IF p_slot IS NULL OR p_slot !~ '^([01]\d|2[0-3]):[0-5]\d$' THEN
+    RETURN 'That time is outside clinic hours. Please choose another slot';
+  END IF;
+
+  -- Slots run back to back from the start of each session and must finish by its end
+  slot_minutes := COALESCE(NULLIF(settings.average_consultation_time, 0), 15);
+  slot_start := time_key_minutes(p_slot);
+  SELECT s INTO slot_session
+  FROM jsonb_array_elements(sessions) s
+  WHERE slot_start >= time_key_minutes(s ->> 'start')
+    AND slot_start + slot_minutes <= time_key_minutes(s ->> 'end')
+    AND (slot_start - time_key_minutes(s ->> 'start')) % slot_minutes = 0
+  LIMIT 1;
+
+  IF slot_session IS NULL OR (closure IS NOT NULL AND closure_covers_time(closure, p_slot)) THEN
+    RETURN 'That time is outside clinic hours. Please choose another slot';
+  END IF;
+
+  IF p_day + p_slot::time <= clinic_localtime(p_branch_id) THEN
+    RETURN 'Please choose a time in the future';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM visits
+    WHERE id IS DISTINCT FROM p_visit_id
+      AND doctor_id IS NOT DISTINCT FROM p_doctor_id
+      AND appointment_date = p_day
+      AND appointment_slot = p_slot
+      AND visit_status NOT IN ('cancelled', 'no_show')
+  ) THEN
+    RETURN 'That slot is no longer available';
+  END IF;
+
+  SELECT count(*) INTO booked
+  FROM visits
+  WHERE id IS DISTINCT FROM p_visit_id
+    AND doctor_id IS NOT DISTINCT FROM p_doctor_id
+    AND appointment_date = p_day
+    AND appointment_slot IS NOT NULL
+    AND visit_status NOT IN ('cancelled', 'no_show');
+  IF booked >= COALESCE(NULLIF(settings.max_daily_appointments, 0), 50) THEN
+    RETURN 'That day is fully booked';
+  END IF;
+
+  IF slot_session ? 'capacity' AND (
+    SELECT count(*)
+    FROM visits
+    WHERE id IS DISTINCT FROM p_visit_id
+      AND doctor_id IS NOT DISTINCT FROM p_doctor_id
+      AND appointment_date = p_day
+      AND appointment_slot >= slot_session ->> 'start'
+      AND appointment_slot < slot_session ->> 'end'
+      AND visit_status NOT IN ('cancelled', 'no_show')
+  ) >= (slot_session ->> 'capacity')::integer THEN
+    RETURN 'That session is fully booked';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Same as in 20261018350000_self_service_attempts.sql, with the cutoff in the clinic's time
+CREATE OR REPLACE FUNCTION claim_visit_for_patient(p_uid text, p_access_key text, p_phone text, p_check_in_code text)
+RETURNS visits AS $$
+DECLARE
+  target visits;
+  attempt self_service_attempts;
+  cutoff integer;
+BEGIN
+  SELECT * INTO attempt FROM self_service_attempts WHERE uid = p_uid;
+  IF attempt.failed_attempts >= 5 AND attempt.last_failed_at > now() - interval '1 hour' THEN
+    RAISE EXCEPTION 'Too many attempts. Please try again in an hour or contact the clinic';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM get_public_visit(p_uid, p_access_key, p_phone, p_check_in_code)) THEN
+    IF EXISTS (SELECT 1 FROM visits WHERE uid = p_uid) THEN
+      INSERT INTO self_service_attempts AS attempts (uid, failed_attempts, last_failed_at)
+      VALUES (p_uid, 1, now())
+      ON CONFLICT (uid) DO UPDATE SET
+        failed_attempts = CASE
+          WHEN attempts.last_failed_at > now() - interval '1 hour' THEN attempts.failed_attempts + 1
+          ELSE 1
+        END,
+        last_failed_at = now();
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM self_service_attempts WHERE uid = p_uid;
+
+  SELECT * INTO target FROM visits WHERE uid = p_uid FOR UPDATE;
+
+  IF target.visit_status <> 'upcoming' THEN
+    RAISE EXCEPTION 'Only upcoming bookings can be changed online';
+  END IF;
+
+  SELECT COALESCE(self_service_cutoff_hours, 2) INTO cutoff FROM clinic_settings
+  WHERE branch_id IS NOT DISTINCT FROM target.branch_id;
+  cutoff := COALESCE(cutoff, 2);
+
+  IF target.appointment_date + COALESCE(target.appointment_slot::time, time '00:00')
+      - make_interval(hours => cutoff) < clinic_localtime(target.branch_id) THEN
+    RAISE EXCEPTION 'Bookings can only be changed online up to % hours before the appointment', cutoff;
+  END IF;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same as in 20261018350000_self_service_attempts.sql, checking the new slot with get_slot_problem()
+CREATE OR REPLACE FUNCTION reschedule_visit_by_patient(
+  p_uid text,
+  p_access_key text,
+  p_phone text,
+  p_check_in_code text,
+  p_day date,
+  p_slot text
+)
+RETURNS SETOF public_visit AS $$
+DECLARE
+  target visits;
+  problem text;
+  new_token integer;
+BEGIN
+  target := claim_visit_for_patient(p_uid, p_access_key, p_phone, p_check_in_code);
+  IF target.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  problem := get_slot_problem(target.branch_id, target.doctor_id, p_day, p_slot, target.id);
+  IF problem IS NOT NULL THEN
+    RAISE EXCEPTION '%', problem;
+  END IF;
+
+  IF p_day <> target.appointment_date THEN
+    SELECT allocated.token_number INTO new_token
+    FROM allocate_visit_token(p_day, target.doctor_id) allocated;
+  END IF;
+
+  UPDATE visits
+  SET appointment_date = p_day,
+      appointment_slot = p_slot,
+      estimated_time = to_char(p_slot::time, 'FMHH12:MI AM'),
+      token_number = COALESCE(new_token, token_number),
+      queue_position = COALESCE(new_token, queue_position),
+      updated_at = now()
+  WHERE id = target.id;
+
+  PERFORM renumber_queue(target.appointment_date);
+  PERFORM renumber_queue(p_day);
+
+  RETURN QUERY SELECT (to_public_visit(v)).* FROM visits v WHERE v.id = target.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_slot_problem(uuid, uuid, date, text, uuid) FROM public;
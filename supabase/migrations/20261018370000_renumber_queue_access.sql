@@ -0,0 +1,43 @@
+/*
+  # Queue renumbering for staff only
+
+  1. Functions
+    - `renumber_queue(p_day)` is no longer callable by anyone directly; the patient self-service functions and
+      the trigger below still use it
+    - `renumber_queue_as_staff(p_day)` - The same for signed-in staff who run the queue
+    - `renumber_queue_after_booking()` - Slots each new booking in at the end of its doctor's waiting queue,
+      which the booking form used to do by calling `renumber_queue` itself
+
+  2. Security
+    - Anonymous callers could rewrite the queue positions of any day
+*/
+
+CREATE OR REPLACE FUNCTION renumber_queue_as_staff(p_day date)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_staff_role(ARRAY['owner', 'doctor', 'receptionist']) THEN
+    RAISE EXCEPTION 'Only staff who run the queue can renumber it';
+  END IF;
+
+  PERFORM renumber_queue(p_day);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION renumber_queue_after_booking()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.appointment_date IS NOT NULL THEN
+    PERFORM renumber_queue(NEW.appointment_date);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS renumber_queue_after_booking ON visits;
+CREATE TRIGGER renumber_queue_after_booking
+  AFTER INSERT ON visits
+  FOR EACH ROW EXECUTE FUNCTION renumber_queue_after_booking();
+
+REVOKE ALL ON FUNCTION renumber_queue(date) FROM public, anon, authenticated;
+REVOKE ALL ON FUNCTION renumber_queue_as_staff(date) FROM public;
+GRANT EXECUTE ON FUNCTION renumber_queue_as_staff(date) TO authenticated;
@@ -0,0 +1,120 @@
+/*
+  # Keep clinical details from accountants
+
+  1. Views
+    - `staff_visits` - The branch's visits for any staff role, with symptoms, medical history, consultation notes
+      and prescriptions left blank unless the signed-in user is an owner, doctor or receptionist. The admin panel
+      reads visits through it.
+
+  2. Functions
+    - `set_visit_payment_status(p_visit_id, p_payment_status)` - Marks a visit paid or pending for the front desk
+      and accounts, as accountants can no longer read the visit rows they update
+
+  3. Security
+    - Visits and prescriptions: only owners, doctors and receptionists read the tables, which replaces the admin
+      panel hiding clinical notes from accountants in 20261018240000_staff_roles.sql
+    - Accountants get no live visit updates, as those follow the table's read policy
+    - Mirrors the view_clinical permission in src/lib/staff.ts
+*/
+
+CREATE OR REPLACE VIEW staff_visits WITH (security_barrier) AS
+SELECT
+  v.id,
+  v.uid,
+  v.access_key,
+  v.token_number,
+  v.name,
+  v.age,
+  v.phone,
+  v.email,
+  v.gender,
+  v.address,
+  v.reason,
+  CASE WHEN access.clinical THEN v.symptoms END AS symptoms,
+  CASE WHEN access.clinical THEN v.medical_history END AS medical_history,
+  CASE WHEN access.clinical THEN v.allergies END AS allergies,
+  CASE WHEN access.clinical THEN v.current_medications END AS current_medications,
+  CASE WHEN access.clinical THEN v.allergy_list END AS allergy_list,
+  CASE WHEN access.clinical THEN v.medication_list END AS medication_list,
+  v.emergency_contact_name,
+  v.emergency_contact_phone,
+  v.payment_method,
+  v.payment_status,
+  v.payment_id,
+  v.payment_amount,
+  v.visit_status,
+  v.queue_position,
+  v.doctor_id,
+  v.branch_id,
+  v.patient_id,
+  v.guardian_name,
+  v.guardian_relationship,
+  v.priority,
+  v.position_change_reason,
+  v.position_changed_at,
+  v.appointment_date,
+  v.appointment_slot,
+  v.estimated_time,
+  v.actual_wait_time,
+  v.consultation_start_time,
+  v.consultation_end_time,
+  v.created_at,
+  v.arrived_at,
+  v.called_at,
+  v.call_count,
+  v.no_show_at,
+  v.requeued_at,
+  v.prior_no_shows,
+  v.completed_at,
+  v.cancelled_at,
+  v.cancellation_reason,
+  v.updated_at,
+  CASE WHEN access.clinical THEN v.notes END AS notes,
+  CASE WHEN access.clinical THEN v.diagnosis END AS diagnosis,
+  CASE WHEN access.clinical THEN v.treatment_plan END AS treatment_plan,
+  CASE WHEN access.clinical THEN v.follow_up_date END AS follow_up_date,
+  CASE WHEN access.clinical THEN v.follow_up_instructions END AS follow_up_instructions,
+  CASE WHEN access.clinical THEN v.prescription_id END AS prescription_id,
+  CASE WHEN access.clinical THEN v.prescription_url END AS prescription_url,
+  CASE WHEN access.clinical THEN v.prescription_notes END AS prescription_notes,
+  v.doctor_rating,
+  v.feedback
+FROM visits v
+CROSS JOIN LATERAL (SELECT has_staff_role(ARRAY['owner', 'doctor', 'receptionist']) AS clinical) access
+WHERE is_branch_staff(v.branch_id) AND current_staff_role() IS NOT NULL;
+
+REVOKE ALL ON staff_visits FROM public, anon;
+GRANT SELECT ON staff_visits TO authenticated;
+
+CREATE OR REPLACE FUNCTION set_visit_payment_status(p_visit_id uuid, p_payment_status text)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_staff_role(ARRAY['owner', 'receptionist', 'accountant']) THEN
+    RAISE EXCEPTION 'Only the front desk and accounts can change payments';
+  END IF;
+
+  -- check_visit_update() still runs as the signed-in user and limits the change to payments
+  UPDATE visits
+  SET payment_status = p_payment_status,
+      updated_at = now()
+  WHERE id = p_visit_id AND is_branch_staff(branch_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Visit % not found', p_visit_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION set_visit_payment_status(uuid, text) FROM public;
+GRANT EXECUTE ON FUNCTION set_visit_payment_status(uuid, text) TO authenticated;
+
+DROP POLICY IF EXISTS "Branch staff can read visits" ON visits;
+DROP POLICY IF EXISTS "Branch staff can read prescriptions" ON prescriptions;
+
+CREATE POLICY "Clinical staff can read visits" ON visits FOR SELECT TO authenticated
+  USING (is_branch_staff(branch_id) AND has_staff_role(ARRAY['owner', 'doctor', 'receptionist']));
+CREATE POLICY "Clinical staff can read prescriptions" ON prescriptions FOR SELECT TO authenticated
+  USING (
+    has_staff_role(ARRAY['owner', 'doctor', 'receptionist'])
+    AND EXISTS (SELECT 1 FROM visits v WHERE v.id = prescriptions.visit_id AND is_branch_staff(v.branch_id))
+  );
@@ -0,0 +1,38 @@
+/*
+  # One active booking per slot
+
+  1. Changes to `visits`
+    - Any slot already double-booked keeps its earliest booking; the later ones are cancelled so the index below
+      can be built
+    - `idx_visits_active_slot` - A doctor's slot on a day holds at most one booking that is not cancelled or a
+      no-show. No-shows who re-joined the queue keep their slot time but no longer hold the slot.
+
+  2. Security
+    - Two patients submitting the same slot at once could both get it, as the booking form only re-checks the slot
+      before saving. The second insert now fails and the form asks the patient to pick another time.
+*/
+
+UPDATE visits
+SET visit_status = 'cancelled',
+    cancelled_at = now(),
+    cancellation_reason = 'Slot was double-booked',
+    updated_at = now()
+WHERE id IN (
+  SELECT id FROM (
+    SELECT
+      id,
+      row_number() OVER (
+        PARTITION BY doctor_id, appointment_date, appointment_slot
+        ORDER BY created_at, id
+      ) AS n
+    FROM visits
+    WHERE appointment_slot IS NOT NULL
+      AND visit_status NOT IN ('cancelled', 'no_show')
+      AND requeued_at IS NULL
+  ) ranked
+  WHERE n > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_visits_active_slot
+  ON visits(doctor_id, appointment_date, appointment_slot)
+  WHERE visit_status NOT IN ('cancelled', 'no_show') AND requeued_at IS NULL;
@@ -0,0 +1,10 @@
+/*
+  # Prefill returning patients only after they verify their phone
+
+  1. Functions
+    - `find_returning_patient(p_name, p_phone)` is dropped. Anyone who knew a patient's name and phone number could
+      read their email, address and emergency contact through it. The booking form now prefills a returning
+      patient's details only from `verify_booking_code()`, once they have entered the code texted to their phone.
+*/
+
+DROP FUNCTION IF EXISTS find_returning_patient(text, text);
@@ -0,0 +1,93 @@
+/*
+  # Bookings no longer overwrite patient records
+
+  1. Functions
+    - `resolve_visit_patient()` still links every booking to the patient with its name and phone number, or a new
+      one, but only bookings made by the front desk or doctors update an existing patient's details and guardian.
+      Anyone could book under a patient's name and phone number and replace their address, emergency contact or
+      medical notes.
+    - A patient's own booking keeps what they entered on the visit; staff see where it differs from the record on
+      the patient's profile and copy it over if it's right, which saves a new version of the record
+
+  2. Security
+    - Mirrors resolvePatient in src/lib/data/localBackend.ts
+*/
+
+-- Same as in 20261018340000_medical_lists.sql, but only staff bookings change an existing patient's details
+CREATE OR REPLACE FUNCTION resolve_visit_patient(v visits)
+RETURNS uuid AS $$
+DECLARE
+  guardian uuid;
+  match_id uuid;
+  created boolean := false;
+  confirmed boolean := has_staff_role(ARRAY['owner', 'doctor', 'receptionist']);
+BEGIN
+  IF phone_key(v.phone) <> '' AND trim(COALESCE(v.guardian_name, '')) <> '' THEN
+    SELECT id INTO guardian
+    FROM patients
+    WHERE merged_into IS NULL
+      AND guardian_id IS NULL
+      AND phone_key(phone) = phone_key(v.phone)
+      AND normalize_patient_name(name) = normalize_patient_name(v.guardian_name)
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF guardian IS NULL THEN
+      INSERT INTO patients (name, phone) VALUES (trim(v.guardian_name), v.phone) RETURNING id INTO guardian;
+    END IF;
+  END IF;
+
+  IF phone_key(v.phone) <> '' THEN
+    SELECT id INTO match_id
+    FROM patients
+    WHERE merged_into IS NULL
+      AND phone_key(phone) = phone_key(v.phone)
+      AND normalize_patient_name(name) = normalize_patient_name(v.name)
+      AND CASE
+        WHEN guardian IS NULL THEN guardian_id IS NULL
+        ELSE guardian_id IS NOT NULL OR id <> guardian
+      END
+    ORDER BY guardian_id IS NULL, created_at
+    LIMIT 1;
+  END IF;
+
+  IF match_id IS NULL THEN
+    INSERT INTO patients (
+      name, age, phone, email, gender, address, emergency_contact_name, emergency_contact_phone,
+      allergies, medical_history, current_medications, allergy_list, medication_list
+    ) VALUES (
+      trim(v.name), v.age, NULLIF(v.phone, ''), NULLIF(v.email, ''), v.gender, NULLIF(v.address, ''),
+      NULLIF(v.emergency_contact_name, ''), NULLIF(v.emergency_contact_phone, ''), NULLIF(v.allergies, ''),
+      NULLIF(v.medical_history, ''), NULLIF(v.current_medications, ''), NULLIF(v.allergy_list, '[]'::jsonb),
+      NULLIF(v.medication_list, '[]'::jsonb)
+    )
+    RETURNING id INTO match_id;
+    created := true;
+  ELSIF confirmed THEN
+    UPDATE patients SET
+      name = trim(v.name),
+      age = COALESCE(v.age, age),
+      phone = COALESCE(NULLIF(v.phone, ''), phone),
+      email = COALESCE(NULLIF(v.email, ''), email),
+      gender = COALESCE(v.gender, gender),
+      address = COALESCE(NULLIF(v.address, ''), address),
+      emergency_contact_name = COALESCE(NULLIF(v.emergency_contact_name, ''), emergency_contact_name),
+      emergency_contact_phone = COALESCE(NULLIF(v.emergency_contact_phone, ''), emergency_contact_phone),
+      allergies = COALESCE(NULLIF(v.allergies, ''), allergies),
+      medical_history = COALESCE(NULLIF(v.medical_history, ''), medical_history),
+      current_medications = COALESCE(NULLIF(v.current_medications, ''), current_medications),
+      allergy_list = merge_medical_list(allergy_list, v.allergy_list, 'substance'),
+      medication_list = merge_medical_list(medication_list, v.medication_list, 'drug')
+    WHERE id = match_id;
+  END IF;
+
+  IF guardian IS NOT NULL AND (created OR confirmed) THEN
+    UPDATE patients SET
+      guardian_id = guardian,
+      guardian_relationship = COALESCE(v.guardian_relationship, guardian_relationship)
+    WHERE id = match_id;
+  END IF;
+
+  RETURN match_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
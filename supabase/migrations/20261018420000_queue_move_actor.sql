@@ -0,0 +1,27 @@
+/*
+  # Record who moved a visit in the queue on the server
+
+  1. Changes to `queue_moves`
+    - `moved_by_id` - The staff profile of whoever made the move
+    - `moved_by` is now their name as in the audit log rather than whatever the admin panel sent
+
+  2. Functions
+    - `set_queue_move_actor()` - Trigger that fills in both from the signed-in user, as `record_audit_entry()` does,
+      so a move can't be put down to someone else
+*/
+
+ALTER TABLE queue_moves ADD COLUMN IF NOT EXISTS moved_by_id uuid;
+
+CREATE OR REPLACE FUNCTION set_queue_move_actor()
+RETURNS trigger AS $$
+BEGIN
+  NEW.moved_by_id := (SELECT id FROM staff_profiles WHERE user_id = auth.uid());
+  NEW.moved_by := current_actor_name();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_queue_move_actor ON queue_moves;
+CREATE TRIGGER set_queue_move_actor
+  BEFORE INSERT ON queue_moves
+  FOR EACH ROW EXECUTE FUNCTION set_queue_move_actor();
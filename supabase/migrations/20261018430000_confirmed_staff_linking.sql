@@ -0,0 +1,56 @@
+/*
+  # Link staff profiles only to confirmed email addresses
+
+  1. Functions
+    - `link_staff_profile()` now runs when an auth user is created or updated and links the profile for their email
+      only once the address is confirmed. Anyone could sign up with an invited email before the invitee and take
+      over the profile and its role.
+    - `prepare_staff_profile()` links a new profile straight away only to an existing account whose email is
+      confirmed; otherwise it waits for the trigger above
+
+  2. Security
+    - Profiles already linked to an account whose email was never confirmed are unlinked, and are linked again
+      when the address is confirmed
+*/
+
+UPDATE staff_profiles sp
+SET user_id = NULL, updated_at = now()
+FROM auth.users u
+WHERE u.id = sp.user_id AND u.email_confirmed_at IS NULL;
+
+-- Same as in 20261018250000_staff_management.sql, for confirmed addresses only
+CREATE OR REPLACE FUNCTION link_staff_profile()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.email_confirmed_at IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.staff_profiles
+  SET user_id = NEW.id, updated_at = now()
+  WHERE user_id IS NULL AND email = lower(NEW.email);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Invitation links confirm the address when the invitee first opens one, and email changes when they're confirmed
+DROP TRIGGER IF EXISTS link_confirmed_staff_profile ON auth.users;
+CREATE TRIGGER link_confirmed_staff_profile
+  AFTER UPDATE OF email, email_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (NEW.email_confirmed_at IS NOT NULL)
+  EXECUTE FUNCTION link_staff_profile();
+
+-- Same as in 20261018250000_staff_management.sql, for confirmed addresses only
+CREATE OR REPLACE FUNCTION prepare_staff_profile()
+RETURNS trigger AS $$
+BEGIN
+  NEW.email := lower(trim(NEW.email));
+  IF NEW.user_id IS NULL THEN
+    SELECT id INTO NEW.user_id
+    FROM auth.users
+    WHERE lower(email) = NEW.email AND email_confirmed_at IS NOT NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
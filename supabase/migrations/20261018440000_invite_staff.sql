@@ -0,0 +1,52 @@
+/*
+  # Invite staff in one step
+
+  1. Functions
+    - `invite_staff(p_email, p_full_name, p_role, p_branch_ids)` - Creates the staff profile and its branch
+      assignments together, for owners. Inviting an email whose invitation hasn't been accepted yet updates that
+      profile and its branches instead, so an invitation whose email failed to send can simply be sent again.
+      Returns the profile's id.
+
+  2. Security
+    - The admin panel used to insert the profile and branches separately, so a failure part way left a profile
+      that blocked inviting the same email again
+*/
+
+CREATE OR REPLACE FUNCTION invite_staff(p_email text, p_full_name text, p_role text, p_branch_ids uuid[])
+RETURNS uuid AS $$
+DECLARE
+  normalized_email text := lower(trim(p_email));
+  existing staff_profiles;
+  profile_id uuid;
+BEGIN
+  IF NOT has_staff_role(ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only owners can invite staff';
+  END IF;
+
+  SELECT * INTO existing FROM staff_profiles WHERE email = normalized_email FOR UPDATE;
+
+  IF existing.id IS NOT NULL AND existing.user_id IS NOT NULL THEN
+    RAISE EXCEPTION 'A staff member with that email already exists';
+  END IF;
+
+  IF existing.id IS NULL THEN
+    INSERT INTO staff_profiles (email, full_name, role)
+    VALUES (normalized_email, trim(p_full_name), p_role)
+    RETURNING id INTO profile_id;
+  ELSE
+    UPDATE staff_profiles
+    SET full_name = trim(p_full_name), role = p_role, is_active = true, invited_at = now(), updated_at = now()
+    WHERE id = existing.id;
+    profile_id := existing.id;
+  END IF;
+
+  DELETE FROM branch_staff WHERE staff_id = profile_id;
+  INSERT INTO branch_staff (staff_id, branch_id)
+  SELECT profile_id, unnest(p_branch_ids);
+
+  RETURN profile_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION invite_staff(text, text, text, uuid[]) FROM public;
+GRANT EXECUTE ON FUNCTION invite_staff(text, text, text, uuid[]) TO authenticated;
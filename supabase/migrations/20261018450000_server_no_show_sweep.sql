@@ -0,0 +1,74 @@
+/*
+  # Mark no-shows on the server
+
+  1. Functions
+    - `sweep_no_shows(p_branch_id)` - Marks the branch's visits as no-shows once the grace period after their call,
+      or after their slot started, is over, and returns the visits it marked. Only visits still upcoming are
+      changed, so concurrent sweeps never mark a visit twice or undo a check-in that happened meanwhile. Today and
+      slot times are in the clinic's time zone. Mirrors isNoShowDue in src/lib/queue.ts.
+    - `mark_no_shows(p_branch_id)` - The same for the queue page's staff, which runs it every minute while open
+    - Where pg_cron is available the sweep also runs every minute for every branch, so no-shows are marked when
+      nobody has the queue open
+
+  2. Security
+    - The queue page used to mark no-shows itself from every open tab, one update per visit
+    - `sweep_no_shows` can't be called through the API
+*/
+
+CREATE OR REPLACE FUNCTION sweep_no_shows(p_branch_id uuid)
+RETURNS SETOF visits AS $$
+DECLARE
+  settings clinic_settings;
+  today date := clinic_today(p_branch_id);
+BEGIN
+  SELECT * INTO settings FROM clinic_settings WHERE branch_id IS NOT DISTINCT FROM p_branch_id LIMIT 1;
+
+  RETURN QUERY
+  WITH marked AS (
+    UPDATE visits v
+    SET visit_status = 'no_show',
+        no_show_at = now(),
+        updated_at = now()
+    WHERE v.branch_id IS NOT DISTINCT FROM p_branch_id
+      AND v.appointment_date = today
+      AND v.visit_status = 'upcoming'
+      AND COALESCE(
+        v.called_at,
+        (v.appointment_date + v.appointment_slot::time) AT TIME ZONE COALESCE(settings.timezone, 'Asia/Kolkata')
+      ) + make_interval(mins => COALESCE(settings.no_show_grace_minutes, 15)) <= now()
+    RETURNING v.*
+  )
+  SELECT * FROM marked;
+
+  IF FOUND THEN
+    PERFORM renumber_queue(today);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION mark_no_shows(p_branch_id uuid)
+RETURNS SETOF visits AS $$
+BEGIN
+  IF NOT (has_staff_role(ARRAY['owner', 'doctor', 'receptionist']) AND is_branch_staff(p_branch_id)) THEN
+    RAISE EXCEPTION 'Only staff who run the queue can mark no-shows';
+  END IF;
+
+  RETURN QUERY SELECT * FROM sweep_no_shows(p_branch_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION sweep_no_shows(uuid) FROM public, anon, authenticated;
+REVOKE ALL ON FUNCTION mark_no_shows(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION mark_no_shows(uuid) TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'sweep-no-shows',
+      '* * * * *',
+      'SELECT count(*) FROM public.branches b CROSS JOIN LATERAL public.sweep_no_shows(b.id)'
+    );
+  END IF;
+END $$;
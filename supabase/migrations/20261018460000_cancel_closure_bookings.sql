@@ -0,0 +1,63 @@
+/*
+  # Cancel a closure's bookings in one step
+
+  1. Functions
+    - `cancel_closure_bookings(p_branch_id, p_day, p_reason)` - Cancels every active booking the branch's saved
+      closure on that day takes away, for owners, and returns the cancelled visits so staff can tell the patients.
+      Walk-ins without a slot only count for full-day closures. Mirrors isVisitAffectedByClosure in
+      src/lib/scheduling.ts.
+
+  2. Security
+    - The settings page used to cancel the bookings one update at a time, so a failure part way left some of them
+      booked on a closed day
+*/
+
+CREATE OR REPLACE FUNCTION cancel_closure_bookings(p_branch_id uuid, p_day date, p_reason text)
+RETURNS SETOF visits AS $$
+DECLARE
+  settings clinic_settings;
+  closure jsonb;
+BEGIN
+  IF NOT (has_staff_role(ARRAY['owner']) AND is_branch_staff(p_branch_id)) THEN
+    RAISE EXCEPTION 'Only owners can cancel bookings for a closure';
+  END IF;
+
+  SELECT * INTO settings FROM clinic_settings WHERE branch_id IS NOT DISTINCT FROM p_branch_id LIMIT 1;
+
+  -- Same as in 20261018360000_clinic_timezone.sql
+  IF settings.closures IS NOT NULL THEN
+    SELECT c INTO closure FROM jsonb_array_elements(settings.closures) c WHERE c ->> 'date' = p_day::text LIMIT 1;
+  ELSIF p_day = ANY(settings.holiday_dates) THEN
+    closure := jsonb_build_object('date', p_day, 'part', 'full', 'reason', 'Holiday');
+  END IF;
+
+  IF closure IS NULL THEN
+    RAISE EXCEPTION 'Save the closure before cancelling its bookings';
+  END IF;
+
+  RETURN QUERY
+  WITH cancelled AS (
+    UPDATE visits v
+    SET visit_status = 'cancelled',
+        cancelled_at = now(),
+        cancellation_reason = p_reason,
+        updated_at = now()
+    WHERE v.branch_id IS NOT DISTINCT FROM p_branch_id
+      AND v.appointment_date = p_day
+      AND v.visit_status IN ('upcoming', 'arrived')
+      AND CASE
+        WHEN v.appointment_slot IS NOT NULL THEN closure_covers_time(closure, v.appointment_slot)
+        ELSE closure ->> 'part' = 'full'
+      END
+    RETURNING v.*
+  )
+  SELECT * FROM cancelled;
+
+  IF FOUND THEN
+    PERFORM renumber_queue(p_day);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION cancel_closure_bookings(uuid, date, text) FROM public;
+GRANT EXECUTE ON FUNCTION cancel_closure_bookings(uuid, date, text) TO authenticated;
@@ -0,0 +1,55 @@
+/*
+  # Check-in codes expire on the clinic's date
+
+  1. Functions
+    - `clinic_date(p_branch_id, p_at)` - The branch's date at a given moment
+    - `check_in_code_status(p_code)` - A code now expires once its day has passed in the time zone of its visit's
+      branch rather than in UTC, which ended codes early in the evening or let them run into the next morning
+    - `get_check_in_code(p_uid, p_access_key)` - Walk-ins without an appointment date get a code for the day they
+      arrived at the clinic, not the UTC day
+*/
+
+CREATE OR REPLACE FUNCTION clinic_date(p_branch_id uuid, p_at timestamptz)
+RETURNS date AS $$
+  SELECT (p_at AT TIME ZONE COALESCE(
+    (SELECT timezone FROM clinic_settings WHERE branch_id IS NOT DISTINCT FROM p_branch_id LIMIT 1),
+    'Asia/Kolkata'
+  ))::date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Same as in 20261018270000_signed_check_in_codes.sql, in the clinic's time zone
+CREATE OR REPLACE FUNCTION check_in_code_status(p_code text)
+RETURNS text AS $$
+DECLARE
+  parts text[] := string_to_array(COALESCE(p_code, ''), '.');
+  valid_on date;
+BEGIN
+  IF array_length(parts, 1) IS DISTINCT FROM 3 OR parts[2] !~ '^\d{6}$' THEN
+    RETURN 'invalid';
+  END IF;
+
+  BEGIN
+    valid_on := to_date(parts[2], 'YYMMDD');
+  EXCEPTION WHEN others THEN
+    RETURN 'invalid';
+  END;
+
+  IF sign_check_in_code(parts[1], valid_on) <> p_code THEN
+    RETURN 'invalid';
+  END IF;
+
+  IF valid_on < clinic_today((SELECT branch_id FROM visits WHERE uid = parts[1])) THEN
+    RETURN 'expired';
+  END IF;
+
+  RETURN 'valid';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+-- Same as in 20261018270000_signed_check_in_codes.sql, in the clinic's time zone
+CREATE OR REPLACE FUNCTION get_check_in_code(p_uid text, p_access_key text)
+RETURNS text AS $$
+  SELECT sign_check_in_code(v.uid, COALESCE(v.appointment_date, clinic_date(v.branch_id, v.created_at)))
+  FROM visits v
+  WHERE v.uid = p_uid AND v.access_key = p_access_key;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
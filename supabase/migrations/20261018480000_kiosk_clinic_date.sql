@@ -0,0 +1,51 @@
+/*
+  # Kiosk check-in on the clinic's date
+
+  1. Functions
+    - `check_in_visit_by_patient()` compares the booking's day with today in the clinic's time zone rather than in
+      UTC, which turned away patients arriving in the early morning and let yesterday's bookings check in
+*/
+
+-- Same as in 20261018280000_kiosk_check_in.sql, in the clinic's time zone
+CREATE OR REPLACE FUNCTION check_in_visit_by_patient(
+  p_uid text,
+  p_access_key text,
+  p_phone text,
+  p_check_in_code text,
+  p_branch_id uuid
+)
+RETURNS SETOF public_visit AS $$
+DECLARE
+  target visits;
+  visit_day date;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM get_public_visit(p_uid, p_access_key, p_phone, p_check_in_code)) THEN
+    RAISE EXCEPTION 'We could not find a booking with that UID';
+  END IF;
+
+  SELECT * INTO target FROM visits WHERE uid = p_uid FOR UPDATE;
+
+  IF target.branch_id IS DISTINCT FROM p_branch_id THEN
+    RAISE EXCEPTION 'This booking is for another branch. Please see the front desk';
+  END IF;
+
+  IF target.visit_status NOT IN ('upcoming', 'arrived') THEN
+    RAISE EXCEPTION 'This booking can no longer be checked in here. Please see the front desk';
+  END IF;
+
+  visit_day := COALESCE(target.appointment_date, clinic_date(target.branch_id, target.created_at));
+  IF visit_day <> clinic_today(target.branch_id) THEN
+    RAISE EXCEPTION 'This booking is for %. Please see the front desk', to_char(visit_day, 'FMDay, FMMonth FMDD');
+  END IF;
+
+  IF target.visit_status = 'upcoming' THEN
+    UPDATE visits
+    SET visit_status = 'arrived',
+        arrived_at = now(),
+        updated_at = now()
+    WHERE id = target.id;
+  END IF;
+
+  RETURN QUERY SELECT (to_public_visit(v)).* FROM visits v WHERE v.id = target.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
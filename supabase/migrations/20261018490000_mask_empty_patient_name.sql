@@ -0,0 +1,21 @@
+/*
+  # Mask an empty name as an empty string
+
+  1. Functions
+    - `mask_patient_name(p_name)` returned "***" for an empty or blank name, because splitting an empty string
+      gives one empty word, and names starting with a tab or line break were masked from an empty first word. It
+      now trims all whitespace and returns an empty string for an empty name, like maskPatientName in
+      src/lib/queue.ts.
+*/
+
+-- Same as in 20261018200000_waiting_room_display.sql, for empty names
+CREATE OR REPLACE FUNCTION mask_patient_name(p_name text)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN COALESCE(words[1], '') = '' THEN ''
+    WHEN array_length(words, 1) = 1 THEN upper(left(words[1], 1)) || '***'
+    ELSE upper(left(words[1], 1)) || '*** ' || upper(left(words[array_length(words, 1)], 1)) || '.'
+  END
+  FROM (SELECT regexp_split_to_array(regexp_replace(COALESCE(p_name, ''), '^\s+|\s+$', '', 'g'), '\s+') AS words)
+    parts;
+$$ LANGUAGE sql IMMUTABLE;
@@ -0,0 +1,97 @@
+/*
+  # Keep patients' clinical details from accountants
+
+  1. Views
+    - `staff_patients` - The branch's patients for any staff role, with allergies, medical history and
+      medications left blank unless the signed-in user is an owner, doctor or receptionist
+    - `staff_patient_versions` and `staff_patient_merges` - The same for each version's details and the
+      survivor's details saved with a merge
+    - The admin panel reads patients, versions and merges through them
+
+  2. Security
+    - Patients, patient versions and merges: only owners, doctors and receptionists read the tables, as for
+      visits in 20261018380000_accountant_visit_access.sql. The patient pages used to only hide these details
+      from accountants.
+    - Mirrors the view_clinical permission in src/lib/staff.ts
+*/
+
+-- The clinical keys of patient_details()
+CREATE OR REPLACE FUNCTION mask_patient_details(p_details jsonb, p_clinical boolean)
+RETURNS jsonb AS $$
+  SELECT CASE
+    WHEN p_clinical THEN p_details
+    ELSE p_details - ARRAY['allergies', 'medical_history', 'current_medications', 'allergy_list', 'medication_list']
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE VIEW staff_patients WITH (security_barrier) AS
+SELECT
+  p.id,
+  p.code,
+  p.name,
+  p.age,
+  p.phone,
+  p.email,
+  p.gender,
+  p.address,
+  p.emergency_contact_name,
+  p.emergency_contact_phone,
+  CASE WHEN access.clinical THEN p.allergies END AS allergies,
+  CASE WHEN access.clinical THEN p.medical_history END AS medical_history,
+  CASE WHEN access.clinical THEN p.current_medications END AS current_medications,
+  CASE WHEN access.clinical THEN p.allergy_list END AS allergy_list,
+  CASE WHEN access.clinical THEN p.medication_list END AS medication_list,
+  p.version,
+  p.merged_into,
+  p.guardian_id,
+  p.guardian_relationship,
+  p.created_at,
+  p.updated_at
+FROM patients p
+CROSS JOIN LATERAL (SELECT has_staff_role(ARRAY['owner', 'doctor', 'receptionist']) AS clinical) access
+WHERE current_staff_role() IS NOT NULL AND is_branch_patient(p.id);
+
+CREATE OR REPLACE VIEW staff_patient_versions WITH (security_barrier) AS
+SELECT
+  pv.id,
+  pv.patient_id,
+  pv.version,
+  mask_patient_details(pv.details, access.clinical) AS details,
+  pv.changed_by,
+  pv.created_at
+FROM patient_versions pv
+CROSS JOIN LATERAL (SELECT has_staff_role(ARRAY['owner', 'doctor', 'receptionist']) AS clinical) access
+WHERE current_staff_role() IS NOT NULL AND is_branch_patient(pv.patient_id);
+
+CREATE OR REPLACE VIEW staff_patient_merges WITH (security_barrier) AS
+SELECT
+  pm.id,
+  pm.survivor_id,
+  pm.merged_id,
+  pm.survivor_code,
+  pm.merged_code,
+  pm.merged_name,
+  pm.visit_ids,
+  pm.prescription_ids,
+  mask_patient_details(pm.survivor_details, access.clinical) AS survivor_details,
+  pm.merged_by,
+  pm.created_at,
+  pm.undone_at,
+  pm.undone_by
+FROM patient_merges pm
+CROSS JOIN LATERAL (SELECT has_staff_role(ARRAY['owner', 'doctor', 'receptionist']) AS clinical) access
+WHERE current_staff_role() IS NOT NULL AND is_branch_patient(pm.survivor_id);
+
+REVOKE ALL ON staff_patients, staff_patient_versions, staff_patient_merges FROM public, anon;
+GRANT SELECT ON staff_patients, staff_patient_versions, staff_patient_merges TO authenticated;
+
+DROP POLICY IF EXISTS "Branch staff can read their patients" ON patients;
+DROP POLICY IF EXISTS "Branch staff can read patient versions" ON patient_versions;
+DROP POLICY IF EXISTS "Branch staff can read patient merges" ON patient_merges;
+
+CREATE POLICY "Clinical staff can read their patients" ON patients FOR SELECT TO authenticated
+  USING (has_staff_role(ARRAY['owner', 'doctor', 'receptionist']) AND is_branch_patient(id));
+CREATE POLICY "Clinical staff can read patient versions" ON patient_versions FOR SELECT TO authenticated
+  USING (has_staff_role(ARRAY['owner', 'doctor', 'receptionist']) AND is_branch_patient(patient_id));
+CREATE POLICY "Clinical staff can read patient merges" ON patient_merges FOR SELECT TO authenticated
+  USING (has_staff_role(ARRAY['owner', 'doctor', 'receptionist']) AND is_branch_patient(survivor_id));
@@ -0,0 +1,163 @@
+/*
+  # Move dependents with a merged patient
+
+  1. Changes to `patient_merges`
+    - `dependent_ids` - The patients booked by the merged record whose guardian became the survivor
+
+  2. Functions
+    - `merge_patients()` also makes the survivor the guardian of the merged record's dependents. They used to
+      keep pointing at the hidden, merged record and dropped out of the survivor's family.
+    - `undo_patient_merge()` gives those dependents back to the merged record, unless their guardian has been
+      changed since
+    - `staff_patient_merges` includes `dependent_ids`
+*/
+
+ALTER TABLE patient_merges ADD COLUMN IF NOT EXISTS dependent_ids uuid[] NOT NULL DEFAULT '{}';
+
+-- Same as in 20261018340000_medical_lists.sql, moving the dependents too
+CREATE OR REPLACE FUNCTION merge_patients(p_survivor_id uuid, p_merged_id uuid)
+RETURNS patient_merges AS $$
+DECLARE
+  survivor patients;
+  merged patients;
+  moved_visit_ids uuid[];
+  moved_prescription_ids uuid[];
+  moved_dependent_ids uuid[];
+  merge_row patient_merges;
+BEGIN
+  IF NOT has_staff_role(ARRAY['owner', 'receptionist']) THEN
+    RAISE EXCEPTION 'Only owners and receptionists can merge patients';
+  END IF;
+  IF p_survivor_id = p_merged_id THEN
+    RAISE EXCEPTION 'A patient cannot be merged into themselves';
+  END IF;
+  IF NOT (is_branch_patient(p_survivor_id) AND is_branch_patient(p_merged_id)) THEN
+    RAISE EXCEPTION 'Patient not found';
+  END IF;
+
+  SELECT * INTO survivor FROM patients WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO merged FROM patients WHERE id = p_merged_id FOR UPDATE;
+  IF survivor.merged_into IS NOT NULL OR merged.merged_into IS NOT NULL THEN
+    RAISE EXCEPTION 'One of these patients has already been merged';
+  END IF;
+
+  WITH moved AS (
+    UPDATE visits SET patient_id = p_survivor_id, updated_at = now() WHERE patient_id = p_merged_id RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO moved_visit_ids FROM moved;
+
+  WITH moved AS (
+    UPDATE prescriptions SET patient_id = p_survivor_id, updated_at = now() WHERE patient_id = p_merged_id RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO moved_prescription_ids FROM moved;
+
+  WITH moved AS (
+    UPDATE patients SET guardian_id = p_survivor_id, updated_at = now()
+    WHERE guardian_id = p_merged_id AND id <> p_survivor_id
+    RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO moved_dependent_ids FROM moved;
+
+  UPDATE patients SET merged_into = p_survivor_id WHERE id = p_merged_id;
+
+  UPDATE patients SET
+    age = COALESCE(age, merged.age),
+    phone = COALESCE(NULLIF(phone, ''), merged.phone),
+    email = COALESCE(NULLIF(email, ''), merged.email),
+    gender = COALESCE(gender, merged.gender),
+    address = COALESCE(NULLIF(address, ''), merged.address),
+    emergency_contact_name = COALESCE(NULLIF(emergency_contact_name, ''), merged.emergency_contact_name),
+    emergency_contact_phone = COALESCE(NULLIF(emergency_contact_phone, ''), merged.emergency_contact_phone),
+    allergies = COALESCE(NULLIF(allergies, ''), merged.allergies),
+    medical_history = COALESCE(NULLIF(medical_history, ''), merged.medical_history),
+    current_medications = COALESCE(NULLIF(current_medications, ''), merged.current_medications),
+    allergy_list = merge_medical_list(merged.allergy_list, allergy_list, 'substance'),
+    medication_list = merge_medical_list(merged.medication_list, medication_list, 'drug')
+  WHERE id = p_survivor_id;
+
+  INSERT INTO patient_merges (
+    survivor_id, merged_id, survivor_code, merged_code, merged_name, visit_ids, prescription_ids, dependent_ids,
+    survivor_details, merged_by
+  ) VALUES (
+    p_survivor_id, p_merged_id, survivor.code, merged.code, merged.name, moved_visit_ids, moved_prescription_ids,
+    moved_dependent_ids, patient_details(survivor), current_actor_name()
+  )
+  RETURNING * INTO merge_row;
+
+  RETURN merge_row;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same as in 20261018340000_medical_lists.sql, giving the dependents back to the merged record
+CREATE OR REPLACE FUNCTION undo_patient_merge(p_merge_id uuid)
+RETURNS void AS $$
+DECLARE
+  merge_row patient_merges;
+  details jsonb;
+BEGIN
+  IF NOT has_staff_role(ARRAY['owner', 'receptionist']) THEN
+    RAISE EXCEPTION 'Only owners and receptionists can undo merges';
+  END IF;
+
+  SELECT * INTO merge_row FROM patient_merges WHERE id = p_merge_id FOR UPDATE;
+  IF merge_row.id IS NULL OR NOT is_branch_patient(merge_row.survivor_id) THEN
+    RAISE EXCEPTION 'Merge not found';
+  END IF;
+  IF merge_row.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This merge has already been undone';
+  END IF;
+  IF (SELECT merged_into FROM patients WHERE id = merge_row.survivor_id) IS NOT NULL THEN
+    RAISE EXCEPTION '% has since been merged into another patient; undo that merge first', merge_row.survivor_code;
+  END IF;
+
+  -- Only what the merge moved, and only if it hasn't been moved again since
+  UPDATE visits SET patient_id = merge_row.merged_id, updated_at = now()
+  WHERE id = ANY(merge_row.visit_ids) AND patient_id = merge_row.survivor_id;
+  UPDATE prescriptions SET patient_id = merge_row.merged_id, updated_at = now()
+  WHERE id = ANY(merge_row.prescription_ids) AND patient_id = merge_row.survivor_id;
+  UPDATE patients SET guardian_id = merge_row.merged_id, updated_at = now()
+  WHERE id = ANY(merge_row.dependent_ids) AND guardian_id = merge_row.survivor_id;
+
+  UPDATE patients SET merged_into = NULL WHERE id = merge_row.merged_id;
+
+  details := merge_row.survivor_details;
+  UPDATE patients SET
+    name = details ->> 'name',
+    age = (details ->> 'age')::integer,
+    phone = details ->> 'phone',
+    email = details ->> 'email',
+    gender = details ->> 'gender',
+    address = details ->> 'address',
+    emergency_contact_name = details ->> 'emergency_contact_name',
+    emergency_contact_phone = details ->> 'emergency_contact_phone',
+    allergies = details ->> 'allergies',
+    medical_history = details ->> 'medical_history',
+    current_medications = details ->> 'current_medications',
+    allergy_list = NULLIF(details -> 'allergy_list', 'null'::jsonb),
+    medication_list = NULLIF(details -> 'medication_list', 'null'::jsonb)
+  WHERE id = merge_row.survivor_id;
+
+  UPDATE patient_merges SET undone_at = now(), undone_by = current_actor_name() WHERE id = p_merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same as in 20261018500000_accountant_patient_access.sql, with the moved dependents
+CREATE OR REPLACE VIEW staff_patient_merges WITH (security_barrier) AS
+SELECT
+  pm.id,
+  pm.survivor_id,
+  pm.merged_id,
+  pm.survivor_code,
+  pm.merged_code,
+  pm.merged_name,
+  pm.visit_ids,
+  pm.prescription_ids,
+  mask_patient_details(pm.survivor_details, access.clinical) AS survivor_details,
+  pm.merged_by,
+  pm.created_at,
+  pm.undone_at,
+  pm.undone_by,
+  pm.dependent_ids
+FROM patient_merges pm
+CROSS JOIN LATERAL (SELECT has_staff_role(ARRAY['owner', 'doctor', 'receptionist']) AS clinical) access
+WHERE current_staff_role() IS NOT NULL AND is_branch_patient(pm.survivor_id);
@@ -0,0 +1,95 @@
+/*
+  # Assign staff only to the owner's own branches, in one step
+
+  1. Functions
+    - `assign_staff_branches(p_staff_id, p_branch_ids)` - Sets which of the signed-in owner's branches a staff
+      member works at. Assignments at branches the owner doesn't work at are left alone, and may be passed back
+      unchanged, but new ones there are refused.
+    - `set_staff_branches(p_staff_id, p_branch_ids)` - The same for the Staff page, for owners. Branches used to be
+      replaced with a delete and then an insert, so a failed insert left the staff member with no branches.
+    - `invite_staff()` assigns branches the same way
+
+  2. Security
+    - Owners could assign any branch, including to themselves, which got round owners only managing their own
+      branches. "Owners can manage branch assignments" is now limited to the owner's branches too.
+*/
+
+CREATE OR REPLACE FUNCTION assign_staff_branches(p_staff_id uuid, p_branch_ids uuid[])
+RETURNS void AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_branch_ids) b(branch_id)
+    WHERE NOT is_branch_staff(b.branch_id)
+      AND NOT EXISTS (SELECT 1 FROM branch_staff bs WHERE bs.staff_id = p_staff_id AND bs.branch_id = b.branch_id)
+  ) THEN
+    RAISE EXCEPTION 'You can only assign staff to branches you work at';
+  END IF;
+
+  DELETE FROM branch_staff
+  WHERE staff_id = p_staff_id AND is_branch_staff(branch_id) AND branch_id <> ALL(p_branch_ids);
+
+  INSERT INTO branch_staff (staff_id, branch_id)
+  SELECT p_staff_id, b.branch_id FROM unnest(p_branch_ids) b(branch_id) WHERE is_branch_staff(b.branch_id)
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_staff_branches(p_staff_id uuid, p_branch_ids uuid[])
+RETURNS void AS $$
+BEGIN
+  IF NOT has_staff_role(ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only owners can change staff branches';
+  END IF;
+
+  PERFORM 1 FROM staff_profiles WHERE id = p_staff_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Staff member % not found', p_staff_id;
+  END IF;
+
+  PERFORM assign_staff_branches(p_staff_id, p_branch_ids);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same as in 20261018440000_invite_staff.sql, assigning only the owner's branches
+CREATE OR REPLACE FUNCTION invite_staff(p_email text, p_full_name text, p_role text, p_branch_ids uuid[])
+RETURNS uuid AS $$
+DECLARE
+  normalized_email text := lower(trim(p_email));
+  existing staff_profiles;
+  profile_id uuid;
+BEGIN
+  IF NOT has_staff_role(ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only owners can invite staff';
+  END IF;
+
+  SELECT * INTO existing FROM staff_profiles WHERE email = normalized_email FOR UPDATE;
+
+  IF existing.id IS NOT NULL AND existing.user_id IS NOT NULL THEN
+    RAISE EXCEPTION 'A staff member with that email already exists';
+  END IF;
+
+  IF existing.id IS NULL THEN
+    INSERT INTO staff_profiles (email, full_name, role)
+    VALUES (normalized_email, trim(p_full_name), p_role)
+    RETURNING id INTO profile_id;
+  ELSE
+    UPDATE staff_profiles
+    SET full_name = trim(p_full_name), role = p_role, is_active = true, invited_at = now(), updated_at = now()
+    WHERE id = existing.id;
+    profile_id := existing.id;
+  END IF;
+
+  PERFORM assign_staff_branches(profile_id, p_branch_ids);
+
+  RETURN profile_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION assign_staff_branches(uuid, uuid[]) FROM public, anon, authenticated;
+REVOKE ALL ON FUNCTION set_staff_branches(uuid, uuid[]) FROM public;
+GRANT EXECUTE ON FUNCTION set_staff_branches(uuid, uuid[]) TO authenticated;
+
+DROP POLICY IF EXISTS "Owners can manage branch assignments" ON branch_staff;
+CREATE POLICY "Owners can manage branch assignments" ON branch_staff FOR ALL TO authenticated
+  USING (has_staff_role(ARRAY['owner']) AND is_branch_staff(branch_id))
+  WITH CHECK (has_staff_role(ARRAY['owner']) AND is_branch_staff(branch_id));
@@ -0,0 +1,112 @@
+/*
+  # Put scheduled changes down to the system
+
+  1. Functions
+    - `current_actor_name()` and `record_audit_entry()` name whoever the `app.actor_name` setting names when no
+      staff member is signed in, before falling back to the patient
+    - `sweep_no_shows()` sets it to 'System' for the rest of its transaction. No-shows marked by the pg_cron job
+      were logged as done by the patient.
+*/
+
+-- Same as in 20261018300000_patient_records.sql, naming the system for scheduled jobs
+CREATE OR REPLACE FUNCTION current_actor_name()
+RETURNS text AS $$
+  SELECT COALESCE(
+    (SELECT COALESCE(NULLIF(full_name, ''), email) FROM staff_profiles WHERE user_id = auth.uid()),
+    NULLIF(current_setting('app.actor_name', true), ''),
+    CASE WHEN auth.uid() IS NULL THEN 'Patient' ELSE 'Unknown user' END
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Same as in 20261018290000_audit_log.sql, naming the system for scheduled jobs
+CREATE OR REPLACE FUNCTION record_audit_entry()
+RETURNS trigger AS $$
+DECLARE
+  old_row jsonb := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE jsonb_strip_nulls(to_jsonb(OLD)) END;
+  new_row jsonb := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE jsonb_strip_nulls(to_jsonb(NEW)) END;
+  row_data jsonb := CASE WHEN TG_OP = 'DELETE' THEN old_row ELSE new_row END;
+  field_changes jsonb;
+  target_visit_id uuid;
+  target_uid text;
+  target_branch_id uuid;
+  actor staff_profiles;
+BEGIN
+  SELECT COALESCE(jsonb_object_agg(field, jsonb_build_object('old', old_row -> field, 'new', new_row -> field)), '{}')
+  INTO field_changes
+  FROM (SELECT jsonb_object_keys(old_row || new_row) AS field) fields
+  WHERE field <> ALL (ARRAY['updated_at', 'queue_position', 'access_key'])
+    AND old_row -> field IS DISTINCT FROM new_row -> field;
+
+  IF field_changes = '{}'::jsonb THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_TABLE_NAME = 'visits' THEN
+    target_visit_id := (row_data ->> 'id')::uuid;
+    target_uid := row_data ->> 'uid';
+    target_branch_id := (row_data ->> 'branch_id')::uuid;
+  ELSE
+    target_visit_id := (row_data ->> 'visit_id')::uuid;
+    SELECT v.uid, v.branch_id INTO target_uid, target_branch_id FROM visits v WHERE v.id = target_visit_id;
+  END IF;
+
+  SELECT * INTO actor FROM staff_profiles WHERE user_id = auth.uid();
+
+  INSERT INTO audit_log (
+    table_name, record_id, visit_id, visit_uid, branch_id, action, changes, actor_id, actor_name, source
+  ) VALUES (
+    TG_TABLE_NAME,
+    (row_data ->> 'id')::uuid,
+    target_visit_id,
+    target_uid,
+    target_branch_id,
+    lower(TG_OP),
+    field_changes,
+    actor.id,
+    CASE
+      WHEN actor.id IS NOT NULL THEN COALESCE(NULLIF(actor.full_name, ''), actor.email)
+      WHEN NULLIF(current_setting('app.actor_name', true), '') IS NOT NULL THEN current_setting('app.actor_name', true)
+      WHEN auth.uid() IS NULL THEN 'Patient'
+      ELSE 'Unknown user'
+    END,
+    NULLIF(current_setting('request.headers', true), '')::json ->> 'x-client-page'
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same as in 20261018450000_server_no_show_sweep.sql, as the system
+CREATE OR REPLACE FUNCTION sweep_no_shows(p_branch_id uuid)
+RETURNS SETOF visits AS $$
+DECLARE
+  settings clinic_settings;
+  today date := clinic_today(p_branch_id);
+BEGIN
+  SELECT * INTO settings FROM clinic_settings WHERE branch_id IS NOT DISTINCT FROM p_branch_id LIMIT 1;
+
+  -- Staff who run the sweep from the queue page are still named; pg_cron runs it without a signed-in user
+  PERFORM set_config('app.actor_name', 'System', true);
+
+  RETURN QUERY
+  WITH marked AS (
+    UPDATE visits v
+    SET visit_status = 'no_show',
+        no_show_at = now(),
+        updated_at = now()
+    WHERE v.branch_id IS NOT DISTINCT FROM p_branch_id
+      AND v.appointment_date = today
+      AND v.visit_status = 'upcoming'
+      AND COALESCE(
+        v.called_at,
+        (v.appointment_date + v.appointment_slot::time) AT TIME ZONE COALESCE(settings.timezone, 'Asia/Kolkata')
+      ) + make_interval(mins => COALESCE(settings.no_show_grace_minutes, 15)) <= now()
+    RETURNING v.*
+  )
+  SELECT * FROM marked;
+
+  IF FOUND THEN
+    PERFORM renumber_queue(today);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
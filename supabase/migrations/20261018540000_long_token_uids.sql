@@ -0,0 +1,43 @@
+/*
+  # UIDs for tokens from 1000 up
+
+  1. Functions
+    - `allocate_visit_token()` pads the token in the UID to at least three digits. It used to cut longer tokens
+      down to three characters, so token 1000 got the same UID as token 100.
+*/
+
+-- Same as in 20261018230000_multi_branch.sql, without cutting off long tokens
+CREATE OR REPLACE FUNCTION allocate_visit_token(p_day date, p_doctor_id uuid)
+RETURNS TABLE (token_number integer, uid text) AS $$
+DECLARE
+  next_token integer;
+  doctor_code text;
+  branch_code text;
+BEGIN
+  SELECT d.code, b.code INTO doctor_code, branch_code
+  FROM doctors d
+  LEFT JOIN branches b ON b.id = d.branch_id
+  WHERE d.id = p_doctor_id;
+  IF doctor_code IS NULL THEN
+    RAISE EXCEPTION 'Unknown doctor';
+  END IF;
+
+  INSERT INTO daily_token_counters AS counters (day, doctor_id, last_token)
+  VALUES (
+    p_day,
+    p_doctor_id,
+    (SELECT COALESCE(MAX(v.token_number), 0) + 1 FROM visits v
+      WHERE v.appointment_date = p_day AND v.doctor_id = p_doctor_id)
+  )
+  ON CONFLICT (day, doctor_id) DO UPDATE
+    SET last_token = counters.last_token + 1,
+        updated_at = now()
+  RETURNING counters.last_token INTO next_token;
+
+  token_number := next_token;
+  -- Keep in sync with generateUID in src/lib/supabase.ts
+  uid := COALESCE(branch_code, 'XC') || '-' || to_char(p_day, 'YYMMDD') || '-' || doctor_code
+    || LPAD(next_token::text, GREATEST(3, length(next_token::text)), '0');
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
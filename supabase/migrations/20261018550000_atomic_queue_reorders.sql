@@ -0,0 +1,192 @@
+/*
+  # Reorder the queue in one step
+
+  1. Functions
+    - `lock_doctor_queue(p_day, p_doctor_id)` - Locks the doctor's waiting visits for the day and returns them in
+      queue order, so reorders of the same queue run one after the other
+    - `get_priority_rule(p_branch_id, p_lane)` - The branch's rule for a priority lane, or the default one. Mirrors
+      DEFAULT_PRIORITY_RULES and getPriorityRules in src/lib/queue.ts.
+    - `move_visit_in_queue(p_visit_id, p_to_position, p_reason)` - Moves a waiting visit to a position in its
+      doctor's queue, tells the patients who moved back why, and logs the move in `queue_moves`
+    - `set_visit_priority(p_visit_id, p_priority)` - Sets or clears a visit's priority lane and moves it up as the
+      lane's rule allows. Mirrors placeByPriority in src/lib/queue.ts.
+    - Both are for staff who run the queue
+
+  2. Security
+    - The queue page used to update each visit that moved separately, so a failure part way left the queue half
+      reordered, and two staff reordering at once could interleave their updates
+*/
+
+CREATE OR REPLACE FUNCTION lock_doctor_queue(p_day date, p_doctor_id uuid)
+RETURNS uuid[] AS $$
+DECLARE
+  queue uuid[];
+BEGIN
+  WITH waiting AS (
+    SELECT id, queue_position, token_number
+    FROM visits
+    WHERE appointment_date = p_day
+      AND doctor_id IS NOT DISTINCT FROM p_doctor_id
+      AND visit_status IN ('upcoming', 'arrived')
+    FOR UPDATE
+  )
+  SELECT COALESCE(array_agg(id ORDER BY queue_position, token_number), '{}') INTO queue FROM waiting;
+
+  RETURN queue;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_priority_rule(p_branch_id uuid, p_lane text)
+RETURNS jsonb AS $$
+  SELECT COALESCE(
+    (
+      SELECT rule
+      FROM clinic_settings s
+      CROSS JOIN LATERAL jsonb_array_elements(COALESCE(s.priority_rules, '[]'::jsonb)) rule
+      WHERE s.branch_id IS NOT DISTINCT FROM p_branch_id AND rule ->> 'lane' = p_lane
+      LIMIT 1
+    ),
+    (
+      SELECT rule
+      FROM jsonb_array_elements('[
+        { "lane": "emergency", "enabled": true, "rank": 1, "max_skip": null },
+        { "lane": "senior", "enabled": true, "rank": 2, "max_skip": 5 },
+        { "lane": "pregnant", "enabled": true, "rank": 2, "max_skip": 5 },
+        { "lane": "follow_up", "enabled": true, "rank": 3, "max_skip": 3 }
+      ]'::jsonb) rule
+      WHERE rule ->> 'lane' = p_lane
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION move_visit_in_queue(p_visit_id uuid, p_to_position integer, p_reason text)
+RETURNS void AS $$
+DECLARE
+  target visits;
+  move_reason text := trim(COALESCE(p_reason, ''));
+  queue uuid[];
+  old_position integer;
+  new_position integer;
+BEGIN
+  IF NOT has_staff_role(ARRAY['owner', 'doctor', 'receptionist']) THEN
+    RAISE EXCEPTION 'Only staff who run the queue can move patients';
+  END IF;
+  IF move_reason = '' THEN
+    RAISE EXCEPTION 'Please give a reason for the move';
+  END IF;
+
+  SELECT * INTO target FROM visits WHERE id = p_visit_id;
+  IF target.id IS NULL OR NOT is_branch_staff(target.branch_id) THEN
+    RAISE EXCEPTION 'Visit % not found', p_visit_id;
+  END IF;
+
+  queue := lock_doctor_queue(target.appointment_date, target.doctor_id);
+  IF NOT p_visit_id = ANY(queue) THEN
+    RAISE EXCEPTION 'Only patients still waiting can be moved';
+  END IF;
+
+  SELECT queue_position INTO old_position FROM visits WHERE id = p_visit_id;
+  new_position := LEAST(GREATEST(p_to_position, 1), array_length(queue, 1));
+  queue := array_remove(queue, p_visit_id);
+  queue := queue[1:new_position - 1] || p_visit_id || queue[new_position:];
+
+  -- Mirrors getPositionChanges in src/lib/queue.ts
+  UPDATE visits v
+  SET queue_position = o.position,
+      position_change_reason = CASE
+        WHEN v.id = p_visit_id THEN 'The front desk moved you: ' || move_reason
+        WHEN o.position > v.queue_position THEN 'The front desk adjusted the queue'
+        ELSE v.position_change_reason
+      END,
+      position_changed_at = CASE
+        WHEN v.id = p_visit_id OR o.position > v.queue_position THEN now()
+        ELSE v.position_changed_at
+      END,
+      updated_at = now()
+  FROM unnest(queue) WITH ORDINALITY AS o(id, position)
+  WHERE v.id = o.id AND v.queue_position IS DISTINCT FROM o.position;
+
+  -- set_queue_move_actor() fills in who moved it
+  INSERT INTO queue_moves (visit_id, visit_uid, visit_date, from_position, to_position, reason)
+  VALUES (target.id, target.uid, target.appointment_date, old_position, new_position, move_reason);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_visit_priority(p_visit_id uuid, p_priority text)
+RETURNS void AS $$
+DECLARE
+  target visits;
+  lane_rule jsonb;
+  queue uuid[];
+  current_index integer;
+  target_index integer;
+  label text := CASE p_priority
+    WHEN 'emergency' THEN 'emergency'
+    WHEN 'senior' THEN 'senior citizen'
+    WHEN 'pregnant' THEN 'pregnancy'
+    WHEN 'follow_up' THEN 'follow-up only'
+  END;
+BEGIN
+  IF NOT has_staff_role(ARRAY['owner', 'doctor', 'receptionist']) THEN
+    RAISE EXCEPTION 'Only staff who run the queue can change priorities';
+  END IF;
+
+  SELECT * INTO target FROM visits WHERE id = p_visit_id;
+  IF target.id IS NULL OR NOT is_branch_staff(target.branch_id) THEN
+    RAISE EXCEPTION 'Visit % not found', p_visit_id;
+  END IF;
+
+  queue := lock_doctor_queue(target.appointment_date, target.doctor_id);
+
+  UPDATE visits SET priority = p_priority, updated_at = now() WHERE id = p_visit_id;
+
+  -- Only setting a lane moves the visit; clearing it leaves everyone where they are
+  lane_rule := get_priority_rule(target.branch_id, p_priority);
+  current_index := array_position(queue, p_visit_id);
+  IF p_priority IS NULL OR current_index IS NULL OR NOT COALESCE((lane_rule ->> 'enabled')::boolean, false) THEN
+    RETURN;
+  END IF;
+
+  -- Behind everyone ahead with the same or a higher priority, but no further than the rule allows
+  SELECT COALESCE(max(o.position), 0) + 1 INTO target_index
+  FROM unnest(queue[1:current_index - 1]) WITH ORDINALITY AS o(id, position)
+  JOIN visits v ON v.id = o.id
+  CROSS JOIN LATERAL (SELECT get_priority_rule(target.branch_id, v.priority) AS other_rule) other
+  WHERE COALESCE((other.other_rule ->> 'enabled')::boolean, false)
+    AND (other.other_rule ->> 'rank')::integer <= (lane_rule ->> 'rank')::integer;
+
+  IF lane_rule ->> 'max_skip' IS NOT NULL THEN
+    target_index := GREATEST(target_index, current_index - (lane_rule ->> 'max_skip')::integer);
+  END IF;
+  IF target_index >= current_index THEN
+    RETURN;
+  END IF;
+
+  queue := array_remove(queue, p_visit_id);
+  queue := queue[1:target_index - 1] || p_visit_id || queue[target_index:];
+
+  -- Mirrors getPositionChanges in src/lib/queue.ts
+  UPDATE visits v
+  SET queue_position = o.position,
+      position_change_reason = CASE
+        WHEN v.id = p_visit_id AND o.position < v.queue_position THEN 'Moved up for ' || label || ' priority'
+        WHEN v.id <> p_visit_id AND o.position > v.queue_position
+          THEN 'A patient needing priority care was placed ahead of you'
+        ELSE v.position_change_reason
+      END,
+      position_changed_at = CASE
+        WHEN v.id = p_visit_id AND o.position < v.queue_position THEN now()
+        WHEN v.id <> p_visit_id AND o.position > v.queue_position THEN now()
+        ELSE v.position_changed_at
+      END,
+      updated_at = now()
+  FROM unnest(queue) WITH ORDINALITY AS o(id, position)
+  WHERE v.id = o.id AND v.queue_position IS DISTINCT FROM o.position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION lock_doctor_queue(date, uuid) FROM public, anon, authenticated;
+REVOKE ALL ON FUNCTION move_visit_in_queue(uuid, integer, text) FROM public;
+REVOKE ALL ON FUNCTION set_visit_priority(uuid, text) FROM public;
+GRANT EXECUTE ON FUNCTION move_visit_in_queue(uuid, integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_visit_priority(uuid, text) TO authenticated;